@@ -0,0 +1,24 @@
+/**
+ * Export Protocol JSON Schemas
+ *
+ * Writes the A2A, AP2 (payments and mandates), handshake and negotiation schemas as JSON Schema
+ * documents to schemas/ so agents written in other languages can validate
+ * Hedron messages.
+ *
+ * Usage: npm run export:schemas
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { getProtocolJsonSchemas } from '../../src/protocols/ProtocolSchemas'
+import chalk from 'chalk'
+
+const outputDir = path.join(__dirname, '..', '..', 'schemas')
+
+fs.mkdirSync(outputDir, { recursive: true })
+
+for (const [name, schema] of Object.entries(getProtocolJsonSchemas())) {
+  const filePath = path.join(outputDir, `${name}.schema.json`)
+  fs.writeFileSync(filePath, JSON.stringify(schema, null, 2) + '\n')
+  console.log(chalk.green(`✅ Wrote ${path.relative(process.cwd(), filePath)}`))
+}
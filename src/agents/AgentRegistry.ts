@@ -4,6 +4,8 @@
  */
 
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
+import { PublicKey } from '@hashgraph/sdk'
+import { PublicKeyResolver } from '../protocols/A2AMessageSigner'
 import { loadEnvIfNeeded } from '../utils/env'
 import chalk from 'chalk'
 
@@ -12,15 +14,16 @@ loadEnvIfNeeded()
 export interface AgentMetadata {
   agentId: string
   agentName: string
-  agentType: 'analyzer' | 'verifier' | 'settlement'
+  agentType: 'analyzer' | 'verifier' | 'settlement' | 'buyer' | 'vendor'
   capabilities: string[]
   supportedMessageTypes: string[]
   topicId: string
   status: 'active' | 'inactive'
   registrationTime?: number
+  publicKey?: string // Hedera public key used to verify the agent's A2A signatures
 }
 
-export class AgentRegistry {
+export class AgentRegistry implements PublicKeyResolver {
   private agents: Map<string, AgentMetadata> = new Map()
   
   /**
@@ -72,6 +75,23 @@ export class AgentRegistry {
     return agent?.status === 'active'
   }
 
+  /**
+   * Resolve an agent's public key for A2A signature verification
+   */
+  resolvePublicKey(agentId: string): PublicKey | null {
+    const publicKey = this.agents.get(agentId)?.publicKey
+    if (!publicKey) {
+      return null
+    }
+
+    try {
+      return PublicKey.fromString(publicKey)
+    } catch (error) {
+      console.error(chalk.red(`❌ Invalid public key registered for ${agentId}: ${(error as Error).message}`))
+      return null
+    }
+  }
+
   /**
    * Get agent summary
    */
@@ -1,83 +1,90 @@
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { Client, AccountInfoQuery, AccountId } from '@hashgraph/sdk'
 import { HCS10ConnectionManager } from '../protocols/HCS10ConnectionManager'
+import { MirrorNodeFeeVerifier } from '../protocols/HCS10FeeVerifier'
+import { HederaConnectionTopicFactory } from '../protocols/HCS10ConnectionTopics'
+import { MessageTransport } from '../transport/MessageTransport'
+import { X402PaymentClient, X402PaidResponse } from '../facilitator/X402PaymentClient'
+import { FileNonceStore } from '../facilitator/NonceStore'
+import { HederaNetworkConfig, getHederaNetwork, createHederaClient, hcs10NetworkOf } from '../config/NetworkRegistry'
+import { AnalyzerAgentConfig, resolveConfig, agentAccount, stateDirOf } from '../config/AgentConfig'
+import { ethers } from 'ethers'
 import axios from 'axios'
 import dotenv from 'dotenv'
+import path from 'path'
 
 // Load environment variables
 dotenv.config()
 
 export class AnalyzerAgent {
-  private hcsClient: HCS10Client
+  private hcsClient?: HCS10Client
+  private transport: MessageTransport
   private hederaClient: Client
   private connectionManager?: HCS10ConnectionManager
-  private readonly MIRROR_NODE_URL = 'https://testnet.mirrornode.hedera.com'
+  private paymentClient?: X402PaymentClient
+  private network: HederaNetworkConfig
+  private agentId: string
 
-  constructor() {
-    // Get agent credentials from environment variables
-    const agentId = process.env.ANALYZER_AGENT_ID
-    const privateKey = process.env.ANALYZER_PRIVATE_KEY
+  /**
+   * @param transport - Optional message transport; defaults to an HCS10Client for the agent account
+   * @param config - Agent settings; defaults to loading them from the environment (ANALYZER_*)
+   */
+  constructor(transport?: MessageTransport, config?: AnalyzerAgentConfig) {
+    const settings = resolveConfig('analyzer', config)
+    this.agentId = settings.agentId
 
-    if (!agentId || !privateKey) {
-      throw new Error('Missing required environment variables: ANALYZER_AGENT_ID and ANALYZER_PRIVATE_KEY')
-    }
+    // Placeholder keys fall back to the main Hedera account
+    const { accountId: agentId, privateKey } = agentAccount(settings)
 
-    // Check if we have a placeholder private key
-    if (privateKey.startsWith('placeholder-key-for-')) {
-      console.warn('⚠️  Using placeholder private key. Agent registration may not have captured the actual private key.')
-      console.warn('⚠️  For now, we\'ll use the main Hedera account for testing.')
-      
-      // Use the main Hedera account credentials for testing
-      const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-      const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
-      
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing main Hedera credentials for fallback')
-      }
-      
-      this.hederaClient = Client.forTestnet()
-      this.hederaClient.setOperator(AccountId.fromString(mainAccountId), mainPrivateKey)
-      
-      // Initialize HCS10Client with main account for now
-      this.hcsClient = new HCS10Client(mainAccountId, mainPrivateKey, 'testnet')
-      
-      // Initialize connection manager (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, mainAccountId)
-      }
+    // Initialize Hedera client for direct queries
+    this.network = getHederaNetwork(settings.network ?? 'testnet')
+    this.hederaClient = createHederaClient(this.network)
+    this.hederaClient.setOperator(AccountId.fromString(agentId), privateKey)
+
+    if (transport) {
+      this.transport = transport
     } else {
-      // Initialize HCS10Client with actual agent credentials
-      this.hcsClient = new HCS10Client(agentId, privateKey, 'testnet')
-      
-      // Also initialize Hedera client for direct queries
-      this.hederaClient = Client.forTestnet()
-      this.hederaClient.setOperator(AccountId.fromString(agentId), privateKey)
-      
-      // Initialize connection manager (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, agentId)
-      }
+      // Initialize HCS10Client with the resolved credentials
+      this.hcsClient = new HCS10Client(agentId, privateKey, hcs10NetworkOf(this.network))
+      this.transport = this.hcsClient
+    }
+
+    // Initialize connection manager (optional)
+    if (settings.useConnections) {
+      this.connectionManager = new HCS10ConnectionManager(this.transport, agentId, {
+        network: this.network,
+        topicFactory: new HederaConnectionTopicFactory(this.network, agentId, privateKey),
+        feeVerifier: new MirrorNodeFeeVerifier(this.network, {
+          usedPayments: new FileNonceStore(path.join(stateDirOf(settings), 'analyzer-fee-payments.json'))
+        }),
+        ...(settings.topicId && { inboundTopicId: settings.topicId }),
+        ...(settings.agentTopics && { inboundTopics: settings.agentTopics })
+      })
+    }
+
+    // Initialize x402 payments for paid data (optional)
+    if (settings.x402Budget) {
+      this.paymentClient = new X402PaymentClient({
+        budget: settings.x402Budget,
+        hederaAccount: { accountId: agentId, privateKey },
+        ...(settings.walletPrivateKey && { evmWallet: new ethers.Wallet(settings.walletPrivateKey) })
+      })
     }
   }
 
   async init(): Promise<void> {
     try {
       // Log initialization success
-      console.log('🔗 AnalyzerAgent initialized for Hedera testnet')
-      console.log(`📡 Mirror node URL: ${this.MIRROR_NODE_URL}`)
-      console.log(`🆔 Agent ID: ${process.env.ANALYZER_AGENT_ID}`)
+      console.log(`🔗 AnalyzerAgent initialized for Hedera ${this.network.name}`)
+      console.log(`📡 Mirror node URL: ${this.network.mirrorNodeUrl}`)
+      console.log(`🆔 Agent ID: ${this.agentId}`)
       
       // Test connection by querying our own account
-      const agentId = process.env.ANALYZER_AGENT_ID
-      if (agentId) {
-        try {
-          const accountInfo = await this.queryAccount(agentId)
-          console.log(`✅ Agent account verified: ${accountInfo.balance} tinybars`)
-        } catch (error) {
-          console.warn(`⚠️  Could not verify agent account ${agentId}:`, (error as Error).message)
-        }
+      try {
+        const accountInfo = await this.queryAccount(this.agentId)
+        console.log(`✅ Agent account verified: ${accountInfo.balance} tinybars`)
+      } catch (error) {
+        console.warn(`⚠️  Could not verify agent account ${this.agentId}:`, (error as Error).message)
       }
     } catch (error) {
       console.error('❌ Failed to initialize AnalyzerAgent:', error)
@@ -115,7 +122,7 @@ export class AnalyzerAgent {
     try {
       console.log(`🔍 Querying account via mirror node: ${accountId}`)
       
-      const response = await axios.get(`${this.MIRROR_NODE_URL}/api/v1/accounts/${accountId}`)
+      const response = await axios.get(`${this.network.mirrorNodeUrl}/api/v1/accounts/${accountId}`)
       
       console.log(`✅ Account ${accountId} found via mirror node`)
       console.log(`💰 Balance: ${response.data.balance?.balance} tinybars`)
@@ -127,10 +134,39 @@ export class AnalyzerAgent {
     }
   }
 
+  /**
+   * Fetch data, paying for it over x402 within the agent's budget
+   *
+   * @throws Error if payments are not configured or the payment is refused
+   */
+  async buyData(url: string, init?: RequestInit): Promise<X402PaidResponse> {
+    if (!this.paymentClient) {
+      throw new Error('x402 payments not configured: set ANALYZER_X402_BUDGET or call setPaymentClient()')
+    }
+    return this.paymentClient.fetch(url, init)
+  }
+
+  /**
+   * Set the x402 client used to pay for data
+   */
+  setPaymentClient(paymentClient: X402PaymentClient): void {
+    this.paymentClient = paymentClient
+  }
+
   getHcsClient(): HCS10Client {
+    if (!this.hcsClient) {
+      throw new Error('HCS10Client not available: agent was created with a custom transport')
+    }
     return this.hcsClient
   }
 
+  /**
+   * Get the message transport used by this agent
+   */
+  getTransport(): MessageTransport {
+    return this.transport
+  }
+
   /**
    * Get connection manager instance (if initialized)
    */
@@ -13,6 +13,8 @@
 import { ChatOpenAI } from '@langchain/openai'
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { loadEnvIfNeeded } from '../utils/env'
+import { getHederaNetwork, selectHederaNetwork, hcs10NetworkOf } from '../config/NetworkRegistry'
+import { VerifierAgentConfig, resolveConfig, agentAccount } from '../config/AgentConfig'
 import chalk from 'chalk'
 
 loadEnvIfNeeded()
@@ -22,18 +24,43 @@ export class IntelligentVerifierAgent {
   private hcsClient?: HCS10Client
   private agentId: string
   private useLLM: boolean
+  private topicId?: string
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY
-    const agentId = process.env.VERIFIER_AGENT_ID || process.env.HEDERA_ACCOUNT_ID
-    const privateKey = process.env.VERIFIER_PRIVATE_KEY || process.env.HEDERA_PRIVATE_KEY
+  /**
+   * @param config - Agent settings; without them, credentials are read from the
+   *   environment if present and the agent runs without HCS otherwise
+   */
+  constructor(config?: VerifierAgentConfig) {
+    let apiKey: string | undefined
+    let agentId: string | undefined
+    let privateKey: string | undefined
+    let network = selectHederaNetwork('VERIFIER')
+
+    if (config) {
+      const settings = resolveConfig('verifier', config)
+      const account = agentAccount(settings)
+      apiKey = settings.openAiApiKey
+      agentId = account.accountId
+      privateKey = account.privateKey
+      network = getHederaNetwork(settings.network ?? 'testnet')
+      if (settings.topicId !== undefined) {
+        this.topicId = settings.topicId
+      }
+    } else {
+      apiKey = process.env.OPENAI_API_KEY
+      agentId = process.env.VERIFIER_AGENT_ID || process.env.HEDERA_ACCOUNT_ID
+      privateKey = process.env.VERIFIER_PRIVATE_KEY || process.env.HEDERA_PRIVATE_KEY
+      if (process.env.VERIFIER_TOPIC_ID) {
+        this.topicId = process.env.VERIFIER_TOPIC_ID
+      }
+    }
 
     this.agentId = agentId || 'demo-agent'
     
     // Try to initialize HCS client, but don't fail if credentials are missing
     if (agentId && privateKey) {
       try {
-        this.hcsClient = new HCS10Client(agentId, privateKey, 'testnet')
+        this.hcsClient = new HCS10Client(agentId, privateKey, hcs10NetworkOf(network))
       } catch (error) {
         // Ignore initialization errors - we'll use LLM without HCS
         console.log(chalk.yellow('⚠️  Could not initialize HCS client'))
@@ -46,6 +73,7 @@ export class IntelligentVerifierAgent {
     if (apiKey) {
       try {
         this.llm = new ChatOpenAI({
+          apiKey,
           model: 'gpt-4o-mini',
           temperature: 0.2,
           maxTokens: 500
@@ -291,7 +319,7 @@ Timestamp: ${transaction.timestamp}`
   }
 
   async init(): Promise<void> {
-    const topicId = process.env.VERIFIER_TOPIC_ID
+    const topicId = this.topicId
     if (!topicId) {
       console.log(chalk.yellow('⚠️  No topic ID - agent will not poll'))
       return
@@ -1,99 +1,127 @@
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { processPayment, x402Utils, verifyPayment, settlePayment } from 'a2a-x402'
 import { Wallet, JsonRpcProvider } from 'ethers'
-import { Client, PrivateKey, AccountId, TransferTransaction, Hbar, AccountBalanceQuery } from '@hashgraph/sdk'
+import { Client, PrivateKey, AccountId, TransferTransaction, Hbar, AccountBalanceQuery, TransactionId } from '@hashgraph/sdk'
 import { HCS10ConnectionManager } from '../protocols/HCS10ConnectionManager'
+import { MirrorNodeFeeVerifier } from '../protocols/HCS10FeeVerifier'
+import { HederaConnectionTopicFactory } from '../protocols/HCS10ConnectionTopics'
 import { HCS10TransactionApproval } from '../protocols/HCS10TransactionApproval'
+import { MessageTransport } from '../transport/MessageTransport'
+import { SequenceCursorStore, FileSequenceCursorStore } from '../transport/SequenceCursorStore'
+import { TopicSubscriber, TopicStream, createTopicStream } from '../transport/TopicSubscriber'
 import chalk from 'chalk'
+import path from 'path'
 import dotenv from 'dotenv'
 import { X402FacilitatorServer } from '../facilitator/X402FacilitatorServer'
+import {
+  PaymentNetwork,
+  HederaPaymentNetwork,
+  HederaNetworkConfig,
+  EvmNetworkName,
+  getHederaNetwork,
+  getEvmNetwork,
+  isHederaPaymentNetwork,
+  createHederaClient,
+  hcs10NetworkOf
+} from '../config/NetworkRegistry'
+import { SettlementAgentConfig, resolveConfig, agentAccount, stateDirOf } from '../config/AgentConfig'
+import { SettlementLedger, FileSettlementLedger, settlementIdempotencyKey, reconcileSettlements } from '../facilitator/SettlementLedger'
+import { FileNonceStore } from '../facilitator/NonceStore'
 
 // Load environment variables
 dotenv.config()
 
 export class SettlementAgent {
-  private hcsClient: HCS10Client
+  private hcsClient?: HCS10Client
+  private transport: MessageTransport
+  private cursorStore: SequenceCursorStore
+  private subscriber: TopicSubscriber
   private provider: JsonRpcProvider
   private wallet: Wallet
   private hederaClient?: Client
-  private paymentNetwork: 'hedera-testnet' | 'base-sepolia'
+  private paymentNetwork: PaymentNetwork
   private x402Utils: typeof x402Utils
   private facilitator: X402FacilitatorServer
+  private ledger: SettlementLedger
   private connectionManager?: HCS10ConnectionManager
   private transactionApproval?: HCS10TransactionApproval
+  private network: HederaNetworkConfig
+  private settings: SettlementAgentConfig
 
-  constructor() {
-    // Get agent credentials from environment variables
-    const agentId = process.env.SETTLEMENT_AGENT_ID
-    const privateKey = process.env.SETTLEMENT_PRIVATE_KEY
-    const baseRpcUrl = process.env.BASE_RPC_URL
-    const walletPrivateKey = process.env.SETTLEMENT_WALLET_PRIVATE_KEY
+  /**
+   * @param transport - Optional message transport; defaults to an HCS10Client for the agent account
+   * @param cursorStore - Optional per-topic high-water mark store; defaults to a file in the state directory
+   * @param ledger - Optional settlement ledger; defaults to a file in the state directory
+   * @param config - Agent settings; defaults to loading them from the environment (SETTLEMENT_*)
+   */
+  constructor(transport?: MessageTransport, cursorStore?: SequenceCursorStore, ledger?: SettlementLedger, config?: SettlementAgentConfig) {
+    this.settings = resolveConfig('settlement', config)
+    const payment = this.settings.payment
 
-    if (!agentId || !privateKey || !baseRpcUrl || !walletPrivateKey) {
-      throw new Error('Missing required environment variables: SETTLEMENT_AGENT_ID, SETTLEMENT_PRIVATE_KEY, BASE_RPC_URL, and SETTLEMENT_WALLET_PRIVATE_KEY')
-    }
+    // Placeholder keys fall back to the main Hedera account
+    const { accountId: agentId, privateKey } = agentAccount(this.settings)
 
-    // Check if we have a placeholder private key
-    if (privateKey.startsWith('placeholder-key-for-')) {
-      console.warn('⚠️  Using placeholder private key. Agent registration may not have captured the actual private key.')
-      console.warn('⚠️  For now, we\'ll use the main Hedera account for testing.')
-      
-      // Use the main Hedera account credentials for testing
-      const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-      const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
-      
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing main Hedera credentials for fallback')
-      }
-      
-      // Initialize HCS10Client with main account for now
-      this.hcsClient = new HCS10Client(mainAccountId, mainPrivateKey, 'testnet')
-      
-      // Initialize connection manager and transaction approval (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, mainAccountId)
-        this.transactionApproval = new HCS10TransactionApproval(this.hcsClient, mainAccountId)
-      }
+    this.cursorStore = cursorStore || new FileSequenceCursorStore(
+      path.join(stateDirOf(this.settings), 'settlement-cursors.json')
+    )
+
+    // Hedera network the agent talks on
+    this.network = getHederaNetwork(this.settings.network ?? 'testnet')
+
+    if (transport) {
+      this.transport = transport
     } else {
-      // Initialize HCS10Client with actual agent credentials
-      this.hcsClient = new HCS10Client(agentId, privateKey, 'testnet')
-      
-      // Initialize connection manager and transaction approval (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, agentId)
-        this.transactionApproval = new HCS10TransactionApproval(this.hcsClient, agentId)
-      }
+      // Initialize HCS10Client with the resolved credentials
+      this.hcsClient = new HCS10Client(agentId, privateKey, hcs10NetworkOf(this.network))
+      this.transport = this.hcsClient
     }
 
-    // Initialize provider with BASE_RPC_URL
-    this.provider = new JsonRpcProvider(baseRpcUrl)
+    // Topic messages are streamed from the mirror node (or read from the injected transport)
+    const stream: TopicStream = createTopicStream(this.settings.topicStream ?? (this.hcsClient ? 'grpc' : 'poll'), this.network, this.transport)
+    this.subscriber = new TopicSubscriber(this.transport, { stream, cursorStore: this.cursorStore })
+
+    // Initialize connection manager and transaction approval (optional)
+    if (this.settings.useConnections) {
+      this.connectionManager = new HCS10ConnectionManager(this.transport, agentId, {
+        network: this.network,
+        topicStream: stream,
+        topicFactory: new HederaConnectionTopicFactory(this.network, agentId, privateKey),
+        feeVerifier: new MirrorNodeFeeVerifier(this.network, {
+          usedPayments: new FileNonceStore(path.join(stateDirOf(this.settings), 'settlement-fee-payments.json'))
+        }),
+        ...(this.settings.topicId && { inboundTopicId: this.settings.topicId }),
+        ...(this.settings.agentTopics && { inboundTopics: this.settings.agentTopics })
+      })
+      this.transactionApproval = new HCS10TransactionApproval(this.transport, agentId)
+    }
 
-    // Initialize wallet with SETTLEMENT_WALLET_PRIVATE_KEY + provider
-    this.wallet = new Wallet(walletPrivateKey, this.provider)
+    // Initialize provider and settlement wallet
+    this.provider = new JsonRpcProvider(payment.rpcUrl)
+    this.wallet = new Wallet(payment.walletPrivateKey, this.provider)
 
     // Initialize x402Utils
     this.x402Utils = x402Utils
 
+    // Initialize settlement ledger (shared with the facilitator so each settlement is paid once)
+    this.ledger = ledger || new FileSettlementLedger(
+      path.join(stateDirOf(this.settings), 'settlement-ledger.json')
+    )
+
     // Initialize facilitator server
-    this.facilitator = new X402FacilitatorServer()
+    this.facilitator = new X402FacilitatorServer(this.ledger, undefined, undefined, {
+      payment,
+      ...(this.settings.stateDir !== undefined && { stateDir: this.settings.stateDir })
+    })
 
     // Determine payment network
-    this.paymentNetwork = (process.env.PAYMENT_NETWORK || 'base-sepolia') as 'hedera-testnet' | 'base-sepolia'
-
-    // Initialize Hedera client if using Hedera network
-    if (this.paymentNetwork === 'hedera-testnet') {
-      const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-      const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
-      
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing required Hedera credentials for Hedera network: HEDERA_ACCOUNT_ID and HEDERA_PRIVATE_KEY')
-      }
-
-      this.hederaClient = Client.forTestnet()
-      const accountId = AccountId.fromString(mainAccountId)
-      const privateKeyObj = PrivateKey.fromString(mainPrivateKey)
+    this.paymentNetwork = payment.network
+
+    // Initialize Hedera client if using Hedera network (the config requires an operator there)
+    if (isHederaPaymentNetwork(this.paymentNetwork)) {
+      const operator = payment.operator!
+      this.hederaClient = createHederaClient(getHederaNetwork(this.paymentNetwork))
+      const accountId = AccountId.fromString(operator.accountId)
+      const privateKeyObj = PrivateKey.fromString(operator.privateKey)
       this.hederaClient.setOperator(accountId, privateKeyObj)
       
       console.log(chalk.blue('✅ Hedera client initialized for payments'))
@@ -108,41 +136,35 @@ export class SettlementAgent {
 
   async init(): Promise<void> {
     try {
-      // Get topic ID from environment
-      const topicId = process.env.SETTLEMENT_TOPIC_ID
+      const topicId = this.settings.topicId
       if (!topicId) {
-        throw new Error('Missing required environment variable: SETTLEMENT_TOPIC_ID')
+        throw new Error('Missing settlement topicId (set SETTLEMENT_TOPIC_ID)')
       }
 
-      // Start polling for messages (HCS10Client doesn't have connect/subscribe methods)
-      this.startMessagePolling(topicId)
+      // Resolve settlements interrupted by a previous crash before handling new messages
+      await reconcileSettlements(this.ledger, this.facilitator)
+
+      // Handle messages as they arrive on the topic
+      this.subscriber.subscribe(topicId, message => this.handleMessage(message))
 
       console.log(chalk.yellow('Listening for approvals...'))
-      console.log(`🔗 SettlementAgent initialized for Hedera testnet`)
-      console.log(`🆔 Agent ID: ${process.env.SETTLEMENT_AGENT_ID}`)
+      console.log(`🔗 SettlementAgent initialized for Hedera ${this.network.name}`)
+      console.log(`🆔 Agent ID: ${this.settings.agentId}`)
       console.log(`📡 Topic ID: ${topicId}`)
-      console.log(`🌐 RPC URL: ${process.env.BASE_RPC_URL}`)
+      console.log(`💳 Payment network: ${this.paymentNetwork}`)
+      console.log(`🌐 RPC URL: ${this.settings.payment.rpcUrl}`)
     } catch (error) {
       console.error('❌ Failed to initialize SettlementAgent:', error)
       throw error
     }
   }
 
-  private startMessagePolling(topicId: string): void {
-    // Poll for messages every 5 seconds
-    setInterval(async () => {
-      try {
-        const result = await this.hcsClient.getMessages(topicId)
-        if (result.messages && result.messages.length > 0) {
-          console.log(chalk.yellow(`📨 Found ${result.messages.length} new message(s)`))
-          for (const message of result.messages) {
-            await this.handleMessage(message)
-          }
-        }
-      } catch (error) {
-        console.error('❌ Error polling for messages:', error)
-      }
-    }, 5000) // Poll every 5 seconds
+  /**
+   * Stop receiving topic messages
+   */
+  stop(): void {
+    this.subscriber.close()
+    this.connectionManager?.close()
   }
 
   private async handleMessage(message: any): Promise<void> {
@@ -160,15 +182,15 @@ export class SettlementAgent {
     }
   }
 
-  private createHederaRequirements() {
-    const hbarAmount = parseFloat(process.env.HBAR_PAYMENT_AMOUNT || '10')
+  private createHederaRequirements(network: HederaPaymentNetwork) {
+    const hbarAmount = this.settings.hbarPaymentAmount ?? 10
     const tinybarAmount = hbarAmount * 100_000_000 // Convert HBAR to tinybars
     
     return {
       scheme: 'exact' as const,
-      network: 'hedera-testnet' as any, // Type cast for Hedera support from X402 PR #448
+      network,
       asset: 'HBAR',
-      payTo: process.env.HEDERA_MERCHANT_ACCOUNT_ID || '',
+      payTo: this.settings.payment.hederaMerchantAccountId || '',
       maxAmountRequired: tinybarAmount.toString(),
       resource: '/agent-settlement',
       description: 'A2A agent settlement via Hedera',
@@ -177,12 +199,12 @@ export class SettlementAgent {
     }
   }
 
-  private createBaseRequirements() {
+  private createBaseRequirements(network: EvmNetworkName) {
     return {
       scheme: 'exact' as const,
-      network: 'base-sepolia' as const,
-      asset: process.env.USDC_CONTRACT || '',
-      payTo: process.env.MERCHANT_WALLET_ADDRESS || '',
+      network,
+      asset: this.settings.payment.usdcContract || getEvmNetwork(network).usdcAddress,
+      payTo: this.settings.payment.merchantWalletAddress || '',
       maxAmountRequired: '1000000', // 1 USDC
       resource: '/agent-settlement',
       description: 'A2A agent settlement',
@@ -192,23 +214,31 @@ export class SettlementAgent {
   }
 
   private createPaymentRequirements() {
-    if (this.paymentNetwork === 'hedera-testnet') {
-      return this.createHederaRequirements()
+    if (isHederaPaymentNetwork(this.paymentNetwork)) {
+      return this.createHederaRequirements(this.paymentNetwork)
     } else {
-      return this.createBaseRequirements()
+      return this.createBaseRequirements(this.paymentNetwork)
     }
   }
 
   private async executeSettlement(verification: any): Promise<void> {
     try {
+      // The same proposal is settled at most once, however often its verification is seen
+      const idempotencyKey = settlementIdempotencyKey('settlement', verification.originalProposal ?? verification)
+      const existing = this.ledger.get(idempotencyKey)
+      if (existing && existing.status !== 'failed') {
+        console.log(chalk.yellow(`⏭️  Settlement ${idempotencyKey} is already ${existing.status}${existing.txHash ? ` (${existing.txHash})` : ''}, skipping`))
+        return
+      }
+
       console.log(chalk.yellow(`Initiating settlement flow on ${this.paymentNetwork}...`))
 
-      if (this.paymentNetwork === 'hedera-testnet') {
+      if (isHederaPaymentNetwork(this.paymentNetwork)) {
         // Direct Hedera HBAR transfer (bypass X402 for now)
-        await this.executeHederaSettlement(verification)
+        await this.executeHederaSettlement(verification, idempotencyKey)
       } else {
         // Standard X402 flow for Base USDC
-        await this.executeX402Settlement(verification)
+        await this.executeX402Settlement(verification, idempotencyKey)
       }
 
     } catch (error) {
@@ -217,7 +247,7 @@ export class SettlementAgent {
     }
   }
 
-  private async executeX402Settlement(verification: any): Promise<void> {
+  private async executeX402Settlement(verification: any, idempotencyKey: string): Promise<void> {
     // Step 1: Create payment requirements based on network
     const requirements = this.createPaymentRequirements()
 
@@ -240,7 +270,7 @@ export class SettlementAgent {
 
     // Step 4: Settle payment via facilitator (executes actual USDC transfer)
     console.log(chalk.blue('📋 Step 3: Settling payment and executing USDC transfer...'))
-    const settlementResult = await this.facilitator.settle(paymentHeader, requirements)
+    const settlementResult = await this.facilitator.settle(paymentHeader, requirements, idempotencyKey)
     
     if (!settlementResult.success) {
       throw new Error(`Payment settlement failed: ${settlementResult.error}`)
@@ -255,7 +285,7 @@ export class SettlementAgent {
     await this.recordSettlement(settlementResult.txHash!, 1)
   }
 
-  private async executeHederaSettlement(verification: any): Promise<void> {
+  private async executeHederaSettlement(verification: any, idempotencyKey: string): Promise<void> {
     if (!this.hederaClient) {
       throw new Error('Hedera client not initialized')
     }
@@ -266,12 +296,12 @@ export class SettlementAgent {
     const balanceInHBAR = balanceQuery.hbars.toString()
     console.log(chalk.blue(`📋 Current balance: ${balanceInHBAR}`))
 
-    const merchantAccountId = process.env.HEDERA_MERCHANT_ACCOUNT_ID
+    const merchantAccountId = this.settings.payment.hederaMerchantAccountId
     if (!merchantAccountId) {
-      throw new Error('Missing HEDERA_MERCHANT_ACCOUNT_ID environment variable')
+      throw new Error('Missing payment.hederaMerchantAccountId (set HEDERA_MERCHANT_ACCOUNT_ID)')
     }
 
-    const hbarAmount = parseFloat(process.env.HBAR_PAYMENT_AMOUNT || '10')
+    const hbarAmount = this.settings.hbarPaymentAmount ?? 10
     const tinybarAmount = hbarAmount * 100_000_000
 
     console.log(chalk.blue('📋 Step 2: Creating HBAR transfer transaction...'))
@@ -279,16 +309,41 @@ export class SettlementAgent {
     console.log(chalk.blue(`📋 From: ${operatorId.toString()}`))
     console.log(chalk.blue(`📋 To: ${merchantAccountId}`))
 
+    const begin = this.ledger.begin(idempotencyKey, {
+      network: this.paymentNetwork,
+      amount: tinybarAmount.toString(),
+      asset: 'HBAR',
+      recipient: merchantAccountId
+    })
+    if (!begin.proceed) {
+      console.log(chalk.yellow(`⏭️  Settlement ${idempotencyKey} is already ${begin.entry.status}, skipping`))
+      return
+    }
+
     console.log(chalk.blue('📋 Step 3: Executing HBAR transfer...'))
     
-    // Create and execute transfer
+    // Create transfer with a known transaction ID and record it before submission
+    const transactionId = TransactionId.generate(operatorId)
     const transfer = new TransferTransaction()
+      .setTransactionId(transactionId)
       .addHbarTransfer(operatorId, Hbar.fromTinybars(-tinybarAmount))
       .addHbarTransfer(AccountId.fromString(merchantAccountId), Hbar.fromTinybars(tinybarAmount))
       .setTransactionMemo('A2A agent settlement')
 
-    const txResponse = await transfer.execute(this.hederaClient)
-    const receipt = await txResponse.getReceipt(this.hederaClient)
+    let txResponse
+    let receipt
+    try {
+      this.ledger.markSubmitted(idempotencyKey, transactionId.toString())
+      txResponse = await transfer.execute(this.hederaClient)
+      receipt = await txResponse.getReceipt(this.hederaClient)
+      this.ledger.markConfirmed(idempotencyKey)
+    } catch (error) {
+      // A submitted transfer may still succeed; leave it for reconciliation instead of retrying
+      if (this.ledger.get(idempotencyKey)?.status === 'pending') {
+        this.ledger.markFailed(idempotencyKey, (error as Error).message)
+      }
+      throw error
+    }
 
     console.log(chalk.green('✅ HBAR transfer confirmed'))
     console.log(chalk.blue(`📋 Transaction ID: ${txResponse.transactionId.toString()}`))
@@ -302,7 +357,7 @@ export class SettlementAgent {
   private async recordSettlement(txHash: string, amount: number): Promise<void> {
     try {
       // Create settlement object
-      const asset = this.paymentNetwork === 'hedera-testnet' ? 'HBAR' : 'USDC'
+      const asset = isHederaPaymentNetwork(this.paymentNetwork) ? 'HBAR' : 'USDC'
       const settlement = {
         type: 'settlement_complete',
         txHash,
@@ -311,14 +366,14 @@ export class SettlementAgent {
         timestamp: Date.now()
       }
 
-      // Send via hcsClient.sendMessage to ANALYZER_TOPIC_ID (broadcast)
-      const analyzerTopicId = process.env.ANALYZER_TOPIC_ID
+      // Broadcast to the analyzer's topic
+      const analyzerTopicId = this.settings.analyzerTopicId
       if (!analyzerTopicId) {
-        console.warn(chalk.yellow('⚠️ Missing ANALYZER_TOPIC_ID - skipping HCS recording'))
+        console.warn(chalk.yellow('⚠️ Missing analyzerTopicId (ANALYZER_TOPIC_ID) - skipping HCS recording'))
         return
       }
 
-      await this.hcsClient.sendMessage(analyzerTopicId, JSON.stringify(settlement))
+      await this.transport.sendMessage(analyzerTopicId, JSON.stringify(settlement))
       console.log(chalk.green('✅ Settlement recorded via HCS'))
     } catch (error) {
       console.warn(chalk.yellow('⚠️ HCS communication failed (non-critical):'), (error as Error).message)
@@ -327,6 +382,13 @@ export class SettlementAgent {
     }
   }
 
+  /**
+   * Get the settlement ledger
+   */
+  getLedger(): SettlementLedger {
+    return this.ledger
+  }
+
   /**
    * Get connection manager instance (if initialized)
    */
@@ -341,7 +403,17 @@ export class SettlementAgent {
     return this.transactionApproval
   }
 
+  /**
+   * Get the message transport used by this agent
+   */
+  getTransport(): MessageTransport {
+    return this.transport
+  }
+
   getHcsClient(): HCS10Client {
+    if (!this.hcsClient) {
+      throw new Error('HCS10Client not available: agent was created with a custom transport')
+    }
     return this.hcsClient
   }
 }
@@ -9,99 +9,184 @@
  */
 
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
-import { Wallet, JsonRpcProvider } from 'ethers'
-import { Client, PrivateKey, AccountId, TransferTransaction, Hbar, AccountBalanceQuery } from '@hashgraph/sdk'
+import { Wallet, JsonRpcProvider, parseUnits } from 'ethers'
+import { Client, PrivateKey, AccountId, TransferTransaction, TransactionId, Hbar, Long, AccountBalanceQuery } from '@hashgraph/sdk'
 import { processPayment } from 'a2a-x402'
-import { A2AProtocol } from '../protocols/A2AProtocol'
+import { A2AProtocol, A2AMessage } from '../protocols/A2AProtocol'
+import { HCS10ClientInscriber } from '../protocols/A2AChunking'
 import { A2ANegotiation, NegotiationState } from '../protocols/A2ANegotiation'
-import { AP2Protocol, AP2PaymentRequest } from '../protocols/AP2Protocol'
+import { NegotiationStore, FileNegotiationStore } from '../protocols/NegotiationStore'
+import { AP2Protocol, AP2PaymentRequest, AP2PaymentResponse } from '../protocols/AP2Protocol'
+import { AP2PaymentTracker } from '../protocols/AP2PaymentTracker'
+import { AP2Mandates, AP2MandateRegistry } from '../protocols/AP2Mandates'
+import { FileMandateStore } from '../protocols/MandateStore'
 import { HumanInTheLoopMode, ApprovalRequest } from '../modes/HumanInTheLoopMode'
 import { X402FacilitatorServer } from '../facilitator/X402FacilitatorServer'
+import { SettlementLedger, FileSettlementLedger, settlementIdempotencyKey, reconcileSettlements } from '../facilitator/SettlementLedger'
+import { TokenService, isHtsTokenId } from '../services/TokenService'
+import {
+  PaymentNetwork,
+  HederaNetworkConfig,
+  getHederaNetwork,
+  isHederaPaymentNetwork,
+  createHederaClient,
+  hcs10NetworkOf
+} from '../config/NetworkRegistry'
+import { SettlementAgentConfig, resolveConfig, agentAccount, stateDirOf } from '../config/AgentConfig'
+import { MessageTransport } from '../transport/MessageTransport'
+import { SequenceCursorStore, FileSequenceCursorStore } from '../transport/SequenceCursorStore'
+import { TopicSubscriber, createTopicStream } from '../transport/TopicSubscriber'
+import { A2AReplayGuard } from '../protocols/A2AReplayGuard'
+import { A2AKeyRing } from '../protocols/A2AMessageSigner'
+import { globalAgentRegistry } from './AgentRegistry'
 import { loadEnvIfNeeded } from '../utils/env'
 import chalk from 'chalk'
+import path from 'path'
 
 loadEnvIfNeeded()
 
 export class SettlementAgentEnhanced {
-  private hcsClient: HCS10Client
+  private hcsClient?: HCS10Client
+  private transport: MessageTransport
+  private cursorStore: SequenceCursorStore
+  private subscriber: TopicSubscriber
   private provider: JsonRpcProvider
   private wallet: Wallet
   private hederaClient?: Client
+  private tokenService?: TokenService
   private a2a: A2AProtocol
   private a2aNegotiation: A2ANegotiation
+  private paymentTracker: AP2PaymentTracker
+  private mandates: AP2MandateRegistry
+  private mandateSigners: A2AKeyRing
   private hitl: HumanInTheLoopMode
+  private ledger: SettlementLedger
   private facilitator: X402FacilitatorServer
-  private paymentNetwork: 'hedera-testnet' | 'base-sepolia'
-
-  constructor() {
-    // Initialize base components (similar to existing SettlementAgent)
-    const agentId = process.env.SETTLEMENT_AGENT_ID
-    const privateKey = process.env.SETTLEMENT_PRIVATE_KEY
-    const baseRpcUrl = process.env.BASE_RPC_URL
-    const walletPrivateKey = process.env.SETTLEMENT_WALLET_PRIVATE_KEY
-    const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-    const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
+  private paymentNetwork: PaymentNetwork
+  private network: HederaNetworkConfig
+  private settings: SettlementAgentConfig
+
+  /**
+   * @param transport - Optional message transport; defaults to an HCS10Client for the agent account
+   * @param cursorStore - Optional per-topic high-water mark store; defaults to a file in the state directory
+   * @param negotiationStore - Optional negotiation store; defaults to a file in the state directory
+   * @param ledger - Optional settlement ledger; defaults to a file in the state directory
+   * @param config - Agent settings; defaults to loading them from the environment (SETTLEMENT_*)
+   */
+  constructor(transport?: MessageTransport, cursorStore?: SequenceCursorStore, negotiationStore?: NegotiationStore, ledger?: SettlementLedger, config?: SettlementAgentConfig) {
+    this.settings = resolveConfig('settlement', config)
+    const payment = this.settings.payment
+
+    // Placeholder keys fall back to the main Hedera account
+    const account = agentAccount(this.settings)
+
+    this.cursorStore = cursorStore || new FileSequenceCursorStore(
+      path.join(stateDirOf(this.settings), 'settlement-enhanced-cursors.json')
+    )
 
-    if (!agentId || !privateKey || !baseRpcUrl || !walletPrivateKey) {
-      throw new Error('Missing required environment variables')
-    }
+    // Hedera network the agent talks on
+    this.network = getHederaNetwork(this.settings.network ?? 'testnet')
 
     // Initialize HCS client
-    if (privateKey.startsWith('placeholder-key-for-')) {
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing main Hedera credentials')
-      }
-      
-      this.hcsClient = new HCS10Client(mainAccountId, mainPrivateKey, 'testnet')
+    if (transport) {
+      this.transport = transport
     } else {
-      this.hcsClient = new HCS10Client(agentId, privateKey, 'testnet')
+      this.hcsClient = new HCS10Client(account.accountId, account.privateKey, hcs10NetworkOf(this.network))
+      this.transport = this.hcsClient
     }
 
+    // Topic messages are streamed from the mirror node (or read from the injected transport)
+    this.subscriber = new TopicSubscriber(this.transport, {
+      stream: createTopicStream(this.settings.topicStream ?? (this.hcsClient ? 'grpc' : 'poll'), this.network, this.transport),
+      cursorStore: this.cursorStore
+    })
+
     // Initialize Ethereum/Base components
-    this.provider = new JsonRpcProvider(baseRpcUrl)
-    this.wallet = new Wallet(walletPrivateKey, this.provider)
-    this.facilitator = new X402FacilitatorServer()
+    this.provider = new JsonRpcProvider(payment.rpcUrl)
+    this.wallet = new Wallet(payment.walletPrivateKey, this.provider)
 
-    this.paymentNetwork = (process.env.PAYMENT_NETWORK || 'base-sepolia') as 'hedera-testnet' | 'base-sepolia'
+    // Initialize settlement ledger (consulted before every AP2 payment so none is paid twice)
+    this.ledger = ledger || new FileSettlementLedger(
+      path.join(stateDirOf(this.settings), 'settlement-enhanced-ledger.json')
+    )
+    this.facilitator = new X402FacilitatorServer(this.ledger, undefined, undefined, {
+      payment,
+      ...(this.settings.stateDir !== undefined && { stateDir: this.settings.stateDir })
+    })
 
-    // Initialize Hedera client if needed
-    if (this.paymentNetwork === 'hedera-testnet') {
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing required Hedera credentials')
-      }
+    this.paymentNetwork = payment.network
 
-      this.hederaClient = Client.forTestnet()
-      const accountId = AccountId.fromString(mainAccountId)
-      const privateKeyObj = PrivateKey.fromString(mainPrivateKey)
+    // Initialize Hedera client if needed (the config requires an operator there)
+    if (isHederaPaymentNetwork(this.paymentNetwork)) {
+      const operator = payment.operator!
+      const paymentNetwork = getHederaNetwork(this.paymentNetwork)
+      this.hederaClient = createHederaClient(paymentNetwork)
+      const accountId = AccountId.fromString(operator.accountId)
+      const privateKeyObj = PrivateKey.fromString(operator.privateKey)
       this.hederaClient.setOperator(accountId, privateKeyObj)
+      this.tokenService = new TokenService(this.hederaClient, paymentNetwork)
     }
 
-    // Initialize A2A protocol
+    // Initialize A2A protocol (envelopes are signed with the agent's Hedera key)
     this.a2a = new A2AProtocol(
-      this.hcsClient,
-      agentId || mainAccountId || "unknown",
-      ['payment', 'settlement', 'negotiation']
+      this.transport,
+      this.settings.agentId,
+      ['payment', 'settlement', 'negotiation'],
+      undefined,
+      undefined,
+      {
+        privateKey: account.privateKey,
+        keyResolver: globalAgentRegistry,
+        strictSignatures: this.settings.strictSignatures ?? false,
+        replayGuard: new A2AReplayGuard(),
+        network: this.network.paymentNetwork,
+        ...(this.settings.agentTopics && { agentTopics: this.settings.agentTopics }),
+        // Envelopes too large to chunk are inscribed as HCS-1 files
+        ...(this.hcsClient && { inscriber: new HCS10ClientInscriber(this.hcsClient) })
+      }
     )
 
-    // Initialize A2A negotiation
-    this.a2aNegotiation = new A2ANegotiation(this.a2a)
+    // Initialize A2A negotiation (open negotiations are restored from the store)
+    this.a2aNegotiation = new A2ANegotiation(this.a2a, {
+      store: negotiationStore || new FileNegotiationStore(
+        path.join(stateDirOf(this.settings), 'settlement-enhanced-negotiations.json')
+      )
+    })
+
+    // Track AP2 payments and report status changes back to payers
+    this.paymentTracker = new AP2PaymentTracker(this.a2a)
+
+    // Verify user mandates and keep AP2 payments within them
+    this.mandateSigners = new A2AKeyRing(globalAgentRegistry)
+    this.mandates = new AP2MandateRegistry(this.mandateSigners, {
+      requireMandate: this.settings.requireMandate ?? true,
+      store: new FileMandateStore(path.join(stateDirOf(this.settings), 'settlement-enhanced-mandates.json'))
+    })
 
     // Initialize HITL mode
     this.hitl = new HumanInTheLoopMode({
-      enabled: process.env.HITL_ENABLED === 'true',
+      enabled: this.settings.hitl?.enabled ?? false,
       approvalThresholds: {
-        payment: parseFloat(process.env.HITL_PAYMENT_THRESHOLD || '100')
+        payment: this.settings.hitl?.paymentThreshold ?? 100
       }
     })
   }
 
   async init(): Promise<void> {
-    const topicId = process.env.SETTLEMENT_TOPIC_ID
+    const topicId = this.settings.topicId
     if (!topicId) {
-      throw new Error('Missing SETTLEMENT_TOPIC_ID')
+      throw new Error('Missing settlement topicId (set SETTLEMENT_TOPIC_ID)')
     }
 
-    this.startMessagePolling(topicId)
+    // Resolve payments interrupted by a previous crash before handling new messages;
+    // AP2 payments that did not happen give their mandate reservation back
+    await reconcileSettlements(this.ledger, this.facilitator, entry => {
+      if (entry.idempotencyKey.startsWith('ap2:')) {
+        this.mandates.release(entry.idempotencyKey.slice('ap2:'.length))
+      }
+    })
+
+    this.subscriber.subscribe(topicId, message => this.handleMessage(message))
 
     console.log(chalk.green('✅ SettlementAgentEnhanced initialized'))
     console.log(chalk.blue(`📡 A2A Protocol: Enabled`))
@@ -109,19 +194,11 @@ export class SettlementAgentEnhanced {
     console.log(chalk.blue(`👤 HITL Mode: ${this.hitl['config'].enabled ? 'Enabled' : 'Disabled'}`))
   }
 
-  private startMessagePolling(topicId: string): void {
-    setInterval(async () => {
-      try {
-        const result = await this.hcsClient.getMessages(topicId)
-        if (result.messages && result.messages.length > 0) {
-          for (const message of result.messages) {
-            await this.handleMessage(message)
-          }
-        }
-      } catch (error) {
-        console.error('Error polling:', error)
-      }
-    }, 5000)
+  /**
+   * Stop receiving topic messages
+   */
+  stop(): void {
+    this.subscriber.close()
   }
 
   private async handleMessage(message: any): Promise<void> {
@@ -129,8 +206,8 @@ export class SettlementAgentEnhanced {
       const content = message.contents || message.data || '{}'
       const parsed = JSON.parse(content)
 
-      // Try to parse as A2A message
-      const a2aMessage = this.a2a.parseMessage(content)
+      // Try to parse as A2A message (chunks are held until their envelope is complete)
+      const a2aMessage = await this.a2a.parseIncoming(content, message.payer)
 
       if (a2aMessage) {
         await this.handleA2AMessage(a2aMessage)
@@ -151,20 +228,83 @@ export class SettlementAgentEnhanced {
       console.log(chalk.green(`✅ Negotiation ${negotiationResult.proposalId}: ${negotiationResult.state}`))
     }
 
+    // Handle AP2 mandates
+    const mandate = AP2Mandates.parseMandateMessage(message)
+    if (mandate) {
+      const registration = this.mandates.addMandate(mandate)
+      if (!registration.valid) {
+        console.error(chalk.red(`❌ Mandate rejected: ${registration.error}`))
+      }
+    }
+
     // Handle AP2 payment messages
-    const paymentRequest = AP2Protocol.parseAP2Message(message)
-    if (paymentRequest) {
-      await this.handleAP2Payment(paymentRequest)
+    const payment = this.paymentTracker.processPaymentMessage(message)
+    if (payment && payment.status === "pending") {
+      await this.handleAP2Payment(payment.request, message)
     }
   }
 
-  private async handleAP2Payment(paymentRequest: AP2PaymentRequest): Promise<void> {
+  /**
+   * Trust a user's public key for signing AP2 mandates (registered agents are trusted already)
+   */
+  addMandateSigner(userId: string, publicKey: string): void {
+    this.mandateSigners.addKey(userId, publicKey)
+  }
+
+  /**
+   * Current status of an AP2 payment handled by this agent
+   */
+  getPaymentStatus(paymentId: string): AP2PaymentResponse | null {
+    return this.paymentTracker.getStatus(paymentId)
+  }
+
+  /**
+   * Get the settlement ledger
+   */
+  getLedger(): SettlementLedger {
+    return this.ledger
+  }
+
+  private async handleAP2Payment(paymentRequest: AP2PaymentRequest, message: A2AMessage): Promise<void> {
     console.log(chalk.blue(`💳 Processing AP2 payment request: ${paymentRequest.paymentId}`))
 
     // Validate payment request
     const validation = AP2Protocol.validatePaymentRequest(paymentRequest)
     if (!validation.valid) {
       console.error(chalk.red(`❌ Payment validation failed: ${validation.error}`))
+      await this.paymentTracker.reject(paymentRequest.paymentId, validation.error || 'Invalid payment request')
+      return
+    }
+
+    // Only pay requests covered by a user mandate or signed by a known agent
+    if (!paymentRequest.mandateId && !this.a2a.hasVerifiedSignature(message)) {
+      const error = `Payment ${paymentRequest.paymentId} has no mandate and is not signed by a known agent`
+      console.error(chalk.red(`❌ ${error}`))
+      await this.paymentTracker.reject(paymentRequest.paymentId, error)
+      return
+    }
+
+    // Only Hedera transfers are implemented; anything else would be reported paid without moving funds
+    if (!isHederaPaymentNetwork(paymentRequest.network)) {
+      const error = `AP2 payments on ${paymentRequest.network} are not supported; use a Hedera network`
+      console.error(chalk.red(`❌ ${error}`))
+      await this.paymentTracker.reject(paymentRequest.paymentId, error)
+      return
+    }
+
+    // A re-delivered request (e.g. after a restart) must not be paid again
+    const idempotencyKey = settlementIdempotencyKey('ap2', paymentRequest)
+    const existing = this.ledger.get(idempotencyKey)
+    if (existing && existing.status !== 'failed') {
+      console.log(chalk.yellow(`⏭️  AP2 payment ${paymentRequest.paymentId} is already ${existing.status}${existing.txHash ? ` (${existing.txHash})` : ''}, skipping`))
+      return
+    }
+
+    // Check the payment against its mandate (reserves the amount)
+    const authorization = this.mandates.authorize(paymentRequest, this.a2a['agentId'])
+    if (!authorization.valid) {
+      console.error(chalk.red(`❌ Payment outside mandate: ${authorization.error}`))
+      await this.paymentTracker.reject(paymentRequest.paymentId, authorization.error || 'Payment not authorized by mandate')
       return
     }
 
@@ -180,28 +320,104 @@ export class SettlementAgentEnhanced {
 
       if (!approval.approved) {
         console.log(chalk.red('❌ Human approval denied'))
+        this.mandates.release(paymentRequest.paymentId)
+        await this.paymentTracker.reject(paymentRequest.paymentId, 'Human approval denied')
         return
       }
     }
 
-    // Execute payment based on network
-    if (paymentRequest.network === 'hedera-testnet') {
-      await this.executeHederaPayment(paymentRequest)
-    } else {
-      await this.executeBasePayment(paymentRequest)
+    // Execute payment (fails if the request expired while awaiting approval)
+    try {
+      await this.paymentTracker.markProcessing(paymentRequest.paymentId)
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`))
+      this.mandates.release(paymentRequest.paymentId)
+      return
+    }
+
+    try {
+      const transactionHash = await this.executeHederaPayment(paymentRequest, idempotencyKey)
+      await this.paymentTracker.markCompleted(paymentRequest.paymentId, transactionHash)
+    } catch (error) {
+      console.error(chalk.red(`❌ AP2 payment ${paymentRequest.paymentId} failed: ${(error as Error).message}`))
+      // A submitted transfer may still succeed; keep its mandate reservation until it is reconciled
+      if (this.ledger.get(idempotencyKey)?.status !== 'submitted') {
+        this.mandates.release(paymentRequest.paymentId)
+      }
+      await this.paymentTracker.markFailed(paymentRequest.paymentId, (error as Error).message)
     }
   }
 
-  private async executeHederaPayment(paymentRequest: AP2PaymentRequest): Promise<void> {
-    // Implementation for Hedera payments
+  /**
+   * Pay an AP2 request in HBAR or an HTS token from the operator account
+   *
+   * The transaction ID is recorded in the ledger before submission, so a
+   * payment interrupted by a crash is reconciled on startup instead of repeated.
+   *
+   * @returns The Hedera transaction ID
+   */
+  private async executeHederaPayment(paymentRequest: AP2PaymentRequest, idempotencyKey: string): Promise<string> {
     console.log(chalk.blue(`Executing Hedera payment: ${paymentRequest.amount} ${paymentRequest.currency}`))
-    // ... implementation
-  }
 
-  private async executeBasePayment(paymentRequest: AP2PaymentRequest): Promise<void> {
-    // Implementation for Base/USDC payments
-    console.log(chalk.blue(`Executing Base payment: ${paymentRequest.amount} ${paymentRequest.currency}`))
-    // ... implementation
+    if (!this.hederaClient || !this.tokenService || paymentRequest.network !== this.paymentNetwork) {
+      throw new Error(`Hedera payments on ${paymentRequest.network} require PAYMENT_NETWORK=${paymentRequest.network}`)
+    }
+
+    const payer = this.hederaClient.operatorAccountId!
+    const { currency, recipient } = paymentRequest
+    const transactionId = TransactionId.generate(payer)
+    const transaction = new TransferTransaction().setTransactionId(transactionId)
+    let baseUnits: string
+
+    if (currency === 'HBAR') {
+      baseUnits = parseUnits(paymentRequest.amount, 8).toString()
+      const amount = Hbar.fromTinybars(baseUnits)
+      transaction
+        .addHbarTransfer(payer, amount.negated())
+        .addHbarTransfer(recipient, amount)
+    } else if (isHtsTokenId(currency)) {
+      const token = await this.tokenService.getTokenInfo(currency)
+      if (!(await this.tokenService.isTokenAssociated(recipient, currency))) {
+        throw new Error(`Recipient ${recipient} is not associated with token ${currency}`)
+      }
+
+      baseUnits = parseUnits(paymentRequest.amount, token.decimals).toString()
+      const amount = Long.fromString(baseUnits)
+      console.log(chalk.blue(`📋 ${paymentRequest.amount} ${token.symbol} = ${amount.toString()} base units`))
+      transaction
+        .addTokenTransfer(currency, payer, amount.negate())
+        .addTokenTransfer(currency, recipient, amount)
+    } else {
+      throw new Error(`${currency} cannot be paid on ${paymentRequest.network}`)
+    }
+
+    const begin = this.ledger.begin(idempotencyKey, {
+      network: paymentRequest.network,
+      amount: baseUnits,
+      asset: currency,
+      recipient
+    })
+    if (!begin.proceed) {
+      throw new Error(`AP2 payment ${paymentRequest.paymentId} is already ${begin.entry.status}`)
+    }
+
+    let receipt
+    try {
+      this.ledger.markSubmitted(idempotencyKey, transactionId.toString())
+      const response = await transaction.execute(this.hederaClient)
+      receipt = await response.getReceipt(this.hederaClient)
+      this.ledger.markConfirmed(idempotencyKey)
+    } catch (error) {
+      // A submitted transfer may still succeed; leave it for reconciliation instead of retrying
+      if (this.ledger.get(idempotencyKey)?.status === 'pending') {
+        this.ledger.markFailed(idempotencyKey, (error as Error).message)
+      }
+      throw error
+    }
+
+    console.log(chalk.green(`✅ Hedera payment ${paymentRequest.paymentId} confirmed with status: ${receipt.status}`))
+    console.log(chalk.blue(`📋 Transaction ID: ${transactionId.toString()}`))
+    return transactionId.toString()
   }
 
   private async executeSettlement(verification: any): Promise<void> {
@@ -224,7 +440,7 @@ export class SettlementAgentEnhanced {
         }
       }
 
-      if (this.paymentNetwork === 'hedera-testnet') {
+      if (isHederaPaymentNetwork(this.paymentNetwork)) {
         await this.executeHederaSettlement(verification)
       } else {
         await this.executeX402Settlement(verification)
@@ -1,59 +1,75 @@
 import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { HCS10ConnectionManager } from '../protocols/HCS10ConnectionManager'
+import { MirrorNodeFeeVerifier } from '../protocols/HCS10FeeVerifier'
+import { FileNonceStore } from '../facilitator/NonceStore'
+import { HederaConnectionTopicFactory } from '../protocols/HCS10ConnectionTopics'
 import { HCS10TransactionApproval } from '../protocols/HCS10TransactionApproval'
+import { MessageTransport } from '../transport/MessageTransport'
+import { SequenceCursorStore, FileSequenceCursorStore } from '../transport/SequenceCursorStore'
+import { TopicSubscriber, TopicStream, createTopicStream } from '../transport/TopicSubscriber'
+import { HederaNetworkConfig, getHederaNetwork, hcs10NetworkOf } from '../config/NetworkRegistry'
+import { VerifierAgentConfig, resolveConfig, agentAccount, stateDirOf } from '../config/AgentConfig'
 import chalk from 'chalk'
+import path from 'path'
 import dotenv from 'dotenv'
 
 // Load environment variables
 dotenv.config()
 
 export class VerifierAgent {
-  private hcsClient: HCS10Client
+  private hcsClient?: HCS10Client
+  private transport: MessageTransport
+  private cursorStore: SequenceCursorStore
+  private subscriber: TopicSubscriber
   private messageHandlers: Map<string, Function>
   private connectionManager?: HCS10ConnectionManager
   private transactionApproval?: HCS10TransactionApproval
+  private network: HederaNetworkConfig
+  private settings: VerifierAgentConfig
 
-  constructor() {
-    // Get agent credentials from environment variables
-    const agentId = process.env.VERIFIER_AGENT_ID
-    const privateKey = process.env.VERIFIER_PRIVATE_KEY
+  /**
+   * @param transport - Optional message transport; defaults to an HCS10Client for the agent account
+   * @param cursorStore - Optional per-topic high-water mark store; defaults to a file in the state directory
+   * @param config - Agent settings; defaults to loading them from the environment (VERIFIER_*)
+   */
+  constructor(transport?: MessageTransport, cursorStore?: SequenceCursorStore, config?: VerifierAgentConfig) {
+    this.settings = resolveConfig('verifier', config)
 
-    if (!agentId || !privateKey) {
-      throw new Error('Missing required environment variables: VERIFIER_AGENT_ID and VERIFIER_PRIVATE_KEY')
-    }
+    // Placeholder keys fall back to the main Hedera account
+    const { accountId: agentId, privateKey } = agentAccount(this.settings)
 
-    // Check if we have a placeholder private key
-    if (privateKey.startsWith('placeholder-key-for-')) {
-      console.warn('⚠️  Using placeholder private key. Agent registration may not have captured the actual private key.')
-      console.warn('⚠️  For now, we\'ll use the main Hedera account for testing.')
-      
-      // Use the main Hedera account credentials for testing
-      const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-      const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
-      
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing main Hedera credentials for fallback')
-      }
-      
-      // Initialize HCS10Client with main account for now
-      this.hcsClient = new HCS10Client(mainAccountId, mainPrivateKey, 'testnet')
-      
-      // Initialize connection manager and transaction approval (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, mainAccountId)
-        this.transactionApproval = new HCS10TransactionApproval(this.hcsClient, mainAccountId)
-      }
+    this.cursorStore = cursorStore || new FileSequenceCursorStore(
+      path.join(stateDirOf(this.settings), 'verifier-cursors.json')
+    )
+
+    // Hedera network the agent talks on
+    this.network = getHederaNetwork(this.settings.network ?? 'testnet')
+
+    if (transport) {
+      this.transport = transport
     } else {
-      // Initialize HCS10Client with actual agent credentials
-      this.hcsClient = new HCS10Client(agentId, privateKey, 'testnet')
-      
-      // Initialize connection manager and transaction approval (optional)
-      const useConnections = process.env.USE_HCS10_CONNECTIONS === 'true'
-      if (useConnections) {
-        this.connectionManager = new HCS10ConnectionManager(this.hcsClient, agentId)
-        this.transactionApproval = new HCS10TransactionApproval(this.hcsClient, agentId)
-      }
+      // Initialize HCS10Client with the resolved credentials
+      this.hcsClient = new HCS10Client(agentId, privateKey, hcs10NetworkOf(this.network))
+      this.transport = this.hcsClient
+    }
+
+    // Topic messages are streamed from the mirror node (or read from the injected transport)
+    const stream: TopicStream = createTopicStream(this.settings.topicStream ?? (this.hcsClient ? 'grpc' : 'poll'), this.network, this.transport)
+    this.subscriber = new TopicSubscriber(this.transport, { stream, cursorStore: this.cursorStore })
+
+    // Initialize connection manager and transaction approval (optional)
+    if (this.settings.useConnections) {
+      this.connectionManager = new HCS10ConnectionManager(this.transport, agentId, {
+        network: this.network,
+        topicStream: stream,
+        topicFactory: new HederaConnectionTopicFactory(this.network, agentId, privateKey),
+        feeVerifier: new MirrorNodeFeeVerifier(this.network, {
+          usedPayments: new FileNonceStore(path.join(stateDirOf(this.settings), 'verifier-fee-payments.json'))
+        }),
+        ...(this.settings.topicId && { inboundTopicId: this.settings.topicId }),
+        ...(this.settings.agentTopics && { inboundTopics: this.settings.agentTopics })
+      })
+      this.transactionApproval = new HCS10TransactionApproval(this.transport, agentId)
     }
 
     // Initialize message handlers map
@@ -62,41 +78,31 @@ export class VerifierAgent {
 
   async init(): Promise<void> {
     try {
-      // Get topic ID from environment
-      const topicId = process.env.VERIFIER_TOPIC_ID
+      const topicId = this.settings.topicId
       if (!topicId) {
-        throw new Error('Missing required environment variable: VERIFIER_TOPIC_ID')
+        throw new Error('Missing verifier topicId (set VERIFIER_TOPIC_ID)')
       }
 
       console.log(chalk.green('VerifierAgent initialized and ready to process messages'))
-      console.log(`🔗 VerifierAgent initialized for Hedera testnet`)
-      console.log(`🆔 Agent ID: ${process.env.VERIFIER_AGENT_ID}`)
+      console.log(`🔗 VerifierAgent initialized for Hedera ${this.network.name}`)
+      console.log(`🆔 Agent ID: ${this.settings.agentId}`)
       console.log(`📡 Topic ID: ${topicId}`)
-      console.log(`🔄 Polling for messages every 5 seconds...`)
+      console.log(`🔄 Subscribed to topic messages...`)
       
-      // Start polling for messages
-      this.startMessagePolling(topicId)
+      // Handle messages as they arrive on the topic
+      this.subscriber.subscribe(topicId, message => this.handleMessage(message))
     } catch (error) {
       console.error('❌ Failed to initialize VerifierAgent:', error)
       throw error
     }
   }
 
-  private startMessagePolling(topicId: string): void {
-    // Poll for messages every 5 seconds
-    setInterval(async () => {
-      try {
-        const result = await this.hcsClient.getMessages(topicId)
-        if (result.messages && result.messages.length > 0) {
-          console.log(chalk.green(`📨 Found ${result.messages.length} new message(s)`))
-          for (const message of result.messages) {
-            await this.handleMessage(message)
-          }
-        }
-      } catch (error) {
-        console.error('❌ Error polling for messages:', error)
-      }
-    }, 5000) // Poll every 5 seconds
+  /**
+   * Stop receiving topic messages
+   */
+  stop(): void {
+    this.subscriber.close()
+    this.connectionManager?.close()
   }
 
   private async handleMessage(message: any): Promise<void> {
@@ -145,13 +151,13 @@ export class VerifierAgent {
       if (approved) {
         console.log(chalk.green('✓ Approved'))
         
-        // Send result via hcsClient.sendMessage to SETTLEMENT_TOPIC_ID
-        const settlementTopicId = process.env.SETTLEMENT_TOPIC_ID
+        // Send result to the settlement agent's topic
+        const settlementTopicId = this.settings.settlementTopicId
         if (!settlementTopicId) {
-          throw new Error('Missing required environment variable: SETTLEMENT_TOPIC_ID')
+          throw new Error('Missing verifier settlementTopicId (set SETTLEMENT_TOPIC_ID)')
         }
         
-        await this.hcsClient.sendMessage(settlementTopicId, JSON.stringify(result))
+        await this.transport.sendMessage(settlementTopicId, JSON.stringify(result))
         console.log(`📤 Verification result sent to settlement topic: ${settlementTopicId}`)
       } else {
         console.log(chalk.yellow('✗ Rejected'))
@@ -188,7 +194,17 @@ export class VerifierAgent {
     return this.transactionApproval
   }
 
+  /**
+   * Get the message transport used by this agent
+   */
+  getTransport(): MessageTransport {
+    return this.transport
+  }
+
   getHcsClient(): HCS10Client {
+    if (!this.hcsClient) {
+      throw new Error('HCS10Client not available: agent was created with a custom transport')
+    }
     return this.hcsClient
   }
 }
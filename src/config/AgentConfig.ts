@@ -0,0 +1,480 @@
+/**
+ * Agent Configuration
+ *
+ * Typed configuration accepted by the agent and facilitator constructors, so
+ * they can be created programmatically instead of from `process.env`.
+ *
+ * `loadConfig` builds the same objects from a JSON or YAML file (path in
+ * `options.file` or `HEDRON_CONFIG`) overlaid with the environment variables
+ * the agents have always read, validates every requested role up front and
+ * reports all problems in one error:
+ *
+ *    network: testnet              # shared by every role
+ *    operator: { accountId: 0.0.2, privateKey: ... }
+ *    payment: { network: hedera-testnet, rpcUrl: ..., walletPrivateKey: ... }
+ *    analyzer: { agentId: 0.0.1001, privateKey: ..., topicId: 0.0.5001 }
+ *    settlement: { agentId: 0.0.1003, privateKey: ..., hitl: { enabled: true } }
+ */
+
+import { z } from 'zod/v4'
+import fs from 'fs'
+import path from 'path'
+import YAML from 'yaml'
+import { HEDERA_NETWORK_NAMES, PAYMENT_NETWORKS, HederaNetworkName, PaymentNetwork, isHederaPaymentNetwork } from './NetworkRegistry'
+import { validateWithSchema, SchemaValidationResult } from '../protocols/ProtocolSchemas'
+import type { X402BudgetConfig } from '../facilitator/X402PaymentClient'
+import { TOPIC_STREAM_KINDS, TopicStreamKind } from '../transport/TopicSubscriber'
+import { loadEnvIfNeeded } from '../utils/env'
+
+/**
+ * Hedera account credentials
+ */
+export interface HederaAccountConfig {
+  accountId: string
+  privateKey: string
+}
+
+/**
+ * Settings shared by all agents
+ */
+export interface AgentConfig {
+  agentId: string
+  privateKey: string // A "placeholder-key-for-..." value falls back to the operator account
+  topicId?: string // Inbound topic the agent listens on
+  network?: HederaNetworkName // Hedera network the agent talks on (default: testnet)
+  operator?: HederaAccountConfig // Main account: placeholder-key fallback and Hedera payments
+  useConnections?: boolean // Use HCS-10 connections (default: false)
+  stateDir?: string // Directory of cursor, ledger and negotiation files (default: .agent-state)
+  agentTopics?: Record<string, string> // Other agents' inbound topics by agent ID (default: <AGENT>_TOPIC_ID)
+  topicStream?: TopicStreamKind // How topic messages are received (default: grpc for an HCS10Client, else the transport)
+}
+
+/**
+ * Analyzer agent settings
+ */
+export interface AnalyzerAgentConfig extends AgentConfig {
+  x402Budget?: X402BudgetConfig // Enables x402 payments for paid data
+  walletPrivateKey?: string // EVM wallet for x402 payments on EVM chains
+}
+
+/**
+ * Verifier agent settings
+ */
+export interface VerifierAgentConfig extends AgentConfig {
+  settlementTopicId?: string // Where approved proposals are sent
+  openAiApiKey?: string // Enables LLM reasoning in the intelligent verifier
+}
+
+/**
+ * Where and how settlements are paid
+ */
+export interface PaymentConfig {
+  network: PaymentNetwork
+  rpcUrl: string // EVM JSON-RPC URL
+  walletPrivateKey: string // EVM settlement wallet
+  operator?: HederaAccountConfig // Pays on Hedera payment networks
+  hederaMerchantAccountId?: string // Default payTo on Hedera
+  merchantWalletAddress?: string // Default payTo on EVM chains
+  usdcContract?: string // Default: the network's USDC
+}
+
+/**
+ * Settlement agent settings
+ */
+export interface SettlementAgentConfig extends AgentConfig {
+  payment: PaymentConfig
+  analyzerTopicId?: string // Where completed settlements are announced
+  hbarPaymentAmount?: number // HBAR per settlement (default: 10)
+  strictSignatures?: boolean // Reject unsigned or unknown A2A senders
+  requireMandate?: boolean // Only pay AP2 requests covered by a user mandate (default: true)
+  hitl?: { enabled?: boolean; paymentThreshold?: number } // Human approval above the threshold (default: off, 100)
+}
+
+/**
+ * x402 facilitator settings
+ */
+export interface FacilitatorConfig {
+  payment: PaymentConfig
+  stateDir?: string // Directory of the ledger and nonce files (default: .agent-state)
+}
+
+/**
+ * Configuration of each role
+ */
+export interface HedronConfig {
+  analyzer: AnalyzerAgentConfig
+  verifier: VerifierAgentConfig
+  settlement: SettlementAgentConfig
+  facilitator: FacilitatorConfig
+}
+
+export type ConfigRole = keyof HedronConfig
+
+/**
+ * Where configuration is loaded from
+ */
+export interface ConfigLoadOptions {
+  file?: string // JSON or YAML file (default: HEDRON_CONFIG, if set)
+  env?: Record<string, string | undefined> // Overrides file values (default: process.env)
+}
+
+const PLACEHOLDER_KEY_PREFIX = 'placeholder-key-for-'
+
+const EntityIdSchema = z.string().regex(/^\d+\.\d+\.\d+$/, "Must be a Hedera entity ID (shard.realm.num)")
+const EvmPrivateKeySchema = z.string().regex(/^(0x)?[0-9a-fA-F]{64}$/, "Must be a 32-byte hex private key")
+const EvmAddressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be an EVM address")
+const AmountSchema = z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a decimal string")
+
+const HederaAccountSchema = z.object({
+  accountId: EntityIdSchema,
+  privateKey: z.string().min(1)
+})
+
+const AgentFields = {
+  agentId: EntityIdSchema,
+  privateKey: z.string().min(1),
+  topicId: EntityIdSchema.optional(),
+  network: z.enum(HEDERA_NETWORK_NAMES).optional(),
+  operator: HederaAccountSchema.optional(),
+  useConnections: z.boolean().optional(),
+  stateDir: z.string().min(1).optional(),
+  agentTopics: z.record(z.string(), EntityIdSchema).optional(),
+  topicStream: z.enum(TOPIC_STREAM_KINDS).optional()
+}
+
+const X402BudgetSchema = z.partialRecord(z.enum(PAYMENT_NETWORKS), z.object({
+  maxPerPayment: AmountSchema.optional(),
+  maxTotal: AmountSchema.optional(),
+  allowedPayTo: z.array(z.string().min(1)).optional(),
+  tokens: z.record(EntityIdSchema, z.object({
+    decimals: z.number().int().nonnegative(),
+    maxPerPayment: AmountSchema.optional(),
+    maxTotal: AmountSchema.optional()
+  })).optional()
+}))
+
+/**
+ * Whether a (possibly invalid) parsed value is an object with the given field
+ */
+function hasField<K extends string>(value: unknown, field: K): value is Record<K, unknown> {
+  return typeof value === 'object' && value !== null && field in value
+}
+
+const PaymentSchema = z.object({
+  network: z.enum(PAYMENT_NETWORKS),
+  rpcUrl: z.url(),
+  walletPrivateKey: EvmPrivateKeySchema,
+  operator: HederaAccountSchema.optional(),
+  hederaMerchantAccountId: EntityIdSchema.optional(),
+  merchantWalletAddress: EvmAddressSchema.optional(),
+  usdcContract: EvmAddressSchema.optional()
+}).refine(payment => !isHederaPaymentNetwork(payment.network) || payment.operator !== undefined, {
+  path: ['operator'],
+  message: 'Required to pay on a Hedera network',
+  // Also reported when other fields are invalid, so all problems surface at once
+  when: check => hasField(check.value, 'network') && isHederaPaymentNetwork(check.value.network)
+})
+
+/**
+ * A placeholder private key needs the operator account to fall back to
+ */
+function hasOperatorForPlaceholder(config: { privateKey: string; operator?: unknown }): boolean {
+  return !config.privateKey.startsWith(PLACEHOLDER_KEY_PREFIX) || config.operator !== undefined
+}
+
+const PLACEHOLDER_OPERATOR_ISSUE = {
+  path: ['operator'],
+  message: 'Required when privateKey is a placeholder',
+  when: (check: { value: unknown }) => hasField(check.value, 'privateKey') && String(check.value.privateKey).startsWith(PLACEHOLDER_KEY_PREFIX)
+}
+
+export const AnalyzerAgentConfigSchema = z.object({
+  ...AgentFields,
+  x402Budget: X402BudgetSchema.optional(),
+  walletPrivateKey: EvmPrivateKeySchema.optional()
+}).refine(hasOperatorForPlaceholder, PLACEHOLDER_OPERATOR_ISSUE)
+
+export const VerifierAgentConfigSchema = z.object({
+  ...AgentFields,
+  settlementTopicId: EntityIdSchema.optional(),
+  openAiApiKey: z.string().min(1).optional()
+}).refine(hasOperatorForPlaceholder, PLACEHOLDER_OPERATOR_ISSUE)
+
+export const SettlementAgentConfigSchema = z.object({
+  ...AgentFields,
+  payment: PaymentSchema,
+  analyzerTopicId: EntityIdSchema.optional(),
+  hbarPaymentAmount: z.number().positive().optional(),
+  strictSignatures: z.boolean().optional(),
+  requireMandate: z.boolean().optional(),
+  hitl: z.object({
+    enabled: z.boolean().optional(),
+    paymentThreshold: z.number().nonnegative().optional()
+  }).optional()
+}).refine(hasOperatorForPlaceholder, PLACEHOLDER_OPERATOR_ISSUE)
+
+export const FacilitatorConfigSchema = z.object({
+  payment: PaymentSchema,
+  stateDir: z.string().min(1).optional()
+})
+
+const CONFIG_SCHEMAS: Record<ConfigRole, z.ZodType> = {
+  analyzer: AnalyzerAgentConfigSchema,
+  verifier: VerifierAgentConfigSchema,
+  settlement: SettlementAgentConfigSchema,
+  facilitator: FacilitatorConfigSchema
+}
+
+/**
+ * Environment variable bound to a config field
+ */
+interface EnvBinding {
+  path: string // Dotted field path
+  key: string
+  parse?: (value: string) => unknown
+}
+
+const parseBoolean = (value: string) => value === 'true'
+const parseNumber = (value: string) => Number(value)
+const parseJson = (value: string) => {
+  try {
+    return JSON.parse(value)
+  } catch (error) {
+    return value // Reported by the schema
+  }
+}
+
+function agentBindings(prefix: string): EnvBinding[] {
+  return [
+    { path: 'agentId', key: `${prefix}_AGENT_ID` },
+    { path: 'privateKey', key: `${prefix}_PRIVATE_KEY` },
+    { path: 'topicId', key: `${prefix}_TOPIC_ID` },
+    { path: 'network', key: 'HEDERA_NETWORK' },
+    { path: 'network', key: `${prefix}_HEDERA_NETWORK` }, // Wins over HEDERA_NETWORK
+    { path: 'operator.accountId', key: 'HEDERA_ACCOUNT_ID' },
+    { path: 'operator.privateKey', key: 'HEDERA_PRIVATE_KEY' },
+    { path: 'useConnections', key: 'USE_HCS10_CONNECTIONS', parse: parseBoolean },
+    { path: 'stateDir', key: 'AGENT_STATE_DIR' },
+    { path: 'topicStream', key: 'TOPIC_STREAM' }
+  ]
+}
+
+const PAYMENT_BINDINGS: EnvBinding[] = [
+  { path: 'payment.network', key: 'PAYMENT_NETWORK' },
+  { path: 'payment.rpcUrl', key: 'BASE_RPC_URL' },
+  { path: 'payment.walletPrivateKey', key: 'SETTLEMENT_WALLET_PRIVATE_KEY' },
+  { path: 'payment.operator.accountId', key: 'HEDERA_ACCOUNT_ID' },
+  { path: 'payment.operator.privateKey', key: 'HEDERA_PRIVATE_KEY' },
+  { path: 'payment.hederaMerchantAccountId', key: 'HEDERA_MERCHANT_ACCOUNT_ID' },
+  { path: 'payment.merchantWalletAddress', key: 'MERCHANT_WALLET_ADDRESS' },
+  { path: 'payment.usdcContract', key: 'USDC_CONTRACT' }
+]
+
+const ENV_BINDINGS: Record<ConfigRole, EnvBinding[]> = {
+  analyzer: [
+    ...agentBindings('ANALYZER'),
+    { path: 'x402Budget', key: 'ANALYZER_X402_BUDGET', parse: parseJson },
+    { path: 'walletPrivateKey', key: 'ANALYZER_WALLET_PRIVATE_KEY' }
+  ],
+  verifier: [
+    ...agentBindings('VERIFIER'),
+    { path: 'settlementTopicId', key: 'SETTLEMENT_TOPIC_ID' },
+    { path: 'openAiApiKey', key: 'OPENAI_API_KEY' }
+  ],
+  settlement: [
+    ...agentBindings('SETTLEMENT'),
+    ...PAYMENT_BINDINGS,
+    { path: 'analyzerTopicId', key: 'ANALYZER_TOPIC_ID' },
+    { path: 'hbarPaymentAmount', key: 'HBAR_PAYMENT_AMOUNT', parse: parseNumber },
+    { path: 'strictSignatures', key: 'A2A_STRICT_SIGNATURES', parse: parseBoolean },
+    { path: 'requireMandate', key: 'AP2_REQUIRE_MANDATE', parse: parseBoolean },
+    { path: 'hitl.enabled', key: 'HITL_ENABLED', parse: parseBoolean },
+    { path: 'hitl.paymentThreshold', key: 'HITL_PAYMENT_THRESHOLD', parse: parseNumber }
+  ],
+  facilitator: [
+    ...PAYMENT_BINDINGS,
+    { path: 'stateDir', key: 'AGENT_STATE_DIR' }
+  ]
+}
+
+/**
+ * Validate a configuration object for a role
+ */
+export function validateConfig(role: ConfigRole, config: unknown): SchemaValidationResult {
+  return validateWithSchema(CONFIG_SCHEMAS[role], config)
+}
+
+/**
+ * Load, merge and validate the configuration of several roles
+ *
+ * File values are overlaid with environment variables; `payment.network`
+ * defaults to base-sepolia.
+ *
+ * @throws Error listing every invalid or missing field of every role
+ */
+export function loadConfig<R extends ConfigRole>(roles: R[], options: ConfigLoadOptions = {}): Pick<HedronConfig, R> {
+  if (!options.env) {
+    loadEnvIfNeeded()
+  }
+  const env = options.env ?? process.env
+  const file = options.file ?? env.HEDRON_CONFIG
+  const fileConfig = file ? readConfigFile(file) : {}
+
+  const config = {} as Pick<HedronConfig, R>
+  const problems: string[] = []
+  for (const role of roles) {
+    const raw = mergeRoleConfig(role, fileConfig, env)
+    const validation = validateConfig(role, raw)
+    if (!validation.valid) {
+      for (const issue of validation.issues ?? []) {
+        const keys = ENV_BINDINGS[role].filter(binding => binding.path === issue.path).map(binding => binding.key)
+        problems.push(`${role}.${issue.path}: ${issue.message}${keys.length > 0 ? ` (set ${keys.join(' or ')})` : ''}`)
+      }
+    }
+    config[role] = raw as HedronConfig[R]
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration${file ? ` (${file})` : ''}:\n  - ${problems.join('\n  - ')}`)
+  }
+  return config
+}
+
+/**
+ * Load, merge and validate the configuration of one role
+ *
+ * @throws Error listing every invalid or missing field
+ */
+export function loadAgentConfig<R extends ConfigRole>(role: R, options: ConfigLoadOptions = {}): HedronConfig[R] {
+  return loadConfig([role], options)[role]
+}
+
+/**
+ * Configuration a constructor runs with: the one passed in (validated), or one
+ * loaded from the environment and HEDRON_CONFIG
+ *
+ * @throws Error listing every invalid or missing field
+ */
+export function resolveConfig<R extends ConfigRole>(role: R, config?: HedronConfig[R]): HedronConfig[R] {
+  if (!config) {
+    return loadAgentConfig(role)
+  }
+
+  const validation = validateConfig(role, config)
+  if (!validation.valid) {
+    const problems = (validation.issues ?? []).map(issue => `${role}.${issue.path}: ${issue.message}`)
+    throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`)
+  }
+  return config
+}
+
+/**
+ * Account an agent acts as: its own, or the operator account when its private key is a placeholder
+ */
+export function agentAccount(config: AgentConfig): HederaAccountConfig {
+  if (!config.privateKey.startsWith(PLACEHOLDER_KEY_PREFIX)) {
+    return { accountId: config.agentId, privateKey: config.privateKey }
+  }
+
+  console.warn('⚠️  Using placeholder private key. Agent registration may not have captured the actual private key.')
+  console.warn('⚠️  For now, we\'ll use the main Hedera account for testing.')
+  if (!config.operator) {
+    throw new Error('Missing main Hedera credentials for fallback')
+  }
+  return config.operator
+}
+
+/**
+ * Directory of an agent's or facilitator's state files
+ */
+export function stateDirOf(config: { stateDir?: string }): string {
+  return config.stateDir || '.agent-state'
+}
+
+function mergeRoleConfig(role: ConfigRole, fileConfig: Record<string, any>, env: Record<string, string | undefined>): Record<string, any> {
+  const own = asObject(fileConfig[role])
+  const raw: Record<string, any> = role === 'facilitator'
+    ? { ...(fileConfig.stateDir !== undefined && { stateDir: fileConfig.stateDir }), ...own }
+    : {
+        ...pickDefined(fileConfig, ['network', 'operator', 'useConnections', 'stateDir', 'agentTopics', 'topicStream']),
+        ...own
+      }
+
+  if (role === 'settlement' || role === 'facilitator') {
+    raw.payment = {
+      ...(fileConfig.operator !== undefined && { operator: fileConfig.operator }),
+      ...asObject(fileConfig.payment),
+      ...asObject(own.payment)
+    }
+  }
+
+  for (const binding of ENV_BINDINGS[role]) {
+    const value = env[binding.key]
+    if (value !== undefined && value !== '') {
+      setPath(raw, binding.path, binding.parse ? binding.parse(value) : value)
+    }
+  }
+
+  if (raw.payment && raw.payment.network === undefined) {
+    raw.payment.network = 'base-sepolia'
+  }
+  return raw
+}
+
+/**
+ * Read a JSON or YAML (.yaml/.yml) config file
+ */
+function readConfigFile(file: string): Record<string, any> {
+  let contents: string
+  try {
+    contents = fs.readFileSync(file, 'utf8')
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${(error as Error).message}`)
+  }
+
+  let parsed: unknown
+  try {
+    if (['.yaml', '.yml'].includes(path.extname(file).toLowerCase())) {
+      parsed = YAML.parse(contents)
+    } else {
+      parsed = JSON.parse(contents)
+    }
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${file}: ${(error as Error).message}`)
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {}
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain an object`)
+  }
+  return parsed as Record<string, any>
+}
+
+function asObject(value: unknown): Record<string, any> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? { ...value } : {}
+}
+
+function pickDefined(source: Record<string, any>, keys: string[]): Record<string, any> {
+  return Object.fromEntries(keys.filter(key => source[key] !== undefined).map(key => [key, source[key]]))
+}
+
+function setPath(target: Record<string, any>, dottedPath: string, value: unknown): void {
+  const segments = dottedPath.split('.')
+  let node = target
+  for (const segment of segments.slice(0, -1)) {
+    node[segment] = asObject(node[segment])
+    node = node[segment]
+  }
+  node[segments[segments.length - 1]!] = value
+}
+
+// Compile-time checks that every configuration object fits its schema's type
+type Assert<T extends true> = T
+export type ConfigSchemaChecks = [
+  Assert<AnalyzerAgentConfig extends z.infer<typeof AnalyzerAgentConfigSchema> ? true : false>,
+  Assert<VerifierAgentConfig extends z.infer<typeof VerifierAgentConfigSchema> ? true : false>,
+  Assert<SettlementAgentConfig extends z.infer<typeof SettlementAgentConfigSchema> ? true : false>,
+  Assert<FacilitatorConfig extends z.infer<typeof FacilitatorConfigSchema> ? true : false>
+]
@@ -0,0 +1,230 @@
+/**
+ * Network Registry
+ *
+ * Describes the Hedera networks (mainnet, testnet, previewnet and a local
+ * node) and the EVM chains agents pay on, so the same agent code runs against
+ * any of them:
+ * - Hedera: consensus nodes, mirror node REST/gRPC endpoints, EVM chain ID,
+ *   x402/A2A network identifier and USDC token ID
+ * - EVM: chain ID, default RPC URL and USDC contract (with its EIP-712 domain)
+ *
+ * Each agent picks its Hedera network with `<AGENT>_HEDERA_NETWORK`, falling
+ * back to `HEDERA_NETWORK` and then testnet.
+ */
+
+import { Client } from '@hashgraph/sdk'
+
+/**
+ * Hedera network names
+ */
+export const HEDERA_NETWORK_NAMES = ['mainnet', 'testnet', 'previewnet', 'local'] as const
+export type HederaNetworkName = typeof HEDERA_NETWORK_NAMES[number]
+
+/**
+ * Identifiers of Hedera networks in x402 requirements, A2A envelopes and AP2 requests
+ */
+export const HEDERA_PAYMENT_NETWORKS = ['hedera-mainnet', 'hedera-testnet', 'hedera-previewnet', 'hedera-local'] as const
+export type HederaPaymentNetwork = typeof HEDERA_PAYMENT_NETWORKS[number]
+
+/**
+ * EVM chain names (as used by x402)
+ */
+export const EVM_NETWORK_NAMES = ['base', 'base-sepolia', 'ethereum-sepolia'] as const
+export type EvmNetworkName = typeof EVM_NETWORK_NAMES[number]
+
+/**
+ * Any network a payment can be made on
+ */
+export const PAYMENT_NETWORKS = [...HEDERA_PAYMENT_NETWORKS, ...EVM_NETWORK_NAMES] as const
+export type PaymentNetwork = HederaPaymentNetwork | EvmNetworkName
+
+/**
+ * Hedera network description
+ */
+export interface HederaNetworkConfig {
+  name: HederaNetworkName
+  paymentNetwork: HederaPaymentNetwork
+  nodes?: Record<string, string> // Consensus node address → node account ID; default: the SDK's address book
+  mirrorNodeUrl: string // REST API base URL (without /api/v1)
+  mirrorNodeGrpc: string // Mirror node gRPC endpoint for topic subscriptions
+  jsonRpcUrl: string // JSON-RPC relay
+  chainId: number // Hedera EVM chain ID
+  hcs10Network?: 'mainnet' | 'testnet' // Network of the HCS-10 registry; unset where there is none
+  usdcTokenId?: string // HTS token ID of USDC
+}
+
+/**
+ * EVM chain description
+ */
+export interface EvmNetworkConfig {
+  name: EvmNetworkName
+  chainId: number
+  rpcUrl: string // Public default; agents use BASE_RPC_URL when set
+  usdcAddress: string
+  usdcDomain: { name: string; version: string } // EIP-712 domain of the USDC contract
+}
+
+const HEDERA_NETWORKS: Record<HederaNetworkName, HederaNetworkConfig> = {
+  mainnet: {
+    name: 'mainnet',
+    paymentNetwork: 'hedera-mainnet',
+    mirrorNodeUrl: 'https://mainnet-public.mirrornode.hedera.com',
+    mirrorNodeGrpc: 'mainnet-public.mirrornode.hedera.com:443',
+    jsonRpcUrl: 'https://mainnet.hashio.io/api',
+    chainId: 295,
+    hcs10Network: 'mainnet',
+    usdcTokenId: '0.0.456858'
+  },
+  testnet: {
+    name: 'testnet',
+    paymentNetwork: 'hedera-testnet',
+    mirrorNodeUrl: 'https://testnet.mirrornode.hedera.com',
+    mirrorNodeGrpc: 'testnet.mirrornode.hedera.com:443',
+    jsonRpcUrl: 'https://testnet.hashio.io/api',
+    chainId: 296,
+    hcs10Network: 'testnet',
+    usdcTokenId: '0.0.429274'
+  },
+  previewnet: {
+    name: 'previewnet',
+    paymentNetwork: 'hedera-previewnet',
+    mirrorNodeUrl: 'https://previewnet.mirrornode.hedera.com',
+    mirrorNodeGrpc: 'previewnet.mirrornode.hedera.com:443',
+    jsonRpcUrl: 'https://previewnet.hashio.io/api',
+    chainId: 297
+  },
+  local: {
+    name: 'local',
+    paymentNetwork: 'hedera-local',
+    nodes: { '127.0.0.1:50211': '0.0.3' },
+    mirrorNodeUrl: 'http://localhost:5551',
+    mirrorNodeGrpc: '127.0.0.1:5600',
+    jsonRpcUrl: 'http://localhost:7546',
+    chainId: 298
+  }
+}
+
+const EVM_NETWORKS: Record<EvmNetworkName, EvmNetworkConfig> = {
+  base: {
+    name: 'base',
+    chainId: 8453,
+    rpcUrl: 'https://mainnet.base.org',
+    usdcAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    usdcDomain: { name: 'USD Coin', version: '2' }
+  },
+  'base-sepolia': {
+    name: 'base-sepolia',
+    chainId: 84532,
+    rpcUrl: 'https://sepolia.base.org',
+    usdcAddress: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    usdcDomain: { name: 'USDC', version: '2' }
+  },
+  'ethereum-sepolia': {
+    name: 'ethereum-sepolia',
+    chainId: 11155111,
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    usdcAddress: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+    usdcDomain: { name: 'USDC', version: '2' }
+  }
+}
+
+/**
+ * Change a registered Hedera network, e.g. a local node on other ports or a private mirror node
+ */
+export function configureHederaNetwork(name: HederaNetworkName, overrides: Partial<Omit<HederaNetworkConfig, 'name' | 'paymentNetwork'>>): HederaNetworkConfig {
+  HEDERA_NETWORKS[name] = { ...HEDERA_NETWORKS[name], ...overrides }
+  return HEDERA_NETWORKS[name]
+}
+
+/**
+ * Change a registered EVM chain, e.g. to point it at another USDC deployment
+ */
+export function configureEvmNetwork(name: EvmNetworkName, overrides: Partial<Omit<EvmNetworkConfig, 'name'>>): EvmNetworkConfig {
+  EVM_NETWORKS[name] = { ...EVM_NETWORKS[name], ...overrides }
+  return EVM_NETWORKS[name]
+}
+
+/**
+ * Look up a Hedera network by name ("testnet") or payment network ("hedera-testnet")
+ *
+ * @throws Error if the network is unknown
+ */
+export function getHederaNetwork(name: string): HederaNetworkConfig {
+  const network = Object.values(HEDERA_NETWORKS).find(candidate => candidate.name === name || candidate.paymentNetwork === name)
+  if (!network) {
+    throw new Error(`Unknown Hedera network "${name}" (expected one of ${HEDERA_NETWORK_NAMES.join(', ')})`)
+  }
+  return network
+}
+
+/**
+ * Look up an EVM chain by name
+ *
+ * @throws Error if the chain is unknown
+ */
+export function getEvmNetwork(name: string): EvmNetworkConfig {
+  const network = EVM_NETWORKS[name as EvmNetworkName]
+  if (!network) {
+    throw new Error(`Unknown EVM network "${name}" (expected one of ${EVM_NETWORK_NAMES.join(', ')})`)
+  }
+  return network
+}
+
+/**
+ * Whether a payment network is a Hedera network
+ */
+export function isHederaPaymentNetwork(network: unknown): network is HederaPaymentNetwork {
+  return HEDERA_PAYMENT_NETWORKS.includes(network as HederaPaymentNetwork)
+}
+
+/**
+ * Whether a value is a known payment network
+ */
+export function isPaymentNetwork(network: unknown): network is PaymentNetwork {
+  return PAYMENT_NETWORKS.includes(network as PaymentNetwork)
+}
+
+/**
+ * Hedera network an agent runs on: `<AGENT>_HEDERA_NETWORK`, then `HEDERA_NETWORK`, then testnet
+ *
+ * @param agentPrefix - Env prefix of the agent, e.g. "ANALYZER"
+ */
+export function selectHederaNetwork(agentPrefix?: string): HederaNetworkConfig {
+  const name = (agentPrefix && process.env[`${agentPrefix}_HEDERA_NETWORK`]) || process.env.HEDERA_NETWORK || 'testnet'
+  return getHederaNetwork(name)
+}
+
+/**
+ * Payment network from PAYMENT_NETWORK (default: base-sepolia)
+ *
+ * @throws Error if PAYMENT_NETWORK is not a known network
+ */
+export function selectPaymentNetwork(): PaymentNetwork {
+  const network = process.env.PAYMENT_NETWORK || 'base-sepolia'
+  if (!isPaymentNetwork(network)) {
+    throw new Error(`Unknown PAYMENT_NETWORK "${network}" (expected one of ${PAYMENT_NETWORKS.join(', ')})`)
+  }
+  return network
+}
+
+/**
+ * Hedera SDK client for a network (without an operator)
+ */
+export function createHederaClient(network: HederaNetworkConfig): Client {
+  if (network.nodes) {
+    return Client.forNetwork(network.nodes).setMirrorNetwork([network.mirrorNodeGrpc])
+  }
+  return Client.forName(network.name).setMirrorNetwork([network.mirrorNodeGrpc])
+}
+
+/**
+ * HCS-10 client network of a Hedera network
+ *
+ * @throws Error if the network has no HCS-10 registry (pass a transport instead)
+ */
+export function hcs10NetworkOf(network: HederaNetworkConfig): 'mainnet' | 'testnet' {
+  if (!network.hcs10Network) {
+    throw new Error(`HCS-10 is not available on Hedera ${network.name}; pass a message transport instead`)
+  }
+  return network.hcs10Network
+}
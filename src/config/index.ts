@@ -0,0 +1,55 @@
+/**
+ * Hedron Agent SDK - Config Module
+ * 
+ * Export network registry, agent configuration and their helpers
+ */
+
+export {
+  HEDERA_NETWORK_NAMES,
+  HEDERA_PAYMENT_NETWORKS,
+  EVM_NETWORK_NAMES,
+  PAYMENT_NETWORKS,
+  configureHederaNetwork,
+  configureEvmNetwork,
+  getHederaNetwork,
+  getEvmNetwork,
+  isHederaPaymentNetwork,
+  isPaymentNetwork,
+  selectHederaNetwork,
+  selectPaymentNetwork,
+  createHederaClient,
+  hcs10NetworkOf
+} from './NetworkRegistry'
+export type {
+  HederaNetworkName,
+  HederaPaymentNetwork,
+  EvmNetworkName,
+  PaymentNetwork,
+  HederaNetworkConfig,
+  EvmNetworkConfig
+} from './NetworkRegistry'
+
+export {
+  AnalyzerAgentConfigSchema,
+  VerifierAgentConfigSchema,
+  SettlementAgentConfigSchema,
+  FacilitatorConfigSchema,
+  validateConfig,
+  loadConfig,
+  loadAgentConfig,
+  resolveConfig,
+  agentAccount,
+  stateDirOf
+} from './AgentConfig'
+export type {
+  HederaAccountConfig,
+  AgentConfig,
+  AnalyzerAgentConfig,
+  VerifierAgentConfig,
+  PaymentConfig,
+  SettlementAgentConfig,
+  FacilitatorConfig,
+  HedronConfig,
+  ConfigRole,
+  ConfigLoadOptions
+} from './AgentConfig'
@@ -0,0 +1,211 @@
+/**
+ * Hedera x402 "exact" Scheme
+ *
+ * On Hedera the payer pays with a frozen `TransferTransaction` instead of an
+ * EIP-3009 authorization:
+ *
+ *    payload: { transaction: "<base64 transaction bytes>" }
+ *
+ * The transaction ID is generated for the facilitator's account (`extra.feePayer`
+ * in the payment requirements), so the facilitator pays the network fee. The
+ * payer signs it, the facilitator checks amount, asset, recipient and memo from
+ * the bytes, co-signs it and submits it; the transaction ID doubles as the nonce.
+ *
+ * The asset is HBAR or an HTS fungible token ID, moved with `addTokenTransfer`.
+ */
+
+import { AccountId, Hbar, Long, PrivateKey, Transaction, TransactionId, TransferTransaction } from '@hashgraph/sdk'
+import { isHtsTokenId } from '../services/TokenService'
+import { createHash } from 'crypto'
+
+/**
+ * Highest network fee a payer may make the facilitator pay
+ */
+export const MAX_HEDERA_TRANSACTION_FEE = new Hbar(2)
+
+/**
+ * Longest validity Hedera accepts for a transaction (seconds)
+ */
+const MAX_VALID_DURATION = 180
+
+/**
+ * Hedera payment decoded from its transaction bytes
+ */
+export interface HederaPayment {
+  transaction: TransferTransaction
+  transactionId: string
+  feePayer: string // Account the transaction ID belongs to
+  asset: string // "HBAR" or the HTS token ID
+  payer: string // Only account debited
+  recipient: string // Only account credited
+  amount: string // Tinybars or token base units
+  memo: string
+  expiresAt: number // ms
+}
+
+/**
+ * Transaction memo binding a payment to the resource it pays for
+ */
+export function hederaPaymentMemo(resource: string): string {
+  return `x402:${createHash('sha256').update(resource).digest('hex').slice(0, 32)}`
+}
+
+/**
+ * Build and sign the payer's TransferTransaction for payment requirements
+ *
+ * @returns The base64 transaction bytes for `payload.transaction`
+ */
+export async function createHederaPaymentTransaction(
+  requirements: any,
+  payerAccountId: string,
+  payerPrivateKey: PrivateKey | string
+): Promise<string> {
+  const feePayer = requirements.extra?.feePayer
+  if (!feePayer) {
+    throw new Error('Payment requirements do not name a Hedera fee payer (extra.feePayer)')
+  }
+
+  const transaction = new TransferTransaction()
+  if (isHtsTokenId(requirements.asset)) {
+    const amount = Long.fromString(requirements.maxAmountRequired)
+    transaction
+      .addTokenTransfer(requirements.asset, payerAccountId, amount.negate())
+      .addTokenTransfer(requirements.asset, requirements.payTo, amount)
+  } else {
+    const amount = Hbar.fromTinybars(requirements.maxAmountRequired)
+    transaction
+      .addHbarTransfer(payerAccountId, amount.negated())
+      .addHbarTransfer(requirements.payTo, amount)
+  }
+
+  transaction
+    .setTransactionId(TransactionId.generate(feePayer))
+    .setNodeAccountIds((requirements.extra?.nodeAccountIds ?? ['0.0.3']).map((id: string) => AccountId.fromString(id)))
+    .setTransactionMemo(requirements.extra?.memo ?? hederaPaymentMemo(requirements.resource ?? ''))
+    .setTransactionValidDuration(Math.min(requirements.maxTimeoutSeconds ?? 120, MAX_VALID_DURATION))
+    .setMaxTransactionFee(MAX_HEDERA_TRANSACTION_FEE)
+    .freeze()
+
+  const key = typeof payerPrivateKey === 'string' ? PrivateKey.fromString(payerPrivateKey) : payerPrivateKey
+  await transaction.sign(key)
+
+  return Buffer.from(transaction.toBytes()).toString('base64')
+}
+
+/**
+ * Decode a Hedera payment payload
+ *
+ * @throws Error if the payload does not carry a single-payer, single-recipient transfer of one asset
+ */
+export function decodeHederaPayment(paymentPayload: any): HederaPayment {
+  const encoded = paymentPayload?.payload?.transaction
+  if (typeof encoded !== 'string' || encoded.length === 0) {
+    throw new Error('Hedera payments must carry a signed TransferTransaction')
+  }
+
+  const transaction = Transaction.fromBytes(Buffer.from(encoded, 'base64'))
+  if (!(transaction instanceof TransferTransaction)) {
+    throw new Error('Payment transaction is not a TransferTransaction')
+  }
+
+  const transactionId = transaction.transactionId
+  if (!transactionId?.accountId || !transactionId.validStart) {
+    throw new Error('Payment transaction has no transaction ID')
+  }
+
+  if (transaction.nftTransfers.size > 0) {
+    throw new Error('Payment transaction must not transfer NFTs')
+  }
+
+  // Either HBAR or a single HTS token moves, never both
+  let asset = 'HBAR'
+  let transfers: Array<{ accountId: string; amount: Long }> = transaction.hbarTransfersList
+    .map(transfer => {
+      if (transfer.isApproved) {
+        throw new Error('Payment transaction must not use allowances')
+      }
+      return { accountId: transfer.accountId.toString(), amount: transfer.amount.toTinybars() }
+    })
+
+  if (transaction.tokenTransfers.size > 0) {
+    if (transfers.length > 0 || transaction.tokenTransfers.size !== 1) {
+      throw new Error('Payment transaction must transfer a single asset')
+    }
+    const [tokenId, accountAmounts] = Array.from(transaction.tokenTransfers)[0]!
+    asset = tokenId.toString()
+    transfers = Array.from(accountAmounts).map(([accountId, amount]) => ({ accountId: accountId.toString(), amount }))
+  }
+
+  const debits = transfers.filter(transfer => transfer.amount.isNegative())
+  const credits = transfers.filter(transfer => !transfer.amount.isNegative())
+  if (debits.length !== 1 || credits.length !== 1) {
+    throw new Error('Payment transaction must move funds from one payer to one recipient')
+  }
+
+  const [debit] = debits
+  const [credit] = credits
+  const amount = credit!.amount.toString()
+  if (debit!.amount.negate().toString() !== amount) {
+    throw new Error('Payment transaction transfers do not balance')
+  }
+
+  return {
+    transaction,
+    transactionId: transactionId.toString(),
+    feePayer: transactionId.accountId.toString(),
+    asset,
+    payer: debit!.accountId,
+    recipient: credit!.accountId,
+    amount,
+    memo: transaction.transactionMemo,
+    expiresAt: transactionId.validStart.toDate().getTime() + transaction.transactionValidDuration * 1000
+  }
+}
+
+/**
+ * Check a decoded Hedera payment against payment requirements
+ *
+ * @returns An error, or null if the transfer pays exactly what is required
+ */
+export function checkHederaPayment(payment: HederaPayment, requirements: any, feePayer: string): string | null {
+  if (payment.feePayer !== feePayer) {
+    return `Transaction fee payer ${payment.feePayer} is not the facilitator ${feePayer}`
+  }
+  if (payment.payer === feePayer) {
+    return 'Payment transaction debits the facilitator account'
+  }
+  if (payment.asset !== (isHtsTokenId(requirements.asset) ? requirements.asset : 'HBAR')) {
+    return 'Asset mismatch'
+  }
+  if (payment.amount !== requirements.maxAmountRequired) {
+    return 'Amount mismatch'
+  }
+  if (payment.recipient !== requirements.payTo) {
+    return 'Recipient mismatch'
+  }
+  if (requirements.extra?.memo !== undefined && payment.memo !== requirements.extra.memo) {
+    return 'Memo mismatch'
+  }
+
+  const maxFee = payment.transaction.maxTransactionFee
+  if (maxFee && maxFee.toTinybars().greaterThan(MAX_HEDERA_TRANSACTION_FEE.toTinybars())) {
+    return `Max transaction fee ${maxFee.toString()} exceeds ${MAX_HEDERA_TRANSACTION_FEE.toString()}`
+  }
+  if (payment.expiresAt <= Date.now()) {
+    return 'Payment expired'
+  }
+
+  return null
+}
+
+/**
+ * Nonce key of a Hedera payment (`network:payer:transactionId`), or null if it does not decode
+ */
+export function hederaPaymentNonceKey(paymentPayload: any): string | null {
+  try {
+    const payment = decodeHederaPayment(paymentPayload)
+    return `${paymentPayload.network}:${payment.payer}:${payment.transactionId}`
+  } catch (error) {
+    return null
+  }
+}
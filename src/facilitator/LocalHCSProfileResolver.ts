@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express'
 import { Client, PrivateKey, AccountId, TopicMessageQuery, TopicMessage } from '@hashgraph/sdk'
 import { loadEnvIfNeeded } from '../utils/env'
+import { HederaNetworkConfig, selectHederaNetwork, createHederaClient } from '../config/NetworkRegistry'
 import chalk from 'chalk'
 
 loadEnvIfNeeded()
@@ -17,9 +18,13 @@ export class LocalHCSProfileResolver {
   private port: number
   private server: any
 
-  constructor(port: number = 3001) {
+  /**
+   * @param port - Port to listen on
+   * @param network - Network to read profile topics from; defaults to HEDERA_NETWORK
+   */
+  constructor(port: number = 3001, network: HederaNetworkConfig = selectHederaNetwork()) {
     this.app = express()
-    this.client = Client.forTestnet()
+    this.client = createHederaClient(network)
     this.port = port
     this.setupRoutes()
   }
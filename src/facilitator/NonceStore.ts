@@ -0,0 +1,113 @@
+/**
+ * Authorization Nonce Store
+ *
+ * Records the nonces of x402 payment authorizations the facilitator has
+ * settled, so the same signed authorization can't be verified or settled
+ * again. A nonce only needs to be kept until its authorization's
+ * `validBefore`; after that the authorization is rejected as expired anyway
+ * and the nonce is pruned.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+/**
+ * Used-nonce store
+ */
+export interface NonceStore {
+  /**
+   * Whether a nonce has been used
+   */
+  isUsed(nonceKey: string): boolean
+
+  /**
+   * Mark a nonce as used until `expiresAt` (ms)
+   * @returns False if the nonce was already used
+   */
+  markUsed(nonceKey: string, expiresAt: number): boolean
+
+  /**
+   * Forget a nonce whose settlement did not happen (it may be retried)
+   */
+  release(nonceKey: string): void
+}
+
+/**
+ * Non-persistent nonce store
+ */
+export class InMemoryNonceStore implements NonceStore {
+  protected nonces: Map<string, number> = new Map()
+
+  isUsed(nonceKey: string): boolean {
+    const expiresAt = this.nonces.get(nonceKey)
+    return expiresAt !== undefined && expiresAt > Date.now()
+  }
+
+  markUsed(nonceKey: string, expiresAt: number): boolean {
+    this.prune()
+    if (this.nonces.has(nonceKey)) {
+      return false
+    }
+
+    this.nonces.set(nonceKey, expiresAt)
+    this.persist()
+    return true
+  }
+
+  release(nonceKey: string): void {
+    if (this.nonces.delete(nonceKey)) {
+      this.persist()
+    }
+  }
+
+  /**
+   * Save changes (no-op for the in-memory store)
+   */
+  protected persist(): void {}
+
+  private prune(): void {
+    const now = Date.now()
+    for (const [nonceKey, expiresAt] of this.nonces) {
+      if (expiresAt <= now) {
+        this.nonces.delete(nonceKey)
+      }
+    }
+  }
+}
+
+/**
+ * Nonce store persisted to a JSON file ({ "<nonceKey>": <expiresAt> })
+ */
+export class FileNonceStore extends InMemoryNonceStore {
+  private filePath: string
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, number>
+      for (const [nonceKey, expiresAt] of Object.entries(stored)) {
+        this.nonces.set(nonceKey, expiresAt)
+      }
+    }
+  }
+
+  protected persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.nonces), null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
+
+/**
+ * Nonce key of an x402 payment authorization (`network:from:nonce`), or null without a nonce
+ */
+export function authorizationNonceKey(paymentPayload: any): string | null {
+  const authorization = paymentPayload?.payload?.authorization
+  if (!authorization?.nonce || !authorization.from) {
+    return null
+  }
+  return `${paymentPayload.network}:${String(authorization.from).toLowerCase()}:${String(authorization.nonce).toLowerCase()}`
+}
@@ -0,0 +1,285 @@
+/**
+ * Settlement Ledger
+ *
+ * Durable record of every settlement attempt, keyed by an idempotency key
+ * derived from the proposal or payment being settled. It is consulted before
+ * any transfer so a settlement seen twice (e.g. a re-delivered
+ * `verification_result`) is never paid twice:
+ *
+ *    pending   → recorded before the transaction is broadcast
+ *    submitted → transaction ID/hash known and broadcast, outcome not yet confirmed
+ *    confirmed → transfer succeeded on chain
+ *    failed    → transfer never happened and may be retried
+ *
+ * The transaction ID is recorded (`submitted`) before broadcasting, so after
+ * a crash `pending` entries were never sent and `submitted` entries can be
+ * reconciled against the chain with `reconcileSettlements`.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { canonicalJson } from '../protocols/A2AMessageSigner'
+import chalk from 'chalk'
+
+/**
+ * Settlement status
+ */
+export type SettlementStatus = "pending" | "submitted" | "confirmed" | "failed"
+
+/**
+ * Settlement ledger entry
+ */
+export interface SettlementEntry {
+  idempotencyKey: string
+  status: SettlementStatus
+  network: string
+  amount?: string // Base units (tinybars, USDC 6-decimal units)
+  asset?: string
+  recipient?: string
+  txHash?: string // Hedera transaction ID or EVM transaction hash
+  error?: string
+  attempts: number
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Details recorded when a settlement starts
+ */
+export interface SettlementDetails {
+  network: string
+  amount?: string
+  asset?: string
+  recipient?: string
+}
+
+/**
+ * Result of starting a settlement
+ */
+export interface SettlementBegin {
+  proceed: boolean // False when the key is already pending, submitted or confirmed
+  entry: SettlementEntry
+}
+
+/**
+ * Looks up the on-chain outcome of a submitted transaction
+ */
+export interface SettlementStatusChecker {
+  getTransactionStatus(network: string, txHash: string): Promise<"confirmed" | "failed" | "unknown">
+}
+
+/**
+ * Settlement ledger
+ */
+export interface SettlementLedger {
+  /**
+   * Get the entry for an idempotency key
+   */
+  get(idempotencyKey: string): SettlementEntry | null
+
+  /**
+   * List entries, optionally filtered by status, oldest first
+   */
+  list(status?: SettlementStatus): SettlementEntry[]
+
+  /**
+   * Record a settlement attempt unless the key is already in flight or settled
+   */
+  begin(idempotencyKey: string, details: SettlementDetails): SettlementBegin
+
+  /**
+   * Record the transaction ID/hash before it is broadcast
+   */
+  markSubmitted(idempotencyKey: string, txHash: string): SettlementEntry
+
+  /**
+   * Record a successful transfer
+   */
+  markConfirmed(idempotencyKey: string, txHash?: string): SettlementEntry
+
+  /**
+   * Record a transfer that did not happen (the key may be retried)
+   */
+  markFailed(idempotencyKey: string, error: string): SettlementEntry
+}
+
+/**
+ * Non-persistent settlement ledger
+ */
+export class InMemorySettlementLedger implements SettlementLedger {
+  protected entries: Map<string, SettlementEntry> = new Map()
+
+  get(idempotencyKey: string): SettlementEntry | null {
+    return this.entries.get(idempotencyKey) || null
+  }
+
+  list(status?: SettlementStatus): SettlementEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => status === undefined || entry.status === status)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  begin(idempotencyKey: string, details: SettlementDetails): SettlementBegin {
+    const existing = this.entries.get(idempotencyKey)
+    if (existing && existing.status !== "failed") {
+      return { proceed: false, entry: existing }
+    }
+
+    const now = Date.now()
+    const entry: SettlementEntry = {
+      idempotencyKey,
+      status: "pending",
+      ...details,
+      attempts: (existing?.attempts ?? 0) + 1,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    }
+
+    this.entries.set(idempotencyKey, entry)
+    this.persist()
+
+    return { proceed: true, entry }
+  }
+
+  markSubmitted(idempotencyKey: string, txHash: string): SettlementEntry {
+    const entry = this.require(idempotencyKey, ["pending"])
+    entry.status = "submitted"
+    entry.txHash = txHash
+    return this.update(entry)
+  }
+
+  markConfirmed(idempotencyKey: string, txHash?: string): SettlementEntry {
+    const entry = this.require(idempotencyKey, ["pending", "submitted", "confirmed"])
+    entry.status = "confirmed"
+    if (txHash !== undefined) {
+      entry.txHash = txHash
+    }
+    delete entry.error
+    return this.update(entry)
+  }
+
+  markFailed(idempotencyKey: string, error: string): SettlementEntry {
+    const entry = this.require(idempotencyKey, ["pending", "submitted"])
+    entry.status = "failed"
+    entry.error = error
+    return this.update(entry)
+  }
+
+  /**
+   * Save changes (no-op for the in-memory ledger)
+   */
+  protected persist(): void {}
+
+  private require(idempotencyKey: string, allowed: SettlementStatus[]): SettlementEntry {
+    const entry = this.entries.get(idempotencyKey)
+    if (!entry) {
+      throw new Error(`Unknown settlement ${idempotencyKey}`)
+    }
+    if (!allowed.includes(entry.status)) {
+      throw new Error(`Settlement ${idempotencyKey} is already ${entry.status}`)
+    }
+    return entry
+  }
+
+  private update(entry: SettlementEntry): SettlementEntry {
+    entry.updatedAt = Date.now()
+    this.persist()
+    return entry
+  }
+}
+
+/**
+ * Settlement ledger persisted to a JSON file ({ "<idempotencyKey>": <SettlementEntry> })
+ *
+ * Every change is written through a temporary file and rename before the
+ * caller continues, so the ledger on disk is never behind a broadcast.
+ */
+export class FileSettlementLedger extends InMemorySettlementLedger {
+  private filePath: string
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, SettlementEntry>
+      for (const [idempotencyKey, entry] of Object.entries(stored)) {
+        this.entries.set(idempotencyKey, entry)
+      }
+    }
+  }
+
+  protected persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.entries), null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
+
+/**
+ * Idempotency key for settling a proposal or payment
+ *
+ * Uses `paymentId` or `proposalId` when present, otherwise a hash of the
+ * source's canonical JSON (identical re-deliveries map to the same key).
+ */
+export function settlementIdempotencyKey(scope: string, source: any): string {
+  const id = source?.paymentId ?? source?.proposalId
+  if (typeof id === 'string' && id.length > 0) {
+    return `${scope}:${id}`
+  }
+
+  const digest = createHash('sha256').update(canonicalJson(source ?? null)).digest('hex')
+  return `${scope}:sha256:${digest}`
+}
+
+/**
+ * Reconcile the ledger after a restart
+ *
+ * `pending` entries were never broadcast and are marked failed; `submitted`
+ * entries are checked on chain and stay `submitted` while the outcome is unknown.
+ *
+ * @param onFailed - Called for each entry marked failed, e.g. to release what it reserved
+ */
+export async function reconcileSettlements(
+  ledger: SettlementLedger,
+  checker: SettlementStatusChecker,
+  onFailed?: (entry: SettlementEntry) => void
+): Promise<{ confirmed: number; failed: number; unresolved: number }> {
+  const summary = { confirmed: 0, failed: 0, unresolved: 0 }
+
+  for (const entry of ledger.list("pending")) {
+    ledger.markFailed(entry.idempotencyKey, 'Interrupted before the transaction was submitted')
+    onFailed?.(entry)
+    summary.failed++
+  }
+
+  for (const entry of ledger.list("submitted")) {
+    let status: "confirmed" | "failed" | "unknown" = "unknown"
+    try {
+      status = await checker.getTransactionStatus(entry.network, entry.txHash!)
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not check ${entry.txHash}: ${(error as Error).message}`))
+    }
+
+    if (status === "confirmed") {
+      ledger.markConfirmed(entry.idempotencyKey)
+      summary.confirmed++
+    } else if (status === "failed") {
+      ledger.markFailed(entry.idempotencyKey, `Transaction ${entry.txHash} failed on chain`)
+      onFailed?.(entry)
+      summary.failed++
+    } else {
+      summary.unresolved++
+    }
+  }
+
+  if (summary.confirmed + summary.failed + summary.unresolved > 0) {
+    console.log(chalk.blue(
+      `♻️  Reconciled settlement ledger: ${summary.confirmed} confirmed, ${summary.failed} failed, ${summary.unresolved} unresolved`
+    ))
+  }
+
+  return summary
+}
@@ -0,0 +1,246 @@
+import express, { Request, Response, NextFunction } from 'express'
+import { z } from 'zod/v4'
+import { X402FacilitatorServer } from './X402FacilitatorServer'
+import { validateWithSchema, SchemaIssue } from '../protocols/ProtocolSchemas'
+import { loadEnvIfNeeded } from '../utils/env'
+import chalk from 'chalk'
+
+loadEnvIfNeeded()
+
+/**
+ * x402 payment requirements (unknown fields are passed through)
+ */
+const PaymentRequirementsSchema = z.looseObject({
+  scheme: z.string().min(1),
+  network: z.string().min(1),
+  maxAmountRequired: z.string().regex(/^\d+$/, "Amount must be an integer string in base units"),
+  payTo: z.string().min(1),
+  asset: z.string(),
+  resource: z.string().optional(),
+  maxTimeoutSeconds: z.number().int().positive().optional()
+})
+
+/**
+ * Decoded x402 payment payload
+ */
+const PaymentPayloadSchema = z.looseObject({
+  x402Version: z.number().int(),
+  scheme: z.string().min(1),
+  network: z.string().min(1),
+  payload: z.record(z.string(), z.unknown())
+})
+
+/**
+ * Body of POST /verify and POST /settle
+ *
+ * The payment is given either as the base64 `X-PAYMENT` header value
+ * (`paymentHeader`) or decoded (`paymentPayload`).
+ */
+const FacilitatorRequestSchema = z.object({
+  x402Version: z.number().int().optional(),
+  paymentHeader: z.string().min(1).optional(),
+  paymentPayload: PaymentPayloadSchema.optional(),
+  paymentRequirements: PaymentRequirementsSchema
+}).refine(body => body.paymentHeader !== undefined || body.paymentPayload !== undefined, {
+  message: "Either paymentHeader or paymentPayload is required",
+  path: ["paymentHeader"]
+})
+
+type FacilitatorRequest = z.infer<typeof FacilitatorRequestSchema>
+
+/**
+ * Facilitator error body
+ */
+export interface FacilitatorErrorBody {
+  error: "invalid_request" | "unsupported_scheme" | "not_found" | "internal_error"
+  message: string
+  issues?: SchemaIssue[]
+}
+
+/**
+ * x402 Facilitator HTTP Server
+ *
+ * Serves X402FacilitatorServer over HTTP per the x402 facilitator spec so
+ * resource servers and other SDKs can use it as their facilitator URL:
+ * - POST /verify    { x402Version, paymentHeader | paymentPayload, paymentRequirements } → { isValid, invalidReason }
+ * - POST /settle    (same body, optional Idempotency-Key header) → { success, error, txHash, networkId }
+ * - GET  /supported → { kinds: [{ x402Version, scheme, network }] }
+ */
+export class X402FacilitatorHttpServer {
+  private app: express.Application
+  private facilitator: X402FacilitatorServer
+  private port: number
+  private server: any
+
+  /**
+   * @param facilitator - Facilitator to serve; defaults to one configured from the environment
+   * @param port - Port to listen on (0 picks a free port)
+   */
+  constructor(facilitator?: X402FacilitatorServer, port: number = 3002) {
+    this.app = express()
+    this.facilitator = facilitator || new X402FacilitatorServer()
+    this.port = port
+    this.setupRoutes()
+  }
+
+  /**
+   * Setup HTTP routes
+   */
+  private setupRoutes(): void {
+    this.app.use(express.json({ limit: '64kb' }))
+
+    // Health check
+    this.app.get('/health', (req: Request, res: Response) => {
+      res.json({ status: 'ok', service: 'X402FacilitatorHttpServer' })
+    })
+
+    this.app.get('/supported', (req: Request, res: Response) => {
+      const { kinds } = this.facilitator.getSupportedSchemes()
+      res.json({ kinds: kinds.map(kind => ({ x402Version: 1, ...kind })) })
+    })
+
+    this.app.post('/verify', async (req: Request, res: Response) => {
+      const body = this.parseRequest(req, res)
+      if (!body) return
+
+      try {
+        console.log(chalk.blue(`📥 /verify ${body.paymentRequirements.scheme} on ${body.paymentRequirements.network}`))
+        const result = await this.facilitator.verify(this.paymentHeader(body), body.paymentRequirements)
+        res.json(result)
+      } catch (error) {
+        this.sendError(res, 500, 'internal_error', (error as Error).message)
+      }
+    })
+
+    this.app.post('/settle', async (req: Request, res: Response) => {
+      const body = this.parseRequest(req, res)
+      if (!body) return
+
+      try {
+        console.log(chalk.blue(`📥 /settle ${body.paymentRequirements.scheme} on ${body.paymentRequirements.network}`))
+        const result = await this.facilitator.settle(
+          this.paymentHeader(body),
+          body.paymentRequirements,
+          req.get('Idempotency-Key') || undefined
+        )
+        res.json(result)
+      } catch (error) {
+        this.sendError(res, 500, 'internal_error', (error as Error).message)
+      }
+    })
+
+    this.app.use((req: Request, res: Response) => {
+      this.sendError(res, 404, 'not_found', `No route for ${req.method} ${req.path}`)
+    })
+
+    // Malformed or oversized JSON bodies
+    this.app.use((error: any, req: Request, res: Response, next: NextFunction) => {
+      if (res.headersSent) {
+        next(error)
+        return
+      }
+      const status = typeof error?.status === 'number' && error.status < 500 ? error.status : 500
+      this.sendError(res, status, status < 500 ? 'invalid_request' : 'internal_error', error?.message || String(error))
+    })
+  }
+
+  /**
+   * Validate a /verify or /settle body, answering 400 when it is invalid
+   */
+  private parseRequest(req: Request, res: Response): FacilitatorRequest | null {
+    const validation = validateWithSchema(FacilitatorRequestSchema, req.body)
+    if (!validation.valid) {
+      this.sendError(res, 400, 'invalid_request', validation.error || 'Invalid request body', validation.issues)
+      return null
+    }
+
+    const body = req.body as FacilitatorRequest
+
+    if (body.paymentHeader !== undefined) {
+      try {
+        const decoded = JSON.parse(Buffer.from(body.paymentHeader, 'base64').toString())
+        const payloadValidation = validateWithSchema(PaymentPayloadSchema, decoded)
+        if (!payloadValidation.valid) {
+          this.sendError(res, 400, 'invalid_request', `Invalid payment header: ${payloadValidation.error}`, payloadValidation.issues)
+          return null
+        }
+      } catch (error) {
+        this.sendError(res, 400, 'invalid_request', 'paymentHeader must be base64-encoded JSON')
+        return null
+      }
+    }
+
+    const { scheme, network } = body.paymentRequirements
+    const supported = this.facilitator.getSupportedSchemes().kinds
+      .some(kind => kind.scheme === scheme && kind.network === network)
+    if (!supported) {
+      this.sendError(res, 400, 'unsupported_scheme', `Scheme ${scheme} on ${network} is not supported by this facilitator`)
+      return null
+    }
+
+    return body
+  }
+
+  private paymentHeader(body: FacilitatorRequest): string {
+    return body.paymentHeader ?? Buffer.from(JSON.stringify(body.paymentPayload)).toString('base64')
+  }
+
+  private sendError(
+    res: Response,
+    status: number,
+    error: FacilitatorErrorBody['error'],
+    message: string,
+    issues?: SchemaIssue[]
+  ): void {
+    const body: FacilitatorErrorBody = { error, message, ...(issues !== undefined && { issues }) }
+    res.status(status).json(body)
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  getUrl(): string {
+    const address = this.server?.address()
+    const port = address && typeof address === 'object' ? address.port : this.port
+    return `http://localhost:${port}`
+  }
+
+  /**
+   * Start the server
+   */
+  async start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server = this.app.listen(this.port, () => {
+        console.log(chalk.green(`✅ X402FacilitatorHttpServer started on ${this.getUrl()}`))
+        console.log(chalk.blue(`   POST ${this.getUrl()}/verify`))
+        console.log(chalk.blue(`   POST ${this.getUrl()}/settle`))
+        console.log(chalk.blue(`   GET  ${this.getUrl()}/supported`))
+        resolve()
+      })
+      this.server.on('error', reject)
+    })
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server) {
+        this.server.close(() => {
+          console.log(chalk.yellow('X402FacilitatorHttpServer stopped'))
+          this.server = undefined
+          resolve()
+        })
+      } else {
+        resolve()
+      }
+    })
+  }
+}
+
+// Standalone server if run directly
+if (require.main === module) {
+  const server = new X402FacilitatorHttpServer(undefined, parseInt(process.env.FACILITATOR_PORT || '3002'))
+  server.start().catch(console.error)
+}
@@ -1,45 +1,131 @@
 import { verifyPayment, settlePayment } from 'a2a-x402'
 import { ethers } from 'ethers'
-import { Client, PrivateKey, AccountId, TransferTransaction, Hbar } from '@hashgraph/sdk'
+import { Client, PrivateKey, PublicKey, AccountId, TransactionId, TransactionReceiptQuery, Status } from '@hashgraph/sdk'
 import { loadEnvIfNeeded } from '../utils/env'
+import { SettlementLedger, SettlementStatusChecker, FileSettlementLedger, settlementIdempotencyKey } from './SettlementLedger'
+import { NonceStore, FileNonceStore, authorizationNonceKey } from './NonceStore'
+import { decodeHederaPayment, checkHederaPayment, hederaPaymentMemo, hederaPaymentNonceKey } from './HederaExactScheme'
+import { A2AKeyRing, PublicKeyResolver } from '../protocols/A2AMessageSigner'
+import { TokenService, isHtsTokenId } from '../services/TokenService'
+import {
+  PaymentNetwork,
+  HederaNetworkConfig,
+  EvmNetworkConfig,
+  getHederaNetwork,
+  getEvmNetwork,
+  isHederaPaymentNetwork,
+  createHederaClient
+} from '../config/NetworkRegistry'
+import { FacilitatorConfig, PaymentConfig, resolveConfig, stateDirOf } from '../config/AgentConfig'
+import axios from 'axios'
 import chalk from 'chalk'
+import path from 'path'
 
 // Load environment variables (optional for SDK usage)
 loadEnvIfNeeded()
 
-export class X402FacilitatorServer {
-  private provider: ethers.JsonRpcProvider
-  private wallet: ethers.Wallet
-  private hederaClient?: Client
-  private paymentNetwork: 'hedera-testnet' | 'base-sepolia'
-
-  constructor() {
-    const baseRpcUrl = process.env.BASE_RPC_URL
-    const walletPrivateKey = process.env.SETTLEMENT_WALLET_PRIVATE_KEY
-
-    if (!baseRpcUrl || !walletPrivateKey) {
-      throw new Error('Missing required environment variables: BASE_RPC_URL and SETTLEMENT_WALLET_PRIVATE_KEY')
-    }
+/**
+ * Parameters for building x402 payment requirements
+ */
+export interface PaymentRequirementsParams {
+  amount: string // Human-readable price, e.g. "0.01" (USDC) or "1" (HBAR)
+  resource: string
+  network?: PaymentNetwork // Default: the facilitator's payment network
+  payTo?: string // Default: the configured Hedera merchant account or merchant wallet
+  asset?: string // Default: HBAR, or the configured / the network's USDC; on Hedera also an HTS token ID
+  decimals?: number // Default: 8 (HBAR), 6 (USDC) or the HTS token's decimals (see loadToken)
+  description?: string
+  mimeType?: string
+  maxTimeoutSeconds?: number // Default: 120
+}
 
-    this.provider = new ethers.JsonRpcProvider(baseRpcUrl)
-    this.wallet = new ethers.Wallet(walletPrivateKey, this.provider)
+/**
+ * Idempotency key of an x402 payment (one settlement per payer authorization
+ * nonce, or per transaction ID for Hedera payments)
+ */
+export function paymentIdempotencyKey(paymentPayload: any): string {
+  const authorization = paymentPayload?.payload?.authorization
+  return settlementIdempotencyKey('x402', {
+    paymentId: authorization?.nonce
+      ? `${paymentPayload.network}:${authorization.from}:${authorization.nonce}`
+      : hederaPaymentNonceKey(paymentPayload) ?? undefined,
+    paymentPayload
+  })
+}
 
-    // Determine payment network
-    this.paymentNetwork = (process.env.PAYMENT_NETWORK || 'base-sepolia') as 'hedera-testnet' | 'base-sepolia'
+/**
+ * Nonce key of an x402 payment (EIP-3009 authorization nonce or Hedera transaction ID)
+ */
+function paymentNonceKey(paymentPayload: any): string | null {
+  return isHederaPaymentNetwork(paymentPayload?.network)
+    ? hederaPaymentNonceKey(paymentPayload)
+    : authorizationNonceKey(paymentPayload)
+}
 
-    // Initialize Hedera client if using Hedera network
-    if (this.paymentNetwork === 'hedera-testnet') {
-      const mainAccountId = process.env.HEDERA_ACCOUNT_ID
-      const mainPrivateKey = process.env.HEDERA_PRIVATE_KEY
-      
-      if (!mainAccountId || !mainPrivateKey) {
-        throw new Error('Missing required Hedera credentials for Hedera network: HEDERA_ACCOUNT_ID and HEDERA_PRIVATE_KEY')
-      }
+/**
+ * EIP-3009 TransferWithAuthorization typed data
+ */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+}
 
-      this.hederaClient = Client.forTestnet()
-      const accountId = AccountId.fromString(mainAccountId)
-      const privateKeyObj = PrivateKey.fromString(mainPrivateKey)
+export class X402FacilitatorServer implements SettlementStatusChecker {
+  private provider: ethers.JsonRpcProvider
+  private wallet: ethers.Wallet
+  private hederaClient?: Client
+  private hederaOperatorKey?: PrivateKey
+  private hederaNetwork?: HederaNetworkConfig
+  private evmNetwork: EvmNetworkConfig
+  private paymentNetwork: PaymentNetwork
+  private payment: PaymentConfig
+  private ledger: SettlementLedger
+  private nonces: NonceStore
+  private hederaKeys: A2AKeyRing
+  private tokenService?: TokenService
+  private tokenDecimals: Map<string, number> = new Map()
+
+  /**
+   * @param ledger - Optional settlement ledger; defaults to a file in the state directory
+   * @param nonces - Optional used-nonce store; defaults to a file in the state directory
+   * @param keyResolver - Resolves Hedera payers' public keys before falling back to the mirror node
+   * @param config - Payment settings; defaults to loading them from the environment
+   */
+  constructor(ledger?: SettlementLedger, nonces?: NonceStore, keyResolver?: PublicKeyResolver, config?: FacilitatorConfig) {
+    const settings = resolveConfig('facilitator', config)
+    this.payment = settings.payment
+
+    this.provider = new ethers.JsonRpcProvider(this.payment.rpcUrl)
+    this.wallet = new ethers.Wallet(this.payment.walletPrivateKey, this.provider)
+
+    // Determine payment network (EVM payments are taken on base-sepolia when paying out on Hedera)
+    this.paymentNetwork = this.payment.network
+    this.evmNetwork = getEvmNetwork(isHederaPaymentNetwork(this.paymentNetwork) ? 'base-sepolia' : this.paymentNetwork)
+
+    this.ledger = ledger || new FileSettlementLedger(
+      path.join(stateDirOf(settings), 'facilitator-ledger.json')
+    )
+    this.nonces = nonces || new FileNonceStore(
+      path.join(stateDirOf(settings), 'facilitator-nonces.json')
+    )
+    this.hederaKeys = new A2AKeyRing(keyResolver)
+
+    // Initialize Hedera client if using Hedera network (the config requires an operator there)
+    if (isHederaPaymentNetwork(this.paymentNetwork)) {
+      const operator = this.payment.operator!
+      this.hederaNetwork = getHederaNetwork(this.paymentNetwork)
+      this.hederaClient = createHederaClient(this.hederaNetwork)
+      const accountId = AccountId.fromString(operator.accountId)
+      const privateKeyObj = PrivateKey.fromString(operator.privateKey)
       this.hederaClient.setOperator(accountId, privateKeyObj)
+      this.hederaOperatorKey = privateKeyObj
+      this.tokenService = new TokenService(this.hederaClient, this.hederaNetwork)
     }
   }
 
@@ -52,14 +138,14 @@ export class X402FacilitatorServer {
       const paymentPayload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString())
       
       // Local verification logic instead of HTTP call
-      const isValid = this.validatePaymentLocally(paymentPayload, paymentRequirements)
+      const validation = await this.validatePaymentLocally(paymentPayload, paymentRequirements)
       
-      if (isValid) {
+      if (validation.valid) {
         console.log(chalk.green('✅ Facilitator: Payment verification successful'))
         return { isValid: true, invalidReason: null }
       } else {
         console.log(chalk.red('❌ Facilitator: Payment verification failed'))
-        return { isValid: false, invalidReason: 'Local validation failed' }
+        return { isValid: false, invalidReason: validation.error || 'Local validation failed' }
       }
     } catch (error) {
       console.error('❌ Facilitator: Verification error:', error)
@@ -70,147 +156,441 @@ export class X402FacilitatorServer {
     }
   }
 
-  // Local payment validation
-  private validatePaymentLocally(paymentPayload: any, requirements: any): boolean {
+  /**
+   * Local payment validation
+   *
+   * Checks the payment against the requirements, the authorization's
+   * validity window, that its nonce is unused and that `from` signed it
+   * (EIP-712 TransferWithAuthorization signature). Hedera payments are
+   * checked from their transaction bytes instead.
+   */
+  private async validatePaymentLocally(paymentPayload: any, requirements: any): Promise<{ valid: boolean; error?: string }> {
+    const invalid = (error: string) => {
+      console.log(chalk.red(`❌ ${error}`))
+      return { valid: false, error }
+    }
+
     try {
       // Check x402 version
       if (paymentPayload.x402Version !== 1) {
-        console.log(chalk.red('❌ Invalid x402 version'))
-        return false
+        return invalid('Invalid x402 version')
       }
 
       // Check scheme matches
       if (paymentPayload.scheme !== requirements.scheme) {
-        console.log(chalk.red('❌ Scheme mismatch'))
-        return false
+        return invalid('Scheme mismatch')
       }
 
       // Check network matches
       if (paymentPayload.network !== requirements.network) {
-        console.log(chalk.red('❌ Network mismatch'))
-        return false
+        return invalid('Network mismatch')
+      }
+
+      // Hedera payments carry a pre-signed transfer instead of an authorization
+      if (isHederaPaymentNetwork(paymentPayload.network)) {
+        const hederaError = await this.validateHederaPayment(paymentPayload, requirements)
+        if (hederaError) {
+          return invalid(hederaError)
+        }
+        console.log(chalk.green('✅ All local validations passed'))
+        return { valid: true }
       }
 
       // Check authorization exists
       const authorization = paymentPayload.payload?.authorization
       if (!authorization) {
-        console.log(chalk.red('❌ No authorization found'))
-        return false
+        return invalid('No authorization found')
       }
 
       // Check amount matches
-      if (authorization.value !== requirements.maxAmountRequired) {
-        console.log(chalk.red('❌ Amount mismatch'))
-        return false
+      if (String(authorization.value) !== requirements.maxAmountRequired) {
+        return invalid('Amount mismatch')
       }
 
       // Check recipient matches
-      if (authorization.to !== requirements.payTo) {
-        console.log(chalk.red('❌ Recipient mismatch'))
-        return false
+      if (String(authorization.to).toLowerCase() !== String(requirements.payTo).toLowerCase()) {
+        return invalid('Recipient mismatch')
       }
 
       // Check validity period
       const now = Math.floor(Date.now() / 1000)
-      if (authorization.validBefore && now > authorization.validBefore) {
-        console.log(chalk.red('❌ Payment expired'))
-        return false
+      if (authorization.validAfter && now < Number(authorization.validAfter)) {
+        return invalid('Payment not yet valid')
+      }
+      if (authorization.validBefore && now > Number(authorization.validBefore)) {
+        return invalid('Payment expired')
+      }
+
+      // Check the authorization has not been used
+      const nonceKey = authorizationNonceKey(paymentPayload)
+      if (!nonceKey) {
+        return invalid('Authorization has no nonce')
+      }
+      if (this.nonces.isUsed(nonceKey)) {
+        return invalid('Authorization nonce already used')
+      }
+
+      // Check the payer signed the authorization
+      const signature = paymentPayload.payload?.signature
+      if (typeof signature !== 'string' || signature.length === 0) {
+        return invalid('No signature found')
+      }
+
+      const signatureError = this.verifyEIP712Signature(authorization, signature, requirements)
+      if (signatureError) {
+        return invalid(signatureError)
       }
 
       console.log(chalk.green('✅ All local validations passed'))
-      return true
+      return { valid: true }
     } catch (error) {
       console.error('❌ Local validation error:', error)
-      return false
+      return { valid: false, error: `Validation error: ${(error as Error).message}` }
+    }
+  }
+
+  /**
+   * Recover the EIP-3009 TransferWithAuthorization signer
+   * @returns An error, or null if `from` signed the authorization
+   */
+  private verifyEIP712Signature(authorization: any, signature: string, requirements: any): string | null {
+    let evmNetwork: EvmNetworkConfig
+    try {
+      evmNetwork = getEvmNetwork(requirements.network)
+    } catch (error) {
+      return `No chain ID for network ${requirements.network}`
+    }
+
+    const domain = {
+      name: requirements.extra?.name || evmNetwork.usdcDomain.name,
+      version: requirements.extra?.version || evmNetwork.usdcDomain.version,
+      chainId: evmNetwork.chainId,
+      verifyingContract: requirements.asset
+    }
+
+    let signer: string
+    try {
+      signer = ethers.verifyTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, {
+        from: authorization.from,
+        to: authorization.to,
+        value: authorization.value,
+        validAfter: authorization.validAfter ?? 0,
+        validBefore: authorization.validBefore,
+        nonce: authorization.nonce
+      }, signature)
+    } catch (error) {
+      return `Invalid signature: ${(error as Error).message}`
+    }
+
+    if (signer.toLowerCase() !== String(authorization.from).toLowerCase()) {
+      return `Signature is from ${signer}, not ${authorization.from}`
+    }
+    return null
+  }
+
+  /**
+   * Validate a Hedera payment from its transaction bytes
+   * @returns An error, or null if the payer signed a transfer of exactly the required amount
+   */
+  private async validateHederaPayment(paymentPayload: any, requirements: any): Promise<string | null> {
+    const feePayer = this.hederaClient?.operatorAccountId
+    if (!feePayer) {
+      return 'Hedera payments are not enabled on this facilitator'
+    }
+
+    let payment
+    try {
+      payment = decodeHederaPayment(paymentPayload)
+    } catch (error) {
+      return (error as Error).message
+    }
+
+    const paymentError = checkHederaPayment(payment, requirements, feePayer.toString())
+    if (paymentError) {
+      return paymentError
+    }
+
+    if (this.nonces.isUsed(paymentNonceKey(paymentPayload)!)) {
+      return 'Authorization nonce already used'
+    }
+
+    const publicKey = await this.resolveHederaKey(payment.payer)
+    if (!publicKey) {
+      return `No public key found for ${payment.payer}`
+    }
+    if (!publicKey.verifyTransaction(payment.transaction)) {
+      return `Transaction is not signed by ${payment.payer}`
+    }
+
+    // A token transfer to an unassociated account fails after the fee is paid
+    if (payment.asset !== 'HBAR' && !(await this.tokenService!.isTokenAssociated(payment.recipient, payment.asset))) {
+      return `Recipient ${payment.recipient} is not associated with token ${payment.asset}`
+    }
+    return null
+  }
+
+  /**
+   * Look up an HTS token's decimals so requirements can be priced in it
+   *
+   * @returns The token's decimals
+   */
+  async loadToken(tokenId: string): Promise<number> {
+    const known = this.tokenDecimals.get(tokenId)
+    if (known !== undefined) {
+      return known
+    }
+    if (!this.tokenService) {
+      throw new Error('HTS token payments require a Hedera payment network')
+    }
+
+    const info = await this.tokenService.getTokenInfo(tokenId)
+    this.tokenDecimals.set(tokenId, info.decimals)
+    console.log(chalk.blue(`🪙 Facilitator: ${info.symbol} (${tokenId}) has ${info.decimals} decimals`))
+    return info.decimals
+  }
+
+  /**
+   * Public key of a Hedera account, looked up on the mirror node when not already known
+   */
+  private async resolveHederaKey(accountId: string): Promise<PublicKey | null> {
+    const known = this.hederaKeys.resolvePublicKey(accountId)
+    if (known) {
+      return known
+    }
+
+    try {
+      const response = await axios.get(`${this.hederaNetwork!.mirrorNodeUrl}/api/v1/accounts/${accountId}`)
+      const key = response.data?.key
+      if (key?._type === 'ED25519') {
+        this.hederaKeys.addKey(accountId, PublicKey.fromStringED25519(key.key))
+      } else if (key?._type === 'ECDSA_SECP256K1') {
+        this.hederaKeys.addKey(accountId, PublicKey.fromStringECDSA(key.key))
+      } else {
+        console.log(chalk.yellow(`⚠️  Unsupported key type for ${accountId}: ${key?._type}`))
+        return null
+      }
+      return this.hederaKeys.resolvePublicKey(accountId)
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not look up the key of ${accountId}: ${(error as Error).message}`))
+      return null
     }
   }
 
   // POST /settle endpoint
-  async settle(paymentHeader: string, paymentRequirements: any): Promise<any> {
+  /**
+   * Settle a payment at most once per idempotency key
+   *
+   * @param idempotencyKey - Defaults to a key derived from the authorization nonce
+   */
+  async settle(paymentHeader: string, paymentRequirements: any, idempotencyKey?: string): Promise<any> {
+    let key: string | undefined
+    let nonceKey: string | null = null
+
     try {
-      console.log(chalk.blue(`🏦 Facilitator: Settling payment locally on ${this.paymentNetwork}...`))
-      
-      // Decode payment header
+      // Decode payment header; the payment's network (checked against the requirements) picks the transfer
       const paymentPayload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString())
+      const network: string = paymentPayload?.network || paymentRequirements?.network || this.paymentNetwork
+      const transfer = this.transferSummary(paymentPayload)
+      console.log(chalk.blue(`🏦 Facilitator: Settling payment locally on ${network}...`))
+
+      // Consult the ledger before any transfer
+      key = idempotencyKey || paymentIdempotencyKey(paymentPayload)
+      const begin = this.ledger.begin(key, {
+        network,
+        ...(transfer.amount !== undefined && { amount: transfer.amount }),
+        ...(paymentRequirements?.asset && { asset: paymentRequirements.asset }),
+        ...(transfer.recipient !== undefined && { recipient: transfer.recipient })
+      })
+
+      if (!begin.proceed) {
+        const entry = begin.entry
+        if (entry.status === 'confirmed') {
+          console.log(chalk.yellow(`⏭️  Facilitator: ${key} already settled in ${entry.txHash}`))
+          return { success: true, error: null, txHash: entry.txHash, networkId: entry.network }
+        }
+
+        console.log(chalk.yellow(`⏭️  Facilitator: ${key} is already ${entry.status}, not settling again`))
+        return {
+          success: false,
+          error: `Settlement ${key} is already ${entry.status}${entry.txHash ? ` (${entry.txHash})` : ''}`,
+          txHash: entry.txHash || null,
+          networkId: entry.network
+        }
+      }
+
+      // Verify the authorization and claim its nonce before any transfer
+      const validation = await this.validatePaymentLocally(paymentPayload, paymentRequirements)
+      const claimKey = paymentNonceKey(paymentPayload)
+      const expiresAt = this.paymentExpiry(paymentPayload)
+      if (!validation.valid || !claimKey || !this.nonces.markUsed(claimKey, expiresAt)) {
+        const error = `Payment verification failed: ${validation.error || 'Authorization nonce already used'}`
+        this.ledger.markFailed(key, error)
+        console.log(chalk.red(`❌ Facilitator: ${error}`))
+        return { success: false, error, txHash: null, networkId: null }
+      }
+      nonceKey = claimKey
       
       // Execute transfer based on network
       let txHash: string | null = null
       
-      if (this.paymentNetwork === 'hedera-testnet') {
-        txHash = await this.executeHederaTransfer(paymentPayload, paymentRequirements)
+      if (isHederaPaymentNetwork(network)) {
+        txHash = await this.executeHederaTransfer(paymentPayload, paymentRequirements, key)
       } else {
-        txHash = await this.executeUSDCTransfer(paymentPayload, paymentRequirements)
+        txHash = await this.executeUSDCTransfer(paymentPayload, paymentRequirements, key)
       }
       
       if (txHash) {
+        this.ledger.markConfirmed(key, txHash)
         console.log(chalk.green('✅ Facilitator: Payment settled successfully'))
         console.log(chalk.blue(`📋 Transaction Hash: ${txHash}`))
-        console.log(chalk.blue(`📋 Network: ${this.paymentNetwork}`))
+        console.log(chalk.blue(`📋 Network: ${network}`))
         
         return {
           success: true,
           error: null,
           txHash: txHash,
-          networkId: this.paymentNetwork
+          networkId: network
         }
       } else {
+        const outcome = this.recordFailure(key, 'Failed to execute transfer', nonceKey)
         console.log(chalk.red('❌ Facilitator: Payment settlement failed'))
         return {
           success: false,
-          error: 'Failed to execute transfer',
-          txHash: null,
+          error: outcome,
+          txHash: this.ledger.get(key)?.txHash || null,
           networkId: null
         }
       }
     } catch (error) {
       console.error('❌ Facilitator: Settlement error:', error)
+      const outcome = key && this.ledger.get(key)
+        ? this.recordFailure(key, `Settlement error: ${(error as Error).message}`, nonceKey)
+        : `Settlement error: ${(error as Error).message}`
       return {
         success: false,
-        error: `Settlement error: ${(error as Error).message}`,
+        error: outcome,
         txHash: null,
         networkId: null
       }
     }
   }
 
-  // Execute Hedera HBAR transfer
-  private async executeHederaTransfer(paymentPayload: any, requirements: any): Promise<string | null> {
+  /**
+   * Amount and recipient a payment claims to transfer
+   */
+  private transferSummary(paymentPayload: any): { amount?: string; recipient?: string } {
+    const authorization = paymentPayload?.payload?.authorization
+    if (authorization) {
+      return {
+        ...(authorization.value !== undefined && { amount: String(authorization.value) }),
+        ...(authorization.to !== undefined && { recipient: String(authorization.to) })
+      }
+    }
+
     try {
-      console.log(chalk.blue('💰 Executing actual Hedera HBAR transfer...'))
-      
+      const payment = decodeHederaPayment(paymentPayload)
+      return { amount: payment.amount, recipient: payment.recipient }
+    } catch (error) {
+      return {}
+    }
+  }
+
+  /**
+   * When a payment's authorization stops being valid (ms)
+   */
+  private paymentExpiry(paymentPayload: any): number {
+    if (isHederaPaymentNetwork(paymentPayload?.network)) {
+      return decodeHederaPayment(paymentPayload).expiresAt
+    }
+    const validBefore = paymentPayload?.payload?.authorization?.validBefore
+    return validBefore ? Number(validBefore) * 1000 : Number.MAX_SAFE_INTEGER
+  }
+
+  /**
+   * Record a failed settlement attempt
+   *
+   * Attempts that never broadcast are marked failed and their nonce released
+   * (they may be retried); broadcast ones stay submitted until reconciled
+   * against the chain.
+   */
+  private recordFailure(key: string, error: string, nonceKey: string | null = null): string {
+    const entry = this.ledger.get(key)
+    if (entry?.status === 'submitted') {
+      console.log(chalk.yellow(`⚠️  ${entry.txHash} was broadcast; outcome will be reconciled`))
+      return `${error}; transaction ${entry.txHash} outcome unknown`
+    }
+    if (entry?.status === 'pending') {
+      this.ledger.markFailed(key, error)
+      if (nonceKey) {
+        this.nonces.release(nonceKey)
+      }
+    }
+    return error
+  }
+
+  /**
+   * On-chain outcome of a submitted settlement transaction
+   */
+  async getTransactionStatus(network: string, txHash: string): Promise<"confirmed" | "failed" | "unknown"> {
+    if (isHederaPaymentNetwork(network)) {
       if (!this.hederaClient) {
-        throw new Error('Hedera client not initialized')
+        return 'unknown'
       }
 
-      const authorization = paymentPayload.payload?.authorization
-      if (!authorization) {
-        throw new Error('No authorization found in payment payload')
+      try {
+        const receipt = await new TransactionReceiptQuery()
+          .setTransactionId(TransactionId.fromString(txHash))
+          .setValidateStatus(false)
+          .execute(this.hederaClient)
+
+        if (receipt.status === Status.Success) return 'confirmed'
+        if (receipt.status === Status.Unknown) return 'unknown'
+        return 'failed'
+      } catch (error) {
+        // Receipts are only kept for ~3 minutes; a missing receipt means the transaction never reached consensus
+        return (error as any)?.status === Status.ReceiptNotFound ? 'failed' : 'unknown'
       }
+    }
 
-      // Parse amounts
-      const tinybarAmount = BigInt(authorization.value)
-      const hbarAmount = Number(tinybarAmount) / 100_000_000
-      const recipientId = AccountId.fromString(authorization.to)
+    const receipt = await this.provider.getTransactionReceipt(txHash)
+    if (!receipt) {
+      return 'unknown'
+    }
+    return receipt.status === 1 ? 'confirmed' : 'failed'
+  }
 
-      console.log(chalk.blue(`📋 Transfer amount: ${hbarAmount} HBAR (${tinybarAmount.toString()} tinybars)`))
-      console.log(chalk.blue(`📋 Recipient: ${recipientId.toString()}`))
+  /**
+   * Settlement ledger consulted before every transfer
+   */
+  getLedger(): SettlementLedger {
+    return this.ledger
+  }
 
-      // Get current account info
-      const operatorId = this.hederaClient.operatorAccountId
-      if (!operatorId) {
-        throw new Error('No operator account configured')
+  // Co-sign and submit the payer's Hedera HBAR or HTS token transfer
+  private async executeHederaTransfer(paymentPayload: any, requirements: any, idempotencyKey: string): Promise<string | null> {
+    try {
+      if (!this.hederaClient || !this.hederaOperatorKey) {
+        throw new Error('Hedera client not initialized')
       }
 
-      // Create transfer transaction
-      const transfer = new TransferTransaction()
-        .addHbarTransfer(operatorId, Hbar.fromTinybars(-Number(tinybarAmount)))
-        .addHbarTransfer(recipientId, Hbar.fromTinybars(Number(tinybarAmount)))
-        .setTransactionMemo('A2A agent settlement via X402')
+      const payment = decodeHederaPayment(paymentPayload)
+      console.log(chalk.blue(`💰 Submitting payer-signed Hedera ${payment.asset} transfer...`))
 
+      if (payment.asset === 'HBAR') {
+        console.log(chalk.blue(`📋 Transfer amount: ${ethers.formatUnits(payment.amount, 8)} HBAR (${payment.amount} tinybars)`))
+      } else {
+        console.log(chalk.blue(`📋 Transfer amount: ${payment.amount} base units of token ${payment.asset}`))
+      }
+      console.log(chalk.blue(`📋 From: ${payment.payer}`))
+      console.log(chalk.blue(`📋 To: ${payment.recipient}`))
+
+      // Sign as fee payer; the transaction ID is known before submission
+      await payment.transaction.sign(this.hederaOperatorKey)
+      this.ledger.markSubmitted(idempotencyKey, payment.transactionId)
       console.log(chalk.yellow(`📋 Submitting Hedera transfer transaction...`))
       
       // Execute and wait for confirmation
-      const response = await transfer.execute(this.hederaClient)
+      const response = await payment.transaction.execute(this.hederaClient)
       const receipt = await response.getReceipt(this.hederaClient)
       
       console.log(chalk.green(`✅ Transfer confirmed with status: ${receipt.status}`))
@@ -224,45 +604,69 @@ export class X402FacilitatorServer {
     }
   }
 
-  // Execute actual USDC transfer
-  private async executeUSDCTransfer(paymentPayload: any, requirements: any): Promise<string | null> {
+  /**
+   * Execute a USDC payment with the payer's EIP-3009 authorization
+   *
+   * Submits `transferWithAuthorization` with the verified signature, so the
+   * USDC moves from the payer to `to`; the facilitator wallet only pays gas.
+   */
+  private async executeUSDCTransfer(paymentPayload: any, requirements: any, idempotencyKey: string): Promise<string | null> {
     try {
-      console.log(chalk.blue('💰 Executing actual USDC transfer...'))
+      console.log(chalk.blue('💰 Executing USDC transferWithAuthorization...'))
       
       const authorization = paymentPayload.payload?.authorization
       if (!authorization) {
         throw new Error('No authorization found in payment payload')
       }
+      const { v, r, s } = ethers.Signature.from(paymentPayload.payload.signature)
 
       // Create USDC contract instance
       const usdcContract = new ethers.Contract(
         requirements.asset,
         [
-          'function transfer(address to, uint256 amount) returns (bool)',
+          'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
           'function balanceOf(address account) view returns (uint256)'
         ],
         this.wallet
       )
 
-      // Check balance before transfer
-      const balance = await (usdcContract as any).balanceOf(this.wallet.address)
+      // Check the payer's balance before transfer
+      const balance = await (usdcContract as any).balanceOf(authorization.from)
       const amount = BigInt(authorization.value)
       
-      console.log(chalk.blue(`📋 Current USDC balance: ${ethers.formatUnits(balance, 6)} USDC`))
+      console.log(chalk.blue(`📋 Payer: ${authorization.from}`))
+      console.log(chalk.blue(`📋 Payer USDC balance: ${ethers.formatUnits(balance, 6)} USDC`))
       console.log(chalk.blue(`📋 Transfer amount: ${ethers.formatUnits(amount, 6)} USDC`))
       console.log(chalk.blue(`📋 Recipient: ${authorization.to}`))
 
       if (balance < amount) {
-        throw new Error(`Insufficient USDC balance: ${ethers.formatUnits(balance, 6)} < ${ethers.formatUnits(amount, 6)}`)
+        throw new Error(`Insufficient payer USDC balance: ${ethers.formatUnits(balance, 6)} < ${ethers.formatUnits(amount, 6)}`)
       }
 
+      // Sign first so the hash can be recorded before broadcasting
+      const unsignedTx = await this.wallet.populateTransaction(
+        await (usdcContract as any).transferWithAuthorization.populateTransaction(
+          authorization.from,
+          authorization.to,
+          amount,
+          authorization.validAfter ?? 0,
+          authorization.validBefore,
+          authorization.nonce,
+          v,
+          r,
+          s
+        )
+      )
+      const signedTx = await this.wallet.signTransaction(unsignedTx)
+      this.ledger.markSubmitted(idempotencyKey, ethers.Transaction.from(signedTx).hash!)
+
       // Execute transfer
-      const tx = await (usdcContract as any).transfer(authorization.to, amount)
+      const tx = await this.provider.broadcastTransaction(signedTx)
       console.log(chalk.yellow(`📋 Transaction submitted: ${tx.hash}`))
       
       // Wait for confirmation
       const receipt = await tx.wait()
-      console.log(chalk.green(`✅ Transfer confirmed in block: ${receipt.blockNumber}`))
+      console.log(chalk.green(`✅ Transfer confirmed in block: ${receipt?.blockNumber}`))
       
       return tx.hash
     } catch (error) {
@@ -271,15 +675,63 @@ export class X402FacilitatorServer {
     }
   }
 
+  /**
+   * Build x402 payment requirements for a resource on a supported network
+   *
+   * Amounts are converted to base units (tinybars for HBAR, 6 decimals for USDC).
+   * HTS token prices need `decimals`, or the token loaded with `loadToken` first.
+   */
+  createPaymentRequirements(params: PaymentRequirementsParams): any {
+    const network = params.network || this.paymentNetwork
+    if (!this.getSupportedSchemes().kinds.some(kind => kind.network === network)) {
+      throw new Error(`Network ${network} is not supported by this facilitator`)
+    }
+
+    const isHedera = isHederaPaymentNetwork(network)
+    const evmNetwork = isHedera ? undefined : getEvmNetwork(network)
+    const payTo = params.payTo || (isHedera ? this.payment.hederaMerchantAccountId : this.payment.merchantWalletAddress)
+    const asset = params.asset || (isHedera ? 'HBAR' : this.payment.usdcContract || evmNetwork!.usdcAddress)
+    if (!payTo || !asset) {
+      throw new Error(`Missing payTo or asset for ${network} (configure ${isHedera ? 'payment.hederaMerchantAccountId' : 'payment.merchantWalletAddress'} or pass payTo)`)
+    }
+    if (isHedera && asset !== 'HBAR' && !isHtsTokenId(asset)) {
+      throw new Error(`Asset ${asset} is neither HBAR nor an HTS token ID`)
+    }
+
+    const decimals = params.decimals ?? (isHedera
+      ? (asset === 'HBAR' ? 8 : this.tokenDecimals.get(asset))
+      : 6)
+    if (decimals === undefined) {
+      throw new Error(`Unknown decimals for token ${asset} (pass decimals or call loadToken first)`)
+    }
+
+    return {
+      scheme: 'exact' as const,
+      network,
+      asset,
+      payTo,
+      maxAmountRequired: ethers.parseUnits(params.amount, decimals).toString(),
+      resource: params.resource,
+      description: params.description || '',
+      mimeType: params.mimeType || 'application/json',
+      maxTimeoutSeconds: params.maxTimeoutSeconds ?? 120,
+      // Hedera payers build the transfer with the facilitator as fee payer; EVM payers sign for the USDC domain
+      ...(isHedera && {
+        extra: { feePayer: this.hederaClient!.operatorAccountId!.toString(), memo: hederaPaymentMemo(params.resource) }
+      }),
+      ...(evmNetwork && { extra: { ...evmNetwork.usdcDomain } })
+    }
+  }
+
   // GET /supported endpoint
-  getSupportedSchemes(): { kinds: Array<{ scheme: string; network: string }> } {
-    const kinds = [
-      { scheme: 'exact', network: 'base-sepolia' }
+  getSupportedSchemes(): { kinds: Array<{ scheme: string; network: string; extra?: Record<string, unknown> }> } {
+    const kinds: Array<{ scheme: string; network: string; extra?: Record<string, unknown> }> = [
+      { scheme: 'exact', network: this.evmNetwork.name }
     ]
 
     // Add Hedera if using Hedera network
-    if (this.paymentNetwork === 'hedera-testnet') {
-      kinds.push({ scheme: 'exact', network: 'hedera-testnet' })
+    if (this.hederaNetwork) {
+      kinds.push({ scheme: 'exact', network: this.hederaNetwork.paymentNetwork, extra: { feePayer: this.hederaClient!.operatorAccountId!.toString() } })
     }
 
     return { kinds }
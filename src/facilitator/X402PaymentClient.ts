@@ -0,0 +1,384 @@
+import { processPayment } from 'a2a-x402'
+import { ethers } from 'ethers'
+import { PaymentRequirementsParams } from './X402FacilitatorServer'
+import { createHederaPaymentTransaction } from './HederaExactScheme'
+import { isHtsTokenId } from '../services/TokenService'
+import { isHederaPaymentNetwork, isPaymentNetwork } from '../config/NetworkRegistry'
+import chalk from 'chalk'
+
+/**
+ * Network an x402 payment is made on
+ */
+export type X402Network = NonNullable<PaymentRequirementsParams['network']>
+
+/**
+ * Decimals of a network's native payment asset (HBAR in tinybars on Hedera, USDC on EVM chains)
+ */
+function nativeDecimals(network: X402Network): number {
+  return isHederaPaymentNetwork(network) ? 8 : 6
+}
+
+/**
+ * Spending limits on one HTS token (amounts in whole tokens)
+ */
+export interface X402TokenLimits {
+  decimals: number
+  maxPerPayment?: string
+  maxTotal?: string
+}
+
+/**
+ * Spending limits on one network (human-readable amounts, e.g. "0.05" USDC or "2" HBAR)
+ */
+export interface X402BudgetLimits {
+  maxPerPayment?: string
+  maxTotal?: string
+  allowedPayTo?: string[] // Default: any recipient
+  tokens?: Record<string, X402TokenLimits> // HTS tokens the agent may pay in, by token ID
+}
+
+/**
+ * Spending limits per network; networks without limits are never paid on
+ */
+export type X402BudgetConfig = Partial<Record<X402Network, X402BudgetLimits>>
+
+/**
+ * Limits that apply to one asset, and the key its spend is tracked under
+ */
+interface AssetBudget {
+  spendKey: string // "<network>" or "<network>:<tokenId>"
+  decimals: number
+  maxPerPayment?: string
+  maxTotal?: string
+}
+
+/**
+ * Per-agent x402 budget
+ *
+ * Payments are reserved against the budget before they are signed and
+ * released when the server refuses them, so a failed purchase does not
+ * count towards `maxTotal`. HTS tokens are only paid in when listed under
+ * the network's `tokens`, each with its own limits.
+ */
+export class X402BudgetPolicy {
+  private limits: X402BudgetConfig
+  private spent: Map<string, bigint> = new Map()
+
+  constructor(limits: X402BudgetConfig) {
+    this.limits = limits
+  }
+
+  /**
+   * Check payment requirements against the budget without spending
+   */
+  check(requirements: any): { valid: boolean; error?: string } {
+    const network = requirements?.network as X402Network
+    const limits = this.limits[network]
+    if (!limits || !isPaymentNetwork(network)) {
+      return { valid: false, error: `No budget for network ${requirements?.network}` }
+    }
+
+    const budget = this.assetBudget(network, requirements.asset)
+    if (!budget) {
+      return { valid: false, error: `No budget for token ${requirements.asset} on ${network}` }
+    }
+
+    let amount: bigint
+    try {
+      amount = BigInt(requirements.maxAmountRequired)
+    } catch (error) {
+      return { valid: false, error: `Invalid amount ${requirements.maxAmountRequired}` }
+    }
+
+    if (limits.allowedPayTo && !limits.allowedPayTo.includes(requirements.payTo)) {
+      return { valid: false, error: `Recipient ${requirements.payTo} is not allowed` }
+    }
+
+    if (budget.maxPerPayment !== undefined && amount > ethers.parseUnits(budget.maxPerPayment, budget.decimals)) {
+      return { valid: false, error: `Amount ${ethers.formatUnits(amount, budget.decimals)} exceeds per-payment limit ${budget.maxPerPayment}` }
+    }
+
+    if (budget.maxTotal !== undefined) {
+      const total = (this.spent.get(budget.spendKey) ?? 0n) + amount
+      if (total > ethers.parseUnits(budget.maxTotal, budget.decimals)) {
+        return { valid: false, error: `Amount ${ethers.formatUnits(amount, budget.decimals)} exceeds remaining budget ${this.remaining(budget)}` }
+      }
+    }
+
+    return { valid: true }
+  }
+
+  /**
+   * Check payment requirements and count them as spent
+   */
+  reserve(requirements: any): { valid: boolean; error?: string } {
+    const result = this.check(requirements)
+    if (result.valid) {
+      const { spendKey } = this.assetBudget(requirements.network, requirements.asset)!
+      this.spent.set(spendKey, (this.spent.get(spendKey) ?? 0n) + BigInt(requirements.maxAmountRequired))
+    }
+    return result
+  }
+
+  /**
+   * Return a reservation for a payment that was not accepted
+   */
+  release(requirements: any): void {
+    const budget = this.assetBudget(requirements.network, requirements.asset)
+    if (!budget) {
+      return
+    }
+    const spent = (this.spent.get(budget.spendKey) ?? 0n) - BigInt(requirements.maxAmountRequired)
+    this.spent.set(budget.spendKey, spent > 0n ? spent : 0n)
+  }
+
+  /**
+   * Amount spent on a network, or in one of its HTS tokens (human-readable)
+   */
+  getSpent(network: X402Network, tokenId?: string): string {
+    const budget = this.assetBudget(network, tokenId)
+    if (!budget) {
+      return '0'
+    }
+    return ethers.formatUnits(this.spent.get(budget.spendKey) ?? 0n, budget.decimals)
+  }
+
+  /**
+   * Amount left on a network, or in one of its HTS tokens (human-readable), or null without a total limit
+   */
+  getRemaining(network: X402Network, tokenId?: string): string | null {
+    const budget = this.assetBudget(network, tokenId)
+    return budget ? this.remaining(budget) : null
+  }
+
+  private remaining(budget: AssetBudget): string | null {
+    if (budget.maxTotal === undefined) {
+      return null
+    }
+    const remaining = ethers.parseUnits(budget.maxTotal, budget.decimals) - (this.spent.get(budget.spendKey) ?? 0n)
+    return ethers.formatUnits(remaining > 0n ? remaining : 0n, budget.decimals)
+  }
+
+  /**
+   * Limits for paying in an asset on a network, or null if the asset is an HTS token without a budget
+   */
+  private assetBudget(network: X402Network, asset: unknown): AssetBudget | null {
+    const limits = this.limits[network] ?? {}
+    if (isHederaPaymentNetwork(network) && isHtsTokenId(asset)) {
+      const token = limits.tokens?.[asset]
+      if (!token) {
+        return null
+      }
+      return { spendKey: `${network}:${asset}`, ...token }
+    }
+
+    return {
+      spendKey: network,
+      decimals: nativeDecimals(network),
+      ...(limits.maxPerPayment !== undefined && { maxPerPayment: limits.maxPerPayment }),
+      ...(limits.maxTotal !== undefined && { maxTotal: limits.maxTotal })
+    }
+  }
+}
+
+/**
+ * Hedera account paying on Hedera networks
+ */
+export interface X402HederaAccount {
+  accountId: string
+  privateKey: string
+}
+
+/**
+ * x402 paying client options
+ */
+export interface X402PaymentClientOptions {
+  budget: X402BudgetPolicy | X402BudgetConfig
+  evmWallet?: ethers.Wallet // Pays on EVM chains (base-sepolia, base)
+  hederaAccount?: X402HederaAccount // Pays on Hedera networks
+  fetch?: typeof fetch // Default: global fetch
+}
+
+/**
+ * Settlement receipt of a paid request
+ */
+export interface X402PaymentReceipt {
+  success: boolean
+  transaction?: string // From the server's X-PAYMENT-RESPONSE header
+  network: string
+  payer?: string
+  amount: string // Base units
+  payTo: string
+  resource: string
+}
+
+/**
+ * Response of a request made through the paying client
+ */
+export interface X402PaidResponse {
+  response: Response
+  payment?: X402PaymentReceipt // Set when the request was paid for
+}
+
+/**
+ * x402 paying HTTP client
+ *
+ * Wraps fetch so an agent can buy x402-protected resources on its own:
+ * - A `402 Payment Required` answer's `accepts` list is checked against the
+ *   agent's budget policy and wallets
+ * - The first acceptable requirement is signed with the agent's EVM wallet
+ *   (EIP-3009 authorization) or Hedera key (TransferTransaction with the
+ *   facilitator as fee payer) and the request is retried with `X-PAYMENT`
+ * - The server's `X-PAYMENT-RESPONSE` is returned as the settlement receipt
+ */
+export class X402PaymentClient {
+  private budget: X402BudgetPolicy
+  private evmWallet?: ethers.Wallet
+  private hederaAccount?: X402HederaAccount
+  private fetchImpl: typeof fetch
+
+  constructor(options: X402PaymentClientOptions) {
+    this.budget = options.budget instanceof X402BudgetPolicy ? options.budget : new X402BudgetPolicy(options.budget)
+    if (options.evmWallet) {
+      this.evmWallet = options.evmWallet
+    }
+    if (options.hederaAccount) {
+      this.hederaAccount = options.hederaAccount
+    }
+    this.fetchImpl = options.fetch || fetch
+  }
+
+  /**
+   * Fetch a resource, paying for it when the server answers 402
+   *
+   * @throws Error if no acceptable payment fits the budget or the server refuses the payment
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<X402PaidResponse> {
+    const response = await this.fetchImpl(url, init)
+    if (response.status !== 402) {
+      return { response }
+    }
+
+    const paymentRequired = await response.json().catch(() => null) as any
+    const accepts: any[] = Array.isArray(paymentRequired?.accepts) ? paymentRequired.accepts : []
+    const requirements = this.selectRequirements(accepts, url)
+
+    const reservation = this.budget.reserve(requirements)
+    if (!reservation.valid) {
+      throw new Error(`Payment for ${url} refused by budget: ${reservation.error}`)
+    }
+
+    try {
+      console.log(chalk.blue(`💳 x402: Paying ${requirements.maxAmountRequired} base units on ${requirements.network} for ${url}`))
+      const paymentHeader = await this.createPaymentHeader(requirements)
+
+      const headers = new Headers(init.headers)
+      headers.set('X-PAYMENT', paymentHeader)
+      const paidResponse = await this.fetchImpl(url, { ...init, headers })
+
+      if (paidResponse.status === 402) {
+        const refusal = await paidResponse.json().catch(() => null) as any
+        throw new Error(`Payment for ${url} was refused: ${refusal?.error || 'Payment Required'}`)
+      }
+
+      const settlement = this.decodePaymentResponse(paidResponse.headers.get('X-PAYMENT-RESPONSE'))
+      const payment: X402PaymentReceipt = {
+        success: settlement?.success ?? paidResponse.ok,
+        ...(settlement?.transaction !== undefined && { transaction: settlement.transaction }),
+        network: settlement?.network ?? requirements.network,
+        ...(settlement?.payer !== undefined && { payer: settlement.payer }),
+        amount: requirements.maxAmountRequired,
+        payTo: requirements.payTo,
+        resource: requirements.resource ?? url
+      }
+
+      console.log(chalk.green(`✅ x402: Paid for ${url}${payment.transaction ? ` in ${payment.transaction}` : ''}`))
+      return { response: paidResponse, payment }
+    } catch (error) {
+      this.budget.release(requirements)
+      throw error
+    }
+  }
+
+  /**
+   * Get the budget policy
+   */
+  getBudget(): X402BudgetPolicy {
+    return this.budget
+  }
+
+  /**
+   * Pick the first requirement the agent can sign and afford
+   */
+  private selectRequirements(accepts: any[], url: string): any {
+    if (accepts.length === 0) {
+      throw new Error(`402 response from ${url} has no payment requirements`)
+    }
+
+    const reasons: string[] = []
+    for (const requirements of accepts) {
+      if (requirements?.scheme !== 'exact') {
+        reasons.push(`scheme ${requirements?.scheme} is not supported`)
+        continue
+      }
+      if (!this.canPayOn(requirements.network)) {
+        reasons.push(`no wallet for ${requirements.network}`)
+        continue
+      }
+      const check = this.budget.check(requirements)
+      if (!check.valid) {
+        reasons.push(check.error || `not within budget on ${requirements.network}`)
+        continue
+      }
+      return requirements
+    }
+
+    throw new Error(`No acceptable payment for ${url}: ${reasons.join('; ')}`)
+  }
+
+  private canPayOn(network: string): boolean {
+    if (!isPaymentNetwork(network)) {
+      return false
+    }
+    return isHederaPaymentNetwork(network) ? this.hederaAccount !== undefined : this.evmWallet !== undefined
+  }
+
+  /**
+   * Build and sign the base64 X-PAYMENT header value
+   */
+  private async createPaymentHeader(requirements: any): Promise<string> {
+    const paymentPayload = isHederaPaymentNetwork(requirements.network)
+      ? await this.createHederaPayment(requirements)
+      : await processPayment(requirements, this.evmWallet!)
+
+    return Buffer.from(JSON.stringify(paymentPayload)).toString('base64')
+  }
+
+  /**
+   * Hedera payment payload: a TransferTransaction signed by the agent's account,
+   * with the facilitator as fee payer
+   */
+  private async createHederaPayment(requirements: any): Promise<any> {
+    const { accountId, privateKey } = this.hederaAccount!
+    return {
+      x402Version: 1,
+      scheme: requirements.scheme,
+      network: requirements.network,
+      payload: {
+        transaction: await createHederaPaymentTransaction(requirements, accountId, privateKey)
+      }
+    }
+  }
+
+  private decodePaymentResponse(header: string | null): any {
+    if (!header) {
+      return null
+    }
+    try {
+      return JSON.parse(Buffer.from(header, 'base64').toString())
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  x402: Could not decode X-PAYMENT-RESPONSE header`))
+      return null
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { X402FacilitatorServer, PaymentRequirementsParams, paymentIdempotencyKey } from './X402FacilitatorServer'
+import { decodeHederaPayment } from './HederaExactScheme'
+import { isHtsTokenId } from '../services/TokenService'
+import chalk from 'chalk'
+
+/**
+ * Price of a protected route
+ */
+export type X402RoutePrice = Omit<PaymentRequirementsParams, 'resource'> & {
+  resource?: string // Default: the request URL
+}
+
+/**
+ * x402 middleware options
+ */
+export interface X402MiddlewareOptions {
+  /**
+   * Protected routes keyed by "METHOD /path" or "/path" (any method);
+   * a trailing "*" matches any path with that prefix. A plain string is the amount.
+   */
+  routes: Record<string, X402RoutePrice | string>
+  facilitator?: X402FacilitatorServer // Default: one configured from the environment
+}
+
+/**
+ * Result of a paid request (available as `res.locals.x402`)
+ */
+export interface X402PaymentResult {
+  requirements: any
+  txHash: string
+  network: string
+  payer?: string
+}
+
+interface CompiledRoute {
+  method: string | null
+  path: string
+  prefix: boolean
+  price: X402RoutePrice
+}
+
+/**
+ * x402 resource-server middleware for Express
+ *
+ * For protected routes:
+ * - Without an `X-PAYMENT` header, answers `402 Payment Required` with
+ *   `{ x402Version, error, accepts: [paymentRequirements] }`
+ * - With one, verifies and settles it through the facilitator, sets the
+ *   base64 `X-PAYMENT-RESPONSE` header and passes the request on
+ *
+ * Each payment authorization is accepted once; replaying a settled
+ * `X-PAYMENT` header answers 402 again.
+ */
+export function x402PaymentMiddleware(options: X402MiddlewareOptions): RequestHandler {
+  const facilitator = options.facilitator || new X402FacilitatorServer()
+  const routes = compileRoutes(options.routes)
+
+  // Fail fast on prices the facilitator cannot serve; HTS token decimals are fetched ahead of the first request
+  for (const route of routes) {
+    if (needsTokenDecimals(route.price)) {
+      facilitator.loadToken(route.price.asset!).catch(error => {
+        console.warn(chalk.yellow(`⚠️  x402: Could not load token ${route.price.asset}: ${(error as Error).message}`))
+      })
+      continue
+    }
+    facilitator.createPaymentRequirements({ ...route.price, resource: route.price.resource || route.path })
+  }
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const route = routes.find(candidate => matchesRoute(candidate, req))
+    if (!route) {
+      next()
+      return
+    }
+
+    if (needsTokenDecimals(route.price)) {
+      try {
+        await facilitator.loadToken(route.price.asset!)
+      } catch (error) {
+        console.error(chalk.red(`❌ x402 middleware error: ${(error as Error).message}`))
+        res.status(500).json({ error: 'internal_error', message: (error as Error).message })
+        return
+      }
+    }
+
+    const requirements = facilitator.createPaymentRequirements({
+      ...route.price,
+      resource: route.price.resource || `${req.protocol}://${req.get('host')}${req.originalUrl}`
+    })
+
+    const paymentRequired = (error: string) => {
+      res.status(402).json({ x402Version: 1, error, accepts: [requirements] })
+    }
+
+    const paymentHeader = req.get('X-PAYMENT')
+    if (!paymentHeader) {
+      paymentRequired('X-PAYMENT header is required')
+      return
+    }
+
+    let paymentPayload: any
+    try {
+      paymentPayload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString())
+    } catch (error) {
+      paymentRequired('X-PAYMENT header must be base64-encoded JSON')
+      return
+    }
+
+    try {
+      const previous = facilitator.getLedger().get(paymentIdempotencyKey(paymentPayload))
+      if (previous && previous.status !== 'failed') {
+        console.log(chalk.yellow(`⚠️  x402: Payment for ${req.path} was already used (${previous.status})`))
+        paymentRequired('Payment has already been used')
+        return
+      }
+
+      const verification = await facilitator.verify(paymentHeader, requirements)
+      if (!verification.isValid) {
+        paymentRequired(verification.invalidReason || 'Payment verification failed')
+        return
+      }
+
+      const settlement = await facilitator.settle(paymentHeader, requirements)
+      if (!settlement.success) {
+        paymentRequired(settlement.error || 'Payment settlement failed')
+        return
+      }
+
+      const payer = paymentPayload.payload?.authorization?.from ?? hederaPayer(paymentPayload)
+      const result: X402PaymentResult = {
+        requirements,
+        txHash: settlement.txHash,
+        network: settlement.networkId,
+        ...(payer !== undefined && { payer })
+      }
+
+      res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify({
+        success: true,
+        transaction: settlement.txHash,
+        network: settlement.networkId,
+        ...(payer !== undefined && { payer })
+      })).toString('base64'))
+      res.setHeader('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE')
+      res.locals.x402 = result
+
+      console.log(chalk.green(`✅ x402: ${req.method} ${req.path} paid in ${settlement.txHash}`))
+      next()
+    } catch (error) {
+      console.error(chalk.red(`❌ x402 middleware error: ${(error as Error).message}`))
+      res.status(500).json({ error: 'internal_error', message: (error as Error).message })
+    }
+  }
+}
+
+function needsTokenDecimals(price: X402RoutePrice): boolean {
+  return isHtsTokenId(price.asset) && price.decimals === undefined
+}
+
+function hederaPayer(paymentPayload: any): string | undefined {
+  try {
+    return decodeHederaPayment(paymentPayload).payer
+  } catch (error) {
+    return undefined
+  }
+}
+
+function compileRoutes(routes: Record<string, X402RoutePrice | string>): CompiledRoute[] {
+  return Object.entries(routes).map(([key, value]) => {
+    const [first, second] = key.trim().split(/\s+/)
+    const method = second !== undefined ? first!.toUpperCase() : null
+    const pattern = second ?? first!
+    const prefix = pattern.endsWith('*')
+
+    return {
+      method,
+      path: prefix ? pattern.slice(0, -1) : pattern,
+      prefix,
+      price: typeof value === 'string' ? { amount: value } : value
+    }
+  })
+}
+
+function matchesRoute(route: CompiledRoute, req: Request): boolean {
+  if (route.method && route.method !== req.method) {
+    return false
+  }
+  return route.prefix ? req.path.startsWith(route.path) : req.path === route.path
+}
@@ -4,6 +4,24 @@
  * Export facilitator classes and utilities
  */
 
-export { X402FacilitatorServer } from './X402FacilitatorServer'
+export { X402FacilitatorServer, paymentIdempotencyKey } from './X402FacilitatorServer'
+export type { PaymentRequirementsParams } from './X402FacilitatorServer'
 export { LocalHCSProfileResolver } from './LocalHCSProfileResolver'
 
+export { InMemorySettlementLedger, FileSettlementLedger, settlementIdempotencyKey, reconcileSettlements } from './SettlementLedger'
+export type { SettlementLedger, SettlementEntry, SettlementStatus, SettlementDetails, SettlementBegin, SettlementStatusChecker } from './SettlementLedger'
+
+export { createHederaPaymentTransaction, decodeHederaPayment, checkHederaPayment, hederaPaymentMemo, hederaPaymentNonceKey, MAX_HEDERA_TRANSACTION_FEE } from './HederaExactScheme'
+export type { HederaPayment } from './HederaExactScheme'
+
+export { InMemoryNonceStore, FileNonceStore, authorizationNonceKey } from './NonceStore'
+export type { NonceStore } from './NonceStore'
+
+export { X402FacilitatorHttpServer } from './X402FacilitatorHttpServer'
+export type { FacilitatorErrorBody } from './X402FacilitatorHttpServer'
+
+export { x402PaymentMiddleware } from './X402PaymentMiddleware'
+export type { X402RoutePrice, X402MiddlewareOptions, X402PaymentResult } from './X402PaymentMiddleware'
+
+export { X402PaymentClient, X402BudgetPolicy } from './X402PaymentClient'
+export type { X402Network, X402BudgetLimits, X402TokenLimits, X402BudgetConfig, X402HederaAccount, X402PaymentClientOptions, X402PaymentReceipt, X402PaidResponse } from './X402PaymentClient'
@@ -21,6 +21,12 @@ export * from './modes'
 // Facilitator
 export * from './facilitator'
 
+// Transport
+export * from './transport'
+
+// Config
+export * from './config'
+
 // Utils (optional exports)
 export * from './utils'
 
@@ -0,0 +1,253 @@
+/**
+ * A2A Message Chunking
+ *
+ * HCS messages are capped at about 1 KB (HCS10Client inscribes anything whose
+ * HCS-10 envelope exceeds 1000 bytes), while negotiation histories, invoice
+ * analyses with LLM reasoning and AP2 cart data easily exceed this. A
+ * serialized A2A envelope over the limit is sent as:
+ * - Chunk messages `{ type: "a2a-chunk", chunk: { id, index, total, hash }, data }`
+ *   carrying base64 slices of the envelope; the receiver reassembles them in
+ *   any order and checks the SHA-256 hash of the result
+ * - A single `{ type: "a2a-inscription", reference, hash, size }` message
+ *   pointing at an HCS-1 file when the envelope would need too many chunks
+ *
+ * Envelope signatures cover the original envelope, so they are verified after
+ * reassembly.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { HCS10Client } from '@hashgraphonline/standards-agent-kit'
+import chalk from 'chalk'
+
+export const A2A_CHUNK_TYPE = "a2a-chunk"
+export const A2A_INSCRIPTION_TYPE = "a2a-inscription"
+
+/**
+ * Default bytes per topic message, leaving room for the HCS-10 envelope
+ * HCS10Client wraps messages in
+ */
+export const DEFAULT_MAX_MESSAGE_SIZE = 800
+
+/**
+ * Position of a chunk within its envelope
+ */
+export interface A2AChunkHeader {
+  id: string // Shared by all chunks of one envelope
+  index: number // 0-based
+  total: number
+  hash: string // SHA-256 (hex) of the complete envelope
+}
+
+/**
+ * Chunk of a serialized A2A envelope
+ */
+export interface A2AChunk {
+  type: typeof A2A_CHUNK_TYPE
+  chunk: A2AChunkHeader
+  data: string // base64 slice of the envelope
+}
+
+/**
+ * Reference to an envelope stored as an HCS-1 file
+ */
+export interface A2AInscriptionReference {
+  type: typeof A2A_INSCRIPTION_TYPE
+  reference: string // "hcs://1/<topicId>"
+  hash: string // SHA-256 (hex) of the envelope
+  size: number // Envelope size in bytes
+}
+
+/**
+ * Stores and retrieves large envelopes as HCS-1 files
+ */
+export interface PayloadInscriber {
+  /**
+   * @returns HCS-1 reference ("hcs://1/<topicId>")
+   */
+  inscribe(content: string): Promise<string>
+  resolve(reference: string): Promise<string>
+}
+
+/**
+ * SHA-256 (hex) of a serialized envelope
+ */
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
+/**
+ * Split a serialized envelope into chunk messages of at most `maxMessageSize` bytes
+ */
+export function chunkContent(content: string, maxMessageSize: number = DEFAULT_MAX_MESSAGE_SIZE, id: string = randomBytes(8).toString('hex')): string[] {
+  const encoded = Buffer.from(content, 'utf8').toString('base64')
+  const hash = contentHash(content)
+  const overhead = (total: number) => JSON.stringify({
+    type: A2A_CHUNK_TYPE,
+    chunk: { id, index: total, total, hash },
+    data: ''
+  }).length
+
+  // The header grows with the number of digits in the chunk count
+  let total = 1
+  let sliceSize = 0
+  for (;;) {
+    sliceSize = maxMessageSize - overhead(total)
+    if (sliceSize <= 0) {
+      throw new Error(`Max message size ${maxMessageSize} is too small for a chunk header`)
+    }
+    const needed = Math.ceil(encoded.length / sliceSize)
+    if (needed <= total) break
+    total = needed
+  }
+
+  const chunks: string[] = []
+  for (let index = 0; index * sliceSize < encoded.length; index++) {
+    const chunk: A2AChunk = {
+      type: A2A_CHUNK_TYPE,
+      chunk: { id, index, total, hash },
+      data: encoded.slice(index * sliceSize, (index + 1) * sliceSize)
+    }
+    chunks.push(JSON.stringify(chunk))
+  }
+  return chunks
+}
+
+/**
+ * Chunk assembler options
+ */
+export interface A2AChunkAssemblerOptions {
+  timeout?: number // milliseconds to wait for the remaining chunks (default: 5 minutes)
+  maxPending?: number // Envelopes assembled at once; the oldest is dropped beyond this (default: 100)
+}
+
+/**
+ * Envelope being reassembled
+ */
+interface PendingEnvelope {
+  total: number
+  hash: string
+  parts: Map<number, string>
+  startedAt: number
+}
+
+/**
+ * Reassembles chunked envelopes
+ */
+export class A2AChunkAssembler {
+  private timeout: number
+  private maxPending: number
+  private pending: Map<string, PendingEnvelope> = new Map()
+
+  constructor(options: A2AChunkAssemblerOptions = {}) {
+    this.timeout = options.timeout ?? 5 * 60 * 1000
+    this.maxPending = options.maxPending ?? 100
+  }
+
+  /**
+   * Add a chunk
+   *
+   * @param source - Sender of the chunk (e.g. the payer account); chunks of
+   *   different senders never mix
+   * @returns The complete envelope once all chunks arrived and its hash matches, otherwise null
+   */
+  add(chunk: A2AChunk, source: string = 'unknown'): string | null {
+    this.expire()
+
+    const { id, index, total, hash } = chunk.chunk
+    const key = `${source}:${id}`
+    let envelope = this.pending.get(key)
+    if (!envelope) {
+      if (this.pending.size >= this.maxPending) {
+        const oldest = this.pending.keys().next().value
+        if (oldest !== undefined) this.pending.delete(oldest)
+      }
+      envelope = { total, hash, parts: new Map(), startedAt: Date.now() }
+      this.pending.set(key, envelope)
+    }
+
+    if (envelope.total !== total || envelope.hash !== hash || index >= total) {
+      console.warn(chalk.yellow(`⚠️  Chunk ${index} of ${id} does not match its envelope, ignored`))
+      return null
+    }
+    envelope.parts.set(index, chunk.data)
+    if (envelope.parts.size < total) {
+      return null
+    }
+
+    this.pending.delete(key)
+    const encoded = Array.from({ length: total }, (_, part) => envelope!.parts.get(part)).join('')
+    const content = Buffer.from(encoded, 'base64').toString('utf8')
+    if (contentHash(content) !== hash) {
+      console.error(chalk.red(`❌ Chunked A2A message ${id} failed its hash check`))
+      return null
+    }
+    return content
+  }
+
+  /**
+   * Number of envelopes waiting for chunks
+   */
+  getPendingCount(): number {
+    this.expire()
+    return this.pending.size
+  }
+
+  private expire(): void {
+    const cutoff = Date.now() - this.timeout
+    for (const [key, envelope] of this.pending.entries()) {
+      if (envelope.startedAt < cutoff) {
+        console.warn(chalk.yellow(`⚠️  Chunked A2A message ${key} expired with ${envelope.parts.size}/${envelope.total} chunks`))
+        this.pending.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Inscriber keeping files in memory (offline runs and tests)
+ */
+export class InMemoryPayloadInscriber implements PayloadInscriber {
+  private files: Map<string, string> = new Map()
+  private nextTopicNumber: number
+
+  constructor(firstTopicNumber: number = 900000) {
+    this.nextTopicNumber = firstTopicNumber
+  }
+
+  async inscribe(content: string): Promise<string> {
+    const reference = `hcs://1/0.0.${this.nextTopicNumber++}`
+    this.files.set(reference, content)
+    return reference
+  }
+
+  async resolve(reference: string): Promise<string> {
+    const content = this.files.get(reference)
+    if (content === undefined) {
+      throw new Error(`Unknown inscription ${reference}`)
+    }
+    return content
+  }
+}
+
+/**
+ * Inscriber storing HCS-1 files through an HCS10Client
+ */
+export class HCS10ClientInscriber implements PayloadInscriber {
+  private client: HCS10Client
+
+  constructor(client: HCS10Client) {
+    this.client = client
+  }
+
+  async inscribe(content: string): Promise<string> {
+    const result = await this.client.standardClient.inscribeFile(Buffer.from(content, 'utf8'), `a2a-message-${Date.now()}.json`)
+    if (!result.topic_id) {
+      throw new Error('Inscription did not return a topic ID')
+    }
+    return `hcs://1/${result.topic_id}`
+  }
+
+  async resolve(reference: string): Promise<string> {
+    return this.client.getMessageContent(reference)
+  }
+}
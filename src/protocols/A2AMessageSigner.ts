@@ -0,0 +1,152 @@
+/**
+ * A2A Message Signing
+ *
+ * Provides canonical serialization, signing and verification of A2A message
+ * envelopes using the agent's Hedera key (ED25519 or ECDSA secp256k1).
+ *
+ * Signatures cover every envelope field except `signature` itself, serialized
+ * with sorted object keys so that sender and receiver hash identical bytes.
+ */
+
+import { PrivateKey, PublicKey } from '@hashgraph/sdk'
+import { A2AMessage } from './A2AProtocol'
+import chalk from 'chalk'
+
+/**
+ * Resolves the public key an agent signs its messages with
+ */
+export interface PublicKeyResolver {
+  resolvePublicKey(agentId: string): PublicKey | null
+}
+
+/**
+ * Source of HCS-11 profiles (HCS10Client satisfies this interface)
+ */
+export interface ProfileSource {
+  getAgentProfile(accountId: string): Promise<{ success: boolean; profile?: any; error?: string }>
+}
+
+/**
+ * A2A Message Signer
+ */
+export class A2AMessageSigner {
+  /**
+   * Canonical serialization of an A2A envelope (signature excluded)
+   */
+  static canonicalize(message: A2AMessage): string {
+    const { signature, ...unsigned } = message
+    return canonicalJson(unsigned)
+  }
+
+  /**
+   * Sign an A2A envelope and return the hex-encoded signature
+   */
+  static sign(message: A2AMessage, privateKey: PrivateKey | string): string {
+    const key = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey
+    const bytes = Buffer.from(A2AMessageSigner.canonicalize(message), 'utf8')
+    return Buffer.from(key.sign(bytes)).toString('hex')
+  }
+
+  /**
+   * Verify the signature of an A2A envelope against a public key
+   */
+  static verify(message: A2AMessage, publicKey: PublicKey | string): boolean {
+    if (!message.signature) {
+      return false
+    }
+
+    try {
+      const key = typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey
+      const bytes = Buffer.from(A2AMessageSigner.canonicalize(message), 'utf8')
+      return key.verify(bytes, Buffer.from(message.signature, 'hex'))
+    } catch (error) {
+      console.error(chalk.red(`❌ Signature verification error: ${(error as Error).message}`))
+      return false
+    }
+  }
+}
+
+/**
+ * In-memory public key store
+ *
+ * Keys can be added directly or loaded from an agent's HCS-11 profile
+ * (`properties.publicKey` or `publicKey`). Loaded keys are cached so that
+ * `resolvePublicKey` stays synchronous for use in `A2AProtocol.parseMessage`.
+ */
+export class A2AKeyRing implements PublicKeyResolver {
+  private keys: Map<string, PublicKey> = new Map()
+  private fallback?: PublicKeyResolver
+
+  /**
+   * @param fallback - Resolver consulted when a key is not in the key ring (e.g. AgentRegistry)
+   */
+  constructor(fallback?: PublicKeyResolver) {
+    if (fallback !== undefined) {
+      this.fallback = fallback
+    }
+  }
+
+  /**
+   * Add or replace an agent's public key
+   */
+  addKey(agentId: string, publicKey: PublicKey | string): void {
+    const key = typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey
+    this.keys.set(agentId, key)
+  }
+
+  /**
+   * Remove an agent's public key
+   */
+  removeKey(agentId: string): void {
+    this.keys.delete(agentId)
+  }
+
+  /**
+   * Load an agent's public key from its HCS-11 profile
+   * @returns The loaded key, or null if the profile has none
+   */
+  async loadFromProfile(agentId: string, profileSource: ProfileSource): Promise<PublicKey | null> {
+    const response = await profileSource.getAgentProfile(agentId)
+    if (!response.success || !response.profile) {
+      console.log(chalk.yellow(`⚠️  No HCS-11 profile found for ${agentId}${response.error ? `: ${response.error}` : ''}`))
+      return null
+    }
+
+    const encodedKey = response.profile.properties?.publicKey || response.profile.publicKey
+    if (!encodedKey) {
+      console.log(chalk.yellow(`⚠️  HCS-11 profile for ${agentId} does not publish a public key`))
+      return null
+    }
+
+    this.addKey(agentId, encodedKey)
+    return this.keys.get(agentId)!
+  }
+
+  resolvePublicKey(agentId: string): PublicKey | null {
+    return this.keys.get(agentId) || this.fallback?.resolvePublicKey(agentId) || null
+  }
+}
+
+/**
+ * Deterministic JSON serialization with sorted object keys
+ */
+export function canonicalJson(value: any): string {
+  if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+    return canonicalJson(value.toJSON())
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : canonicalJson(item)).join(',')}]`
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+
+  return `{${entries.join(',')}}`
+}
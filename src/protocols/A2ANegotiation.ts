@@ -6,11 +6,18 @@
  * - Handle counter-offers
  * - Manage negotiation timeouts
  * - Track negotiation history
+ * - Persist negotiations through a pluggable NegotiationStore
+ * - Answer offers automatically with a pluggable NegotiationStrategy
  * 
  * Used for the hackathon bounty "Best Use of Hedera Agent Kit & Google A2A"
  */
 
 import { A2AProtocol, A2AMessage } from './A2AProtocol'
+import { NegotiationStore, NegotiationQuery, InMemoryNegotiationStore } from './NegotiationStore'
+import { NegotiationStrategy } from './NegotiationStrategy'
+import { MultiIssueUtility } from './MultiIssueUtility'
+import { NegotiationMessageSchema, validateWithSchema } from './ProtocolSchemas'
+import { timerDelay } from '../utils/timers'
 import chalk from 'chalk'
 
 /**
@@ -26,14 +33,16 @@ export enum NegotiationState {
 
 /**
  * Negotiation Proposal
+ *
+ * `TOffer` types the offers exchanged (e.g. SupplyChainTerms); it defaults to `any`.
  */
-export interface NegotiationProposal {
+export interface NegotiationProposal<TOffer = any> {
   proposalId: string
   negotiationType: "payment" | "service" | "delivery"
   from: string
   to: string
-  currentOffer: any
-  history: NegotiationEntry[]
+  currentOffer: TOffer
+  history: NegotiationEntry<TOffer>[]
   state: NegotiationState
   createdAt: number
   expiresAt: number
@@ -42,12 +51,24 @@ export interface NegotiationProposal {
 /**
  * Negotiation Entry in History
  */
-export interface NegotiationEntry {
+export interface NegotiationEntry<TOffer = any> {
   timestamp: number
   agentId: string
   action: "propose" | "counter" | "accept" | "reject"
-  proposal: any
+  proposal: TOffer | null
   message?: string
+  utility?: number // Utility of `proposal` to this agent, when a utility function is configured
+}
+
+/**
+ * Negotiation options
+ */
+export interface A2ANegotiationOptions {
+  store?: NegotiationStore // Where negotiations are kept (default: in-memory)
+  negotiationTimeout?: number // Milliseconds before an open negotiation times out (default: 60000)
+  strategy?: NegotiationStrategy // Answers proposals and counter-offers automatically when set
+  replyTopicId?: string // Topic counterparties should answer on (sent as `replyTo`)
+  utility?: MultiIssueUtility<any> // Scores every history entry for post-hoc analysis
 }
 
 /**
@@ -55,11 +76,28 @@ export interface NegotiationEntry {
  */
 export class A2ANegotiation {
   private a2a: A2AProtocol
-  private negotiations: Map<string, NegotiationProposal> = new Map()
-  private readonly NEGOTIATION_TIMEOUT = 60000 // 60 seconds
-
-  constructor(a2a: A2AProtocol) {
+  private store: NegotiationStore
+  private strategy?: NegotiationStrategy
+  private replyTopicId?: string
+  private utility?: MultiIssueUtility<any>
+  private timeouts: Map<string, NodeJS.Timeout> = new Map()
+  private readonly NEGOTIATION_TIMEOUT: number
+
+  constructor(a2a: A2AProtocol, options: A2ANegotiationOptions = {}) {
     this.a2a = a2a
+    this.store = options.store || new InMemoryNegotiationStore()
+    this.NEGOTIATION_TIMEOUT = options.negotiationTimeout ?? 60000
+    if (options.strategy !== undefined) {
+      this.strategy = options.strategy
+    }
+    if (options.replyTopicId !== undefined) {
+      this.replyTopicId = options.replyTopicId
+    }
+    if (options.utility !== undefined) {
+      this.utility = options.utility
+    }
+
+    this.rehydrate()
   }
 
   /**
@@ -78,36 +116,45 @@ export class A2ANegotiation {
       from: this.a2a['agentId'],
       to: receiverAgentId,
       currentOffer: initialOffer,
-      history: [{
+      history: [this.scoreEntry({
         timestamp: Date.now(),
         agentId: this.a2a['agentId'],
         action: "propose",
         proposal: initialOffer
-      }],
+      })],
       state: NegotiationState.PENDING,
       createdAt: Date.now(),
       expiresAt: Date.now() + this.NEGOTIATION_TIMEOUT
     }
 
-    this.negotiations.set(proposalId, proposal)
-
-    // Set timeout
-    setTimeout(() => {
-      if (this.negotiations.has(proposalId)) {
-        const neg = this.negotiations.get(proposalId)!
-        if (neg.state === NegotiationState.PENDING || neg.state === NegotiationState.IN_PROGRESS) {
-          neg.state = NegotiationState.TIMEOUT
-          console.log(chalk.yellow(`⏰ Negotiation ${proposalId} timed out`))
-          this.negotiations.set(proposalId, neg)
-        }
-      }
-    }, this.NEGOTIATION_TIMEOUT)
+    this.store.save(proposal)
+    this.armTimeout(proposal)
 
     console.log(chalk.blue(`🚀 Starting ${negotiationType} negotiation ${proposalId}`))
 
     return proposalId
   }
 
+  /**
+   * Start a new negotiation and send the initial offer to the counterparty
+   */
+  async proposeNegotiation(
+    topicId: string,
+    negotiationType: "payment" | "service" | "delivery",
+    receiverAgentId: string,
+    initialOffer: any
+  ): Promise<string> {
+    const proposalId = this.startNegotiation(negotiationType, receiverAgentId, initialOffer)
+    const negotiation = this.store.get(proposalId)!
+
+    await this.sendNegotiationMessage(topicId, receiverAgentId, "propose", proposalId, initialOffer, {
+      negotiationType,
+      expiresAt: negotiation.expiresAt
+    })
+
+    return proposalId
+  }
+
   /**
    * Process incoming negotiation message
    */
@@ -118,46 +165,190 @@ export class A2ANegotiation {
       return null
     }
 
+    const validation = validateWithSchema(NegotiationMessageSchema, payload)
+    if (!validation.valid) {
+      console.log(chalk.yellow(`⚠️  Invalid negotiation message from ${message.sender.agentId}: ${validation.error}`))
+      return null
+    }
+
     const action = payload.action as string
     const proposalId = payload.proposalId
 
     console.log(chalk.blue(`💬 Processing negotiation ${action} for ${proposalId}`))
 
-    const negotiation = this.negotiations.get(proposalId)
+    const negotiation = action === "propose"
+      ? this.registerIncomingNegotiation(message)
+      : this.store.get(proposalId)
 
     if (!negotiation) {
       console.log(chalk.yellow(`⚠️  Unknown negotiation ${proposalId}`))
       return null
     }
 
+    if (negotiation.state !== NegotiationState.PENDING && negotiation.state !== NegotiationState.IN_PROGRESS) {
+      console.log(chalk.yellow(`⚠️  Negotiation ${proposalId} is already ${negotiation.state}`))
+      return null
+    }
+
+    const senderId = message.sender.agentId
+    let result: A2ANegotiationResult
+
     switch (action) {
+      case "propose":
+        result = {
+          proposalId: negotiation.proposalId,
+          state: negotiation.state,
+          currentOffer: negotiation.currentOffer,
+          action: "propose"
+        }
+        break
       case "counter":
-        return await this.processCounterOffer(negotiation, payload.proposal)
+        result = await this.processCounterOffer(negotiation, payload.proposal, senderId)
+        break
       case "accept":
-        return await this.processAcceptance(negotiation)
+        return await this.processAcceptance(negotiation, senderId)
       case "reject":
-        return await this.processRejection(negotiation)
+        return await this.processRejection(negotiation, senderId)
       default:
         console.log(chalk.yellow(`⚠️  Unknown action: ${action}`))
         return null
     }
+
+    return this.strategy ? await this.respondWithStrategy(negotiation, message) : result
+  }
+
+  /**
+   * Record a negotiation proposed by another agent
+   */
+  private registerIncomingNegotiation(message: A2AMessage): NegotiationProposal {
+    const { proposalId, proposal, negotiationType, expiresAt } = message.payload
+    const existing = this.store.get(proposalId)
+    if (existing) {
+      return existing
+    }
+
+    const now = Date.now()
+    const negotiation: NegotiationProposal = {
+      proposalId,
+      negotiationType: negotiationType || "payment",
+      from: message.sender.agentId,
+      to: this.a2a['agentId'],
+      currentOffer: proposal,
+      history: [this.scoreEntry({
+        timestamp: now,
+        agentId: message.sender.agentId,
+        action: "propose",
+        proposal
+      })],
+      state: NegotiationState.PENDING,
+      createdAt: now,
+      expiresAt: typeof expiresAt === "number" ? expiresAt : now + this.NEGOTIATION_TIMEOUT
+    }
+
+    this.store.save(negotiation)
+    this.armTimeout(negotiation)
+
+    console.log(chalk.blue(`📨 Received ${negotiation.negotiationType} negotiation ${proposalId} from ${negotiation.from}`))
+
+    return negotiation
+  }
+
+  /**
+   * Let the configured strategy accept, counter or reject the current offer
+   */
+  private async respondWithStrategy(negotiation: NegotiationProposal, message: A2AMessage): Promise<A2ANegotiationResult> {
+    const agentId = this.a2a['agentId']
+    const decision = await this.strategy!.decide({
+      negotiation,
+      offer: negotiation.currentOffer,
+      agentId,
+      now: Date.now()
+    })
+
+    console.log(chalk.cyan(`🧠 ${this.strategy!.name}: ${decision.action}${decision.reason ? ` (${decision.reason})` : ''}`))
+
+    if (decision.action === "counter") {
+      if (decision.proposal === undefined) {
+        throw new Error(`Strategy ${this.strategy!.name} returned a counter-offer without a proposal`)
+      }
+      negotiation.currentOffer = decision.proposal
+      negotiation.state = NegotiationState.IN_PROGRESS
+    } else {
+      negotiation.state = decision.action === "accept" ? NegotiationState.AGREED : NegotiationState.REJECTED
+      this.clearTimeout(negotiation.proposalId)
+    }
+
+    negotiation.history.push(this.scoreEntry({
+      timestamp: Date.now(),
+      agentId,
+      action: decision.action,
+      proposal: decision.action === "reject" ? null : negotiation.currentOffer,
+      ...(decision.reason !== undefined && { message: decision.reason })
+    }))
+    this.store.save(negotiation)
+
+    if (message.replyTo) {
+      await this.sendNegotiationMessage(
+        message.replyTo,
+        message.sender.agentId,
+        decision.action,
+        negotiation.proposalId,
+        decision.action === "counter" ? negotiation.currentOffer : undefined
+      )
+    } else {
+      console.log(chalk.yellow(`⚠️  No replyTo on negotiation ${negotiation.proposalId}; ${decision.action} recorded but not sent`))
+    }
+
+    return {
+      proposalId: negotiation.proposalId,
+      state: negotiation.state,
+      currentOffer: negotiation.currentOffer,
+      action: decision.action,
+      ...(decision.reason !== undefined && { reason: decision.reason })
+    }
+  }
+
+  /**
+   * Send a negotiation message, asking for replies on the configured reply topic
+   */
+  private async sendNegotiationMessage(
+    topicId: string,
+    receiverAgentId: string,
+    action: "propose" | "counter" | "accept" | "reject",
+    proposalId: string,
+    proposal?: any,
+    extra: Record<string, any> = {}
+  ): Promise<void> {
+    await this.a2a.sendMessage(
+      topicId,
+      receiverAgentId,
+      action === "propose" || action === "counter" ? "request" : "response",
+      {
+        type: "negotiation",
+        action,
+        proposalId,
+        ...(proposal !== undefined && { proposal }),
+        ...extra
+      },
+      this.replyTopicId !== undefined ? { replyTo: this.replyTopicId } : {}
+    )
   }
 
   /**
    * Process counter-offer
    */
-  private async processCounterOffer(negotiation: NegotiationProposal, proposal: any): Promise<A2ANegotiationResult> {
+  private async processCounterOffer(negotiation: NegotiationProposal, proposal: any, agentId: string): Promise<A2ANegotiationResult> {
     negotiation.currentOffer = proposal
     negotiation.state = NegotiationState.IN_PROGRESS
     
-    negotiation.history.push({
+    negotiation.history.push(this.scoreEntry({
       timestamp: Date.now(),
-      agentId: negotiation.to,
+      agentId,
       action: "counter",
       proposal
-    })
+    }))
 
-    this.negotiations.set(negotiation.proposalId, negotiation)
+    this.store.save(negotiation)
 
     console.log(chalk.yellow(`🔄 Counter-offer received: ${JSON.stringify(proposal)}`))
 
@@ -172,17 +363,18 @@ export class A2ANegotiation {
   /**
    * Process acceptance
    */
-  private async processAcceptance(negotiation: NegotiationProposal): Promise<A2ANegotiationResult> {
+  private async processAcceptance(negotiation: NegotiationProposal, agentId: string): Promise<A2ANegotiationResult> {
     negotiation.state = NegotiationState.AGREED
     
-    negotiation.history.push({
+    negotiation.history.push(this.scoreEntry({
       timestamp: Date.now(),
-      agentId: negotiation.to,
+      agentId,
       action: "accept",
       proposal: negotiation.currentOffer
-    })
+    }))
 
-    this.negotiations.set(negotiation.proposalId, negotiation)
+    this.store.save(negotiation)
+    this.clearTimeout(negotiation.proposalId)
 
     console.log(chalk.green(`✅ Negotiation agreed!`))
 
@@ -197,17 +389,18 @@ export class A2ANegotiation {
   /**
    * Process rejection
    */
-  private async processRejection(negotiation: NegotiationProposal): Promise<A2ANegotiationResult> {
+  private async processRejection(negotiation: NegotiationProposal, agentId: string): Promise<A2ANegotiationResult> {
     negotiation.state = NegotiationState.REJECTED
     
-    negotiation.history.push({
+    negotiation.history.push(this.scoreEntry({
       timestamp: Date.now(),
-      agentId: negotiation.to,
+      agentId,
       action: "reject",
       proposal: null
-    })
+    }))
 
-    this.negotiations.set(negotiation.proposalId, negotiation)
+    this.store.save(negotiation)
+    this.clearTimeout(negotiation.proposalId)
 
     console.log(chalk.red(`❌ Negotiation rejected`))
 
@@ -223,7 +416,7 @@ export class A2ANegotiation {
    * Counter-offer in an existing negotiation
    */
   async sendCounterOffer(proposalId: string, counterOffer: any): Promise<void> {
-    const negotiation = this.negotiations.get(proposalId)
+    const negotiation = this.store.get(proposalId)
 
     if (!negotiation) {
       throw new Error(`Negotiation ${proposalId} not found`)
@@ -246,7 +439,7 @@ export class A2ANegotiation {
    * Accept a negotiation
    */
   async acceptNegotiation(proposalId: string): Promise<void> {
-    const negotiation = this.negotiations.get(proposalId)
+    const negotiation = this.store.get(proposalId)
 
     if (!negotiation) {
       throw new Error(`Negotiation ${proposalId} not found`)
@@ -267,16 +460,86 @@ export class A2ANegotiation {
   /**
    * Get negotiation by ID
    */
-  getNegotiation(proposalId: string): NegotiationProposal | null {
-    return this.negotiations.get(proposalId) || null
+  getNegotiation<TOffer = any>(proposalId: string): NegotiationProposal<TOffer> | null {
+    return this.store.get(proposalId)
   }
 
   /**
    * Get all active negotiations
    */
   getActiveNegotiations(): NegotiationProposal[] {
-    return Array.from(this.negotiations.values())
-      .filter(n => n.state === NegotiationState.PENDING || n.state === NegotiationState.IN_PROGRESS)
+    return this.store.list({ state: [NegotiationState.PENDING, NegotiationState.IN_PROGRESS] })
+  }
+
+  /**
+   * List negotiations by state, counterparty and/or type
+   */
+  listNegotiations(query: NegotiationQuery = {}): NegotiationProposal[] {
+    return this.store.list(query)
+  }
+
+  /**
+   * Cancel all pending timeout timers (negotiations stay in the store)
+   */
+  close(): void {
+    for (const timer of this.timeouts.values()) {
+      clearTimeout(timer)
+    }
+    this.timeouts.clear()
+  }
+
+  /**
+   * Attach this agent's utility for the entry's proposal
+   */
+  private scoreEntry(entry: NegotiationEntry): NegotiationEntry {
+    if (this.utility && entry.proposal !== null && entry.proposal !== undefined) {
+      entry.utility = Math.round(this.utility.score(entry.proposal) * 10000) / 10000
+    }
+    return entry
+  }
+
+  /**
+   * Re-arm timeouts for negotiations that were still open when the store was last written
+   */
+  private rehydrate(): void {
+    const open = this.getActiveNegotiations()
+    for (const negotiation of open) {
+      this.armTimeout(negotiation)
+    }
+
+    if (open.length > 0) {
+      console.log(chalk.blue(`♻️  Restored ${open.length} open negotiation(s)`))
+    }
+  }
+
+  /**
+   * Schedule the timeout for a negotiation at its `expiresAt`
+   */
+  private armTimeout(negotiation: NegotiationProposal): void {
+    const { proposalId } = negotiation
+    this.clearTimeout(proposalId)
+
+    const timer = setTimeout(() => {
+      this.timeouts.delete(proposalId)
+      const neg = this.store.get(proposalId)
+      if (neg && Date.now() < neg.expiresAt) {
+        this.armTimeout(neg)
+      } else if (neg && (neg.state === NegotiationState.PENDING || neg.state === NegotiationState.IN_PROGRESS)) {
+        neg.state = NegotiationState.TIMEOUT
+        console.log(chalk.yellow(`⏰ Negotiation ${proposalId} timed out`))
+        this.store.save(neg)
+      }
+    }, timerDelay(negotiation.expiresAt))
+
+    this.timeouts.set(proposalId, timer)
+  }
+
+  private clearTimeout(proposalId: string): void {
+    const timer = this.timeouts.get(proposalId)
+    if (timer) {
+      clearTimeout(timer)
+      this.timeouts.delete(proposalId)
+    }
   }
 }
 
@@ -287,7 +550,8 @@ export interface A2ANegotiationResult {
   proposalId: string
   state: NegotiationState
   currentOffer: any
-  action: "counter" | "accept" | "reject"
+  action: "propose" | "counter" | "accept" | "reject"
+  reason?: string // Strategy's explanation, when the action was decided automatically
 }
 
 /**
@@ -4,17 +4,24 @@
  * This module implements the Google A2A protocol for agent communication
  * on Hedera Network. A2A enables agents to:
  * - Discover each other
- * - Exchange structured messages
+ * - Exchange structured messages (chunked or inscribed via HCS-1 when too large for one HCS message)
  * - Negotiate payment terms
  * - Execute autonomous operations
  * 
  * @see https://google.github.io/adk-docs/a2a/intro/
  */
 
-import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { HCS10ConnectionManager, Connection } from './HCS10ConnectionManager'
 import { HCS10TransactionApproval } from './HCS10TransactionApproval'
-import { Transaction } from '@hashgraph/sdk'
+import { MessageTransport, TransportMessage } from '../transport/MessageTransport'
+import { SequenceCursorStore, InMemorySequenceCursorStore } from '../transport/SequenceCursorStore'
+import { TopicSubscriber, TopicStream } from '../transport/TopicSubscriber'
+import { Transaction, PrivateKey } from '@hashgraph/sdk'
+import { A2AMessageSigner, PublicKeyResolver } from './A2AMessageSigner'
+import { A2AReplayGuard } from './A2AReplayGuard'
+import { A2AChunkAssembler, PayloadInscriber, A2AInscriptionReference, A2A_INSCRIPTION_TYPE, DEFAULT_MAX_MESSAGE_SIZE, chunkContent, contentHash } from './A2AChunking'
+import { A2AMessageSchema, A2AHandshakeSchema, validateWithSchema, isA2AChunk, isA2AInscriptionReference } from './ProtocolSchemas'
+import { HederaPaymentNetwork, selectHederaNetwork } from '../config/NetworkRegistry'
 import chalk from 'chalk'
 
 /**
@@ -25,7 +32,7 @@ export interface A2AMessage {
   sender: {
     agentId: string
     capabilities: string[]
-    network: "hedera-testnet"
+    network: HederaPaymentNetwork
   }
   receiver: {
     agentId: string
@@ -34,28 +41,90 @@ export interface A2AMessage {
   payload: any
   timestamp: number
   nonce: string
+  correlationId?: string // Links a response to the request it answers
+  replyTo?: string // Topic the sender listens on for responses
   signature?: string
 }
 
+/**
+ * A2A Protocol Options
+ */
+export interface A2AProtocolOptions {
+  privateKey?: PrivateKey | string // Signs outgoing envelopes when set
+  keyResolver?: PublicKeyResolver // Resolves sender public keys for incoming envelopes
+  strictSignatures?: boolean // Reject unsigned messages and messages from unknown senders
+  replayGuard?: A2AReplayGuard // Rejects replayed nonces and stale timestamps on incoming envelopes
+  inboundTopicId?: string // Default reply topic for request()
+  pollInterval?: number // Milliseconds between topic polls while listening (default: 2000)
+  topicStream?: TopicStream // How listened topics are received (default: the transport)
+  cursorStore?: SequenceCursorStore // Listener resume points; topics without one start at their current end (default: in memory)
+  network?: HederaPaymentNetwork // Network advertised in envelopes (default: HEDERA_NETWORK, or hedera-testnet)
+  agentTopics?: Record<string, string> // Inbound topic IDs by agent ID when no connection exists (default: <AGENT>_TOPIC_ID)
+  maxMessageSize?: number // Bytes per topic message; larger envelopes are chunked (default: 800)
+  maxChunks?: number // Chunks per envelope before it is inscribed via the inscriber instead (default: 20)
+  inscriber?: PayloadInscriber // Stores and resolves HCS-1 files for very large envelopes
+}
+
+/**
+ * Options for request/response calls
+ */
+export interface A2ARequestOptions {
+  timeout?: number // Milliseconds to wait for the response (default: 30000)
+  topicId?: string // Receiver's topic (default: from agentTopics or <AGENT>_TOPIC_ID)
+  replyTopicId?: string // Overrides the protocol's inbound topic
+}
+
+/**
+ * Server-side request handler; the return value becomes the response payload
+ */
+export type A2ARequestHandler = (payload: any, message: A2AMessage) => Promise<any> | any
+
+/**
+ * Request awaiting its response
+ */
+interface PendingRequest {
+  receiverAgentId: string
+  resolve: (message: A2AMessage) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
 /**
  * A2A Protocol Implementation
  */
 export class A2AProtocol {
-  private hcsClient: HCS10Client
+  private transport: MessageTransport
   private agentId: string
   private capabilities: string[]
   private nonceGenerator: number = 0
   private connectionManager?: HCS10ConnectionManager
   private transactionApproval?: HCS10TransactionApproval
+  private privateKey?: PrivateKey
+  private keyResolver?: PublicKeyResolver
+  private strictSignatures: boolean
+  private replayGuard?: A2AReplayGuard
+  private inboundTopicId?: string
+  private network: HederaPaymentNetwork
+  private agentTopics?: Record<string, string>
+  private pendingRequests: Map<string, PendingRequest> = new Map()
+  private requestHandlers: Map<string, A2ARequestHandler> = new Map()
+  private listeners: Map<string, Promise<void>> = new Map()
+  private listenerCursors: SequenceCursorStore
+  private subscriber: TopicSubscriber
+  private maxMessageSize: number
+  private maxChunks: number
+  private inscriber?: PayloadInscriber
+  private chunkAssembler: A2AChunkAssembler = new A2AChunkAssembler()
 
   constructor(
-    hcsClient: HCS10Client, 
+    transport: MessageTransport,
     agentId: string, 
     capabilities: string[],
     connectionManager?: HCS10ConnectionManager,
-    transactionApproval?: HCS10TransactionApproval
+    transactionApproval?: HCS10TransactionApproval,
+    options: A2AProtocolOptions = {}
   ) {
-    this.hcsClient = hcsClient
+    this.transport = transport
     this.agentId = agentId
     this.capabilities = capabilities
     if (connectionManager !== undefined) {
@@ -64,6 +133,36 @@ export class A2AProtocol {
     if (transactionApproval !== undefined) {
       this.transactionApproval = transactionApproval
     }
+    if (options.privateKey !== undefined) {
+      this.privateKey = typeof options.privateKey === 'string'
+        ? PrivateKey.fromString(options.privateKey)
+        : options.privateKey
+    }
+    if (options.keyResolver !== undefined) {
+      this.keyResolver = options.keyResolver
+    }
+    this.strictSignatures = options.strictSignatures ?? false
+    if (options.replayGuard !== undefined) {
+      this.replayGuard = options.replayGuard
+    }
+    if (options.inboundTopicId !== undefined) {
+      this.inboundTopicId = options.inboundTopicId
+    }
+    this.listenerCursors = options.cursorStore ?? new InMemorySequenceCursorStore()
+    this.subscriber = new TopicSubscriber(transport, {
+      pollInterval: options.pollInterval ?? 2000,
+      cursorStore: this.listenerCursors,
+      ...(options.topicStream && { stream: options.topicStream })
+    })
+    this.network = options.network ?? selectHederaNetwork().paymentNetwork
+    if (options.agentTopics !== undefined) {
+      this.agentTopics = options.agentTopics
+    }
+    this.maxMessageSize = options.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE
+    this.maxChunks = options.maxChunks ?? 20
+    if (options.inscriber !== undefined) {
+      this.inscriber = options.inscriber
+    }
   }
 
   /**
@@ -72,14 +171,15 @@ export class A2AProtocol {
   createMessage(
     receiverAgentId: string,
     messageType: "request" | "response" | "notification",
-    payload: any
+    payload: any,
+    routing?: { correlationId?: string; replyTo?: string }
   ): A2AMessage {
-    return {
+    const message: A2AMessage = {
       version: "1.0",
       sender: {
         agentId: this.agentId,
         capabilities: this.capabilities,
-        network: "hedera-testnet"
+        network: this.network
       },
       receiver: {
         agentId: receiverAgentId
@@ -87,8 +187,16 @@ export class A2AProtocol {
       messageType,
       payload,
       timestamp: Date.now(),
-      nonce: this.generateNonce()
+      nonce: this.generateNonce(),
+      ...(routing?.correlationId !== undefined && { correlationId: routing.correlationId }),
+      ...(routing?.replyTo !== undefined && { replyTo: routing.replyTo })
     }
+
+    if (this.privateKey) {
+      message.signature = A2AMessageSigner.sign(message, this.privateKey)
+    }
+
+    return message
   }
 
   /**
@@ -99,19 +207,24 @@ export class A2AProtocol {
       const message = JSON.parse(messageContent) as A2AMessage
 
       // Validate message structure
-      if (!message.version || message.version !== "1.0") {
-        console.error(chalk.red("❌ Invalid A2A message version"))
+      const validation = validateWithSchema(A2AMessageSchema, message)
+      if (!validation.valid) {
+        console.error(chalk.red(`❌ Invalid A2A message: ${validation.error}`))
         return null
       }
 
-      if (!message.sender || !message.receiver) {
-        console.error(chalk.red("❌ Missing sender or receiver in A2A message"))
+      if (!this.verifySignature(message)) {
         return null
       }
 
-      if (!message.messageType) {
-        console.error(chalk.red("❌ Missing messageType in A2A message"))
-        return null
+      // Replay check runs after signature verification so forged messages
+      // cannot burn nonces belonging to legitimate senders
+      if (this.replayGuard) {
+        const replayCheck = this.replayGuard.checkMessage(message)
+        if (!replayCheck.valid) {
+          console.error(chalk.red(`❌ A2A message from ${message.sender.agentId} rejected: ${replayCheck.error}`))
+          return null
+        }
       }
 
       console.log(chalk.blue(`✅ Valid A2A ${message.messageType} from ${message.sender.agentId} to ${message.receiver.agentId}`))
@@ -123,15 +236,148 @@ export class A2AProtocol {
     }
   }
 
+  /**
+   * Parse an incoming topic message that may be a chunk or an inscription reference
+   *
+   * Chunks are collected until their envelope is complete; until then (and for
+   * chunks that fail their hash check) null is returned.
+   *
+   * @param source - Sender of the topic message (e.g. the payer account), keeps chunks of different senders apart
+   */
+  async parseIncoming(messageContent: string, source?: string): Promise<A2AMessage | null> {
+    const envelope = await this.reassemble(messageContent, source)
+    return envelope === null ? null : this.parseMessage(envelope)
+  }
+
+  /**
+   * Serialized envelope carried by a topic message
+   */
+  private async reassemble(messageContent: string, source?: string): Promise<string | null> {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(messageContent)
+    } catch {
+      return messageContent // parseMessage reports the error
+    }
+
+    if (isA2AChunk(parsed)) {
+      return this.chunkAssembler.add(parsed, source)
+    }
+
+    if (isA2AInscriptionReference(parsed)) {
+      if (!this.inscriber) {
+        console.error(chalk.red(`❌ Cannot resolve inscribed A2A message ${parsed.reference}: no inscriber configured`))
+        return null
+      }
+      try {
+        const content = await this.inscriber.resolve(parsed.reference)
+        if (contentHash(content) !== parsed.hash) {
+          console.error(chalk.red(`❌ Inscribed A2A message ${parsed.reference} failed its hash check`))
+          return null
+        }
+        return content
+      } catch (error) {
+        console.error(chalk.red(`❌ Failed to resolve inscribed A2A message ${parsed.reference}: ${(error as Error).message}`))
+        return null
+      }
+    }
+
+    return messageContent
+  }
+
+  /**
+   * Send a serialized envelope, chunked or inscribed when it exceeds the message size
+   */
+  private async publish(topicId: string, message: A2AMessage): Promise<void> {
+    const content = JSON.stringify(message)
+    if (Buffer.byteLength(content, 'utf8') <= this.maxMessageSize) {
+      await this.transport.sendMessage(topicId, content)
+      return
+    }
+
+    const chunks = chunkContent(content, this.maxMessageSize)
+    if (chunks.length > this.maxChunks && this.inscriber) {
+      const reference: A2AInscriptionReference = {
+        type: A2A_INSCRIPTION_TYPE,
+        reference: await this.inscriber.inscribe(content),
+        hash: contentHash(content),
+        size: Buffer.byteLength(content, 'utf8')
+      }
+      console.log(chalk.blue(`📎 A2A message inscribed as ${reference.reference} (${reference.size} bytes)`))
+      await this.transport.sendMessage(topicId, JSON.stringify(reference))
+      return
+    }
+
+    console.log(chalk.blue(`✂️  Sending A2A message in ${chunks.length} chunks`))
+    for (const chunk of chunks) {
+      await this.transport.sendMessage(topicId, chunk)
+    }
+  }
+
+  /**
+   * Whether the envelope is signed with its sender's known public key
+   *
+   * Unsigned envelopes and senders without a known key, which parsing accepts
+   * outside strict mode, do not count as verified.
+   */
+  hasVerifiedSignature(message: A2AMessage): boolean {
+    const publicKey = message.signature && message.sender.agentId
+      ? this.keyResolver?.resolvePublicKey(message.sender.agentId)
+      : null
+    return !!publicKey && A2AMessageSigner.verify(message, publicKey)
+  }
+
+  /**
+   * Check the envelope signature against the sender's public key
+   *
+   * In strict mode unsigned messages and messages from senders without a known
+   * key are rejected; otherwise they are accepted with a warning. A signature
+   * that does not match a known key is always rejected.
+   */
+  private verifySignature(message: A2AMessage): boolean {
+    const senderId = message.sender.agentId
+
+    if (!message.signature) {
+      if (this.strictSignatures) {
+        console.error(chalk.red(`❌ Unsigned A2A message from ${senderId} rejected (strict mode)`))
+        return false
+      }
+      return true
+    }
+
+    const publicKey = senderId ? this.keyResolver?.resolvePublicKey(senderId) : null
+    if (!publicKey) {
+      if (this.strictSignatures) {
+        console.error(chalk.red(`❌ No public key known for ${senderId}, message rejected (strict mode)`))
+        return false
+      }
+      console.warn(chalk.yellow(`⚠️  Cannot verify signature from ${senderId}: no public key known`))
+      return true
+    }
+
+    if (!A2AMessageSigner.verify(message, publicKey)) {
+      console.error(chalk.red(`❌ Invalid signature on A2A message claiming to be from ${senderId}`))
+      return false
+    }
+
+    return true
+  }
+
   /**
    * Send an A2A message via HCS topic
    */
-  async sendMessage(topicId: string, receiverAgentId: string, messageType: "request" | "response" | "notification", payload: any): Promise<void> {
-    const message = this.createMessage(receiverAgentId, messageType, payload)
+  async sendMessage(
+    topicId: string,
+    receiverAgentId: string,
+    messageType: "request" | "response" | "notification",
+    payload: any,
+    routing: { correlationId?: string; replyTo?: string } = {}
+  ): Promise<void> {
+    const message = this.createMessage(receiverAgentId, messageType, payload, routing)
     
     console.log(chalk.yellow(`📤 Sending A2A ${messageType} to ${receiverAgentId}`))
     
-    await this.hcsClient.sendMessage(topicId, JSON.stringify(message))
+    await this.publish(topicId, message)
     
     console.log(chalk.green(`✅ A2A message sent successfully`))
   }
@@ -147,11 +393,194 @@ export class A2AProtocol {
     
     console.log(chalk.yellow(`📡 Broadcasting A2A ${messageType} to all agents`))
     
-    await this.hcsClient.sendMessage(topicId, JSON.stringify(message))
+    await this.publish(topicId, message)
     
     console.log(chalk.green(`✅ A2A broadcast successful`))
   }
 
+  /**
+   * Send a request and wait for the matching response
+   *
+   * The request goes to the receiver's topic (options.topicId, else agentTopics
+   * or <AGENT>_TOPIC_ID) stamped with a correlation ID and the reply topic; the
+   * promise resolves with the response envelope, or rejects on timeout or
+   * when the response payload carries an `error`.
+   */
+  async request(
+    receiverAgentId: string,
+    payload: any,
+    options: A2ARequestOptions = {}
+  ): Promise<A2AMessage> {
+    const replyTopicId = options.replyTopicId ?? this.inboundTopicId
+    if (!replyTopicId) {
+      throw new Error('No reply topic configured. Set inboundTopicId or pass replyTopicId.')
+    }
+    const topicId = options.topicId ?? this.agentTopicOf(receiverAgentId)
+
+    const timeout = options.timeout ?? 30000
+    const correlationId = `corr-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`
+
+    // Listen before sending so a fast response cannot be missed
+    await this.startListening(replyTopicId)
+
+    const response = new Promise<A2AMessage>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(correlationId)
+        reject(new Error(`A2A request ${correlationId} to ${receiverAgentId} timed out after ${timeout}ms`))
+      }, timeout)
+
+      this.pendingRequests.set(correlationId, { receiverAgentId, resolve, reject, timer })
+    })
+
+    const message = this.createMessage(receiverAgentId, "request", payload, { correlationId, replyTo: replyTopicId })
+
+    console.log(chalk.yellow(`📤 Sending A2A request ${correlationId} to ${receiverAgentId}`))
+
+    try {
+      await this.publish(topicId, message)
+    } catch (error) {
+      const pending = this.pendingRequests.get(correlationId)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pendingRequests.delete(correlationId)
+      }
+      throw error
+    }
+
+    return response
+  }
+
+  /**
+   * Register a handler for incoming requests of a payload type
+   *
+   * The handler's return value is sent back to the requester's reply topic
+   * as a response envelope; thrown errors are sent as `{ type, error }`.
+   * Call startListening() on the agent's inbound topic to receive requests.
+   */
+  onRequest(type: string, handler: A2ARequestHandler): void {
+    this.requestHandlers.set(type, handler)
+    console.log(`📝 Registered A2A request handler for: ${type}`)
+  }
+
+  /**
+   * Subscribe to a topic for responses and requests addressed to this agent
+   *
+   * Only messages published after listening first starts are dispatched; with a
+   * persistent cursor store, later runs resume where the last one stopped.
+   */
+  async startListening(topicId: string): Promise<void> {
+    const existing = this.listeners.get(topicId)
+    if (existing) {
+      return existing
+    }
+
+    const ready: Promise<void> = this.positionListenerCursor(topicId).then(() => {
+      // Not stopped meanwhile
+      if (this.listeners.get(topicId) === ready) {
+        this.subscriber.subscribe(topicId, message => this.dispatchIncoming(message))
+      }
+    })
+    this.listeners.set(topicId, ready)
+    ready.catch(() => this.listeners.delete(topicId))
+    return ready
+  }
+
+  /**
+   * Stop all topic listeners and reject outstanding requests
+   */
+  stopListening(): void {
+    this.subscriber.close()
+    this.listeners.clear()
+
+    for (const [correlationId, pending] of this.pendingRequests.entries()) {
+      clearTimeout(pending.timer)
+      pending.reject(new Error(`A2A request ${correlationId} cancelled: listener stopped`))
+    }
+    this.pendingRequests.clear()
+  }
+
+  /**
+   * Skip history: a topic without a listener cursor starts at its current end
+   */
+  private async positionListenerCursor(topicId: string): Promise<void> {
+    if (this.listenerCursors.getSequence(topicId) > 0) {
+      return
+    }
+    const { messages } = await this.transport.getMessages(topicId)
+    for (const message of messages) {
+      this.listenerCursors.setSequence(topicId, message.sequence_number)
+    }
+  }
+
+  /**
+   * Route an incoming topic message to a pending request or a request handler
+   */
+  private async dispatchIncoming(topicMessage: TransportMessage): Promise<void> {
+    const content = topicMessage.data
+    if (!content) return
+
+    const message = await this.parseIncoming(content, topicMessage.payer)
+    if (!message || message.receiver.agentId !== this.agentId) {
+      return
+    }
+
+    if (message.messageType === "response" && message.correlationId) {
+      const pending = this.pendingRequests.get(message.correlationId)
+      if (!pending) return
+
+      if (message.sender.agentId !== pending.receiverAgentId) {
+        console.warn(chalk.yellow(`⚠️  Response ${message.correlationId} came from ${message.sender.agentId}, expected ${pending.receiverAgentId}`))
+        return
+      }
+
+      clearTimeout(pending.timer)
+      this.pendingRequests.delete(message.correlationId)
+
+      if (message.payload?.error) {
+        const reason = typeof message.payload.error === 'string' ? message.payload.error : JSON.stringify(message.payload.error)
+        pending.reject(new Error(`A2A request ${message.correlationId} failed: ${reason}`))
+      } else {
+        pending.resolve(message)
+      }
+      return
+    }
+
+    if (message.messageType === "request") {
+      await this.handleIncomingRequest(message)
+    }
+  }
+
+  /**
+   * Run the registered handler for a request and send its response
+   */
+  private async handleIncomingRequest(message: A2AMessage): Promise<void> {
+    const type = message.payload?.type
+    const handler = this.requestHandlers.get(type)
+    if (!handler) {
+      return
+    }
+
+    if (!message.replyTo || !message.correlationId) {
+      console.warn(chalk.yellow(`⚠️  Request ${type} from ${message.sender.agentId} has no reply topic or correlation ID`))
+      await handler(message.payload, message)
+      return
+    }
+
+    let responsePayload: any
+    try {
+      responsePayload = await handler(message.payload, message)
+    } catch (error) {
+      responsePayload = { type, error: (error as Error).message }
+    }
+
+    const response = this.createMessage(message.sender.agentId, "response", responsePayload ?? { type }, {
+      correlationId: message.correlationId
+    })
+
+    await this.publish(message.replyTo, response)
+    console.log(chalk.green(`✅ A2A response ${message.correlationId} sent to ${message.sender.agentId}`))
+  }
+
   /**
    * Send an A2A message via established connection (if available)
    * Falls back to direct topic messaging if no connection exists
@@ -171,18 +600,26 @@ export class A2AProtocol {
       // Send via connection topic
       const message = this.createMessage(receiverAgentId, messageType, payload)
       console.log(chalk.yellow(`📤 Sending A2A ${messageType} via connection to ${receiverAgentId}`))
-      await this.hcsClient.sendMessage(connection.connectionTopicId, JSON.stringify(message))
+      await this.publish(connection.connectionTopicId, message)
       console.log(chalk.green(`✅ A2A message sent via connection`))
     } else {
       // Fall back to direct topic messaging
       console.log(chalk.yellow(`⚠️  No connection established, falling back to direct topic messaging`))
-      // Get receiver's topic ID from environment or registry
-      const receiverTopicId = process.env[`${receiverAgentId.toUpperCase().replace(/\./g, '_')}_TOPIC_ID`]
-      if (!receiverTopicId) {
-        throw new Error(`Cannot find topic ID for agent ${receiverAgentId}`)
-      }
-      await this.sendMessage(receiverTopicId, receiverAgentId, messageType, payload)
+      await this.sendMessage(this.agentTopicOf(receiverAgentId), receiverAgentId, messageType, payload)
+    }
+  }
+
+  /**
+   * Receiver's topic ID from the configured topics or the environment
+   */
+  private agentTopicOf(receiverAgentId: string): string {
+    const receiverTopicId = this.agentTopics
+      ? this.agentTopics[receiverAgentId]
+      : process.env[`${receiverAgentId.toUpperCase().replace(/\./g, '_')}_TOPIC_ID`]
+    if (!receiverTopicId) {
+      throw new Error(`Cannot find topic ID for agent ${receiverAgentId}`)
     }
+    return receiverTopicId
   }
 
   /**
@@ -276,5 +713,22 @@ export class A2AHandshakeProtocol {
 
     console.log(chalk.blue(`🤝 Handshake initiated with ${targetAgentId}`))
   }
+
+  /**
+   * Extract and validate a handshake from an A2A message
+   */
+  parseHandshake(message: A2AMessage): A2AHandshake | null {
+    if (!message.payload || message.payload.type !== "handshake") {
+      return null
+    }
+
+    const validation = validateWithSchema(A2AHandshakeSchema, message.payload.data)
+    if (!validation.valid) {
+      console.error(chalk.red(`❌ Invalid handshake from ${message.sender.agentId}: ${validation.error}`))
+      return null
+    }
+
+    return message.payload.data as A2AHandshake
+  }
 }
 
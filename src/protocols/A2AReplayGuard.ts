@@ -0,0 +1,99 @@
+/**
+ * A2A Replay Protection
+ *
+ * Receiver-side guard that rejects replayed A2A messages:
+ * - Remembers every (sender, nonce) pair seen within a time window
+ * - Rejects messages whose timestamp is older than the window
+ * - Rejects messages timestamped in the future beyond a clock-skew tolerance
+ *
+ * Nonces are only remembered for as long as a message carrying them could
+ * still pass the timestamp check, so memory use stays bounded.
+ */
+
+import { A2AMessage } from './A2AProtocol'
+
+/**
+ * Replay guard options
+ */
+export interface ReplayGuardOptions {
+  windowMs?: number // How long messages are accepted after their timestamp (default: 5 minutes)
+  maxClockSkewMs?: number // Tolerance for sender clocks running ahead (default: 30 seconds)
+}
+
+/**
+ * A2A Replay Guard
+ */
+export class A2AReplayGuard {
+  private seen: Map<string, number> = new Map() // `${sender}:${nonce}` -> message timestamp
+  private windowMs: number
+  private maxClockSkewMs: number
+
+  constructor(options: ReplayGuardOptions = {}) {
+    this.windowMs = options.windowMs ?? 300000
+    this.maxClockSkewMs = options.maxClockSkewMs ?? 30000
+  }
+
+  /**
+   * Check an incoming message and remember its nonce if accepted
+   */
+  checkMessage(message: A2AMessage, now: number = Date.now()): { valid: boolean; error?: string } {
+    this.prune(now)
+
+    if (!message.nonce) {
+      return { valid: false, error: 'Missing nonce' }
+    }
+
+    if (typeof message.timestamp !== 'number' || isNaN(message.timestamp)) {
+      return { valid: false, error: 'Missing or invalid timestamp' }
+    }
+
+    if (message.timestamp > now + this.maxClockSkewMs) {
+      return { valid: false, error: `Timestamp is ${message.timestamp - now}ms in the future` }
+    }
+
+    if (message.timestamp < now - this.windowMs) {
+      return { valid: false, error: `Stale message (${now - message.timestamp}ms old)` }
+    }
+
+    const key = `${message.sender?.agentId}:${message.nonce}`
+    if (this.seen.has(key)) {
+      return { valid: false, error: `Replayed nonce ${message.nonce} from ${message.sender?.agentId}` }
+    }
+
+    this.seen.set(key, message.timestamp)
+    return { valid: true }
+  }
+
+  /**
+   * Check whether a (sender, nonce) pair has already been seen
+   */
+  hasSeen(senderId: string, nonce: string): boolean {
+    return this.seen.has(`${senderId}:${nonce}`)
+  }
+
+  /**
+   * Number of nonces currently remembered
+   */
+  size(): number {
+    return this.seen.size
+  }
+
+  /**
+   * Forget all remembered nonces
+   */
+  clear(): void {
+    this.seen.clear()
+  }
+
+  /**
+   * Drop nonces whose messages would now be rejected as stale anyway
+   */
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs
+    for (const [key, timestamp] of this.seen.entries()) {
+      if (timestamp < cutoff) {
+        this.seen.delete(key)
+      }
+    }
+  }
+}
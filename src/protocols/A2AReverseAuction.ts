@@ -0,0 +1,723 @@
+/**
+ * A2A Reverse Auctions
+ *
+ * Multi-party procurement: a buyer agent invites every active agent with a
+ * given capability (discovered through the AgentRegistry) to bid on an item,
+ * and awards the contract to the lowest bidder once the deadline passes.
+ *
+ * Every auction message (open, bids, reveals, award) is posted to a single
+ * HCS auction topic, so the whole auction can be audited from the topic alone.
+ * Bids are timed by their consensus timestamp, not by when the buyer reads them.
+ *
+ * Two formats are supported:
+ * - descending: bids are public and each must undercut the lowest bid so far
+ * - sealed-bid: vendors post a SHA-256 commitment before the deadline and
+ *   reveal amount and salt afterwards, so no bid is visible while bidding is open
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { A2AProtocol, A2AMessage } from './A2AProtocol'
+import type { AgentMetadata } from '../agents/AgentRegistry'
+import { MessageTransport, TransportMessage } from '../transport/MessageTransport'
+import { InMemorySequenceCursorStore, selectUnprocessedMessages } from '../transport/SequenceCursorStore'
+import { timerDelay } from '../utils/timers'
+import chalk from 'chalk'
+
+export type AuctionType = "sealed-bid" | "descending"
+
+/**
+ * Auction State
+ */
+export enum AuctionState {
+  OPEN = "open",
+  REVEALING = "revealing",
+  AWARDED = "awarded",
+  NO_AWARD = "no_award",
+  CANCELLED = "cancelled"
+}
+
+/**
+ * Source of agents to invite (AgentRegistry satisfies this interface)
+ */
+export interface AgentDirectory {
+  discoverAgentsByCapability(capability: string): AgentMetadata[]
+}
+
+/**
+ * Auction options
+ */
+export interface ReverseAuctionOptions {
+  capability: string // Capability vendors must advertise to be invited
+  auctionTopicId: string // HCS topic that records every auction message
+  item: any // What is being procured (description, quantity, terms, ...)
+  auctionType?: AuctionType // Default: "sealed-bid"
+  duration?: number // Milliseconds until bidding closes (default: 60000)
+  revealWindow?: number // Sealed-bid only: milliseconds allowed for reveals (default: 30000)
+  reservePrice?: number // Highest acceptable bid
+  minDecrement?: number // Descending only: minimum undercut of the lowest bid (default: 0)
+  currency?: string
+}
+
+/**
+ * Invitation sent to each vendor
+ */
+export interface AuctionInvite {
+  auctionId: string
+  buyerId: string
+  auctionType: AuctionType
+  auctionTopicId: string
+  item: any
+  closesAt: number
+  reservePrice?: number
+  minDecrement?: number
+  currency?: string
+}
+
+/**
+ * Bid accepted by the buyer
+ */
+export interface AuctionBid {
+  bidderId: string
+  amount: number
+  offer?: any // Additional terms submitted with the bid
+  sequenceNumber: number // Sequence number on the auction topic
+  consensusTimestamp?: string
+  receivedAt: number // Consensus time in ms
+}
+
+/**
+ * Reverse auction record
+ */
+export interface ReverseAuction {
+  auctionId: string
+  buyerId: string
+  auctionType: AuctionType
+  auctionTopicId: string
+  item: any
+  currency?: string
+  invitedAgents: string[]
+  reservePrice?: number
+  minDecrement: number
+  revealWindow: number
+  createdAt: number
+  closesAt: number
+  revealClosesAt?: number
+  state: AuctionState
+  bids: AuctionBid[]
+  rejectedBids: { bidderId: string; sequenceNumber: number; reason: string }[]
+  winner?: AuctionBid
+}
+
+/**
+ * Pending sealed-bid commitment
+ */
+interface BidCommitment {
+  commitment: string
+  sequenceNumber: number
+  consensusTimestamp?: string
+  receivedAt: number
+}
+
+/**
+ * Bid decision made by a vendor when invited
+ */
+export type BidPolicy = (invite: AuctionInvite) =>
+  Promise<{ amount: number; offer?: any } | null> | { amount: number; offer?: any } | null
+
+/**
+ * Commitment hash for a sealed bid
+ */
+export function bidCommitment(auctionId: string, bidderId: string, amount: number, salt: string, offer?: any): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ auctionId, bidderId, amount, offer: offer ?? null, salt }))
+    .digest('hex')
+}
+
+/**
+ * Buyer side of a reverse auction
+ */
+export class A2AReverseAuction {
+  private a2a: A2AProtocol
+  private directory: AgentDirectory
+  private auctions: Map<string, ReverseAuction> = new Map()
+  private commitments: Map<string, Map<string, BidCommitment>> = new Map()
+  private timers: Map<string, NodeJS.Timeout> = new Map()
+  private waiters: Map<string, ((auction: ReverseAuction) => void)[]> = new Map()
+  private vendors: Map<string, AgentMetadata> = new Map()
+  private cursors: InMemorySequenceCursorStore = new InMemorySequenceCursorStore()
+
+  /**
+   * @param directory - Where vendors are discovered (e.g. globalAgentRegistry)
+   */
+  constructor(a2a: A2AProtocol, directory: AgentDirectory) {
+    this.a2a = a2a
+    this.directory = directory
+  }
+
+  /**
+   * Invite all active agents with the capability and open bidding
+   */
+  async startAuction(options: ReverseAuctionOptions): Promise<ReverseAuction> {
+    const buyerId = this.a2a['agentId']
+    const vendors = this.directory.discoverAgentsByCapability(options.capability)
+      .filter(agent => agent.status === 'active' && agent.agentId !== buyerId)
+
+    if (vendors.length === 0) {
+      throw new Error(`No active agents with capability ${options.capability}`)
+    }
+
+    const now = Date.now()
+    const auction: ReverseAuction = {
+      auctionId: `auction-${now}-${Math.random().toString(36).substring(7)}`,
+      buyerId,
+      auctionType: options.auctionType || "sealed-bid",
+      auctionTopicId: options.auctionTopicId,
+      item: options.item,
+      invitedAgents: vendors.map(vendor => vendor.agentId),
+      minDecrement: options.minDecrement ?? 0,
+      revealWindow: options.revealWindow ?? 30000,
+      createdAt: now,
+      closesAt: now + (options.duration ?? 60000),
+      state: AuctionState.OPEN,
+      bids: [],
+      rejectedBids: [],
+      ...(options.currency !== undefined && { currency: options.currency }),
+      ...(options.reservePrice !== undefined && { reservePrice: options.reservePrice })
+    }
+
+    // Consume earlier topic messages so only those posted after the auction opens count
+    await this.scan(auction.auctionTopicId)
+
+    this.auctions.set(auction.auctionId, auction)
+    this.commitments.set(auction.auctionId, new Map())
+
+    const invite = this.toInvite(auction)
+    await this.a2a.broadcastMessage(auction.auctionTopicId, "notification", {
+      type: "auction",
+      action: "open",
+      ...invite,
+      invitedAgents: auction.invitedAgents
+    })
+
+    for (const vendor of vendors) {
+      this.vendors.set(vendor.agentId, vendor)
+      await this.a2a.sendMessage(vendor.topicId, vendor.agentId, "request", {
+        type: "auction",
+        action: "invite",
+        ...invite
+      }, { replyTo: auction.auctionTopicId })
+    }
+
+    this.schedule(auction.auctionId, auction.closesAt, () => this.closeBidding(auction.auctionId))
+
+    console.log(chalk.blue(`🔨 Started ${auction.auctionType} auction ${auction.auctionId} with ${vendors.length} vendor(s)`))
+
+    return auction
+  }
+
+  /**
+   * Close bidding now instead of waiting for the deadline
+   */
+  async closeBidding(auctionId: string): Promise<ReverseAuction> {
+    const auction = this.requireAuction(auctionId)
+    if (auction.state !== AuctionState.OPEN) {
+      return auction
+    }
+
+    this.clearTimer(auctionId)
+    auction.closesAt = Math.min(auction.closesAt, Date.now())
+    await this.scan(auction.auctionTopicId)
+
+    if (auction.auctionType === "descending") {
+      return await this.finalize(auction)
+    }
+
+    auction.state = AuctionState.REVEALING
+    auction.revealClosesAt = Date.now() + auction.revealWindow
+
+    await this.a2a.broadcastMessage(auction.auctionTopicId, "notification", {
+      type: "auction",
+      action: "reveal",
+      auctionId,
+      revealClosesAt: auction.revealClosesAt
+    })
+
+    console.log(chalk.blue(`🔓 Bidding closed on ${auctionId}; ${this.commitments.get(auctionId)!.size} sealed bid(s) to reveal`))
+
+    this.schedule(auctionId, auction.revealClosesAt, () => this.finalizeAuction(auctionId))
+    return auction
+  }
+
+  /**
+   * Stop waiting for reveals and award the auction now
+   */
+  async finalizeAuction(auctionId: string): Promise<ReverseAuction> {
+    const auction = this.requireAuction(auctionId)
+    if (auction.state === AuctionState.OPEN) {
+      await this.closeBidding(auctionId)
+    }
+    if (auction.state !== AuctionState.REVEALING) {
+      return auction
+    }
+
+    this.clearTimer(auctionId)
+    auction.revealClosesAt = Math.min(auction.revealClosesAt!, Date.now())
+    await this.scan(auction.auctionTopicId)
+    return await this.finalize(auction)
+  }
+
+  /**
+   * Cancel an auction without awarding it
+   */
+  async cancelAuction(auctionId: string, reason?: string): Promise<void> {
+    const auction = this.requireAuction(auctionId)
+    if (auction.state === AuctionState.AWARDED || auction.state === AuctionState.NO_AWARD) {
+      throw new Error(`Auction ${auctionId} is already ${auction.state}`)
+    }
+
+    this.clearTimer(auctionId)
+    auction.state = AuctionState.CANCELLED
+
+    await this.a2a.broadcastMessage(auction.auctionTopicId, "notification", {
+      type: "auction",
+      action: "cancel",
+      auctionId,
+      ...(reason !== undefined && { reason })
+    })
+
+    this.resolveWaiters(auction)
+    console.log(chalk.yellow(`🚫 Auction ${auctionId} cancelled`))
+  }
+
+  /**
+   * Resolve once the auction is awarded, ends without award or is cancelled
+   */
+  waitForResult(auctionId: string): Promise<ReverseAuction> {
+    const auction = this.requireAuction(auctionId)
+    if (this.isFinished(auction)) {
+      return Promise.resolve(auction)
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(auctionId) || []
+      waiters.push(resolve)
+      this.waiters.set(auctionId, waiters)
+    })
+  }
+
+  /**
+   * Get auction by ID
+   */
+  getAuction(auctionId: string): ReverseAuction | null {
+    return this.auctions.get(auctionId) || null
+  }
+
+  /**
+   * Get all auctions, optionally filtered by state
+   */
+  listAuctions(state?: AuctionState): ReverseAuction[] {
+    return Array.from(this.auctions.values()).filter(auction => state === undefined || auction.state === state)
+  }
+
+  /**
+   * Cancel all deadline timers
+   */
+  close(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer)
+    }
+    this.timers.clear()
+  }
+
+  /**
+   * Process new messages on an auction topic
+   */
+  private async scan(topicId: string): Promise<void> {
+    const { messages } = await this.transport().getMessages(topicId)
+
+    for (const transportMessage of selectUnprocessedMessages(this.cursors, topicId, messages)) {
+      this.cursors.setSequence(topicId, transportMessage.sequence_number)
+
+      const message = transportMessage.data ? await this.a2a.parseIncoming(transportMessage.data, transportMessage.payer) : null
+      const payload = message?.payload
+      if (!message || payload?.type !== "auction" || message.sender.agentId === this.a2a['agentId']) {
+        continue
+      }
+
+      const auction = this.auctions.get(payload.auctionId)
+      if (!auction) {
+        continue
+      }
+
+      switch (payload.action) {
+        case "bid":
+          this.recordBid(auction, message, transportMessage)
+          break
+        case "commit":
+          this.recordCommitment(auction, message, transportMessage)
+          break
+        case "reveal_bid":
+          this.recordReveal(auction, message, transportMessage)
+          break
+      }
+    }
+  }
+
+  /**
+   * Descending auction bid
+   */
+  private recordBid(auction: ReverseAuction, message: A2AMessage, transportMessage: TransportMessage): void {
+    const bidderId = message.sender.agentId
+    const receivedAt = consensusTime(transportMessage, message)
+    const amount = Number(message.payload.amount)
+
+    let reason = this.checkBidder(auction, bidderId)
+      || (auction.auctionType !== "descending" ? 'Open bids are only accepted in descending auctions' : undefined)
+      || (receivedAt > auction.closesAt ? 'Bid arrived after the deadline' : undefined)
+      || this.checkAmount(auction, amount)
+
+    const lowest = lowestBid(auction.bids)
+    if (!reason && lowest && amount > lowest.amount - auction.minDecrement) {
+      reason = `Bid ${amount} does not undercut ${lowest.amount} by at least ${auction.minDecrement}`
+    }
+    if (!reason && lowest && amount >= lowest.amount) {
+      reason = `Bid ${amount} does not undercut ${lowest.amount}`
+    }
+
+    if (reason) {
+      this.rejectBid(auction, bidderId, transportMessage.sequence_number, reason)
+      return
+    }
+
+    auction.bids.push(this.toBid(bidderId, amount, message.payload.offer, transportMessage, receivedAt))
+    console.log(chalk.cyan(`📥 Bid ${amount} from ${bidderId} on ${auction.auctionId}`))
+  }
+
+  /**
+   * Sealed-bid commitment (a later commitment replaces an earlier one)
+   */
+  private recordCommitment(auction: ReverseAuction, message: A2AMessage, transportMessage: TransportMessage): void {
+    const bidderId = message.sender.agentId
+    const receivedAt = consensusTime(transportMessage, message)
+
+    const reason = this.checkBidder(auction, bidderId)
+      || (auction.auctionType !== "sealed-bid" ? 'Commitments are only accepted in sealed-bid auctions' : undefined)
+      || (receivedAt > auction.closesAt ? 'Commitment arrived after the deadline' : undefined)
+      || (typeof message.payload.commitment !== "string" ? 'Missing commitment' : undefined)
+
+    if (reason) {
+      this.rejectBid(auction, bidderId, transportMessage.sequence_number, reason)
+      return
+    }
+
+    this.commitments.get(auction.auctionId)!.set(bidderId, {
+      commitment: message.payload.commitment,
+      sequenceNumber: transportMessage.sequence_number,
+      receivedAt,
+      ...(transportMessage.consensus_timestamp !== undefined && { consensusTimestamp: transportMessage.consensus_timestamp })
+    })
+    console.log(chalk.cyan(`📥 Sealed bid from ${bidderId} on ${auction.auctionId}`))
+  }
+
+  /**
+   * Sealed-bid reveal, checked against the bidder's commitment
+   */
+  private recordReveal(auction: ReverseAuction, message: A2AMessage, transportMessage: TransportMessage): void {
+    const bidderId = message.sender.agentId
+    const { amount, salt, offer } = message.payload
+    const commitment = this.commitments.get(auction.auctionId)!.get(bidderId)
+    const revealedAt = consensusTime(transportMessage, message)
+
+    const reason = (!commitment ? 'No sealed bid to reveal' : undefined)
+      || (auction.revealClosesAt !== undefined && revealedAt > auction.revealClosesAt ? 'Reveal arrived after the reveal window' : undefined)
+      || (commitment!.commitment !== bidCommitment(auction.auctionId, bidderId, Number(amount), String(salt), offer)
+        ? 'Reveal does not match commitment' : undefined)
+      || (auction.bids.some(bid => bid.bidderId === bidderId) ? 'Bid already revealed' : undefined)
+      || this.checkAmount(auction, Number(amount))
+
+    if (reason) {
+      this.rejectBid(auction, bidderId, transportMessage.sequence_number, reason)
+      return
+    }
+
+    // Sealed bids rank by when they were committed, not revealed
+    auction.bids.push({
+      bidderId,
+      amount: Number(amount),
+      sequenceNumber: commitment!.sequenceNumber,
+      receivedAt: commitment!.receivedAt,
+      ...(offer !== undefined && { offer }),
+      ...(commitment!.consensusTimestamp !== undefined && { consensusTimestamp: commitment!.consensusTimestamp })
+    })
+    console.log(chalk.cyan(`📥 Revealed bid ${amount} from ${bidderId} on ${auction.auctionId}`))
+  }
+
+  /**
+   * Pick the lowest bid (earliest on ties) and publish the result
+   */
+  private async finalize(auction: ReverseAuction): Promise<ReverseAuction> {
+    const winner = lowestBid(auction.bids)
+    auction.state = winner ? AuctionState.AWARDED : AuctionState.NO_AWARD
+    if (winner) {
+      auction.winner = winner
+    }
+
+    await this.a2a.broadcastMessage(auction.auctionTopicId, "notification", {
+      type: "auction",
+      action: "award",
+      auctionId: auction.auctionId,
+      winner: winner ? { bidderId: winner.bidderId, amount: winner.amount, sequenceNumber: winner.sequenceNumber } : null,
+      bids: auction.bids.map(bid => ({ bidderId: bid.bidderId, amount: bid.amount, sequenceNumber: bid.sequenceNumber })),
+      rejectedBids: auction.rejectedBids
+    })
+
+    if (winner) {
+      const vendor = this.vendors.get(winner.bidderId)
+      if (vendor) {
+        await this.a2a.sendMessage(vendor.topicId, winner.bidderId, "notification", {
+          type: "auction",
+          action: "award",
+          auctionId: auction.auctionId,
+          amount: winner.amount,
+          ...(winner.offer !== undefined && { offer: winner.offer })
+        })
+      }
+      console.log(chalk.green(`🏆 Auction ${auction.auctionId} awarded to ${winner.bidderId} at ${winner.amount}${auction.currency ? ` ${auction.currency}` : ''}`))
+    } else {
+      console.log(chalk.yellow(`⚠️  Auction ${auction.auctionId} closed without valid bids`))
+    }
+
+    this.resolveWaiters(auction)
+    return auction
+  }
+
+  private checkBidder(auction: ReverseAuction, bidderId: string): string | undefined {
+    return auction.invitedAgents.includes(bidderId) ? undefined : `${bidderId} was not invited`
+  }
+
+  private checkAmount(auction: ReverseAuction, amount: number): string | undefined {
+    if (isNaN(amount) || amount <= 0) {
+      return 'Bid amount must be a positive number'
+    }
+    if (auction.reservePrice !== undefined && amount > auction.reservePrice) {
+      return `Bid ${amount} exceeds reserve price ${auction.reservePrice}`
+    }
+    return undefined
+  }
+
+  private rejectBid(auction: ReverseAuction, bidderId: string, sequenceNumber: number, reason: string): void {
+    auction.rejectedBids.push({ bidderId, sequenceNumber, reason })
+    console.log(chalk.yellow(`⚠️  Rejected bid from ${bidderId} on ${auction.auctionId}: ${reason}`))
+  }
+
+  private toBid(bidderId: string, amount: number, offer: any, transportMessage: TransportMessage, receivedAt: number): AuctionBid {
+    return {
+      bidderId,
+      amount,
+      sequenceNumber: transportMessage.sequence_number,
+      receivedAt,
+      ...(offer !== undefined && { offer }),
+      ...(transportMessage.consensus_timestamp !== undefined && { consensusTimestamp: transportMessage.consensus_timestamp })
+    }
+  }
+
+  private toInvite(auction: ReverseAuction): AuctionInvite {
+    return {
+      auctionId: auction.auctionId,
+      buyerId: auction.buyerId,
+      auctionType: auction.auctionType,
+      auctionTopicId: auction.auctionTopicId,
+      item: auction.item,
+      closesAt: auction.closesAt,
+      ...(auction.reservePrice !== undefined && { reservePrice: auction.reservePrice }),
+      ...(auction.auctionType === "descending" && { minDecrement: auction.minDecrement }),
+      ...(auction.currency !== undefined && { currency: auction.currency })
+    }
+  }
+
+  private requireAuction(auctionId: string): ReverseAuction {
+    const auction = this.auctions.get(auctionId)
+    if (!auction) {
+      throw new Error(`Auction ${auctionId} not found`)
+    }
+    return auction
+  }
+
+  private isFinished(auction: ReverseAuction): boolean {
+    return auction.state === AuctionState.AWARDED ||
+      auction.state === AuctionState.NO_AWARD ||
+      auction.state === AuctionState.CANCELLED
+  }
+
+  private resolveWaiters(auction: ReverseAuction): void {
+    for (const resolve of this.waiters.get(auction.auctionId) || []) {
+      resolve(auction)
+    }
+    this.waiters.delete(auction.auctionId)
+  }
+
+  private schedule(auctionId: string, at: number, action: () => Promise<ReverseAuction>): void {
+    this.clearTimer(auctionId)
+    const timer = setTimeout(() => {
+      this.timers.delete(auctionId)
+      if (Date.now() < at) {
+        this.schedule(auctionId, at, action)
+        return
+      }
+      action().catch(error => {
+        console.error(chalk.red(`❌ Auction ${auctionId} failed: ${(error as Error).message}`))
+      })
+    }, timerDelay(at))
+    this.timers.set(auctionId, timer)
+  }
+
+  private clearTimer(auctionId: string): void {
+    const timer = this.timers.get(auctionId)
+    if (timer) {
+      clearTimeout(timer)
+      this.timers.delete(auctionId)
+    }
+  }
+
+  private transport(): MessageTransport {
+    return this.a2a['transport']
+  }
+}
+
+/**
+ * Vendor side of a reverse auction
+ */
+export class A2AAuctionBidder {
+  private a2a: A2AProtocol
+  private bidPolicy?: BidPolicy
+  private invites: Map<string, AuctionInvite> = new Map()
+  private sealedBids: Map<string, { amount: number; offer?: any; salt: string }> = new Map()
+
+  /**
+   * @param bidPolicy - Decides the bid for each invitation automatically (optional)
+   */
+  constructor(a2a: A2AProtocol, bidPolicy?: BidPolicy) {
+    this.a2a = a2a
+    if (bidPolicy !== undefined) {
+      this.bidPolicy = bidPolicy
+    }
+  }
+
+  /**
+   * Process an incoming auction message (invitations, reveal requests and awards)
+   */
+  async processAuctionMessage(message: A2AMessage): Promise<void> {
+    const payload = message.payload
+    if (!payload || payload.type !== "auction") {
+      return
+    }
+
+    switch (payload.action) {
+      case "invite": {
+        const { type, action, ...invite } = payload
+        this.invites.set(invite.auctionId, invite as AuctionInvite)
+        console.log(chalk.blue(`📨 Invited to ${invite.auctionType} auction ${invite.auctionId} by ${invite.buyerId}`))
+
+        if (this.bidPolicy) {
+          const bid = await this.bidPolicy(invite as AuctionInvite)
+          if (bid) {
+            await this.submitBid(invite.auctionId, bid.amount, bid.offer)
+          }
+        }
+        break
+      }
+      case "reveal":
+        if (this.sealedBids.has(payload.auctionId)) {
+          await this.revealBid(payload.auctionId)
+        }
+        break
+      case "award":
+        if (payload.winner === undefined || payload.winner?.bidderId === this.a2a['agentId']) {
+          console.log(chalk.green(`🏆 Won auction ${payload.auctionId} at ${payload.amount ?? payload.winner?.amount}`))
+        }
+        break
+    }
+  }
+
+  /**
+   * Bid on an auction (sealed bids are committed now and revealed later)
+   */
+  async submitBid(auctionId: string, amount: number, offer?: any): Promise<void> {
+    const invite = this.requireInvite(auctionId)
+    const bidderId = this.a2a['agentId']
+
+    if (invite.auctionType === "descending") {
+      await this.a2a.sendMessage(invite.auctionTopicId, invite.buyerId, "request", {
+        type: "auction",
+        action: "bid",
+        auctionId,
+        amount,
+        ...(offer !== undefined && { offer })
+      })
+      return
+    }
+
+    const salt = randomBytes(16).toString('hex')
+    this.sealedBids.set(auctionId, { amount, salt, ...(offer !== undefined && { offer }) })
+
+    await this.a2a.sendMessage(invite.auctionTopicId, invite.buyerId, "request", {
+      type: "auction",
+      action: "commit",
+      auctionId,
+      commitment: bidCommitment(auctionId, bidderId, amount, salt, offer)
+    })
+  }
+
+  /**
+   * Reveal a sealed bid after bidding has closed
+   */
+  async revealBid(auctionId: string): Promise<void> {
+    const invite = this.requireInvite(auctionId)
+    const sealed = this.sealedBids.get(auctionId)
+    if (!sealed) {
+      throw new Error(`No sealed bid for auction ${auctionId}`)
+    }
+
+    await this.a2a.sendMessage(invite.auctionTopicId, invite.buyerId, "request", {
+      type: "auction",
+      action: "reveal_bid",
+      auctionId,
+      amount: sealed.amount,
+      salt: sealed.salt,
+      ...(sealed.offer !== undefined && { offer: sealed.offer })
+    })
+  }
+
+  /**
+   * Get an invitation by auction ID
+   */
+  getInvite(auctionId: string): AuctionInvite | null {
+    return this.invites.get(auctionId) || null
+  }
+
+  private requireInvite(auctionId: string): AuctionInvite {
+    const invite = this.invites.get(auctionId)
+    if (!invite) {
+      throw new Error(`No invitation for auction ${auctionId}`)
+    }
+    return invite
+  }
+}
+
+/**
+ * Lowest bid, earliest on ties
+ */
+function lowestBid(bids: AuctionBid[]): AuctionBid | undefined {
+  return [...bids].sort((a, b) => a.amount - b.amount || a.sequenceNumber - b.sequenceNumber)[0]
+}
+
+/**
+ * Consensus time of a topic message in ms (falls back to the envelope timestamp)
+ */
+function consensusTime(transportMessage: TransportMessage, message: A2AMessage): number {
+  if (transportMessage.consensus_timestamp) {
+    const [seconds, nanos = '0'] = transportMessage.consensus_timestamp.split('.')
+    return Number(seconds) * 1000 + Math.floor(Number(nanos.padEnd(9, '0')) / 1e6)
+  }
+  return message.timestamp
+}
@@ -0,0 +1,451 @@
+/**
+ * AP2 Mandates
+ *
+ * User-signed authorizations that bound what an agent may pay for:
+ * - Intent mandate: "spend up to `maxAmount` at these merchants until `expiry`"
+ * - Cart mandate: "pay exactly this cart to this merchant", optionally
+ *   issued under an intent mandate
+ *
+ * Mandates are signed with the user's Hedera key over their canonical JSON
+ * (signature excluded), like A2A envelopes. AP2MandateRegistry verifies
+ * mandates on registration and authorizes payment requests against them,
+ * reserving the amount so concurrent payments cannot overspend an intent.
+ * Payment requests without a mandate are refused unless the operator opts
+ * out with `requireMandate: false`.
+ *
+ * @see https://github.com/google-agentic-commerce/AP2
+ */
+
+import { PrivateKey, PublicKey } from '@hashgraph/sdk'
+import { A2AMessage } from './A2AProtocol'
+import { canonicalJson, PublicKeyResolver } from './A2AMessageSigner'
+import { AP2PaymentRequest, AP2Currency } from './AP2Protocol'
+import { AP2MandateSchema, validateWithSchema } from './ProtocolSchemas'
+import { MandateStore, MandateReservation, InMemoryMandateStore } from './MandateStore'
+import chalk from 'chalk'
+
+/**
+ * Intent mandate
+ */
+export interface AP2IntentMandate {
+  type: "intent"
+  mandateId: string
+  userId: string // Account ID of the user signing the mandate
+  agentId: string // Agent allowed to pay under the mandate
+  description: string
+  maxAmount: string // Total that may be spent across all payments
+  currency: AP2Currency
+  merchants: string[] // Allowed payment recipients
+  createdAt: number
+  expiry: number
+  signature?: string
+}
+
+/**
+ * Cart line item
+ */
+export interface AP2CartItem {
+  sku: string
+  description: string
+  quantity: number
+  unitPrice: string
+}
+
+/**
+ * Cart mandate (single use)
+ */
+export interface AP2CartMandate {
+  type: "cart"
+  mandateId: string
+  intentMandateId?: string // Intent mandate the cart was built under
+  userId: string
+  agentId: string
+  merchant: string // Payment recipient
+  items: AP2CartItem[]
+  total: string // Sum of quantity * unitPrice
+  currency: AP2Currency
+  createdAt: number
+  expiry: number
+  signature?: string
+}
+
+export type AP2Mandate = AP2IntentMandate | AP2CartMandate
+
+/**
+ * Amounts are compared in 10^-8 units (HBAR tinybars, finer than USDC's 6 decimals)
+ */
+const AMOUNT_DECIMALS = 8
+
+/**
+ * AP2 mandate creation, signing and messaging
+ */
+export class AP2Mandates {
+  /**
+   * Create an unsigned intent mandate
+   */
+  static createIntentMandate(params: {
+    userId: string
+    agentId: string
+    description: string
+    maxAmount: string
+    currency: AP2Currency
+    merchants: string[]
+    expiry: number
+  }): AP2IntentMandate {
+    return {
+      type: "intent",
+      mandateId: `intent-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      ...params,
+      createdAt: Date.now()
+    }
+  }
+
+  /**
+   * Create an unsigned cart mandate (the total is computed from the items)
+   */
+  static createCartMandate(params: {
+    userId: string
+    agentId: string
+    merchant: string
+    items: AP2CartItem[]
+    currency: AP2Currency
+    expiry: number
+    intentMandateId?: string
+  }): AP2CartMandate {
+    return {
+      type: "cart",
+      mandateId: `cart-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      ...params,
+      total: AP2Mandates.cartTotal(params.items),
+      createdAt: Date.now()
+    }
+  }
+
+  /**
+   * Sum of quantity * unitPrice over cart items
+   */
+  static cartTotal(items: AP2CartItem[]): string {
+    const units = items.reduce((sum, item) => sum + toUnits(item.unitPrice) * BigInt(item.quantity), 0n)
+    return fromUnits(units)
+  }
+
+  /**
+   * Sign a mandate with the user's key and return the signed copy
+   */
+  static sign<T extends AP2Mandate>(mandate: T, privateKey: PrivateKey | string): T {
+    const key = typeof privateKey === 'string' ? PrivateKey.fromString(privateKey) : privateKey
+    const { signature, ...unsigned } = mandate
+    const bytes = Buffer.from(canonicalJson(unsigned), 'utf8')
+    return { ...mandate, signature: Buffer.from(key.sign(bytes)).toString('hex') }
+  }
+
+  /**
+   * Verify a mandate's signature against the user's public key
+   */
+  static verify(mandate: AP2Mandate, publicKey: PublicKey | string): boolean {
+    if (!mandate.signature) {
+      return false
+    }
+
+    try {
+      const key = typeof publicKey === 'string' ? PublicKey.fromString(publicKey) : publicKey
+      const { signature, ...unsigned } = mandate
+      const bytes = Buffer.from(canonicalJson(unsigned), 'utf8')
+      return key.verify(bytes, Buffer.from(signature, 'hex'))
+    } catch (error) {
+      console.error(chalk.red(`❌ Mandate signature verification error: ${(error as Error).message}`))
+      return false
+    }
+  }
+
+  /**
+   * Create AP2 mandate message for A2A protocol
+   */
+  static createMandateMessage(mandate: AP2Mandate): any {
+    return {
+      type: "ap2_mandate",
+      data: mandate
+    }
+  }
+
+  /**
+   * Parse AP2 mandate from A2A message
+   */
+  static parseMandateMessage(message: A2AMessage): AP2Mandate | null {
+    if (!message.payload || message.payload.type !== "ap2_mandate") {
+      return null
+    }
+
+    const validation = validateWithSchema(AP2MandateSchema, message.payload.data)
+    if (!validation.valid) {
+      console.error(chalk.red(`❌ Invalid AP2 mandate from ${message.sender.agentId}: ${validation.error}`))
+      return null
+    }
+
+    return message.payload.data as AP2Mandate
+  }
+}
+
+/**
+ * Mandate registry options
+ */
+export interface AP2MandateRegistryOptions {
+  requireMandate?: boolean // Refuse payment requests without a mandateId (default: true)
+  store?: MandateStore // Mandates and reservations (default: in memory)
+}
+
+/**
+ * Verified mandates and the spending charged against them
+ */
+export class AP2MandateRegistry {
+  private keyResolver: PublicKeyResolver
+  private requireMandate: boolean
+  private store: MandateStore
+
+  /**
+   * @param keyResolver - Resolves the public keys users sign mandates with
+   */
+  constructor(keyResolver: PublicKeyResolver, options: AP2MandateRegistryOptions = {}) {
+    this.keyResolver = keyResolver
+    this.requireMandate = options.requireMandate ?? true
+    this.store = options.store || new InMemoryMandateStore()
+  }
+
+  /**
+   * Verify and register a signed mandate
+   */
+  addMandate(mandate: AP2Mandate): { valid: boolean; error?: string } {
+    const validation = validateWithSchema(AP2MandateSchema, mandate)
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid AP2 mandate: ${validation.error}` }
+    }
+
+    const publicKey = this.keyResolver.resolvePublicKey(mandate.userId)
+    if (!publicKey) {
+      return { valid: false, error: `No public key known for user ${mandate.userId}` }
+    }
+
+    if (!AP2Mandates.verify(mandate, publicKey)) {
+      return { valid: false, error: `Invalid signature on mandate ${mandate.mandateId}` }
+    }
+
+    if (mandate.type === "cart" && toUnits(AP2Mandates.cartTotal(mandate.items)) !== toUnits(mandate.total)) {
+      return { valid: false, error: `Cart mandate ${mandate.mandateId} total does not match its items` }
+    }
+
+    if (this.store.getMandate(mandate.mandateId)) {
+      return { valid: false, error: `Mandate ${mandate.mandateId} is already registered` }
+    }
+
+    this.store.saveMandate(mandate)
+    console.log(chalk.green(`✅ Registered AP2 ${mandate.type} mandate ${mandate.mandateId} from ${mandate.userId}`))
+
+    return { valid: true }
+  }
+
+  /**
+   * Get a registered mandate
+   */
+  getMandate(mandateId: string): AP2Mandate | null {
+    return this.store.getMandate(mandateId)
+  }
+
+  /**
+   * Amount still available under an intent mandate, or null if unknown
+   */
+  getRemaining(mandateId: string): string | null {
+    const mandate = this.store.getMandate(mandateId)
+    if (!mandate || mandate.type !== "intent") {
+      return null
+    }
+    return fromUnits(toUnits(mandate.maxAmount) - this.reservedUnits(mandateId))
+  }
+
+  /**
+   * Check a payment request against its mandate and reserve the amount
+   *
+   * Authorizing the same payment again is a no-op if its mandate, amount and
+   * recipient match the reservation. Call `release` if the payment is
+   * rejected or fails so the amount becomes available again.
+   *
+   * @param agentId - Agent about to execute the payment
+   */
+  authorize(request: AP2PaymentRequest, agentId: string): { valid: boolean; error?: string } {
+    const reservation = this.store.getReservation(request.paymentId)
+    if (reservation) {
+      return this.matchesReservation(request, reservation)
+        ? { valid: true }
+        : { valid: false, error: `Payment ${request.paymentId} was already authorized for a different mandate, amount or recipient` }
+    }
+
+    if (!request.mandateId) {
+      return this.requireMandate
+        ? { valid: false, error: `Payment ${request.paymentId} has no mandate` }
+        : { valid: true }
+    }
+
+    const mandate = this.store.getMandate(request.mandateId)
+    if (!mandate) {
+      return { valid: false, error: `Unknown mandate ${request.mandateId}` }
+    }
+
+    let units: bigint
+    try {
+      units = toUnits(request.amount)
+    } catch (error) {
+      return { valid: false, error: (error as Error).message }
+    }
+
+    const mandateIds = [mandate.mandateId]
+
+    if (mandate.type === "cart") {
+      const cartCheck = this.checkCart(mandate, request, agentId, units)
+      if (!cartCheck.valid) {
+        return cartCheck
+      }
+
+      if (mandate.intentMandateId) {
+        const intent = this.store.getMandate(mandate.intentMandateId)
+        if (!intent || intent.type !== "intent") {
+          return { valid: false, error: `Unknown intent mandate ${mandate.intentMandateId} for cart ${mandate.mandateId}` }
+        }
+        const intentCheck = this.checkIntent(intent, request, agentId, units)
+        if (!intentCheck.valid) {
+          return intentCheck
+        }
+        mandateIds.push(intent.mandateId)
+      }
+    } else {
+      const intentCheck = this.checkIntent(mandate, request, agentId, units)
+      if (!intentCheck.valid) {
+        return intentCheck
+      }
+    }
+
+    this.store.saveReservation(request.paymentId, { mandateIds, amount: fromUnits(units), recipient: request.recipient })
+    console.log(chalk.green(`✅ Payment ${request.paymentId} authorized by mandate ${mandate.mandateId}`))
+
+    return { valid: true }
+  }
+
+  /**
+   * Return the amount reserved by a payment that will not be settled
+   */
+  release(paymentId: string): void {
+    if (this.store.deleteReservation(paymentId)) {
+      console.log(chalk.blue(`↩️  Released mandate reservation for payment ${paymentId}`))
+    }
+  }
+
+  private checkIntent(
+    mandate: AP2IntentMandate,
+    request: AP2PaymentRequest,
+    agentId: string,
+    units: bigint
+  ): { valid: boolean; error?: string } {
+    const common = this.checkCommon(mandate, request, agentId)
+    if (!common.valid) {
+      return common
+    }
+
+    if (!mandate.merchants.includes(request.recipient)) {
+      return { valid: false, error: `Recipient ${request.recipient} is not allowed by mandate ${mandate.mandateId}` }
+    }
+
+    const remaining = toUnits(mandate.maxAmount) - this.reservedUnits(mandate.mandateId)
+    if (units > remaining) {
+      return {
+        valid: false,
+        error: `Payment of ${request.amount} ${request.currency} exceeds the ${fromUnits(remaining)} ${mandate.currency} remaining on mandate ${mandate.mandateId}`
+      }
+    }
+
+    return { valid: true }
+  }
+
+  private checkCart(
+    mandate: AP2CartMandate,
+    request: AP2PaymentRequest,
+    agentId: string,
+    units: bigint
+  ): { valid: boolean; error?: string } {
+    const common = this.checkCommon(mandate, request, agentId)
+    if (!common.valid) {
+      return common
+    }
+
+    if (request.recipient !== mandate.merchant) {
+      return { valid: false, error: `Recipient ${request.recipient} does not match cart merchant ${mandate.merchant}` }
+    }
+
+    if (units !== toUnits(mandate.total)) {
+      return { valid: false, error: `Payment of ${request.amount} does not match cart total ${mandate.total}` }
+    }
+
+    if (this.reservedUnits(mandate.mandateId) > 0n) {
+      return { valid: false, error: `Cart mandate ${mandate.mandateId} has already been used` }
+    }
+
+    return { valid: true }
+  }
+
+  private checkCommon(mandate: AP2Mandate, request: AP2PaymentRequest, agentId: string): { valid: boolean; error?: string } {
+    if (mandate.agentId !== agentId) {
+      return { valid: false, error: `Mandate ${mandate.mandateId} does not authorize agent ${agentId}` }
+    }
+
+    if (mandate.expiry < Date.now()) {
+      return { valid: false, error: `Mandate ${mandate.mandateId} expired` }
+    }
+
+    if (mandate.currency !== request.currency) {
+      return { valid: false, error: `Mandate ${mandate.mandateId} is in ${mandate.currency}, payment is in ${request.currency}` }
+    }
+
+    return { valid: true }
+  }
+
+  /**
+   * Whether a payment request is the one a reservation was made for
+   */
+  private matchesReservation(request: AP2PaymentRequest, reservation: MandateReservation): boolean {
+    try {
+      return request.mandateId === reservation.mandateIds[0] &&
+        request.recipient === reservation.recipient &&
+        toUnits(request.amount) === toUnits(reservation.amount)
+    } catch (error) {
+      return false
+    }
+  }
+
+  private reservedUnits(mandateId: string): bigint {
+    let total = 0n
+    for (const reservation of this.store.listReservations()) {
+      if (reservation.mandateIds.includes(mandateId)) {
+        total += toUnits(reservation.amount)
+      }
+    }
+    return total
+  }
+}
+
+/**
+ * Parse a decimal amount string into 10^-8 units
+ */
+function toUnits(amount: string): bigint {
+  const [whole = '0', fraction = ''] = amount.split('.')
+  if (!/^\d+$/.test(whole) || !/^\d*$/.test(fraction) || fraction.length > AMOUNT_DECIMALS) {
+    throw new Error(`Invalid amount: ${amount}`)
+  }
+  return BigInt(whole) * 10n ** BigInt(AMOUNT_DECIMALS) + BigInt(fraction.padEnd(AMOUNT_DECIMALS, '0'))
+}
+
+/**
+ * Format 10^-8 units as a decimal amount string
+ */
+function fromUnits(units: bigint): string {
+  const scale = 10n ** BigInt(AMOUNT_DECIMALS)
+  const whole = units / scale
+  const fraction = (units % scale).toString().padStart(AMOUNT_DECIMALS, '0').replace(/0+$/, '')
+  return fraction ? `${whole}.${fraction}` : whole.toString()
+}
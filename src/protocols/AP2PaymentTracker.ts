@@ -0,0 +1,362 @@
+/**
+ * AP2 Payment Tracker
+ *
+ * Tracks AP2 payments through their lifecycle and enforces legal status
+ * transitions:
+ *
+ *    pending    → processing | rejected | failed
+ *    processing → completed | failed
+ *    completed, failed and rejected are terminal
+ *
+ * On the payee side every transition is sent back to the payer as an AP2
+ * payment response over A2A, and pending payments fail automatically once
+ * `AP2PaymentRequest.expiry` passes. On the payer side incoming responses
+ * update the tracked payment, so both sides can query status by `paymentId`.
+ */
+
+import { A2AProtocol, A2AMessage } from './A2AProtocol'
+import { AP2Protocol, AP2PaymentRequest, AP2PaymentResponse, AP2PaymentStatus } from './AP2Protocol'
+import { timerDelay } from '../utils/timers'
+import chalk from 'chalk'
+
+/**
+ * Legal status transitions
+ */
+const TRANSITIONS: Record<AP2PaymentStatus, AP2PaymentStatus[]> = {
+  pending: ["processing", "rejected", "failed"],
+  processing: ["completed", "failed"],
+  completed: [],
+  failed: [],
+  rejected: []
+}
+
+/**
+ * Status change in a payment's history
+ */
+export interface PaymentStatusChange {
+  status: AP2PaymentStatus
+  timestamp: number
+  transactionHash?: string
+  error?: string
+}
+
+/**
+ * Tracked AP2 payment
+ */
+export interface TrackedPayment {
+  request: AP2PaymentRequest
+  payer: string // Agent ID paying
+  payee: string // Agent ID receiving the request and executing the payment
+  replyTopicId?: string // Topic status updates are sent to (payee side)
+  status: AP2PaymentStatus
+  transactionHash?: string
+  error?: string
+  history: PaymentStatusChange[]
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Status transition details
+ */
+export interface PaymentTransitionDetails {
+  transactionHash?: string
+  error?: string
+}
+
+/**
+ * AP2 payment lifecycle tracker
+ */
+export class AP2PaymentTracker {
+  private a2a: A2AProtocol
+  private payments: Map<string, TrackedPayment> = new Map()
+  private expiryTimers: Map<string, NodeJS.Timeout> = new Map()
+
+  constructor(a2a: A2AProtocol) {
+    this.a2a = a2a
+  }
+
+  /**
+   * Start tracking a payment request received from a payer (payee side)
+   *
+   * Returns the existing entry when the payment ID is already tracked.
+   */
+  trackIncoming(request: AP2PaymentRequest, payerAgentId: string, replyTopicId?: string): TrackedPayment {
+    return this.track(request, payerAgentId, this.a2a['agentId'], replyTopicId)
+  }
+
+  /**
+   * Start tracking a payment request sent to a payee (payer side)
+   */
+  trackOutgoing(request: AP2PaymentRequest, payeeAgentId: string): TrackedPayment {
+    return this.track(request, this.a2a['agentId'], payeeAgentId)
+  }
+
+  /**
+   * Track the AP2 payment request carried by an A2A message, answering on its `replyTo` topic
+   */
+  processPaymentMessage(message: A2AMessage): TrackedPayment | null {
+    const request = AP2Protocol.parseAP2Message(message)
+    if (!request) {
+      return null
+    }
+
+    return this.trackIncoming(request, message.sender.agentId, message.replyTo)
+  }
+
+  /**
+   * Apply an AP2 payment response received from the payee (payer side)
+   */
+  processResponseMessage(message: A2AMessage): TrackedPayment | null {
+    const response = AP2Protocol.parseAP2ResponseMessage(message)
+    if (!response) {
+      return null
+    }
+
+    const payment = this.payments.get(response.paymentId)
+    if (!payment) {
+      console.log(chalk.yellow(`⚠️  Status update for unknown payment ${response.paymentId}`))
+      return null
+    }
+
+    if (payment.payee !== message.sender.agentId) {
+      console.warn(chalk.yellow(`⚠️  Status update for ${response.paymentId} came from ${message.sender.agentId}, expected ${payment.payee}`))
+      return null
+    }
+
+    if (response.status === payment.status) {
+      return payment
+    }
+
+    if (!this.canTransition(payment.status, response.status)) {
+      console.warn(chalk.yellow(`⚠️  Ignoring illegal status update for ${response.paymentId}: ${payment.status} → ${response.status}`))
+      return null
+    }
+
+    this.applyTransition(payment, response.status, {
+      ...(response.transactionHash !== undefined && { transactionHash: response.transactionHash }),
+      ...(response.error !== undefined && { error: response.error })
+    })
+
+    return payment
+  }
+
+  /**
+   * Move a payment to a new status and notify the payer (payee side)
+   *
+   * @throws Error if the payment is unknown or the transition is illegal
+   */
+  async transition(paymentId: string, status: AP2PaymentStatus, details: PaymentTransitionDetails = {}): Promise<TrackedPayment> {
+    const payment = this.payments.get(paymentId)
+    if (!payment) {
+      throw new Error(`Unknown payment ${paymentId}`)
+    }
+
+    if (status === "processing" && payment.status === "pending" && this.isExpired(payment)) {
+      await this.expire(payment)
+      throw new Error(`Payment ${paymentId} expired`)
+    }
+
+    if (!this.canTransition(payment.status, status)) {
+      throw new Error(`Illegal payment transition for ${paymentId}: ${payment.status} → ${status}`)
+    }
+
+    if (status === "failed" && !details.error) {
+      throw new Error(`Failing payment ${paymentId} requires an error`)
+    }
+
+    this.applyTransition(payment, status, details)
+    await this.notifyPayer(payment)
+
+    return payment
+  }
+
+  /**
+   * Mark a payment as being executed
+   */
+  async markProcessing(paymentId: string): Promise<TrackedPayment> {
+    return this.transition(paymentId, "processing")
+  }
+
+  /**
+   * Mark a payment as settled
+   */
+  async markCompleted(paymentId: string, transactionHash?: string): Promise<TrackedPayment> {
+    return this.transition(paymentId, "completed", transactionHash !== undefined ? { transactionHash } : {})
+  }
+
+  /**
+   * Mark a payment as failed during execution
+   */
+  async markFailed(paymentId: string, error: string): Promise<TrackedPayment> {
+    return this.transition(paymentId, "failed", { error })
+  }
+
+  /**
+   * Refuse a pending payment (e.g. failed validation or denied approval)
+   */
+  async reject(paymentId: string, reason: string): Promise<TrackedPayment> {
+    return this.transition(paymentId, "rejected", { error: reason })
+  }
+
+  /**
+   * Whether a status transition is legal
+   */
+  canTransition(from: AP2PaymentStatus, to: AP2PaymentStatus): boolean {
+    return TRANSITIONS[from].includes(to)
+  }
+
+  /**
+   * Current status of a payment as an AP2 payment response
+   */
+  getStatus(paymentId: string): AP2PaymentResponse | null {
+    const payment = this.payments.get(paymentId)
+    return payment ? this.toResponse(payment) : null
+  }
+
+  /**
+   * Get a tracked payment
+   */
+  getPayment(paymentId: string): TrackedPayment | null {
+    return this.payments.get(paymentId) || null
+  }
+
+  /**
+   * List tracked payments, optionally filtered by status
+   */
+  listPayments(status?: AP2PaymentStatus | AP2PaymentStatus[]): TrackedPayment[] {
+    const statuses = status === undefined ? null : Array.isArray(status) ? status : [status]
+    return Array.from(this.payments.values())
+      .filter(payment => !statuses || statuses.includes(payment.status))
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Stop expiry timers
+   */
+  close(): void {
+    for (const timer of this.expiryTimers.values()) {
+      clearTimeout(timer)
+    }
+    this.expiryTimers.clear()
+  }
+
+  private track(request: AP2PaymentRequest, payer: string, payee: string, replyTopicId?: string): TrackedPayment {
+    const existing = this.payments.get(request.paymentId)
+    if (existing) {
+      console.log(chalk.yellow(`⚠️  Payment ${request.paymentId} is already tracked (${existing.status})`))
+      return existing
+    }
+
+    const now = Date.now()
+    const payment: TrackedPayment = {
+      request,
+      payer,
+      payee,
+      ...(replyTopicId !== undefined && { replyTopicId }),
+      status: "pending",
+      history: [{ status: "pending", timestamp: now }],
+      createdAt: now,
+      updatedAt: now
+    }
+
+    this.payments.set(request.paymentId, payment)
+    console.log(chalk.blue(`📋 Tracking AP2 payment ${request.paymentId}: ${AP2Protocol.formatAmount(request.amount, request.currency)}`))
+
+    if (this.isPayee(payment)) {
+      this.armExpiry(payment)
+    }
+
+    return payment
+  }
+
+  private applyTransition(payment: TrackedPayment, status: AP2PaymentStatus, details: PaymentTransitionDetails): void {
+    const now = Date.now()
+    const previous = payment.status
+
+    payment.status = status
+    payment.updatedAt = now
+    if (details.transactionHash !== undefined) {
+      payment.transactionHash = details.transactionHash
+    }
+    if (details.error !== undefined) {
+      payment.error = details.error
+    }
+    payment.history.push({
+      status,
+      timestamp: now,
+      ...(details.transactionHash !== undefined && { transactionHash: details.transactionHash }),
+      ...(details.error !== undefined && { error: details.error })
+    })
+
+    if (status !== "pending") {
+      this.clearExpiry(payment.request.paymentId)
+    }
+
+    console.log(chalk.blue(`💳 Payment ${payment.request.paymentId}: ${previous} → ${status}`))
+  }
+
+  /**
+   * Send the payment's current status to the payer
+   */
+  private async notifyPayer(payment: TrackedPayment): Promise<void> {
+    if (!this.isPayee(payment) || !payment.replyTopicId) {
+      return
+    }
+
+    try {
+      await this.a2a.sendMessage(
+        payment.replyTopicId,
+        payment.payer,
+        "response",
+        AP2Protocol.createAP2ResponseMessage(this.toResponse(payment))
+      )
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to send status of payment ${payment.request.paymentId}: ${(error as Error).message}`))
+    }
+  }
+
+  private armExpiry(payment: TrackedPayment): void {
+    const timer = setTimeout(() => {
+      this.expiryTimers.delete(payment.request.paymentId)
+      if (Date.now() < payment.request.expiry) {
+        this.armExpiry(payment)
+      } else if (payment.status === "pending") {
+        this.expire(payment).catch(error => console.error(chalk.red(`❌ Error expiring payment: ${(error as Error).message}`)))
+      }
+    }, timerDelay(payment.request.expiry))
+    this.expiryTimers.set(payment.request.paymentId, timer)
+  }
+
+  private clearExpiry(paymentId: string): void {
+    const timer = this.expiryTimers.get(paymentId)
+    if (timer) {
+      clearTimeout(timer)
+      this.expiryTimers.delete(paymentId)
+    }
+  }
+
+  private async expire(payment: TrackedPayment): Promise<void> {
+    console.log(chalk.yellow(`⏰ Payment request ${payment.request.paymentId} expired`))
+    this.applyTransition(payment, "failed", { error: "Payment request expired" })
+    await this.notifyPayer(payment)
+  }
+
+  private isExpired(payment: TrackedPayment): boolean {
+    return payment.request.expiry <= Date.now()
+  }
+
+  private isPayee(payment: TrackedPayment): boolean {
+    return payment.payee === this.a2a['agentId']
+  }
+
+  private toResponse(payment: TrackedPayment): AP2PaymentResponse {
+    return {
+      paymentId: payment.request.paymentId,
+      status: payment.status,
+      ...(payment.transactionHash !== undefined && { transactionHash: payment.transactionHash }),
+      ...(payment.error !== undefined && { error: payment.error }),
+      timestamp: payment.updatedAt
+    }
+  }
+}
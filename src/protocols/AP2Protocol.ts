@@ -9,8 +9,15 @@
  */
 
 import { A2AMessage } from './A2AProtocol'
+import { AP2PaymentRequestSchema, AP2PaymentResponseSchema, validateWithSchema } from './ProtocolSchemas'
+import { PaymentNetwork, isHederaPaymentNetwork } from '../config/NetworkRegistry'
 import chalk from 'chalk'
 
+/**
+ * AP2 payment currency: HBAR, USDC or an HTS fungible token ID (e.g. "0.0.456858")
+ */
+export type AP2Currency = "HBAR" | "USDC" | `${number}.${number}.${number}`
+
 /**
  * AP2 Payment Request
  */
@@ -19,24 +26,30 @@ export interface AP2PaymentRequest {
   version: "1.0"
   paymentId: string
   amount: string
-  currency: "HBAR" | "USDC"
+  currency: AP2Currency
   recipient: string
-  network: "hedera-testnet" | "base-sepolia" | "ethereum-sepolia"
+  network: PaymentNetwork
   metadata: {
     purpose: string
     reference: string
     description?: string
   }
   expiry: number
+  mandateId?: string // Intent or cart mandate authorizing this payment
   signature?: string
 }
 
+/**
+ * AP2 Payment Status
+ */
+export type AP2PaymentStatus = "pending" | "processing" | "completed" | "failed" | "rejected"
+
 /**
  * AP2 Payment Response
  */
 export interface AP2PaymentResponse {
   paymentId: string
-  status: "pending" | "processing" | "completed" | "failed" | "rejected"
+  status: AP2PaymentStatus
   transactionHash?: string
   error?: string
   timestamp: number
@@ -52,9 +65,9 @@ export class AP2Protocol {
   static createPaymentRequest(
     paymentId: string,
     amount: string,
-    currency: "HBAR" | "USDC",
+    currency: AP2Currency,
     recipient: string,
-    network: "hedera-testnet" | "base-sepolia" | "ethereum-sepolia",
+    network: PaymentNetwork,
     metadata: { purpose: string; reference: string; description?: string }
   ): AP2PaymentRequest {
     const request: AP2PaymentRequest = {
@@ -78,14 +91,10 @@ export class AP2Protocol {
    * Validate an AP2 payment request
    */
   static validatePaymentRequest(request: AP2PaymentRequest): { valid: boolean; error?: string } {
-    // Check protocol
-    if (request.protocol !== "AP2") {
-      return { valid: false, error: "Invalid protocol (expected AP2)" }
-    }
-
-    // Check version
-    if (request.version !== "1.0") {
-      return { valid: false, error: "Invalid version (expected 1.0)" }
+    // Check structure (protocol, version, field types, required metadata)
+    const validation = validateWithSchema(AP2PaymentRequestSchema, request)
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid AP2 payment request: ${validation.error}` }
     }
 
     // Check amount
@@ -99,9 +108,9 @@ export class AP2Protocol {
       return { valid: false, error: "Payment request expired" }
     }
 
-    // Check metadata
-    if (!request.metadata.purpose || !request.metadata.reference) {
-      return { valid: false, error: "Missing required metadata (purpose or reference)" }
+    // HTS tokens only exist on Hedera
+    if (request.currency !== "HBAR" && request.currency !== "USDC" && !isHederaPaymentNetwork(request.network)) {
+      return { valid: false, error: `HTS token ${request.currency} can only be paid on a Hedera network` }
     }
 
     console.log(chalk.green(`✅ AP2 payment request validation passed`))
@@ -109,6 +118,22 @@ export class AP2Protocol {
     return { valid: true }
   }
 
+  /**
+   * Validate an AP2 payment response
+   */
+  static validatePaymentResponse(response: AP2PaymentResponse): { valid: boolean; error?: string } {
+    const validation = validateWithSchema(AP2PaymentResponseSchema, response)
+    if (!validation.valid) {
+      return { valid: false, error: `Invalid AP2 payment response: ${validation.error}` }
+    }
+
+    if (response.status === "failed" && !response.error) {
+      return { valid: false, error: "Failed payment response must include an error" }
+    }
+
+    return { valid: true }
+  }
+
   /**
    * Create AP2 payment message for A2A protocol
    */
@@ -127,15 +152,48 @@ export class AP2Protocol {
       return null
     }
 
+    const validation = validateWithSchema(AP2PaymentRequestSchema, message.payload.data)
+    if (!validation.valid) {
+      console.error(chalk.red(`❌ Invalid AP2 payment from ${message.sender.agentId}: ${validation.error}`))
+      return null
+    }
+
     return message.payload.data as AP2PaymentRequest
   }
 
+  /**
+   * Create AP2 payment response message for A2A protocol
+   */
+  static createAP2ResponseMessage(paymentResponse: AP2PaymentResponse): any {
+    return {
+      type: "ap2_payment_response",
+      data: paymentResponse
+    }
+  }
+
+  /**
+   * Parse AP2 payment response from A2A message
+   */
+  static parseAP2ResponseMessage(message: A2AMessage): AP2PaymentResponse | null {
+    if (!message.payload || message.payload.type !== "ap2_payment_response") {
+      return null
+    }
+
+    const validation = AP2Protocol.validatePaymentResponse(message.payload.data)
+    if (!validation.valid) {
+      console.error(chalk.red(`❌ Invalid AP2 payment response from ${message.sender.agentId}: ${validation.error}`))
+      return null
+    }
+
+    return message.payload.data as AP2PaymentResponse
+  }
+
   /**
    * Create payment response
    */
   static createPaymentResponse(
     paymentId: string,
-    status: "pending" | "processing" | "completed" | "failed" | "rejected",
+    status: AP2PaymentStatus,
     transactionHash?: string,
     error?: string
   ): AP2PaymentResponse {
@@ -188,10 +246,17 @@ export class AP2Protocol {
  * 3. Agent B receives AP2 payment request
  *    → validates request
  *    → processes payment (or rejects)
- *    → sends AP2 payment response
+ *    → sends AP2 payment response for every status change
  * 
- * 4. Agent A receives AP2 payment response
+ * 4. Agent A receives AP2 payment responses
  *    → checks status (completed/failed/rejected)
  *    → records transaction hash if completed
+ *
+ * AP2PaymentTracker enforces the status transitions on both sides:
+ *
+ *    pending ──► processing ──► completed
+ *       │             │
+ *       ├──► rejected └──► failed
+ *       └──► failed (including request expiry)
  */
 
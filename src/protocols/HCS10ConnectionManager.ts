@@ -1,17 +1,55 @@
 /**
  * HCS-10 Connection Management Module
- * 
+ *
  * Manages HCS-10 OpenConvAI agent connections including:
  * - Connection requests and establishment
  * - Connection monitoring
  * - Connection lifecycle management
  * - Fee-based connections
+ *
+ * Handshake (HCS-10):
+ * 1. The requester resolves the target's inbound topic from its HCS-11 profile
+ *    and posts `connection_request` there; the message's sequence number is
+ *    the connection request ID
+ * 2. The receiver creates a connection topic with a threshold key of both
+ *    accounts and replies `connection_created` on its inbound topic
+ * 3. The requester picks up `connection_created` and stores the topic ID
+ *
+ * Receivers decide on requests with a ConnectionPolicy, require the FeeConfig
+ * fee to have been paid and post `connection_rejected` with a reason when a
+ * request is turned down.
+ *
+ * Lifecycle: with `liveness` set, both sides post `heartbeat` messages on each
+ * connection topic. A peer that misses too many heartbeats is considered dead;
+ * connections this agent requested are then re-requested with exponential
+ * backoff, others are closed. Connections without application traffic for
+ * `idleTimeout` are closed with `close_connection`. Every status change is
+ * reported to `onConnectionStateChange`.
+ *
+ * Over an HCS10Client the SDK's own request/accept methods are used; over any
+ * other transport the messages are built here and connection topics come from
+ * a ConnectionTopicFactory. The SDK's connection request carries only a memo,
+ * so requests with metadata (fee payment, capabilities) are posted as a
+ * structured connection_request through `sendMessage` on every transport;
+ * HCS10Client wraps it in a `message` envelope that receivers unwrap.
  */
 
-import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
-import { FeeConfig, HCS10FeeConfig } from './HCS10FeeConfig'
+import { FeeConfig } from './HCS10FeeConfig'
+import { ProfileSource } from './A2AMessageSigner'
+import { HCS11ProfileSource, inboundTopicOf } from './HCS11ProfileSource'
+import { ConnectionTopicFactory, connectionTopicMemo } from './HCS10ConnectionTopics'
+import { ConnectionPolicy } from './HCS10ConnectionPolicy'
+import { ConnectionFeeVerifier, FeePaymentProof, MirrorNodeFeeVerifier } from './HCS10FeeVerifier'
+import { MessageTransport, TransportMessage } from '../transport/MessageTransport'
+import { TopicSubscriber, TopicSubscription, TopicStream } from '../transport/TopicSubscriber'
+import { HederaNetworkConfig, selectHederaNetwork } from '../config/NetworkRegistry'
 import chalk from 'chalk'
 
+/**
+ * Connection status
+ */
+export type ConnectionStatus = 'pending' | 'established' | 'reconnecting' | 'closed' | 'rejected'
+
 /**
  * Connection state
  */
@@ -19,10 +57,32 @@ export interface Connection {
   connectionId: string
   agentId: string
   connectionTopicId: string
-  status: 'pending' | 'established' | 'closed' | 'rejected'
+  status: ConnectionStatus
   createdAt: number
   establishedAt?: number
   closedAt?: number
+  connectionRequestId?: number // Sequence number of the connection_request on the receiver's inbound topic
+  initiator?: 'local' | 'remote' // Which side requested the connection
+  lastSeenAt?: number // Last message from the peer, heartbeats included
+  lastActivityAt?: number // Last application message from either side
+  closeReason?: string
+}
+
+/**
+ * Listener for connection status changes
+ */
+export type ConnectionStateListener = (connection: Connection, previousStatus: ConnectionStatus, reason?: string) => Promise<void>
+
+/**
+ * Heartbeat, idle timeout and reconnect settings
+ */
+export interface ConnectionLivenessOptions {
+  heartbeatInterval?: number // milliseconds between heartbeats (default: 60000)
+  maxMissedHeartbeats?: number // Peer is dead after this many intervals without a message (default: 3)
+  idleTimeout?: number // milliseconds without application messages before closing (default: never)
+  reconnectAttempts?: number // Re-requests of a dead connection this agent requested (default: 5, 0 disables)
+  reconnectDelay?: number // milliseconds before the first re-request, doubled per attempt (default: 1000)
+  maxReconnectDelay?: number // milliseconds (default: 60000)
 }
 
 /**
@@ -32,6 +92,25 @@ export interface ConnectionOptions {
   timeout?: number // milliseconds
   retryAttempts?: number
   metadata?: Record<string, any>
+  memo?: string // Human-readable request memo (HCS-10 "m")
+  feePayment?: FeePaymentProof // Connection fee paid to the receiver (sent as metadata.feePayment)
+}
+
+/**
+ * Connection manager options
+ */
+export interface HCS10ConnectionManagerOptions {
+  inboundTopics?: Record<string, string> // Known inbound topic IDs by agent ID; others are read from HCS-11 profiles
+  inboundTopicId?: string // This agent's inbound topic (default: the monitored topic, then its own profile)
+  profileSource?: ProfileSource // Default: the transport if it is an HCS10Client, else the mirror node and CDN
+  topicFactory?: ConnectionTopicFactory // Creates connection topics when accepting over a non-HCS10Client transport
+  network?: HederaNetworkConfig // Network for HCS-11 profile lookups (default: HEDERA_NETWORK)
+  pollInterval?: number // milliseconds between topic reads (default: 2000)
+  topicStream?: TopicStream // How inbound and connection topics are received (default: the transport)
+  policy?: ConnectionPolicy // Accept/reject rules for incoming requests (default: accept)
+  feeVerifier?: ConnectionFeeVerifier // Checks connection fees (default: mirror node transaction records)
+  liveness?: ConnectionLivenessOptions // Heartbeats, idle timeout and reconnects (default: off)
+  onConnectionStateChange?: ConnectionStateListener
 }
 
 /**
@@ -40,8 +119,9 @@ export interface ConnectionOptions {
 export interface ConnectionCallback {
   onConnectionRequest?: (request: ConnectionRequest) => Promise<boolean> // Return true to accept
   onConnectionEstablished?: (connection: Connection) => Promise<void>
-  onConnectionRejected?: (request: ConnectionRequest) => Promise<void>
+  onConnectionRejected?: (request: ConnectionRequest, reason: string) => Promise<void>
   onConnectionClosed?: (connection: Connection) => Promise<void>
+  onConnectionStateChange?: ConnectionStateListener
 }
 
 /**
@@ -50,24 +130,174 @@ export interface ConnectionCallback {
 export interface ConnectionRequest {
   fromAgentId: string
   timestamp: number
+  connectionRequestId?: number // Sequence number of the request on the inbound topic
+  inboundTopicId?: string // Requester's inbound topic
+  memo?: string
   metadata?: Record<string, any>
   feePaid?: boolean
 }
 
+/**
+ * HCS-10 operation message as posted on inbound topics
+ */
+interface HCS10Operation {
+  p: 'hcs-10'
+  op: string
+  operator_id?: string // "<inboundTopicId>@<accountId>"
+  connection_topic_id?: string
+  connected_account_id?: string
+  connection_id?: number
+  m?: string
+  reason?: string
+  metadata?: Record<string, any>
+}
+
+/**
+ * Transport exposing the HCS-10 SDK's connection methods (HCS10Client)
+ */
+interface HCS10ConnectionTransport extends MessageTransport {
+  submitConnectionRequest(inboundTopicId: string, memo: string): Promise<{ topicSequenceNumber: { toNumber(): number } | null }>
+  handleConnectionRequest(inboundTopicId: string, requestingAccountId: string, connectionRequestId: number): Promise<{ connectionTopicId: string }>
+}
+
+function isHCS10ConnectionTransport(transport: MessageTransport): transport is HCS10ConnectionTransport {
+  const candidate = transport as Partial<HCS10ConnectionTransport>
+  return typeof candidate.submitConnectionRequest === 'function' && typeof candidate.handleConnectionRequest === 'function'
+}
+
+function isProfileSource(transport: MessageTransport): boolean {
+  return typeof (transport as Partial<ProfileSource>).getAgentProfile === 'function'
+}
+
+/**
+ * HCS-10 operation carried by a topic message
+ *
+ * HCS10Client returns operations already parsed and wraps what it sends in a
+ * `message` operation; other transports carry operations as JSON in `data`.
+ */
+function parseOperation(message: TransportMessage): HCS10Operation | null {
+  const parsed = message as TransportMessage & Partial<HCS10Operation>
+  if (parsed.p === 'hcs-10' && typeof parsed.op === 'string' && parsed.op !== 'message') {
+    return parsed as HCS10Operation
+  }
+
+  try {
+    const operation = JSON.parse(message.data || '')
+    return operation?.p === 'hcs-10' && typeof operation.op === 'string' ? operation : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Agent that posted a connection topic message: HCS-10 operator, A2A sender, then payer
+ */
+function senderOf(message: TransportMessage, operation: HCS10Operation | null): string | undefined {
+  const operatorId = operation?.operator_id || (message as TransportMessage & Partial<HCS10Operation>).operator_id
+  const operator = parseOperatorId(operatorId).accountId
+  if (operator) {
+    return operator
+  }
+
+  try {
+    const sender = JSON.parse(message.data || '')?.sender?.agentId
+    if (typeof sender === 'string') {
+      return sender
+    }
+  } catch {
+    // Not JSON
+  }
+  return message.payer
+}
+
+/**
+ * Whether an inbound topic message was posted by an agent: the operator and
+ * the payer, where known, must both be that agent, and at least one is required
+ */
+function isPostedBy(message: TransportMessage, operation: HCS10Operation, agentId: string): boolean {
+  const operator = parseOperatorId(operation.operator_id).accountId
+  if (!operator && !message.payer) {
+    return false
+  }
+  return (!operator || operator === agentId) && (!message.payer || message.payer === agentId)
+}
+
+/**
+ * Split an HCS-10 operator ID ("<inboundTopicId>@<accountId>")
+ */
+function parseOperatorId(operatorId: string | undefined): { inboundTopicId?: string; accountId?: string } {
+  const [inboundTopicId, accountId] = (operatorId || '').split('@')
+  return {
+    ...(inboundTopicId && { inboundTopicId }),
+    ...(accountId && { accountId })
+  }
+}
+
 /**
  * HCS-10 Connection Manager
- * 
+ *
  * Manages agent connections according to HCS-10 OpenConvAI protocol
  */
 export class HCS10ConnectionManager {
-  private hcsClient: HCS10Client
+  private transport: MessageTransport
   private agentId: string
   private connections: Map<string, Connection> = new Map()
   private monitoringActive: boolean = false
-
-  constructor(hcsClient: HCS10Client, agentId: string) {
-    this.hcsClient = hcsClient
+  private inboundTopics?: Record<string, string>
+  private inboundTopicId?: string
+  private profileSource: ProfileSource
+  private topicFactory?: ConnectionTopicFactory
+  private policy?: ConnectionPolicy
+  private feeVerifier?: ConnectionFeeVerifier
+  private network: HederaNetworkConfig
+  private subscriber: TopicSubscriber
+  private requestSubscription?: TopicSubscription
+  private topicSubscriptions: Map<string, TopicSubscription> = new Map()
+  private liveness?: Required<Omit<ConnectionLivenessOptions, 'idleTimeout'>> & { idleTimeout?: number }
+  private livenessTimer?: NodeJS.Timeout
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map()
+  private requestOptions: Map<string, ConnectionOptions> = new Map()
+  private stateListener?: ConnectionStateListener
+  private callback?: ConnectionCallback
+
+  constructor(transport: MessageTransport, agentId: string, options: HCS10ConnectionManagerOptions = {}) {
+    this.transport = transport
     this.agentId = agentId
+    if (options.inboundTopics !== undefined) {
+      this.inboundTopics = options.inboundTopics
+    }
+    if (options.inboundTopicId !== undefined) {
+      this.inboundTopicId = options.inboundTopicId
+    }
+    if (options.topicFactory !== undefined) {
+      this.topicFactory = options.topicFactory
+    }
+    if (options.policy !== undefined) {
+      this.policy = options.policy
+    }
+    if (options.feeVerifier !== undefined) {
+      this.feeVerifier = options.feeVerifier
+    }
+    this.network = options.network || selectHederaNetwork()
+    this.profileSource = options.profileSource
+      || (isProfileSource(transport) ? transport as unknown as ProfileSource : new HCS11ProfileSource(this.network))
+    this.subscriber = new TopicSubscriber(transport, {
+      pollInterval: options.pollInterval || 2000,
+      ...(options.topicStream && { stream: options.topicStream })
+    })
+    if (options.liveness) {
+      this.liveness = {
+        heartbeatInterval: options.liveness.heartbeatInterval ?? 60000,
+        maxMissedHeartbeats: options.liveness.maxMissedHeartbeats ?? 3,
+        reconnectAttempts: options.liveness.reconnectAttempts ?? 5,
+        reconnectDelay: options.liveness.reconnectDelay ?? 1000,
+        maxReconnectDelay: options.liveness.maxReconnectDelay ?? 60000,
+        ...(options.liveness.idleTimeout !== undefined && { idleTimeout: options.liveness.idleTimeout })
+      }
+    }
+    if (options.onConnectionStateChange !== undefined) {
+      this.stateListener = options.onConnectionStateChange
+    }
   }
 
   /**
@@ -86,66 +316,21 @@ export class HCS10ConnectionManager {
         console.log(chalk.yellow(`⚠️  Connection already established with ${targetAgentId}`))
         return existingConnection
       }
-
-      // Get target agent's inbound topic ID from their profile
-      // For now, we'll use a message-based approach to request connection
-      // In full HCS-10, we'd use the SDK's connection request methods
-      
-      // Create connection request message
-      const connectionRequest = {
-        type: 'connection_request',
-        from: this.agentId,
-        to: targetAgentId,
-        timestamp: Date.now(),
-        metadata: options?.metadata || {}
-      }
-
-      // Get target agent's inbound topic (in real implementation, fetch from profile/registry)
-      // For now, we'll assume it's provided or stored
-      // This is a placeholder - actual implementation would use SDK connection methods
-      const targetInboundTopicId = process.env[`${targetAgentId.toUpperCase().replace(/\./g, '_')}_TOPIC_ID`] 
-        || process.env[`${targetAgentId}_INBOUND_TOPIC_ID`]
-
-      if (!targetInboundTopicId) {
-        throw new Error(`Cannot find inbound topic for agent ${targetAgentId}`)
-      }
-
-      // Send connection request
-      await this.hcsClient.sendMessage(
-        targetInboundTopicId,
-        JSON.stringify(connectionRequest)
-      )
+      this.cancelReconnect(targetAgentId)
 
       // Create pending connection
       const connection: Connection = {
         connectionId: `conn_${Date.now()}_${targetAgentId}`,
         agentId: targetAgentId,
-        connectionTopicId: '', // Will be set when connection is established
+        connectionTopicId: '', // Set from connection_created
         status: 'pending',
-        createdAt: Date.now()
+        createdAt: Date.now(),
+        initiator: 'local'
       }
 
       this.connections.set(targetAgentId, connection)
-      console.log(chalk.yellow(`⏳ Connection request sent, waiting for confirmation...`))
-
-      // Wait for connection confirmation (with timeout)
-      const timeout = options?.timeout || 60000 // 60 seconds default
-      const connectionEstablished = await this.waitForConnectionConfirmation(
-        targetAgentId,
-        timeout
-      )
-
-      if (connectionEstablished) {
-        connection.status = 'established'
-        connection.establishedAt = Date.now()
-        // In full implementation, connectionTopicId would come from SDK response
-        // For now, we'll use a derived topic ID
-        connection.connectionTopicId = `connection_${this.agentId}_${targetAgentId}`
-        console.log(chalk.green(`✅ Connection established with ${targetAgentId}`))
-      } else {
-        throw new Error(`Connection request timed out after ${timeout}ms`)
-      }
-
+      this.requestOptions.set(targetAgentId, options || {})
+      await this.establish(connection, options)
       return connection
     } catch (error) {
       console.error(chalk.red(`❌ Failed to establish connection: ${(error as Error).message}`))
@@ -171,10 +356,13 @@ export class HCS10ConnectionManager {
       console.log(chalk.blue(`💰 Connection fee required: ${feeConfig.hbarFee} HBAR`))
     }
 
+    if (!this.inboundTopicId) {
+      this.inboundTopicId = inboundTopicId
+    }
+    if (callback !== undefined) {
+      this.callback = callback
+    }
     this.monitoringActive = true
-
-    // Start polling for connection requests
-    // In full implementation, this would use SDK's message subscription
     this.startConnectionMonitoring(inboundTopicId, feeConfig, callback)
   }
 
@@ -195,8 +383,10 @@ export class HCS10ConnectionManager {
 
   /**
    * Close a connection
+   *
+   * @param reason - Sent to the peer with close_connection
    */
-  async closeConnection(agentId: string): Promise<void> {
+  async closeConnection(agentId: string, reason: string = 'Closed by agent'): Promise<void> {
     const connection = this.connections.get(agentId)
     if (!connection) {
       throw new Error(`No connection found for agent ${agentId}`)
@@ -206,48 +396,173 @@ export class HCS10ConnectionManager {
       console.log(chalk.yellow(`⚠️  Connection already closed`))
       return
     }
+    this.cancelReconnect(agentId)
 
-    // Send connection close message
-    const closeMessage = {
-      type: 'connection_close',
-      from: this.agentId,
-      to: agentId,
-      timestamp: Date.now()
+    // Send close_connection to the connection topic if available
+    if (connection.connectionTopicId) {
+      const closeMessage: HCS10Operation = {
+        p: 'hcs-10',
+        op: 'close_connection',
+        operator_id: this.operatorId(),
+        reason,
+        m: 'Closing connection'
+      }
+      await this.transport.sendMessage(connection.connectionTopicId, JSON.stringify(closeMessage))
     }
 
-    // Send to connection topic if available
-    if (connection.connectionTopicId) {
-      await this.hcsClient.sendMessage(
-        connection.connectionTopicId,
-        JSON.stringify(closeMessage)
-      )
+    await this.markClosed(connection, reason)
+    console.log(chalk.blue(`🔌 Connection closed with ${agentId}`))
+  }
+
+  /**
+   * Stop monitoring, heartbeats and pending reconnects
+   */
+  close(): void {
+    this.monitoringActive = false
+    this.requestSubscription?.unsubscribe()
+    delete this.requestSubscription
+    if (this.livenessTimer) {
+      clearTimeout(this.livenessTimer)
+      delete this.livenessTimer
     }
+    for (const agentId of Array.from(this.reconnectTimers.keys())) {
+      this.cancelReconnect(agentId)
+    }
+    for (const subscription of this.topicSubscriptions.values()) {
+      subscription.unsubscribe()
+    }
+    this.topicSubscriptions.clear()
+  }
 
-    connection.status = 'closed'
-    connection.closedAt = Date.now()
+  /**
+   * Send a connection request for a pending or reconnecting connection and wait for the answer
+   */
+  private async establish(connection: Connection, options?: ConnectionOptions): Promise<void> {
+    const targetAgentId = connection.agentId
+    const targetInboundTopicId = await this.resolveInboundTopic(targetAgentId)
+    const metadata = options?.feePayment ? { ...options.metadata, feePayment: options.feePayment } : options?.metadata
+    const connectionRequestId = await this.sendConnectionRequest(
+      targetInboundTopicId,
+      options?.memo || `Connection request from ${this.agentId}`,
+      metadata
+    )
+    connection.connectionRequestId = connectionRequestId
+    console.log(chalk.yellow(`⏳ Connection request #${connectionRequestId} sent, waiting for confirmation...`))
+
+    // Wait for connection confirmation (with timeout)
+    const timeout = options?.timeout || 60000 // 60 seconds default
+    const { connectionTopicId, rejectionReason } = await this.waitForConnectionConfirmation(
+      targetAgentId,
+      targetInboundTopicId,
+      connectionRequestId,
+      timeout
+    )
+
+    if (rejectionReason !== undefined) {
+      await this.setStatus(connection, 'rejected', rejectionReason)
+      throw new Error(`Connection rejected by ${targetAgentId}: ${rejectionReason}`)
+    } else if (connectionTopicId) {
+      connection.establishedAt = Date.now()
+      connection.connectionTopicId = connectionTopicId
+      await this.setStatus(connection, 'established')
+      console.log(chalk.green(`✅ Connection established with ${targetAgentId} on topic ${connectionTopicId}`))
+    } else {
+      throw new Error(`Connection request timed out after ${timeout}ms`)
+    }
+  }
 
-    console.log(chalk.blue(`🔌 Connection closed with ${agentId}`))
+  /**
+   * Inbound topic of an agent: configured topics first, then its HCS-11 profile
+   */
+  private async resolveInboundTopic(agentId: string): Promise<string> {
+    const configured = this.inboundTopics?.[agentId]
+    if (configured) {
+      return configured
+    }
+
+    const response = await this.profileSource.getAgentProfile(agentId)
+    const inboundTopicId = response.success ? inboundTopicOf(response) : null
+    if (!inboundTopicId) {
+      throw new Error(`Cannot find inbound topic for agent ${agentId}${response.error ? `: ${response.error}` : ''}`)
+    }
+    return inboundTopicId
   }
 
   /**
-   * Wait for connection confirmation
+   * Post a connection_request and return its sequence number (the connection request ID)
+   *
+   * Only requests without metadata use the HCS10Client SDK method, which would drop it.
    */
-  private async waitForConnectionConfirmation(
-    agentId: string,
-    timeout: number
-  ): Promise<boolean> {
-    const startTime = Date.now()
-    const checkInterval = 1000 // Check every second
-
-    while (Date.now() - startTime < timeout) {
-      const connection = this.connections.get(agentId)
-      if (connection && connection.status === 'established') {
-        return true
+  private async sendConnectionRequest(
+    targetInboundTopicId: string,
+    memo: string,
+    metadata?: Record<string, any>
+  ): Promise<number> {
+    let sequenceNumber: number | undefined
+    if (isHCS10ConnectionTransport(this.transport) && !metadata) {
+      const receipt = await this.transport.submitConnectionRequest(targetInboundTopicId, memo)
+      sequenceNumber = receipt.topicSequenceNumber?.toNumber()
+    } else {
+      if (!this.inboundTopicId) {
+        this.inboundTopicId = await this.resolveInboundTopic(this.agentId)
       }
-      await new Promise(resolve => setTimeout(resolve, checkInterval))
+      const request: HCS10Operation = {
+        p: 'hcs-10',
+        op: 'connection_request',
+        operator_id: this.operatorId(),
+        m: memo,
+        ...(metadata && { metadata })
+      }
+      sequenceNumber = await this.transport.sendMessage(targetInboundTopicId, JSON.stringify(request))
     }
 
-    return false
+    if (sequenceNumber === undefined) {
+      throw new Error('Connection request was not assigned a sequence number')
+    }
+    return sequenceNumber
+  }
+
+  /**
+   * Wait for the receiver's connection_created or connection_rejected reply
+   *
+   * Replies posted by anyone but the target agent are ignored.
+   *
+   * @returns Connection topic ID or rejection reason; neither on timeout
+   */
+  private waitForConnectionConfirmation(
+    targetAgentId: string,
+    targetInboundTopicId: string,
+    connectionRequestId: number,
+    timeout: number
+  ): Promise<{ connectionTopicId?: string; rejectionReason?: string }> {
+    return new Promise(resolve => {
+      let settled = false
+      const finish = (result: { connectionTopicId?: string; rejectionReason?: string }) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        subscription.unsubscribe()
+        resolve(result)
+      }
+
+      const timer = setTimeout(() => finish({}), timeout)
+      const subscription = this.subscriber.subscribe(targetInboundTopicId, async message => {
+        const operation = parseOperation(message)
+        if (
+          !operation ||
+          Number(operation.connection_id) !== connectionRequestId ||
+          (operation.connected_account_id && operation.connected_account_id !== this.agentId) ||
+          !isPostedBy(message, operation, targetAgentId)
+        ) {
+          return
+        }
+        if (operation.op === 'connection_created' && operation.connection_topic_id) {
+          finish({ connectionTopicId: operation.connection_topic_id })
+        } else if (operation.op === 'connection_rejected') {
+          finish({ rejectionReason: operation.reason || 'No reason given' })
+        }
+      })
+    })
   }
 
   /**
@@ -258,31 +573,364 @@ export class HCS10ConnectionManager {
     feeConfig?: FeeConfig,
     callback?: ConnectionCallback
   ): Promise<void> {
-    // This is a simplified polling implementation
-    // In production, use SDK's message subscription features
-    const pollInterval = 5000 // Poll every 5 seconds
+    // Requests answered before (e.g. before a restart) are not accepted twice
+    const answered = new Set<number>()
+    const recordAnswer = (operation: HCS10Operation | null) => {
+      if (operation?.op === 'connection_created' || operation?.op === 'connection_rejected') {
+        answered.add(Number(operation.connection_id))
+      }
+    }
+    try {
+      const { messages } = await this.transport.getMessages(inboundTopicId)
+      messages.forEach(message => recordAnswer(parseOperation(message)))
+    } catch (error) {
+      console.error(chalk.red(`❌ Error monitoring connections: ${(error as Error).message}`))
+    }
+    if (!this.monitoringActive) return
+
+    this.requestSubscription = this.subscriber.subscribe(inboundTopicId, async message => {
+      const operation = parseOperation(message)
+      recordAnswer(operation)
+      if (operation?.op === 'connection_request' && !answered.has(message.sequence_number)) {
+        await this.handleConnectionRequest(inboundTopicId, message, operation, feeConfig, callback)
+      }
+    })
+  }
+
+  /**
+   * Accept or reject one connection_request
+   */
+  private async handleConnectionRequest(
+    inboundTopicId: string,
+    message: TransportMessage,
+    operation: HCS10Operation,
+    feeConfig?: FeeConfig,
+    callback?: ConnectionCallback
+  ): Promise<void> {
+    const operator = parseOperatorId(operation.operator_id)
+    const fromAgentId = operator.accountId || message.payer
+    if (!fromAgentId) {
+      console.log(chalk.yellow(`⚠️  Ignoring connection request #${message.sequence_number} without operator`))
+      return
+    }
+
+    const request: ConnectionRequest = {
+      fromAgentId,
+      timestamp: message.timestamp || Date.now(),
+      connectionRequestId: message.sequence_number,
+      ...(operator.inboundTopicId && { inboundTopicId: operator.inboundTopicId }),
+      ...(operation.m && { memo: operation.m }),
+      ...(operation.metadata && { metadata: operation.metadata })
+    }
+    console.log(chalk.blue(`📨 Connection request #${message.sequence_number} from ${fromAgentId}`))
+
+    try {
+      const rejectionReason = await this.evaluateConnectionRequest(request, feeConfig, callback)
+      if (rejectionReason !== null) {
+        console.log(chalk.yellow(`🚫 Connection request from ${fromAgentId} rejected: ${rejectionReason}`))
+        await this.rejectConnection(inboundTopicId, request, message.sequence_number, rejectionReason)
+        await callback?.onConnectionRejected?.(request, rejectionReason)
+        return
+      }
+
+      const connectionTopicId = await this.createConnection(inboundTopicId, fromAgentId, message.sequence_number)
+      const connection: Connection = {
+        connectionId: `conn_${Date.now()}_${fromAgentId}`,
+        agentId: fromAgentId,
+        connectionTopicId,
+        status: 'pending',
+        createdAt: request.timestamp,
+        establishedAt: Date.now(),
+        connectionRequestId: message.sequence_number,
+        initiator: 'remote'
+      }
+      this.cancelReconnect(fromAgentId)
+      this.connections.set(fromAgentId, connection)
+      await this.setStatus(connection, 'established')
+      console.log(chalk.green(`✅ Connection established with ${fromAgentId} on topic ${connectionTopicId}`))
+
+      await callback?.onConnectionEstablished?.(connection)
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to accept connection from ${fromAgentId}: ${(error as Error).message}`))
+    }
+  }
+
+  /**
+   * Run the policy, fee check and callback on a request
+   *
+   * @returns Rejection reason, or null to accept
+   */
+  private async evaluateConnectionRequest(
+    request: ConnectionRequest,
+    feeConfig?: FeeConfig,
+    callback?: ConnectionCallback
+  ): Promise<string | null> {
+    if (this.policy) {
+      const decision = await this.policy.evaluate(request)
+      if (!decision.accept) {
+        return decision.reason || 'Rejected by connection policy'
+      }
+    }
+
+    if (feeConfig?.hbarFee) {
+      if (!this.feeVerifier) {
+        this.feeVerifier = new MirrorNodeFeeVerifier(this.network)
+      }
+      const verification = await this.feeVerifier.verifyFeePayment(request, {
+        ...feeConfig,
+        recipientAccountId: feeConfig.recipientAccountId || this.agentId
+      })
+      request.feePaid = verification.paid
+      if (!verification.paid) {
+        return verification.reason || `Connection fee of ${feeConfig.hbarFee} HBAR not paid`
+      }
+      console.log(chalk.green(`💰 Connection fee paid by ${request.fromAgentId}${verification.transactionId ? ` (${verification.transactionId})` : ''}`))
+    }
+
+    if (callback?.onConnectionRequest && !(await callback.onConnectionRequest(request))) {
+      return 'Declined by agent'
+    }
+    return null
+  }
+
+  /**
+   * Tell the requester why its request was turned down
+   */
+  private async rejectConnection(
+    inboundTopicId: string,
+    request: ConnectionRequest,
+    connectionRequestId: number,
+    reason: string
+  ): Promise<void> {
+    const rejected: HCS10Operation = {
+      p: 'hcs-10',
+      op: 'connection_rejected',
+      connected_account_id: request.fromAgentId,
+      operator_id: `${inboundTopicId}@${this.agentId}`,
+      connection_id: connectionRequestId,
+      reason,
+      m: 'Connection rejected'
+    }
+    await this.transport.sendMessage(inboundTopicId, JSON.stringify(rejected))
+  }
+
+  /**
+   * Create the connection topic and announce it with connection_created
+   */
+  private async createConnection(inboundTopicId: string, requesterAccountId: string, connectionRequestId: number): Promise<string> {
+    if (isHCS10ConnectionTransport(this.transport)) {
+      const response = await this.transport.handleConnectionRequest(inboundTopicId, requesterAccountId, connectionRequestId)
+      return response.connectionTopicId
+    }
+
+    if (!this.topicFactory) {
+      throw new Error('A topicFactory is required to accept connections over this transport')
+    }
 
-    const poll = async () => {
-      if (!this.monitoringActive) return
+    const connectionTopicId = await this.topicFactory.createConnectionTopic(
+      requesterAccountId,
+      connectionTopicMemo(inboundTopicId, connectionRequestId)
+    )
+    const created: HCS10Operation = {
+      p: 'hcs-10',
+      op: 'connection_created',
+      connection_topic_id: connectionTopicId,
+      connected_account_id: requesterAccountId,
+      operator_id: `${inboundTopicId}@${this.agentId}`,
+      connection_id: connectionRequestId,
+      m: 'Connection accepted'
+    }
+    await this.transport.sendMessage(inboundTopicId, JSON.stringify(created))
+    return connectionTopicId
+  }
 
+  /**
+   * HCS-10 operator ID of this agent
+   */
+  private operatorId(): string {
+    return `${this.inboundTopicId || ''}@${this.agentId}`
+  }
+
+  /**
+   * Change a connection's status and notify listeners
+   */
+  private async setStatus(connection: Connection, status: ConnectionStatus, reason?: string): Promise<void> {
+    const previousStatus = connection.status
+    if (previousStatus === status) {
+      return
+    }
+    connection.status = status
+
+    if (status === 'established') {
+      connection.lastSeenAt = Date.now()
+      connection.lastActivityAt = Date.now()
+      this.startLiveness()
+    }
+    this.watchConnectionTopic(connection)
+
+    for (const listener of [this.stateListener, this.callback?.onConnectionStateChange]) {
       try {
-        // Get messages from topic
-        // Note: This assumes HCS10Client has a method to get messages
-        // If not available, we'll need to implement polling differently
-        
-        // For now, this is a placeholder that would be implemented
-        // using the SDK's actual message retrieval methods
-        
-        setTimeout(poll, pollInterval)
+        await listener?.(connection, previousStatus, reason)
       } catch (error) {
-        console.error(chalk.red(`❌ Error monitoring connections: ${(error as Error).message}`))
-        if (this.monitoringActive) {
-          setTimeout(poll, pollInterval)
+        console.error(chalk.red(`❌ Connection state listener failed: ${(error as Error).message}`))
+      }
+    }
+  }
+
+  /**
+   * Mark a connection closed and notify listeners
+   */
+  private async markClosed(connection: Connection, reason: string): Promise<void> {
+    connection.closedAt = Date.now()
+    connection.closeReason = reason
+    await this.setStatus(connection, 'closed', reason)
+    try {
+      await this.callback?.onConnectionClosed?.(connection)
+    } catch (error) {
+      console.error(chalk.red(`❌ Connection closed callback failed: ${(error as Error).message}`))
+    }
+  }
+
+  /**
+   * Start the heartbeat loop if liveness checks are enabled
+   */
+  private startLiveness(): void {
+    if (!this.liveness || this.livenessTimer) {
+      return
+    }
+
+    const tick = async () => {
+      await this.checkLiveness()
+      if (this.livenessTimer) {
+        this.livenessTimer = setTimeout(tick, this.liveness!.heartbeatInterval)
+      }
+    }
+    this.livenessTimer = setTimeout(tick, this.liveness.heartbeatInterval)
+  }
+
+  /**
+   * Detect dead peers and idle connections, then send heartbeats
+   */
+  private async checkLiveness(): Promise<void> {
+    const liveness = this.liveness!
+    for (const connection of Array.from(this.connections.values())) {
+      if (connection.status !== 'established') {
+        continue
+      }
+
+      try {
+        const now = Date.now()
+        if (now - (connection.lastSeenAt || 0) > liveness.heartbeatInterval * liveness.maxMissedHeartbeats) {
+          await this.handleDeadPeer(connection)
+        } else if (liveness.idleTimeout !== undefined && now - (connection.lastActivityAt || 0) > liveness.idleTimeout) {
+          console.log(chalk.yellow(`💤 Connection with ${connection.agentId} idle for ${liveness.idleTimeout}ms`))
+          await this.closeConnection(connection.agentId, 'Idle timeout')
+        } else {
+          const heartbeat: HCS10Operation = { p: 'hcs-10', op: 'heartbeat', operator_id: this.operatorId(), m: 'ping' }
+          await this.transport.sendMessage(connection.connectionTopicId, JSON.stringify(heartbeat))
         }
+      } catch (error) {
+        console.error(chalk.red(`❌ Liveness check for ${connection.agentId} failed: ${(error as Error).message}`))
       }
     }
+  }
 
-    await poll()
+  /**
+   * Subscribe to the topic of an established connection while liveness checks are enabled; unsubscribe otherwise
+   */
+  private watchConnectionTopic(connection: Connection): void {
+    const current = this.topicSubscriptions.get(connection.agentId)
+    const watch = this.liveness && connection.status === 'established' && connection.connectionTopicId
+    if (current && current.topicId === connection.connectionTopicId && watch) {
+      return
+    }
+
+    current?.unsubscribe()
+    this.topicSubscriptions.delete(connection.agentId)
+    if (watch) {
+      const subscription = this.subscriber.subscribe(connection.connectionTopicId, message => this.handleConnectionTopicMessage(connection, message))
+      this.topicSubscriptions.set(connection.agentId, subscription)
+    }
+  }
+
+  /**
+   * Track peer and application activity on a connection topic and apply close_connection
+   */
+  private async handleConnectionTopicMessage(connection: Connection, message: TransportMessage): Promise<void> {
+    if (connection.status !== 'established') {
+      return
+    }
+
+    const operation = parseOperation(message)
+    const fromPeer = senderOf(message, operation) !== this.agentId
+    const receivedAt = Math.max(message.timestamp || 0, connection.establishedAt || 0)
+
+    if (fromPeer) {
+      connection.lastSeenAt = Math.max(connection.lastSeenAt || 0, receivedAt)
+    }
+    if (operation?.op === 'close_connection' && fromPeer) {
+      console.log(chalk.blue(`🔌 ${connection.agentId} closed the connection${operation.reason ? `: ${operation.reason}` : ''}`))
+      this.cancelReconnect(connection.agentId)
+      await this.markClosed(connection, operation.reason || 'Closed by peer')
+      return
+    }
+    if (operation?.op !== 'heartbeat') {
+      connection.lastActivityAt = Math.max(connection.lastActivityAt || 0, receivedAt)
+    }
+  }
+
+  /**
+   * Re-request a dead connection this agent requested, close any other
+   */
+  private async handleDeadPeer(connection: Connection): Promise<void> {
+    const { maxMissedHeartbeats, reconnectAttempts } = this.liveness!
+    console.log(chalk.yellow(`💔 ${connection.agentId} missed ${maxMissedHeartbeats} heartbeats`))
+
+    if (connection.initiator === 'local' && reconnectAttempts > 0) {
+      await this.setStatus(connection, 'reconnecting', 'Peer unresponsive')
+      this.scheduleReconnect(connection, 0)
+    } else {
+      await this.markClosed(connection, 'Peer unresponsive')
+    }
+  }
+
+  /**
+   * Re-request a connection after an exponential backoff delay
+   */
+  private scheduleReconnect(connection: Connection, attempt: number): void {
+    const { reconnectAttempts, reconnectDelay, maxReconnectDelay } = this.liveness!
+    const delay = Math.min(reconnectDelay * 2 ** attempt, maxReconnectDelay)
+    console.log(chalk.yellow(`🔄 Reconnecting to ${connection.agentId} in ${delay}ms (attempt ${attempt + 1}/${reconnectAttempts})`))
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(connection.agentId)
+      if (connection.status !== 'reconnecting') {
+        return
+      }
+
+      try {
+        await this.establish(connection, this.requestOptions.get(connection.agentId))
+      } catch (error) {
+        console.error(chalk.red(`❌ Reconnect to ${connection.agentId} failed: ${(error as Error).message}`))
+        if (connection.status !== 'reconnecting') {
+          return // Rejected or closed meanwhile
+        }
+        if (attempt + 1 < reconnectAttempts) {
+          this.scheduleReconnect(connection, attempt + 1)
+        } else {
+          await this.markClosed(connection, `Reconnect failed after ${reconnectAttempts} attempts`)
+        }
+      }
+    }, delay)
+    this.reconnectTimers.set(connection.agentId, timer)
+  }
+
+  private cancelReconnect(agentId: string): void {
+    const timer = this.reconnectTimers.get(agentId)
+    if (timer) {
+      clearTimeout(timer)
+      this.reconnectTimers.delete(agentId)
+    }
   }
 
   /**
@@ -290,7 +938,8 @@ export class HCS10ConnectionManager {
    */
   stopMonitoring(): void {
     this.monitoringActive = false
+    this.requestSubscription?.unsubscribe()
+    delete this.requestSubscription
     console.log(chalk.blue(`🛑 Stopped monitoring connection requests`))
   }
 }
-
@@ -0,0 +1,102 @@
+/**
+ * HCS-10 Connection Policies
+ *
+ * Decide automatically whether an incoming connection request is accepted:
+ * - Allow-list / deny-list of requesting agents
+ * - Minimum reputation score
+ * - Required capabilities (from the agent registry, else the request metadata)
+ *
+ * A rejection carries a reason that is posted back on the inbound topic.
+ */
+
+import type { AgentMetadata } from '../agents/AgentRegistry'
+import type { ConnectionRequest } from './HCS10ConnectionManager'
+
+/**
+ * Outcome of evaluating a connection request
+ */
+export interface ConnectionPolicyDecision {
+  accept: boolean
+  reason?: string // Why the request was rejected
+}
+
+/**
+ * Decides on incoming connection requests
+ */
+export interface ConnectionPolicy {
+  evaluate(request: ConnectionRequest): Promise<ConnectionPolicyDecision>
+}
+
+/**
+ * Reputation scores of agents (null when unknown)
+ */
+export interface ReputationSource {
+  getReputation(agentId: string): Promise<number | null>
+}
+
+/**
+ * Agent metadata lookup (AgentRegistry satisfies this interface)
+ */
+export interface AgentLookup {
+  getAgent(agentId: string): AgentMetadata | undefined
+}
+
+/**
+ * Rule-based policy options; every configured rule must pass
+ */
+export interface ConnectionPolicyOptions {
+  allowList?: string[] // Only these agents may connect
+  denyList?: string[] // These agents may never connect
+  minReputation?: number // Requires a reputation source
+  reputation?: ReputationSource
+  requiredCapabilities?: string[] // Capabilities the requester must advertise
+  directory?: AgentLookup // Where advertised capabilities are looked up (default: request metadata)
+}
+
+/**
+ * Connection policy applying allow-list, reputation and capability rules
+ */
+export class RuleBasedConnectionPolicy implements ConnectionPolicy {
+  private options: ConnectionPolicyOptions
+
+  constructor(options: ConnectionPolicyOptions = {}) {
+    if (options.minReputation !== undefined && !options.reputation) {
+      throw new Error('minReputation requires a reputation source')
+    }
+    this.options = options
+  }
+
+  async evaluate(request: ConnectionRequest): Promise<ConnectionPolicyDecision> {
+    const { allowList, denyList, minReputation, reputation, requiredCapabilities, directory } = this.options
+    const agentId = request.fromAgentId
+
+    if (denyList?.includes(agentId)) {
+      return { accept: false, reason: `Agent ${agentId} is not allowed to connect` }
+    }
+    if (allowList && !allowList.includes(agentId)) {
+      return { accept: false, reason: `Agent ${agentId} is not on the allow-list` }
+    }
+
+    if (minReputation !== undefined && reputation) {
+      const score = await reputation.getReputation(agentId)
+      if (score === null) {
+        return { accept: false, reason: `Reputation of ${agentId} is unknown` }
+      }
+      if (score < minReputation) {
+        return { accept: false, reason: `Reputation ${score} is below the required ${minReputation}` }
+      }
+    }
+
+    if (requiredCapabilities?.length) {
+      const advertised: string[] = directory
+        ? directory.getAgent(agentId)?.capabilities || []
+        : Array.isArray(request.metadata?.capabilities) ? request.metadata.capabilities : []
+      const missing = requiredCapabilities.filter(capability => !advertised.includes(capability))
+      if (missing.length > 0) {
+        return { accept: false, reason: `Missing capabilities: ${missing.join(', ')}` }
+      }
+    }
+
+    return { accept: true }
+  }
+}
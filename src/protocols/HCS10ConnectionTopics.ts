@@ -0,0 +1,125 @@
+/**
+ * HCS-10 Connection Topics
+ *
+ * Creates the private topic two agents talk over once a connection request is
+ * accepted. The topic's submit and admin keys are a 1-of-2 threshold key of the
+ * receiver's and the requester's account keys, so only the two connected agents
+ * can post to it.
+ */
+
+import { Client, AccountId, PrivateKey, PublicKey, KeyList, TopicCreateTransaction } from '@hashgraph/sdk'
+import axios from 'axios'
+import { HederaNetworkConfig, createHederaClient } from '../config/NetworkRegistry'
+import { PublicKeyResolver } from './A2AMessageSigner'
+import chalk from 'chalk'
+
+/**
+ * Creates connection topics for accepted connection requests
+ */
+export interface ConnectionTopicFactory {
+  /**
+   * Create a connection topic shared with the requesting account
+   *
+   * @param requesterAccountId - Account that sent the connection request
+   * @param memo - Topic memo (hcs-10:1:<ttl>:2:<inboundTopicId>:<connectionId>)
+   * @returns Topic ID of the new connection topic
+   */
+  createConnectionTopic(requesterAccountId: string, memo: string): Promise<string>
+}
+
+/**
+ * HCS-10 memo of a connection topic
+ *
+ * @param inboundTopicId - Inbound topic the connection request arrived on
+ * @param connectionRequestId - Sequence number of the connection_request message
+ * @param ttl - Time-to-live hint in seconds
+ */
+export function connectionTopicMemo(inboundTopicId: string, connectionRequestId: number, ttl: number = 60): string {
+  return `hcs-10:1:${ttl}:2:${inboundTopicId}:${connectionRequestId}`
+}
+
+/**
+ * Connection topic factory creating threshold-keyed topics on Hedera
+ */
+export class HederaConnectionTopicFactory implements ConnectionTopicFactory {
+  private network: HederaNetworkConfig
+  private accountId: string
+  private privateKey: PrivateKey
+  private keyResolver?: PublicKeyResolver
+  private client?: Client
+
+  /**
+   * @param network - Network to create topics on
+   * @param accountId - Receiving agent's account (pays for the topic)
+   * @param privateKey - Receiving agent's private key
+   * @param keyResolver - Known public keys of requesters; others are looked up on the mirror node
+   */
+  constructor(network: HederaNetworkConfig, accountId: string, privateKey: string, keyResolver?: PublicKeyResolver) {
+    this.network = network
+    this.accountId = accountId
+    this.privateKey = PrivateKey.fromString(privateKey)
+    if (keyResolver !== undefined) {
+      this.keyResolver = keyResolver
+    }
+  }
+
+  async createConnectionTopic(requesterAccountId: string, memo: string): Promise<string> {
+    const requesterKey = await this.resolveAccountKey(requesterAccountId)
+    if (!requesterKey) {
+      throw new Error(`Cannot create connection topic: no public key for ${requesterAccountId}`)
+    }
+
+    const thresholdKey = new KeyList([this.privateKey.publicKey, requesterKey], 1)
+    const client = this.getClient()
+    const response = await new TopicCreateTransaction()
+      .setTopicMemo(memo)
+      .setSubmitKey(thresholdKey)
+      .setAdminKey(thresholdKey)
+      .execute(client)
+    const receipt = await response.getReceipt(client)
+    if (!receipt.topicId) {
+      throw new Error('Connection topic creation returned no topic ID')
+    }
+
+    console.log(chalk.green(`✅ Created connection topic ${receipt.topicId} for ${requesterAccountId}`))
+    return receipt.topicId.toString()
+  }
+
+  /**
+   * Release the SDK client
+   */
+  close(): void {
+    this.client?.close()
+    delete this.client
+  }
+
+  private getClient(): Client {
+    if (!this.client) {
+      this.client = createHederaClient(this.network).setOperator(AccountId.fromString(this.accountId), this.privateKey)
+    }
+    return this.client
+  }
+
+  private async resolveAccountKey(accountId: string): Promise<PublicKey | null> {
+    const known = this.keyResolver?.resolvePublicKey(accountId)
+    if (known) {
+      return known
+    }
+
+    try {
+      const response = await axios.get(`${this.network.mirrorNodeUrl}/api/v1/accounts/${accountId}`)
+      const key = response.data?.key
+      if (key?._type === 'ED25519') {
+        return PublicKey.fromStringED25519(key.key)
+      }
+      if (key?._type === 'ECDSA_SECP256K1') {
+        return PublicKey.fromStringECDSA(key.key)
+      }
+      console.log(chalk.yellow(`⚠️  Unsupported key type for ${accountId}: ${key?._type}`))
+      return null
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not look up the key of ${accountId}: ${(error as Error).message}`))
+      return null
+    }
+  }
+}
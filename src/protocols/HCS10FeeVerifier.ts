@@ -0,0 +1,158 @@
+/**
+ * HCS-10 Connection Fee Verification
+ *
+ * Checks that a requester paid the connection fee (FeeConfig.hbarFee HBAR to
+ * FeeConfig.recipientAccountId) before its connection request, using the
+ * transaction records on the mirror node:
+ * - A transfer named in the request metadata (`feePayment.transactionId`)
+ * - A scheduled fee transaction that has executed (`feePayment.scheduleId`)
+ * - Otherwise the requester's most recent HBAR transfer to the recipient
+ *
+ * Each payment pays for one connection only. Used payments are kept in a
+ * NonceStore until they are too old to match any request, so with a file
+ * store an old payment cannot open another connection after a restart.
+ */
+
+import axios from 'axios'
+import { Hbar } from '@hashgraph/sdk'
+import { HederaNetworkConfig, selectHederaNetwork } from '../config/NetworkRegistry'
+import { NonceStore, InMemoryNonceStore } from '../facilitator/NonceStore'
+import type { ConnectionRequest } from './HCS10ConnectionManager'
+import type { FeeConfig } from './HCS10FeeConfig'
+
+/**
+ * Reference to a fee payment sent along with a connection request
+ */
+export interface FeePaymentProof {
+  transactionId?: string // "0.0.x@seconds.nanos" or "0.0.x-seconds-nanos"
+  scheduleId?: string // Scheduled fee transaction
+}
+
+/**
+ * Result of a fee check
+ */
+export interface FeeVerification {
+  paid: boolean
+  transactionId?: string // Mirror node ID of the payment
+  reason?: string // Why the fee is considered unpaid
+}
+
+/**
+ * Verifies connection fee payments
+ */
+export interface ConnectionFeeVerifier {
+  /**
+   * @param request - Incoming connection request
+   * @param fee - Fee with the recipient filled in
+   */
+  verifyFeePayment(request: ConnectionRequest, fee: FeeConfig & { recipientAccountId: string }): Promise<FeeVerification>
+}
+
+/**
+ * Fee verifier options
+ */
+export interface MirrorNodeFeeVerifierOptions {
+  maxPaymentAge?: number // milliseconds a payment may precede the request (default: 1 hour)
+  usedPayments?: NonceStore // Transaction IDs of payments already used for a connection (default: in memory)
+}
+
+/**
+ * Mirror node transaction record (fields used here)
+ */
+interface MirrorTransaction {
+  transaction_id: string
+  consensus_timestamp: string
+  result: string
+  transfers?: { account: string; amount: number }[]
+}
+
+/**
+ * Mirror node format of a transaction ID ("0.0.x-seconds-nanos")
+ */
+export function mirrorTransactionId(transactionId: string): string {
+  return transactionId.replace('@', '-').replace(/\.(\d+)$/, '-$1')
+}
+
+/**
+ * Fee verifier reading transaction records from the mirror node
+ */
+export class MirrorNodeFeeVerifier implements ConnectionFeeVerifier {
+  private network: HederaNetworkConfig
+  private maxPaymentAge: number
+  private usedPayments: NonceStore
+
+  constructor(network: HederaNetworkConfig = selectHederaNetwork(), options: MirrorNodeFeeVerifierOptions = {}) {
+    this.network = network
+    this.maxPaymentAge = options.maxPaymentAge ?? 60 * 60 * 1000
+    this.usedPayments = options.usedPayments || new InMemoryNonceStore()
+  }
+
+  async verifyFeePayment(request: ConnectionRequest, fee: FeeConfig & { recipientAccountId: string }): Promise<FeeVerification> {
+    if (!fee.hbarFee) {
+      return { paid: true }
+    }
+
+    try {
+      const proof: FeePaymentProof = request.metadata?.feePayment || {}
+      let candidates: MirrorTransaction[]
+      if (proof.transactionId) {
+        candidates = await this.getTransactions(`/api/v1/transactions/${mirrorTransactionId(proof.transactionId)}`)
+      } else if (proof.scheduleId) {
+        const schedule = (await axios.get(`${this.network.mirrorNodeUrl}/api/v1/schedules/${proof.scheduleId}`)).data
+        if (!schedule?.executed_timestamp) {
+          return { paid: false, reason: `Scheduled fee transaction ${proof.scheduleId} has not executed` }
+        }
+        if (schedule.payer_account_id !== request.fromAgentId && schedule.creator_account_id !== request.fromAgentId) {
+          return { paid: false, reason: `Scheduled fee transaction ${proof.scheduleId} was not created by ${request.fromAgentId}` }
+        }
+        candidates = await this.getTransactions(`/api/v1/transactions?timestamp=${schedule.executed_timestamp}`)
+      } else {
+        candidates = await this.getTransactions(
+          `/api/v1/transactions?account.id=${request.fromAgentId}&transactiontype=CRYPTOTRANSFER&result=success&order=desc&limit=25` +
+          `&timestamp=lte:${toTimestamp(request.timestamp)}&timestamp=gte:${toTimestamp(request.timestamp - this.maxPaymentAge)}`
+        )
+      }
+
+      const required = new Hbar(fee.hbarFee).toTinybars().toNumber()
+      const payment = candidates.find(transaction => this.isFeePayment(transaction, request, fee.recipientAccountId, required))
+      // A payment can match requests up to maxPaymentAge after it, so it stays used until then
+      const expiresAt = payment ? Number(payment.consensus_timestamp) * 1000 + this.maxPaymentAge : 0
+      if (!payment || !this.usedPayments.markUsed(payment.transaction_id, expiresAt)) {
+        return { paid: false, reason: `No unused payment of ${fee.hbarFee} HBAR from ${request.fromAgentId} to ${fee.recipientAccountId}` }
+      }
+
+      return { paid: true, transactionId: payment.transaction_id }
+    } catch (error) {
+      return { paid: false, reason: `Could not verify fee payment: ${(error as Error).message}` }
+    }
+  }
+
+  private async getTransactions(path: string): Promise<MirrorTransaction[]> {
+    const response = await axios.get(`${this.network.mirrorNodeUrl}${path}`)
+    return response.data?.transactions || []
+  }
+
+  private isFeePayment(transaction: MirrorTransaction, request: ConnectionRequest, recipient: string, required: number): boolean {
+    const paidAt = Number(transaction.consensus_timestamp) * 1000
+    const received = (transaction.transfers || [])
+      .filter(transfer => transfer.account === recipient)
+      .reduce((total, transfer) => total + transfer.amount, 0)
+    const sent = (transaction.transfers || [])
+      .filter(transfer => transfer.account === request.fromAgentId)
+      .reduce((total, transfer) => total + transfer.amount, 0)
+
+    return transaction.result === 'SUCCESS' &&
+      !this.usedPayments.isUsed(transaction.transaction_id) &&
+      sent < 0 &&
+      received >= required &&
+      paidAt <= request.timestamp &&
+      paidAt >= request.timestamp - this.maxPaymentAge
+  }
+}
+
+/**
+ * Mirror node timestamp ("seconds.nanos") of a time in milliseconds
+ */
+function toTimestamp(milliseconds: number): string {
+  return (milliseconds / 1000).toFixed(9)
+}
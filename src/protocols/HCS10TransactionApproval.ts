@@ -5,8 +5,8 @@
  * Supports multi-signature transactions requiring approval before execution.
  */
 
-import { HCS10Client } from '@hashgraphonline/standards-agent-kit'
 import { Transaction, ScheduleCreateTransaction, ScheduleSignTransaction, ScheduleId, TransactionReceipt, Hbar, Timestamp } from '@hashgraph/sdk'
+import { MessageTransport } from '../transport/MessageTransport'
 import chalk from 'chalk'
 
 /**
@@ -52,12 +52,12 @@ export interface PendingTransaction {
  * Manages scheduled transactions requiring approval
  */
 export class HCS10TransactionApproval {
-  private hcsClient: HCS10Client
+  private transport: MessageTransport
   private agentId: string
   private pendingTransactions: Map<string, ScheduledTransaction> = new Map()
 
-  constructor(hcsClient: HCS10Client, agentId: string) {
-    this.hcsClient = hcsClient
+  constructor(transport: MessageTransport, agentId: string) {
+    this.transport = transport
     this.agentId = agentId
   }
 
@@ -96,7 +96,7 @@ export class HCS10TransactionApproval {
       // Execute the schedule creation
       // Note: This requires access to the underlying Hedera client
       // We'll need to get it from HCS10Client or pass it separately
-      const client = (this.hcsClient as any).getClient?.() || (this.hcsClient as any).client
+      const client = (this.transport as any).getClient?.() || (this.transport as any).client
       
       if (!client) {
         throw new Error('Cannot access Hedera client to schedule transaction')
@@ -132,7 +132,7 @@ export class HCS10TransactionApproval {
         memo: options?.scheduleMemo || description
       }
 
-      await this.hcsClient.sendMessage(
+      await this.transport.sendMessage(
         connectionTopicId,
         JSON.stringify(transactionNotification)
       )
@@ -163,7 +163,7 @@ export class HCS10TransactionApproval {
         .setScheduleId(scheduleIdObj)
 
       // Get Hedera client
-      const client = (this.hcsClient as any).getClient?.() || (this.hcsClient as any).client
+      const client = (this.transport as any).getClient?.() || (this.transport as any).client
       
       if (!client) {
         throw new Error('Cannot access Hedera client to approve transaction')
@@ -0,0 +1,72 @@
+/**
+ * HCS-11 Profile Source
+ *
+ * Resolves an agent's HCS-11 profile without an HCS10Client:
+ * 1. Read the account memo from the mirror node ("hcs-11:hcs://1/<profileTopicId>")
+ * 2. Fetch the profile inscription from the Kiloscribe CDN (or a compatible
+ *    resolver such as LocalHCSProfileResolver)
+ *
+ * Profiles are cached per account.
+ */
+
+import axios from 'axios'
+import { HederaNetworkConfig, selectHederaNetwork } from '../config/NetworkRegistry'
+import { ProfileSource } from './A2AMessageSigner'
+
+const DEFAULT_CDN_URL = 'https://kiloscribe.com/api/inscription-cdn'
+const PROFILE_MEMO = /^hcs-11:hcs:\/\/1\/(\d+\.\d+\.\d+)$/
+
+/**
+ * HCS-11 profile source options
+ */
+export interface HCS11ProfileSourceOptions {
+  cdnUrl?: string // Inscription CDN base URL (default: Kiloscribe)
+}
+
+/**
+ * Profile source reading HCS-11 profiles via the mirror node and inscription CDN
+ */
+export class HCS11ProfileSource implements ProfileSource {
+  private network: HederaNetworkConfig
+  private cdnUrl: string
+  private profiles: Map<string, any> = new Map()
+
+  constructor(network: HederaNetworkConfig = selectHederaNetwork(), options: HCS11ProfileSourceOptions = {}) {
+    this.network = network
+    this.cdnUrl = (options.cdnUrl || DEFAULT_CDN_URL).replace(/\/$/, '')
+  }
+
+  /**
+   * Get the HCS-11 profile of an account
+   */
+  async getAgentProfile(accountId: string): Promise<{ success: boolean; profile?: any; error?: string }> {
+    const cached = this.profiles.get(accountId)
+    if (cached) {
+      return { success: true, profile: cached }
+    }
+
+    try {
+      const account = await axios.get(`${this.network.mirrorNodeUrl}/api/v1/accounts/${accountId}`)
+      const match = PROFILE_MEMO.exec(account.data?.memo || '')
+      if (!match) {
+        return { success: false, error: `Account ${accountId} has no HCS-11 profile memo` }
+      }
+
+      const response = await axios.get(`${this.cdnUrl}/${match[1]}`, {
+        params: { network: this.network.hcs10Network || this.network.name }
+      })
+      const profile = typeof response.data === 'string' ? JSON.parse(response.data) : response.data
+      this.profiles.set(accountId, profile)
+      return { success: true, profile }
+    } catch (error) {
+      return { success: false, error: (error as Error).message }
+    }
+  }
+}
+
+/**
+ * Inbound topic ID advertised in an HCS-11 profile response
+ */
+export function inboundTopicOf(response: { profile?: any; topicInfo?: { inboundTopic?: string } }): string | null {
+  return response.topicInfo?.inboundTopic || response.profile?.inboundTopicId || null
+}
@@ -0,0 +1,116 @@
+/**
+ * AP2 Mandate Store
+ *
+ * Persistence for AP2MandateRegistry: registered mandates and the amounts
+ * reserved against them by authorized payments. Keeping reservations across
+ * restarts is what stops an intent mandate's spending limit from resetting and
+ * a single-use cart mandate from being paid again.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { AP2Mandate } from './AP2Mandates'
+
+/**
+ * Amount reserved by an authorized payment
+ */
+export interface MandateReservation {
+  mandateIds: string[] // Cart mandate and/or intent mandate charged
+  amount: string // Decimal amount, in the mandate currency
+  recipient: string
+}
+
+/**
+ * Mandate and reservation store
+ */
+export interface MandateStore {
+  getMandate(mandateId: string): AP2Mandate | null
+  saveMandate(mandate: AP2Mandate): void
+
+  getReservation(paymentId: string): MandateReservation | null
+  listReservations(): MandateReservation[]
+  saveReservation(paymentId: string, reservation: MandateReservation): void
+
+  /**
+   * @returns False if the payment had no reservation
+   */
+  deleteReservation(paymentId: string): boolean
+}
+
+/**
+ * Non-persistent mandate store
+ */
+export class InMemoryMandateStore implements MandateStore {
+  protected mandates: Map<string, AP2Mandate> = new Map()
+  protected reservations: Map<string, MandateReservation> = new Map()
+
+  getMandate(mandateId: string): AP2Mandate | null {
+    return this.mandates.get(mandateId) || null
+  }
+
+  saveMandate(mandate: AP2Mandate): void {
+    this.mandates.set(mandate.mandateId, mandate)
+    this.persist()
+  }
+
+  getReservation(paymentId: string): MandateReservation | null {
+    return this.reservations.get(paymentId) || null
+  }
+
+  listReservations(): MandateReservation[] {
+    return Array.from(this.reservations.values())
+  }
+
+  saveReservation(paymentId: string, reservation: MandateReservation): void {
+    this.reservations.set(paymentId, reservation)
+    this.persist()
+  }
+
+  deleteReservation(paymentId: string): boolean {
+    if (!this.reservations.delete(paymentId)) {
+      return false
+    }
+    this.persist()
+    return true
+  }
+
+  /**
+   * Save changes (no-op for the in-memory store)
+   */
+  protected persist(): void {}
+}
+
+/**
+ * Mandate store persisted to a JSON file ({ "mandates": {...}, "reservations": {...} })
+ */
+export class FileMandateStore extends InMemoryMandateStore {
+  private filePath: string
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as {
+        mandates?: Record<string, AP2Mandate>
+        reservations?: Record<string, MandateReservation>
+      }
+      for (const [mandateId, mandate] of Object.entries(stored.mandates || {})) {
+        this.mandates.set(mandateId, mandate)
+      }
+      for (const [paymentId, reservation] of Object.entries(stored.reservations || {})) {
+        this.reservations.set(paymentId, reservation)
+      }
+    }
+  }
+
+  protected persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify({
+      mandates: Object.fromEntries(this.mandates),
+      reservations: Object.fromEntries(this.reservations)
+    }, null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Multi-Issue Utility
+ *
+ * Typed multi-attribute offers scored by weighted additive utility functions.
+ * Each issue (price, quantity, delivery date, ...) maps its value to a
+ * utility in [0, 1]; an offer's utility is the weighted sum over all issues.
+ *
+ * Counter-offers are generated as trade-offs: starting from the
+ * counterparty's offer, the agent only moves the issues it values most
+ * (relative to how much the counterparty appears to value them) until the
+ * target utility is reached, leaving every other issue as the counterparty
+ * proposed it.
+ */
+
+/**
+ * Issue value (numbers, ISO dates and discrete options)
+ */
+export type IssueValue = number | string
+
+/**
+ * Untyped multi-issue offer
+ */
+export type MultiIssueOffer = Record<string, IssueValue>
+
+/**
+ * Supply chain contract terms
+ */
+export interface SupplyChainTerms {
+  pricePerUnit: number
+  quantity: number
+  deliveryDate: string // ISO date (YYYY-MM-DD)
+  paymentSchedule: string // e.g. "Net 30"
+  warrantyMonths: number
+}
+
+/**
+ * Numeric issue with linear utility between `min` and `max`
+ */
+export interface NumericIssue<K extends string = string> {
+  name: K
+  type: "numeric"
+  weight: number
+  min: number
+  max: number
+  prefer: "low" | "high"
+  step?: number // Granularity of generated values (e.g. 1 for whole units)
+}
+
+/**
+ * ISO date issue with linear utility between `earliest` and `latest`
+ */
+export interface DateIssue<K extends string = string> {
+  name: K
+  type: "date"
+  weight: number
+  earliest: string
+  latest: string
+  prefer: "early" | "late"
+}
+
+/**
+ * Discrete issue with a utility per option (options not listed score 0)
+ */
+export interface DiscreteIssue<K extends string = string> {
+  name: K
+  type: "discrete"
+  weight: number
+  utilities: Record<string, number>
+}
+
+export type IssueDefinition<K extends string = string> = NumericIssue<K> | DateIssue<K> | DiscreteIssue<K>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Weighted additive utility function over a set of issues
+ */
+export class MultiIssueUtility<T extends { [K in keyof T]: IssueValue } = MultiIssueOffer> {
+  private issues: IssueDefinition<keyof T & string>[]
+  private totalWeight: number
+
+  constructor(issues: IssueDefinition<keyof T & string>[]) {
+    if (issues.length === 0) {
+      throw new Error('At least one issue is required')
+    }
+
+    for (const issue of issues) {
+      if (issue.weight < 0) {
+        throw new Error(`Issue ${issue.name} has a negative weight`)
+      }
+      if (issue.type === "numeric" && issue.max <= issue.min) {
+        throw new Error(`Issue ${issue.name} must have max > min`)
+      }
+      if (issue.type === "date" && Date.parse(issue.latest) <= Date.parse(issue.earliest)) {
+        throw new Error(`Issue ${issue.name} must have latest after earliest`)
+      }
+    }
+
+    this.issues = issues
+    this.totalWeight = issues.reduce((sum, issue) => sum + issue.weight, 0)
+    if (this.totalWeight <= 0) {
+      throw new Error('Issue weights must not all be zero')
+    }
+  }
+
+  /**
+   * Issue names in definition order
+   */
+  getIssueNames(): (keyof T & string)[] {
+    return this.issues.map(issue => issue.name)
+  }
+
+  /**
+   * Normalized weight of an issue (weights sum to 1)
+   */
+  getWeight(name: keyof T & string): number {
+    const issue = this.issues.find(i => i.name === name)
+    return issue ? issue.weight / this.totalWeight : 0
+  }
+
+  /**
+   * Utility of an offer in [0, 1]
+   */
+  score(offer: T): number {
+    return this.issues.reduce(
+      (sum, issue) => sum + (issue.weight / this.totalWeight) * this.issueUtility(issue, offer[issue.name]),
+      0
+    )
+  }
+
+  /**
+   * Utility of each issue in an offer, for logging and analysis
+   */
+  breakdown(offer: T): Record<keyof T & string, number> {
+    const result = {} as Record<keyof T & string, number>
+    for (const issue of this.issues) {
+      result[issue.name] = this.issueUtility(issue, offer[issue.name])
+    }
+    return result
+  }
+
+  /**
+   * Trade-off counter-offer reaching `targetUtility` while staying close to the counterparty's offer
+   *
+   * @param offer - Counterparty's offer (issues not defined here are kept unchanged)
+   * @param targetUtility - Minimum utility the counter-offer must reach
+   * @param opponentWeights - Estimated importance of each issue to the counterparty (default: equal)
+   */
+  generateCounterOffer(
+    offer: T,
+    targetUtility: number,
+    opponentWeights: Partial<Record<keyof T & string, number>> = {}
+  ): T {
+    const counter = { ...offer }
+    const target = Math.min(1, targetUtility)
+
+    // Concede least where the counterparty cares most relative to us
+    const order = [...this.issues]
+      .filter(issue => issue.weight > 0)
+      .sort((a, b) => {
+        const ratioA = a.weight / (opponentWeights[a.name] ?? 1)
+        const ratioB = b.weight / (opponentWeights[b.name] ?? 1)
+        return ratioB - ratioA
+      })
+
+    for (const issue of order) {
+      const gap = target - this.score(counter)
+      if (gap <= 1e-9) {
+        break
+      }
+
+      const current = this.issueUtility(issue, counter[issue.name])
+      const needed = Math.min(1, current + gap / (issue.weight / this.totalWeight))
+      counter[issue.name] = this.valueForUtility(issue, needed) as T[keyof T & string]
+    }
+
+    return counter
+  }
+
+  private issueUtility(issue: IssueDefinition, value: IssueValue | undefined): number {
+    if (value === undefined) {
+      return 0
+    }
+
+    switch (issue.type) {
+      case "numeric": {
+        const position = clamp01((Number(value) - issue.min) / (issue.max - issue.min))
+        return issue.prefer === "high" ? position : 1 - position
+      }
+      case "date": {
+        const earliest = Date.parse(issue.earliest)
+        const position = clamp01((Date.parse(String(value)) - earliest) / (Date.parse(issue.latest) - earliest))
+        return issue.prefer === "late" ? position : 1 - position
+      }
+      case "discrete":
+        return clamp01(issue.utilities[String(value)] ?? 0)
+    }
+  }
+
+  /**
+   * Least favorable value (for this agent) that still reaches `utility` on the issue
+   */
+  private valueForUtility(issue: IssueDefinition, utility: number): IssueValue {
+    switch (issue.type) {
+      case "numeric": {
+        const position = issue.prefer === "high" ? utility : 1 - utility
+        const raw = issue.min + position * (issue.max - issue.min)
+        if (!issue.step) {
+          return Math.round(raw * 100) / 100
+        }
+        // Round towards the preferred end so the utility is not undershot
+        const steps = raw / issue.step
+        const rounded = (issue.prefer === "high" ? Math.ceil(steps - 1e-9) : Math.floor(steps + 1e-9)) * issue.step
+        return Math.min(issue.max, Math.max(issue.min, rounded))
+      }
+      case "date": {
+        const earliest = Date.parse(issue.earliest)
+        const latest = Date.parse(issue.latest)
+        const position = issue.prefer === "late" ? utility : 1 - utility
+        const raw = earliest + position * (latest - earliest)
+        const day = (issue.prefer === "late" ? Math.ceil((raw - earliest) / DAY_MS - 1e-9) : Math.floor((raw - earliest) / DAY_MS + 1e-9)) * DAY_MS
+        return new Date(Math.min(latest, Math.max(earliest, earliest + day))).toISOString().slice(0, 10)
+      }
+      case "discrete": {
+        const options = Object.entries(issue.utilities).sort((a, b) => a[1] - b[1])
+        const match = options.find(([, optionUtility]) => optionUtility >= utility - 1e-9)
+        return (match || options[options.length - 1]!)[0]
+      }
+    }
+  }
+}
+
+/**
+ * Whether offer `a` Pareto-dominates offer `b` for the given parties
+ * (at least as good for everyone and strictly better for someone)
+ */
+export function paretoDominates<T extends { [K in keyof T]: IssueValue }>(
+  a: T,
+  b: T,
+  utilities: MultiIssueUtility<T>[]
+): boolean {
+  let strictlyBetter = false
+  for (const utility of utilities) {
+    const scoreA = utility.score(a)
+    const scoreB = utility.score(b)
+    if (scoreA < scoreB - 1e-9) {
+      return false
+    }
+    if (scoreA > scoreB + 1e-9) {
+      strictlyBetter = true
+    }
+  }
+  return strictlyBetter
+}
+
+function clamp01(value: number): number {
+  if (isNaN(value)) {
+    return 0
+  }
+  return Math.min(1, Math.max(0, value))
+}
@@ -0,0 +1,243 @@
+/**
+ * Negotiation Store
+ *
+ * Persistence for A2ANegotiation so in-flight negotiations and their history
+ * survive process restarts. Three implementations are provided:
+ * - InMemoryNegotiationStore: non-persistent (default)
+ * - FileNegotiationStore: a single JSON file
+ * - SqliteNegotiationStore: a SQLite database (requires the optional `better-sqlite3` package)
+ *
+ * Stores are synchronous so A2ANegotiation can keep its synchronous API.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type BetterSqlite3 from 'better-sqlite3'
+import type { NegotiationProposal, NegotiationState } from './A2ANegotiation'
+
+/**
+ * Negotiation query filters (all filters are combined with AND)
+ */
+export interface NegotiationQuery {
+  state?: NegotiationState | NegotiationState[] // One state or any of several
+  counterparty?: string // Agent ID on either side of the negotiation
+  negotiationType?: NegotiationProposal['negotiationType']
+}
+
+/**
+ * Negotiation persistence
+ */
+export interface NegotiationStore {
+  /**
+   * Get a negotiation by proposal ID
+   */
+  get(proposalId: string): NegotiationProposal | null
+
+  /**
+   * Insert or replace a negotiation
+   */
+  save(negotiation: NegotiationProposal): void
+
+  /**
+   * Delete a negotiation
+   */
+  delete(proposalId: string): void
+
+  /**
+   * List negotiations matching a query, oldest first
+   */
+  list(query?: NegotiationQuery): NegotiationProposal[]
+}
+
+/**
+ * Non-persistent negotiation store
+ */
+export class InMemoryNegotiationStore implements NegotiationStore {
+  protected negotiations: Map<string, NegotiationProposal> = new Map()
+
+  get(proposalId: string): NegotiationProposal | null {
+    return this.negotiations.get(proposalId) || null
+  }
+
+  save(negotiation: NegotiationProposal): void {
+    this.negotiations.set(negotiation.proposalId, negotiation)
+  }
+
+  delete(proposalId: string): void {
+    this.negotiations.delete(proposalId)
+  }
+
+  list(query: NegotiationQuery = {}): NegotiationProposal[] {
+    return Array.from(this.negotiations.values())
+      .filter(negotiation => matchesQuery(negotiation, query))
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+}
+
+/**
+ * Negotiation store persisted to a JSON file ({ "<proposalId>": <NegotiationProposal> })
+ *
+ * The whole file is rewritten on every change via a temporary file and rename,
+ * so it suits agents with tens or hundreds of negotiations rather than thousands.
+ */
+export class FileNegotiationStore extends InMemoryNegotiationStore {
+  private filePath: string
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, NegotiationProposal>
+      for (const [proposalId, negotiation] of Object.entries(stored)) {
+        this.negotiations.set(proposalId, negotiation)
+      }
+    }
+  }
+
+  save(negotiation: NegotiationProposal): void {
+    super.save(negotiation)
+    this.persist()
+  }
+
+  delete(proposalId: string): void {
+    super.delete(proposalId)
+    this.persist()
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.negotiations), null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
+
+/**
+ * Negotiation store backed by SQLite
+ *
+ * Indexed columns hold the fields used for querying; the full proposal
+ * (including history) is stored as JSON.
+ */
+export class SqliteNegotiationStore implements NegotiationStore {
+  private db: BetterSqlite3.Database
+
+  /**
+   * @param filename - Database file path (":memory:" for a temporary database)
+   */
+  constructor(filename: string) {
+    let Database: typeof BetterSqlite3
+    try {
+      // Optional dependency - only required when this store is used
+      Database = require('better-sqlite3')
+    } catch (error) {
+      throw new Error('SqliteNegotiationStore requires the "better-sqlite3" package (npm install better-sqlite3)')
+    }
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true })
+    }
+
+    this.db = new Database(filename)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS negotiations (
+        proposal_id TEXT PRIMARY KEY,
+        negotiation_type TEXT NOT NULL,
+        from_agent TEXT NOT NULL,
+        to_agent TEXT NOT NULL,
+        state TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_negotiations_state ON negotiations (state);
+      CREATE INDEX IF NOT EXISTS idx_negotiations_from ON negotiations (from_agent);
+      CREATE INDEX IF NOT EXISTS idx_negotiations_to ON negotiations (to_agent);
+    `)
+  }
+
+  get(proposalId: string): NegotiationProposal | null {
+    const row = this.db.prepare<[string], { data: string }>('SELECT data FROM negotiations WHERE proposal_id = ?').get(proposalId)
+    return row ? JSON.parse(row.data) : null
+  }
+
+  save(negotiation: NegotiationProposal): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO negotiations
+        (proposal_id, negotiation_type, from_agent, to_agent, state, created_at, expires_at, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      negotiation.proposalId,
+      negotiation.negotiationType,
+      negotiation.from,
+      negotiation.to,
+      negotiation.state,
+      negotiation.createdAt,
+      negotiation.expiresAt,
+      JSON.stringify(negotiation)
+    )
+  }
+
+  delete(proposalId: string): void {
+    this.db.prepare('DELETE FROM negotiations WHERE proposal_id = ?').run(proposalId)
+  }
+
+  list(query: NegotiationQuery = {}): NegotiationProposal[] {
+    const clauses: string[] = []
+    const params: string[] = []
+
+    if (query.state !== undefined) {
+      const states = Array.isArray(query.state) ? query.state : [query.state]
+      if (states.length === 0) {
+        return []
+      }
+      clauses.push(`state IN (${states.map(() => '?').join(', ')})`)
+      params.push(...states)
+    }
+
+    if (query.counterparty !== undefined) {
+      clauses.push('(from_agent = ? OR to_agent = ?)')
+      params.push(query.counterparty, query.counterparty)
+    }
+
+    if (query.negotiationType !== undefined) {
+      clauses.push('negotiation_type = ?')
+      params.push(query.negotiationType)
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''
+    const rows = this.db.prepare<string[], { data: string }>(`SELECT data FROM negotiations ${where} ORDER BY created_at ASC`).all(...params)
+    return rows.map(row => JSON.parse(row.data))
+  }
+
+  /**
+   * Close the database connection
+   */
+  close(): void {
+    this.db.close()
+  }
+}
+
+/**
+ * Check whether a negotiation matches every filter in a query
+ */
+function matchesQuery(negotiation: NegotiationProposal, query: NegotiationQuery): boolean {
+  if (query.state !== undefined) {
+    const states = Array.isArray(query.state) ? query.state : [query.state]
+    if (!states.includes(negotiation.state)) {
+      return false
+    }
+  }
+
+  if (query.counterparty !== undefined &&
+      negotiation.from !== query.counterparty &&
+      negotiation.to !== query.counterparty) {
+    return false
+  }
+
+  if (query.negotiationType !== undefined && negotiation.negotiationType !== query.negotiationType) {
+    return false
+  }
+
+  return true
+}
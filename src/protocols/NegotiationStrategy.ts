@@ -0,0 +1,346 @@
+/**
+ * Negotiation Strategies
+ *
+ * Plug-ins that let A2ANegotiation answer counter-offers automatically.
+ * Built-in strategies negotiate a single numeric field of the offer
+ * (e.g. `amount` or `pricePerUnit`) between an initial value and a
+ * reservation value (the worst value the agent will still accept):
+ * - TimeDependentStrategy: concede along initial + (reservation - initial) * t^(1/beta)
+ *   - LinearConcessionStrategy (beta = 1)
+ *   - BoulwareStrategy (beta < 1: holds firm, concedes near the deadline)
+ *   - ConcederStrategy (beta > 1: concedes early)
+ * - TitForTatStrategy: mirrors the counterparty's last concession
+ *
+ * MultiIssueStrategy applies the same time-dependent tactic to the utility
+ * of multi-issue offers (see MultiIssueUtility) and answers with trade-off
+ * counter-offers.
+ *
+ * Time `t` runs from 0 at the start of the negotiation to 1 at the deadline
+ * (or after `maxRounds` own offers, whichever comes first).
+ */
+
+import type { NegotiationProposal } from './A2ANegotiation'
+import { MultiIssueUtility } from './MultiIssueUtility'
+
+/**
+ * Strategy decision
+ */
+export interface NegotiationDecision {
+  action: "accept" | "counter" | "reject"
+  proposal?: any // Counter-offer (required for "counter")
+  reason?: string
+}
+
+/**
+ * Information available to a strategy when deciding
+ */
+export interface NegotiationContext {
+  negotiation: NegotiationProposal // Negotiation including history, with the incoming offer already recorded
+  offer: any // Counterparty's latest offer
+  agentId: string // Agent the strategy decides for
+  now: number
+}
+
+/**
+ * Negotiation strategy plug-in
+ */
+export interface NegotiationStrategy {
+  readonly name: string
+  decide(context: NegotiationContext): Promise<NegotiationDecision> | NegotiationDecision
+}
+
+/**
+ * Parameters shared by the built-in single-issue strategies
+ */
+export interface ConcessionStrategyParams {
+  role: "buyer" | "seller" // Buyers want the value low, sellers want it high
+  initialValue: number // First (most favorable) value offered
+  reservationValue: number // Worst acceptable value
+  field?: string // Offer field holding the value (default: "amount")
+  deadline?: number // Absolute deadline in ms (default: the negotiation's expiresAt)
+  maxRounds?: number // Own offers before the deadline is considered reached
+}
+
+/**
+ * Base class for the built-in single-issue strategies
+ */
+abstract class SingleIssueStrategy implements NegotiationStrategy {
+  abstract readonly name: string
+  protected params: ConcessionStrategyParams
+  protected field: string
+
+  constructor(params: ConcessionStrategyParams) {
+    if (params.role === "buyer" && params.reservationValue < params.initialValue) {
+      throw new Error('Buyer reservation value must not be below the initial value')
+    }
+    if (params.role === "seller" && params.reservationValue > params.initialValue) {
+      throw new Error('Seller reservation value must not be above the initial value')
+    }
+
+    this.params = params
+    this.field = params.field || "amount"
+  }
+
+  /**
+   * Value this agent should offer next
+   */
+  protected abstract nextValue(context: NegotiationContext): number
+
+  decide(context: NegotiationContext): NegotiationDecision {
+    const offered = Number(context.offer?.[this.field])
+    if (isNaN(offered)) {
+      return { action: "reject", reason: `Offer has no numeric "${this.field}"` }
+    }
+
+    const target = this.nextValue(context)
+
+    if (this.isAtLeastAsGood(offered, target)) {
+      return { action: "accept", reason: `${this.field} ${offered} meets target ${round2(target)}` }
+    }
+
+    if (this.progress(context) >= 1) {
+      return this.isAtLeastAsGood(offered, this.params.reservationValue)
+        ? { action: "accept", reason: `Deadline reached and ${this.field} ${offered} is within reservation value` }
+        : { action: "reject", reason: `Deadline reached and ${this.field} ${offered} is beyond reservation value ${this.params.reservationValue}` }
+    }
+
+    return {
+      action: "counter",
+      proposal: { ...context.offer, [this.field]: round2(target) },
+      reason: `Countering ${offered} with ${round2(target)}`
+    }
+  }
+
+  /**
+   * Negotiation progress from 0 (start) to 1 (deadline or last round)
+   */
+  protected progress(context: NegotiationContext): number {
+    return negotiationProgress(context, this.params.deadline, this.params.maxRounds)
+  }
+
+  /**
+   * Whether `value` is at least as good as `reference` for this agent's role
+   */
+  protected isAtLeastAsGood(value: number, reference: number): boolean {
+    return this.params.role === "buyer" ? value <= reference : value >= reference
+  }
+}
+
+/**
+ * Time-dependent concession tactic
+ *
+ * beta = 1 concedes linearly, beta < 1 is Boulware, beta > 1 is Conceder.
+ */
+export class TimeDependentStrategy extends SingleIssueStrategy {
+  readonly name: string = "time-dependent"
+  protected beta: number
+
+  constructor(params: ConcessionStrategyParams, beta: number) {
+    super(params)
+    if (beta <= 0) {
+      throw new Error('Concession exponent beta must be positive')
+    }
+    this.beta = beta
+  }
+
+  protected nextValue(context: NegotiationContext): number {
+    const { initialValue, reservationValue } = this.params
+    const concession = Math.pow(this.progress(context), 1 / this.beta)
+    return initialValue + (reservationValue - initialValue) * concession
+  }
+}
+
+/**
+ * Concede at a constant rate towards the reservation value
+ */
+export class LinearConcessionStrategy extends TimeDependentStrategy {
+  readonly name: string = "linear-concession"
+
+  constructor(params: ConcessionStrategyParams) {
+    super(params, 1)
+  }
+}
+
+/**
+ * Hold close to the initial value until near the deadline
+ */
+export class BoulwareStrategy extends TimeDependentStrategy {
+  readonly name: string = "boulware"
+
+  constructor(params: ConcessionStrategyParams, beta: number = 0.2) {
+    if (beta >= 1) {
+      throw new Error('Boulware beta must be below 1')
+    }
+    super(params, beta)
+  }
+}
+
+/**
+ * Concede quickly towards the reservation value
+ */
+export class ConcederStrategy extends TimeDependentStrategy {
+  readonly name: string = "conceder"
+
+  constructor(params: ConcessionStrategyParams, beta: number = 5) {
+    if (beta <= 1) {
+      throw new Error('Conceder beta must be above 1')
+    }
+    super(params, beta)
+  }
+}
+
+/**
+ * Tit-for-tat strategy parameters
+ */
+export interface TitForTatStrategyParams extends ConcessionStrategyParams {
+  initialConcession?: number // Concession made before the counterparty has conceded (default: 0)
+}
+
+/**
+ * Relative tit-for-tat: concede as much as the counterparty conceded in its last move
+ */
+export class TitForTatStrategy extends SingleIssueStrategy {
+  readonly name: string = "tit-for-tat"
+  private initialConcession: number
+
+  constructor(params: TitForTatStrategyParams) {
+    super(params)
+    this.initialConcession = params.initialConcession ?? 0
+  }
+
+  protected nextValue(context: NegotiationContext): number {
+    const { initialValue, reservationValue, role } = this.params
+    const own = ownOffers(context)
+    const theirs = counterpartyOffers(context)
+
+    if (own.length === 0) {
+      return initialValue
+    }
+
+    const lastOwn = Number(own[own.length - 1]![this.field])
+
+    let concession = this.initialConcession
+    if (theirs.length >= 2) {
+      const previous = Number(theirs[theirs.length - 2]![this.field])
+      const latest = Number(theirs[theirs.length - 1]![this.field])
+      // Buyers see sellers concede by lowering the value, and vice versa
+      concession = Math.max(0, role === "buyer" ? previous - latest : latest - previous)
+    }
+
+    const next = role === "buyer" ? lastOwn + concession : lastOwn - concession
+    return role === "buyer" ? Math.min(next, reservationValue) : Math.max(next, reservationValue)
+  }
+}
+
+/**
+ * Multi-issue strategy parameters
+ */
+export interface MultiIssueStrategyParams {
+  utility: MultiIssueUtility<any> // This agent's utility function
+  reservationUtility: number // Lowest acceptable utility in [0, 1]
+  beta?: number // Concession exponent, as in TimeDependentStrategy (default: 1)
+  deadline?: number // Absolute deadline in ms (default: the negotiation's expiresAt)
+  maxRounds?: number // Own offers before the deadline is considered reached
+}
+
+/**
+ * Time-dependent concession on utility with trade-off counter-offers
+ *
+ * The counterparty's issue weights are estimated from its offer history:
+ * issues it keeps unchanged between offers are assumed to matter more to it.
+ */
+export class MultiIssueStrategy implements NegotiationStrategy {
+  readonly name: string = "multi-issue"
+  readonly utility: MultiIssueUtility<any>
+  private params: MultiIssueStrategyParams
+  private beta: number
+
+  constructor(params: MultiIssueStrategyParams) {
+    if (params.reservationUtility < 0 || params.reservationUtility > 1) {
+      throw new Error('Reservation utility must be between 0 and 1')
+    }
+    this.params = params
+    this.utility = params.utility
+    this.beta = params.beta ?? 1
+    if (this.beta <= 0) {
+      throw new Error('Concession exponent beta must be positive')
+    }
+  }
+
+  decide(context: NegotiationContext): NegotiationDecision {
+    const offered = this.utility.score(context.offer)
+    const progress = negotiationProgress(context, this.params.deadline, this.params.maxRounds)
+    const target = 1 - (1 - this.params.reservationUtility) * Math.pow(progress, 1 / this.beta)
+
+    if (offered >= target - 1e-9) {
+      return { action: "accept", reason: `Utility ${offered.toFixed(3)} meets target ${target.toFixed(3)}` }
+    }
+
+    if (progress >= 1) {
+      return offered >= this.params.reservationUtility
+        ? { action: "accept", reason: `Deadline reached and utility ${offered.toFixed(3)} is within reservation` }
+        : { action: "reject", reason: `Deadline reached and utility ${offered.toFixed(3)} is below reservation ${this.params.reservationUtility}` }
+    }
+
+    const proposal = this.utility.generateCounterOffer(context.offer, target, this.estimateOpponentWeights(context))
+    return {
+      action: "counter",
+      proposal,
+      reason: `Countering utility ${offered.toFixed(3)} with ${this.utility.score(proposal).toFixed(3)}`
+    }
+  }
+
+  /**
+   * Frequency-based estimate of how much the counterparty values each issue
+   */
+  private estimateOpponentWeights(context: NegotiationContext): Record<string, number> {
+    const offers = counterpartyOffers(context)
+    const weights: Record<string, number> = {}
+
+    for (const name of this.utility.getIssueNames()) {
+      weights[name] = 1
+      for (let i = 1; i < offers.length; i++) {
+        if (offers[i][name] === offers[i - 1][name]) {
+          weights[name] += 1
+        }
+      }
+    }
+
+    return weights
+  }
+}
+
+/**
+ * Negotiation progress from 0 (start) to 1 (deadline or last round)
+ */
+function negotiationProgress(context: NegotiationContext, deadline?: number, maxRounds?: number): number {
+  const { negotiation, now } = context
+  const end = deadline ?? negotiation.expiresAt
+  const duration = end - negotiation.createdAt
+  const byTime = duration > 0 ? (now - negotiation.createdAt) / duration : 1
+  const byRounds = maxRounds ? ownOffers(context).length / maxRounds : 0
+
+  return Math.min(1, Math.max(0, byTime, byRounds))
+}
+
+/**
+ * Offers this agent has made so far
+ */
+function ownOffers(context: NegotiationContext): any[] {
+  return context.negotiation.history
+    .filter(entry => entry.agentId === context.agentId && entry.proposal && entry.action !== "accept")
+    .map(entry => entry.proposal)
+}
+
+/**
+ * Offers the counterparty has made so far (including the incoming one)
+ */
+function counterpartyOffers(context: NegotiationContext): any[] {
+  return context.negotiation.history
+    .filter(entry => entry.agentId !== context.agentId && entry.proposal && entry.action !== "accept")
+    .map(entry => entry.proposal)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
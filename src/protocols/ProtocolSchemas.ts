@@ -0,0 +1,321 @@
+/**
+ * Protocol Schemas
+ *
+ * zod schemas for the A2A envelope, A2A chunks, AP2 payment request/response,
+ * A2A handshake and negotiation payloads. They provide:
+ * - Validation with precise error paths (e.g. `metadata.reference`)
+ * - Type guards for untrusted input
+ * - JSON Schema documents (draft 2020-12) for agents written in other languages
+ *
+ * Validation never transforms input: callers keep using the original object,
+ * so fields covered by A2A signatures are never altered or stripped.
+ */
+
+import { z } from 'zod/v4'
+import { HEDERA_PAYMENT_NETWORKS, PAYMENT_NETWORKS } from '../config/NetworkRegistry'
+import type { A2AMessage, A2AHandshake } from './A2AProtocol'
+import type { A2AChunk, A2AInscriptionReference } from './A2AChunking'
+import type { AP2PaymentRequest, AP2PaymentResponse } from './AP2Protocol'
+import type { AP2IntentMandate, AP2CartMandate } from './AP2Mandates'
+
+/**
+ * A2A message envelope (unknown top-level fields are allowed for forward compatibility)
+ */
+export const A2AMessageSchema = z.looseObject({
+  version: z.literal("1.0"),
+  sender: z.object({
+    agentId: z.string().min(1),
+    capabilities: z.array(z.string()),
+    network: z.enum(HEDERA_PAYMENT_NETWORKS)
+  }),
+  receiver: z.object({
+    agentId: z.string().min(1)
+  }),
+  messageType: z.enum(["request", "response", "notification"]),
+  payload: z.any(),
+  timestamp: z.number().int().nonnegative(),
+  nonce: z.string().min(1),
+  correlationId: z.string().min(1).optional(),
+  replyTo: z.string().min(1).optional(),
+  signature: z.string().regex(/^[0-9a-fA-F]+$/, "Signature must be hex-encoded").optional()
+})
+
+/**
+ * AP2 payment currency: HBAR, USDC or an HTS fungible token ID
+ */
+const AP2CurrencySchema = z.union([
+  z.enum(["HBAR", "USDC"]),
+  z.string().regex(/^\d+\.\d+\.\d+$/, "Currency must be HBAR, USDC or an HTS token ID")
+])
+
+/**
+ * AP2 payment request
+ */
+export const AP2PaymentRequestSchema = z.object({
+  protocol: z.literal("AP2"),
+  version: z.literal("1.0"),
+  paymentId: z.string().min(1),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a decimal string"),
+  currency: AP2CurrencySchema,
+  recipient: z.string().min(1),
+  network: z.enum(PAYMENT_NETWORKS),
+  metadata: z.object({
+    purpose: z.string().min(1),
+    reference: z.string().min(1),
+    description: z.string().optional()
+  }),
+  expiry: z.number().int(),
+  mandateId: z.string().min(1).optional(),
+  signature: z.string().optional()
+})
+
+/**
+ * AP2 payment response
+ */
+export const AP2PaymentResponseSchema = z.object({
+  paymentId: z.string().min(1),
+  status: z.enum(["pending", "processing", "completed", "failed", "rejected"]),
+  transactionHash: z.string().min(1).optional(),
+  error: z.string().optional(),
+  timestamp: z.number().int().nonnegative()
+})
+
+const DecimalAmountSchema = z.string().regex(/^\d+(\.\d{1,8})?$/, "Amount must be a decimal string with at most 8 decimals")
+
+/**
+ * AP2 intent mandate
+ */
+export const AP2IntentMandateSchema = z.object({
+  type: z.literal("intent"),
+  mandateId: z.string().min(1),
+  userId: z.string().min(1),
+  agentId: z.string().min(1),
+  description: z.string(),
+  maxAmount: DecimalAmountSchema,
+  currency: AP2CurrencySchema,
+  merchants: z.array(z.string().min(1)).min(1),
+  createdAt: z.number().int().nonnegative(),
+  expiry: z.number().int(),
+  signature: z.string().regex(/^[0-9a-fA-F]+$/, "Signature must be hex-encoded").optional()
+})
+
+/**
+ * AP2 cart mandate
+ */
+export const AP2CartMandateSchema = z.object({
+  type: z.literal("cart"),
+  mandateId: z.string().min(1),
+  intentMandateId: z.string().min(1).optional(),
+  userId: z.string().min(1),
+  agentId: z.string().min(1),
+  merchant: z.string().min(1),
+  items: z.array(z.object({
+    sku: z.string().min(1),
+    description: z.string(),
+    quantity: z.number().int().positive(),
+    unitPrice: DecimalAmountSchema
+  })).min(1),
+  total: DecimalAmountSchema,
+  currency: AP2CurrencySchema,
+  createdAt: z.number().int().nonnegative(),
+  expiry: z.number().int(),
+  signature: z.string().regex(/^[0-9a-fA-F]+$/, "Signature must be hex-encoded").optional()
+})
+
+/**
+ * AP2 mandate (discriminated by `type`)
+ */
+export const AP2MandateSchema = z.discriminatedUnion("type", [AP2IntentMandateSchema, AP2CartMandateSchema])
+
+/**
+ * A2A handshake
+ */
+export const A2AHandshakeSchema = z.object({
+  handshakeType: z.enum(["init", "response"]),
+  agentId: z.string().min(1),
+  capabilities: z.array(z.string()),
+  supportedProtocols: z.array(z.string()),
+  timestamp: z.number().int().nonnegative()
+})
+
+/**
+ * Chunk of an A2A envelope too large for one topic message
+ */
+export const A2AChunkSchema = z.object({
+  type: z.literal("a2a-chunk"),
+  chunk: z.object({
+    id: z.string().min(1),
+    index: z.number().int().nonnegative(),
+    total: z.number().int().positive(),
+    hash: z.string().regex(/^[0-9a-f]{64}$/, "Hash must be a hex SHA-256 digest")
+  }),
+  data: z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, "Data must be base64-encoded")
+})
+
+/**
+ * Reference to an A2A envelope stored as an HCS-1 file
+ */
+export const A2AInscriptionReferenceSchema = z.object({
+  type: z.literal("a2a-inscription"),
+  reference: z.string().regex(/^hcs:\/\/1\/\d+\.\d+\.\d+$/, "Reference must be an HCS-1 URI"),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "Hash must be a hex SHA-256 digest"),
+  size: z.number().int().positive()
+})
+
+const NegotiationOfferSchema = z.record(z.string(), z.unknown())
+
+/**
+ * Negotiation payload (discriminated by `action`)
+ */
+export const NegotiationMessageSchema = z.discriminatedUnion("action", [
+  z.object({
+    type: z.literal("negotiation"),
+    action: z.literal("propose"),
+    proposalId: z.string().min(1),
+    proposal: NegotiationOfferSchema,
+    negotiationType: z.enum(["payment", "service", "delivery"]).optional(),
+    expiresAt: z.number().int().optional()
+  }),
+  z.object({
+    type: z.literal("negotiation"),
+    action: z.literal("counter"),
+    proposalId: z.string().min(1),
+    proposal: NegotiationOfferSchema
+  }),
+  z.object({
+    type: z.literal("negotiation"),
+    action: z.literal("accept"),
+    proposalId: z.string().min(1),
+    proposal: NegotiationOfferSchema.optional()
+  }),
+  z.object({
+    type: z.literal("negotiation"),
+    action: z.literal("reject"),
+    proposalId: z.string().min(1),
+    reason: z.string().optional()
+  })
+])
+
+export type NegotiationMessage = z.infer<typeof NegotiationMessageSchema>
+
+/**
+ * Single validation failure
+ */
+export interface SchemaIssue {
+  path: string // Dotted path to the offending field, e.g. "sender.agentId" or "bids[0].amount"
+  message: string
+}
+
+/**
+ * Schema validation result
+ */
+export interface SchemaValidationResult {
+  valid: boolean
+  error?: string // All issues joined into one line
+  issues?: SchemaIssue[]
+}
+
+/**
+ * Validate a value against a schema
+ */
+export function validateWithSchema(schema: z.ZodType, value: unknown): SchemaValidationResult {
+  const result = schema.safeParse(value)
+  if (result.success) {
+    return { valid: true }
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message
+  }))
+
+  return {
+    valid: false,
+    error: issues.map(issue => `${issue.path}: ${issue.message}`).join('; '),
+    issues
+  }
+}
+
+/**
+ * Type guards
+ */
+export function isA2AMessage(value: unknown): value is A2AMessage {
+  return A2AMessageSchema.safeParse(value).success
+}
+
+export function isAP2PaymentRequest(value: unknown): value is AP2PaymentRequest {
+  return AP2PaymentRequestSchema.safeParse(value).success
+}
+
+export function isAP2PaymentResponse(value: unknown): value is AP2PaymentResponse {
+  return AP2PaymentResponseSchema.safeParse(value).success
+}
+
+export function isA2AHandshake(value: unknown): value is A2AHandshake {
+  return A2AHandshakeSchema.safeParse(value).success
+}
+
+export function isA2AChunk(value: unknown): value is A2AChunk {
+  return A2AChunkSchema.safeParse(value).success
+}
+
+export function isA2AInscriptionReference(value: unknown): value is A2AInscriptionReference {
+  return A2AInscriptionReferenceSchema.safeParse(value).success
+}
+
+export function isNegotiationMessage(value: unknown): value is NegotiationMessage {
+  return NegotiationMessageSchema.safeParse(value).success
+}
+
+export function isAP2Mandate(value: unknown): value is AP2IntentMandate | AP2CartMandate {
+  return AP2MandateSchema.safeParse(value).success
+}
+
+/**
+ * JSON Schema documents keyed by schema name
+ */
+export function getProtocolJsonSchemas(): Record<string, Record<string, unknown>> {
+  const schemas: Record<string, z.ZodType> = {
+    A2AMessage: A2AMessageSchema,
+    AP2PaymentRequest: AP2PaymentRequestSchema,
+    AP2PaymentResponse: AP2PaymentResponseSchema,
+    AP2Mandate: AP2MandateSchema,
+    A2AHandshake: A2AHandshakeSchema,
+    A2AChunk: A2AChunkSchema,
+    A2AInscriptionReference: A2AInscriptionReferenceSchema,
+    NegotiationMessage: NegotiationMessageSchema
+  }
+
+  const documents: Record<string, Record<string, unknown>> = {}
+  for (const [name, schema] of Object.entries(schemas)) {
+    documents[name] = {
+      ...z.toJSONSchema(schema),
+      title: name
+    }
+  }
+  return documents
+}
+
+function formatPath(path: PropertyKey[]): string {
+  if (path.length === 0) {
+    return '(root)'
+  }
+
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') {
+      return `${formatted}[${segment}]`
+    }
+    return formatted ? `${formatted}.${String(segment)}` : String(segment)
+  }, '')
+}
+
+// Compile-time checks that every value of the protocol interfaces fits its schema's type
+// (A2AMessage is skipped: the loose envelope schema infers an index signature)
+type Assert<T extends true> = T
+export type SchemaInterfaceChecks = [
+  Assert<AP2PaymentRequest extends z.infer<typeof AP2PaymentRequestSchema> ? true : false>,
+  Assert<AP2PaymentResponse extends z.infer<typeof AP2PaymentResponseSchema> ? true : false>,
+  Assert<AP2IntentMandate extends z.infer<typeof AP2IntentMandateSchema> ? true : false>,
+  Assert<AP2CartMandate extends z.infer<typeof AP2CartMandateSchema> ? true : false>,
+  Assert<A2AHandshake extends z.infer<typeof A2AHandshakeSchema> ? true : false>
+]
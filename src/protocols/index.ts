@@ -5,17 +5,91 @@
  */
 
 export { A2AProtocol, A2AHandshakeProtocol } from './A2AProtocol'
-export type { A2AMessage, A2AHandshake } from './A2AProtocol'
+export type { A2AMessage, A2AHandshake, A2AProtocolOptions, A2ARequestOptions, A2ARequestHandler } from './A2AProtocol'
+
+export {
+  A2AChunkAssembler,
+  InMemoryPayloadInscriber,
+  HCS10ClientInscriber,
+  chunkContent,
+  contentHash,
+  A2A_CHUNK_TYPE,
+  A2A_INSCRIPTION_TYPE,
+  DEFAULT_MAX_MESSAGE_SIZE
+} from './A2AChunking'
+export type { A2AChunk, A2AChunkHeader, A2AInscriptionReference, A2AChunkAssemblerOptions, PayloadInscriber } from './A2AChunking'
+
+export { A2AMessageSigner, A2AKeyRing, canonicalJson } from './A2AMessageSigner'
+export type { PublicKeyResolver, ProfileSource } from './A2AMessageSigner'
+
+export { A2AReplayGuard } from './A2AReplayGuard'
+export type { ReplayGuardOptions } from './A2AReplayGuard'
+
+export {
+  A2AMessageSchema,
+  AP2PaymentRequestSchema,
+  AP2PaymentResponseSchema,
+  AP2IntentMandateSchema,
+  AP2CartMandateSchema,
+  AP2MandateSchema,
+  A2AHandshakeSchema,
+  A2AChunkSchema,
+  A2AInscriptionReferenceSchema,
+  NegotiationMessageSchema,
+  validateWithSchema,
+  isA2AMessage,
+  isAP2PaymentRequest,
+  isAP2PaymentResponse,
+  isAP2Mandate,
+  isA2AHandshake,
+  isA2AChunk,
+  isA2AInscriptionReference,
+  isNegotiationMessage,
+  getProtocolJsonSchemas
+} from './ProtocolSchemas'
+export type { NegotiationMessage, SchemaIssue, SchemaValidationResult } from './ProtocolSchemas'
 
 export { AP2Protocol } from './AP2Protocol'
-export type { AP2PaymentRequest, AP2PaymentResponse } from './AP2Protocol'
+export type { AP2PaymentRequest, AP2PaymentResponse, AP2PaymentStatus, AP2Currency } from './AP2Protocol'
+
+export { AP2Mandates, AP2MandateRegistry } from './AP2Mandates'
+export type { AP2IntentMandate, AP2CartMandate, AP2CartItem, AP2Mandate, AP2MandateRegistryOptions } from './AP2Mandates'
+export { InMemoryMandateStore, FileMandateStore } from './MandateStore'
+export type { MandateStore, MandateReservation } from './MandateStore'
+
+export { AP2PaymentTracker } from './AP2PaymentTracker'
+export type { TrackedPayment, PaymentStatusChange, PaymentTransitionDetails } from './AP2PaymentTracker'
 
 export { A2ANegotiation } from './A2ANegotiation'
-export type { NegotiationProposal, NegotiationEntry, A2ANegotiationResult } from './A2ANegotiation'
+export type { NegotiationProposal, NegotiationEntry, A2ANegotiationResult, A2ANegotiationOptions } from './A2ANegotiation'
 export { NegotiationState } from './A2ANegotiation'
 
+export { InMemoryNegotiationStore, FileNegotiationStore, SqliteNegotiationStore } from './NegotiationStore'
+export type { NegotiationStore, NegotiationQuery } from './NegotiationStore'
+
+export { TimeDependentStrategy, LinearConcessionStrategy, BoulwareStrategy, ConcederStrategy, TitForTatStrategy, MultiIssueStrategy } from './NegotiationStrategy'
+export type { NegotiationStrategy, NegotiationDecision, NegotiationContext, ConcessionStrategyParams, TitForTatStrategyParams, MultiIssueStrategyParams } from './NegotiationStrategy'
+
+export { MultiIssueUtility, paretoDominates } from './MultiIssueUtility'
+export type { IssueValue, MultiIssueOffer, SupplyChainTerms, NumericIssue, DateIssue, DiscreteIssue, IssueDefinition } from './MultiIssueUtility'
+
+export { A2AReverseAuction, A2AAuctionBidder, AuctionState, bidCommitment } from './A2AReverseAuction'
+export type { AuctionType, AgentDirectory, ReverseAuctionOptions, AuctionInvite, AuctionBid, ReverseAuction, BidPolicy } from './A2AReverseAuction'
+
 export { HCS10ConnectionManager } from './HCS10ConnectionManager'
-export type { Connection, ConnectionOptions, ConnectionCallback, ConnectionRequest } from './HCS10ConnectionManager'
+export type { Connection, ConnectionStatus, ConnectionOptions, ConnectionCallback, ConnectionRequest, ConnectionStateListener, ConnectionLivenessOptions, HCS10ConnectionManagerOptions } from './HCS10ConnectionManager'
+
+export { HederaConnectionTopicFactory, connectionTopicMemo } from './HCS10ConnectionTopics'
+export type { ConnectionTopicFactory } from './HCS10ConnectionTopics'
+
+export { RuleBasedConnectionPolicy } from './HCS10ConnectionPolicy'
+export type { ConnectionPolicy, ConnectionPolicyDecision, ConnectionPolicyOptions, ReputationSource, AgentLookup } from './HCS10ConnectionPolicy'
+
+export { MirrorNodeFeeVerifier, mirrorTransactionId } from './HCS10FeeVerifier'
+export type { ConnectionFeeVerifier, FeePaymentProof, FeeVerification, MirrorNodeFeeVerifierOptions } from './HCS10FeeVerifier'
+
+export { HCS11ProfileSource, inboundTopicOf } from './HCS11ProfileSource'
+export type { HCS11ProfileSourceOptions } from './HCS11ProfileSource'
 
 export { HCS10TransactionApproval } from './HCS10TransactionApproval'
 export type { TransactionOptions, ScheduledTransaction, PendingTransaction } from './HCS10TransactionApproval'
@@ -8,20 +8,35 @@
  * Used for the hackathon bonus points requirement: "Multiple Hedera services"
  */
 
-import { Client, TokenCreateTransaction, TokenType, PrivateKey, AccountId, AccountBalanceQuery } from '@hashgraph/sdk'
+import { Client, TokenCreateTransaction, TokenType, PrivateKey, AccountId, AccountBalanceQuery, TokenInfoQuery, TokenId } from '@hashgraph/sdk'
 import { loadEnvIfNeeded } from '../utils/env'
+import { HederaNetworkConfig, selectHederaNetwork } from '../config/NetworkRegistry'
+import axios from 'axios'
 import chalk from 'chalk'
 
 loadEnvIfNeeded()
 
+/**
+ * Whether a value is an HTS token ID (shard.realm.num)
+ */
+export function isHtsTokenId(value: unknown): value is `${number}.${number}.${number}` {
+  return typeof value === 'string' && /^\d+\.\d+\.\d+$/.test(value)
+}
+
 /**
  * HTS Token Service Implementation
  */
 export class TokenService {
   private client: Client
+  private mirrorNodeUrl: string
 
-  constructor(client: Client) {
+  /**
+   * @param client - Hedera client with an operator
+   * @param network - Network the client is on, for mirror node lookups; defaults to HEDERA_NETWORK
+   */
+  constructor(client: Client, network: HederaNetworkConfig = selectHederaNetwork()) {
     this.client = client
+    this.mirrorNodeUrl = network.mirrorNodeUrl
   }
 
   /**
@@ -152,14 +167,17 @@ export class TokenService {
     try {
       console.log(chalk.blue(`📋 Getting token info for ${tokenId}`))
 
-      // Note: This would use the Mirror Node API or Hedera SDK
-      // For now, return placeholder
+      const info = await new TokenInfoQuery()
+        .setTokenId(TokenId.fromString(tokenId))
+        .execute(this.client)
+
       return {
         tokenId,
-        name: 'Royalty Token',
-        symbol: 'ROYAL',
-        decimals: 0,
-        totalSupply: 1000000
+        name: info.name,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        totalSupply: info.totalSupply.toString(),
+        type: info.tokenType?.toString()
       }
     } catch (error) {
       console.error(chalk.red(`❌ Failed to get token info: ${(error as Error).message}`))
@@ -167,6 +185,30 @@ export class TokenService {
     }
   }
 
+  /**
+   * Whether an account can receive a token
+   *
+   * True when the account is associated with the token or has automatic
+   * association slots (looked up on the mirror node).
+   */
+  async isTokenAssociated(accountId: string, tokenId: string): Promise<boolean> {
+    try {
+      const tokens = await axios.get(`${this.mirrorNodeUrl}/api/v1/accounts/${accountId}/tokens`, {
+        params: { 'token.id': tokenId }
+      })
+      if ((tokens.data?.tokens ?? []).some((token: any) => token.token_id === tokenId)) {
+        return true
+      }
+
+      const account = await axios.get(`${this.mirrorNodeUrl}/api/v1/accounts/${accountId}`)
+      const autoAssociations = account.data?.max_automatic_token_associations ?? 0
+      return autoAssociations === -1 || autoAssociations > 0
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to check token association: ${(error as Error).message}`))
+      throw error
+    }
+  }
+
   /**
    * Create a tokenized invoice token (RWA - Real-World Asset)
    * 
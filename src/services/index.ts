@@ -5,5 +5,5 @@
  */
 
 export { TokenService } from './TokenService'
-export { createRoyaltyTokenForNFTs } from './TokenService'
+export { createRoyaltyTokenForNFTs, isHtsTokenId } from './TokenService'
 
@@ -0,0 +1,175 @@
+/**
+ * In-Memory Topic Bus
+ *
+ * An offline stand-in for the Hedera Consensus Service. Each topic keeps an
+ * append-only message log with HCS-like semantics:
+ * - Sequence numbers start at 1 and increase by one per topic
+ * - Consensus timestamps are strictly increasing across the whole bus
+ * - Messages are returned in consensus order
+ *
+ * Intended for unit tests and local simulations where several agents share
+ * one bus instance instead of talking to testnet.
+ */
+
+import { MessageTransport, TransportMessage } from './MessageTransport'
+
+/**
+ * Bus options
+ */
+export interface InMemoryTopicBusOptions {
+  autoCreateTopics?: boolean // Create unknown topics on first send (default: true)
+  firstTopicNumber?: number // Entity number for the first topic created via createTopic()
+}
+
+/**
+ * Listener notified for every message appended to a topic
+ */
+export type TopicListener = (message: TransportMessage) => void
+
+/**
+ * In-memory HCS topic bus
+ */
+export class InMemoryTopicBus implements MessageTransport {
+  private topics: Map<string, TransportMessage[]> = new Map()
+  private listeners: Map<string, Set<TopicListener>> = new Map()
+  private autoCreateTopics: boolean
+  private nextTopicNumber: number
+  private lastConsensusNanos: bigint = 0n
+
+  constructor(options: InMemoryTopicBusOptions = {}) {
+    this.autoCreateTopics = options.autoCreateTopics ?? true
+    this.nextTopicNumber = options.firstTopicNumber ?? 1000
+  }
+
+  /**
+   * Create a new topic and return its ID
+   */
+  createTopic(): string {
+    let topicId = `0.0.${this.nextTopicNumber++}`
+    while (this.topics.has(topicId)) {
+      topicId = `0.0.${this.nextTopicNumber++}`
+    }
+    this.topics.set(topicId, [])
+    return topicId
+  }
+
+  /**
+   * Check whether a topic exists on the bus
+   */
+  hasTopic(topicId: string): boolean {
+    return this.topics.has(topicId)
+  }
+
+  /**
+   * Get the IDs of all topics on the bus
+   */
+  getTopicIds(): string[] {
+    return Array.from(this.topics.keys())
+  }
+
+  /**
+   * Submit a message to a topic
+   */
+  async sendMessage(topicId: string, data: string): Promise<number> {
+    return this.append(topicId, data)
+  }
+
+  /**
+   * Retrieve all messages on a topic in consensus order
+   */
+  async getMessages(topicId: string): Promise<{ messages: TransportMessage[] }> {
+    const log = this.topics.get(topicId) || []
+    return { messages: log.map(message => ({ ...message })) }
+  }
+
+  /**
+   * Subscribe to new messages on a topic
+   * @returns Function that removes the listener
+   */
+  subscribe(topicId: string, listener: TopicListener): () => void {
+    let topicListeners = this.listeners.get(topicId)
+    if (!topicListeners) {
+      topicListeners = new Set()
+      this.listeners.set(topicId, topicListeners)
+    }
+    topicListeners.add(listener)
+
+    return () => {
+      topicListeners!.delete(listener)
+    }
+  }
+
+  /**
+   * Get a transport view of this bus that stamps every message with a payer account
+   *
+   * Useful when several agents share one bus and handlers need to know who sent what.
+   */
+  forPayer(payer: string): MessageTransport & Pick<InMemoryTopicBus, 'subscribe'> {
+    return {
+      sendMessage: async (topicId: string, data: string) => this.append(topicId, data, payer),
+      getMessages: (topicId: string) => this.getMessages(topicId),
+      subscribe: (topicId: string, listener: TopicListener) => this.subscribe(topicId, listener)
+    }
+  }
+
+  /**
+   * Remove all topics, messages and listeners
+   */
+  reset(): void {
+    this.topics.clear()
+    this.listeners.clear()
+    this.lastConsensusNanos = 0n
+  }
+
+  /**
+   * Append a message to a topic log
+   */
+  private append(topicId: string, data: string, payer?: string): number {
+    let log = this.topics.get(topicId)
+    if (!log) {
+      if (!this.autoCreateTopics) {
+        throw new Error(`Topic ${topicId} does not exist`)
+      }
+      log = []
+      this.topics.set(topicId, log)
+    }
+
+    const consensusNanos = this.nextConsensusNanos()
+    const message: TransportMessage = {
+      sequence_number: log.length + 1,
+      consensus_timestamp: InMemoryTopicBus.formatConsensusTimestamp(consensusNanos),
+      timestamp: Number(consensusNanos / 1_000_000n),
+      data,
+      ...(payer !== undefined && { payer })
+    }
+    log.push(message)
+
+    for (const listener of this.listeners.get(topicId) || []) {
+      try {
+        listener({ ...message })
+      } catch (error) {
+        console.error(`❌ Topic listener error on ${topicId}:`, error)
+      }
+    }
+
+    return message.sequence_number
+  }
+
+  /**
+   * Next consensus time in nanoseconds, strictly greater than the previous one
+   */
+  private nextConsensusNanos(): bigint {
+    const now = BigInt(Date.now()) * 1_000_000n
+    this.lastConsensusNanos = now > this.lastConsensusNanos ? now : this.lastConsensusNanos + 1n
+    return this.lastConsensusNanos
+  }
+
+  /**
+   * Format nanoseconds as a mirror node consensus timestamp ("seconds.nanoseconds")
+   */
+  private static formatConsensusTimestamp(nanos: bigint): string {
+    const seconds = nanos / 1_000_000_000n
+    const remainder = nanos % 1_000_000_000n
+    return `${seconds}.${remainder.toString().padStart(9, '0')}`
+  }
+}
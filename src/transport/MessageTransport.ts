@@ -0,0 +1,40 @@
+/**
+ * Message Transport Abstraction
+ *
+ * Decouples agents and protocols from the concrete HCS client so that
+ * the same code can talk to Hedera testnet (via HCS10Client) or to an
+ * in-process topic bus (via InMemoryTopicBus) in offline tests.
+ *
+ * HCS10Client from @hashgraphonline/standards-agent-kit satisfies this
+ * interface structurally, so existing callers can keep passing it in.
+ */
+
+/**
+ * A single message as stored on a topic
+ *
+ * Field names follow the mirror node / HCS10Client format so that
+ * message handlers work unchanged against either transport.
+ */
+export interface TransportMessage {
+  sequence_number: number
+  consensus_timestamp?: string // "seconds.nanoseconds"
+  timestamp: number // milliseconds since epoch
+  data?: string
+  payer?: string
+}
+
+/**
+ * Transport used by agents and protocols to publish and read topic messages
+ */
+export interface MessageTransport {
+  /**
+   * Submit a message to a topic
+   * @returns The sequence number assigned to the message (if known)
+   */
+  sendMessage(topicId: string, data: string): Promise<number | undefined>
+
+  /**
+   * Retrieve the messages currently stored on a topic, ordered by sequence number
+   */
+  getMessages(topicId: string): Promise<{ messages: TransportMessage[] }>
+}
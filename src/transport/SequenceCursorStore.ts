@@ -0,0 +1,93 @@
+/**
+ * Sequence Cursor Store
+ *
+ * Remembers the highest HCS sequence number an agent has processed on each
+ * topic (its high-water mark). Agents skip anything at or below the cursor,
+ * so messages are handled once per topic even across polling ticks and, with
+ * the file-backed store, across process restarts.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { TransportMessage } from './MessageTransport'
+
+/**
+ * Per-topic high-water mark storage
+ */
+export interface SequenceCursorStore {
+  /**
+   * Highest processed sequence number for a topic (0 if none)
+   */
+  getSequence(topicId: string): number
+
+  /**
+   * Record that every message up to and including `sequenceNumber` was processed
+   */
+  setSequence(topicId: string, sequenceNumber: number): void
+}
+
+/**
+ * Non-persistent cursor store
+ */
+export class InMemorySequenceCursorStore implements SequenceCursorStore {
+  protected cursors: Map<string, number> = new Map()
+
+  getSequence(topicId: string): number {
+    return this.cursors.get(topicId) || 0
+  }
+
+  setSequence(topicId: string, sequenceNumber: number): void {
+    if (sequenceNumber > this.getSequence(topicId)) {
+      this.cursors.set(topicId, sequenceNumber)
+    }
+  }
+}
+
+/**
+ * Cursor store persisted to a JSON file ({ "<topicId>": <sequenceNumber> })
+ *
+ * Writes go to a temporary file first and are renamed into place so a crash
+ * mid-write never leaves a truncated cursor file behind.
+ */
+export class FileSequenceCursorStore extends InMemorySequenceCursorStore {
+  private filePath: string
+
+  constructor(filePath: string) {
+    super()
+    this.filePath = filePath
+
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, number>
+      for (const [topicId, sequenceNumber] of Object.entries(stored)) {
+        this.cursors.set(topicId, sequenceNumber)
+      }
+    }
+  }
+
+  setSequence(topicId: string, sequenceNumber: number): void {
+    if (sequenceNumber <= this.getSequence(topicId)) {
+      return
+    }
+
+    super.setSequence(topicId, sequenceNumber)
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(Object.fromEntries(this.cursors), null, 2))
+    fs.renameSync(tempPath, this.filePath)
+  }
+}
+
+/**
+ * Messages above the topic's cursor, in sequence order
+ */
+export function selectUnprocessedMessages<T extends TransportMessage>(
+  store: SequenceCursorStore,
+  topicId: string,
+  messages: T[]
+): T[] {
+  const lastSequence = store.getSequence(topicId)
+  return messages
+    .filter(message => message.sequence_number > lastSequence)
+    .sort((a, b) => a.sequence_number - b.sequence_number)
+}
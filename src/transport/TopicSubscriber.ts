@@ -0,0 +1,443 @@
+/**
+ * Topic Subscriber
+ *
+ * Delivers the messages of HCS topics to handlers as they arrive, shared by all
+ * agents instead of each running its own polling loop:
+ * - Streams come from the mirror node gRPC API (TopicMessageQuery), mirror node
+ *   REST with a sequence cursor (`sequencenumber=gt:`) or the transport itself
+ *   (push for transports with `subscribe`, polling otherwise)
+ * - Delivery resumes after the last processed sequence number in the cursor store
+ * - Messages are handled one at a time per topic; when the queue grows past
+ *   `maxQueueSize` the stream is paused until it has drained
+ * - A failing handler is logged and does not stop other handlers or later messages
+ */
+
+import { TopicMessageQuery, TopicId, Timestamp } from '@hashgraph/sdk'
+import axios from 'axios'
+import { MessageTransport, TransportMessage } from './MessageTransport'
+import { SequenceCursorStore, InMemorySequenceCursorStore } from './SequenceCursorStore'
+import { HederaNetworkConfig, createHederaClient } from '../config/NetworkRegistry'
+import chalk from 'chalk'
+
+/**
+ * Handler of topic messages
+ */
+export type TopicMessageHandler = (message: TransportMessage) => Promise<void>
+
+/**
+ * Receiver of a topic stream's messages and errors
+ */
+export interface TopicStreamListener {
+  onMessage(message: TransportMessage): void
+  onError(error: Error): void
+}
+
+/**
+ * Source of a topic's messages in sequence order
+ */
+export interface TopicStream {
+  /**
+   * Start delivering messages with a sequence number above `afterSequence`
+   *
+   * @returns Function that stops the stream
+   */
+  open(topicId: string, afterSequence: number, listener: TopicStreamListener): () => void
+}
+
+/**
+ * Ways an agent can receive topic messages
+ */
+export const TOPIC_STREAM_KINDS = ['grpc', 'rest', 'poll'] as const
+export type TopicStreamKind = typeof TOPIC_STREAM_KINDS[number]
+
+/**
+ * Active subscription
+ */
+export interface TopicSubscription {
+  topicId: string
+  unsubscribe(): void
+}
+
+/**
+ * Subscriber options
+ */
+export interface TopicSubscriberOptions {
+  stream?: TopicStream // Default: the transport (push or polling)
+  cursorStore?: SequenceCursorStore // Resume points (default: in memory)
+  maxQueueSize?: number // Queued messages per topic before the stream is paused (default: 100)
+  pollInterval?: number // milliseconds, for the default polling stream (default: 5000)
+}
+
+/**
+ * Transport that pushes new messages (InMemoryTopicBus)
+ */
+interface PushTransport extends MessageTransport {
+  subscribe(topicId: string, listener: (message: TransportMessage) => void): () => void
+}
+
+/**
+ * Transport that resolves HCS-1 references of large messages (HCS10Client)
+ */
+interface ContentResolvingTransport extends MessageTransport {
+  getMessageContent(inscriptionIdOrData: string): Promise<string>
+}
+
+/**
+ * Transport message from raw mirror node topic message contents
+ *
+ * Messages posted through HCS10Client.sendMessage are unwrapped from their
+ * HCS-10 `message` envelope, as HCS10Client.getMessages does.
+ */
+export function toTransportMessage(sequenceNumber: number, consensusTimestamp: string, contents: string, payer?: string): TransportMessage {
+  let data = contents
+  try {
+    const parsed = JSON.parse(contents)
+    if (parsed?.p === 'hcs-10' && parsed.op === 'message' && typeof parsed.data === 'string') {
+      data = parsed.data
+    }
+  } catch {
+    // Plain text message
+  }
+
+  return {
+    sequence_number: sequenceNumber,
+    consensus_timestamp: consensusTimestamp,
+    timestamp: Math.floor(Number(consensusTimestamp) * 1000),
+    data,
+    ...(payer && { payer })
+  }
+}
+
+/**
+ * Stream reading a transport: pushed when the transport supports `subscribe`, polled otherwise
+ */
+export class TransportTopicStream implements TopicStream {
+  private transport: MessageTransport
+  private pollInterval: number
+
+  constructor(transport: MessageTransport, pollInterval: number = 5000) {
+    this.transport = transport
+    this.pollInterval = pollInterval
+  }
+
+  open(topicId: string, afterSequence: number, listener: TopicStreamListener): () => void {
+    let lastSequence = afterSequence
+    let stopped = false
+    const deliver = (messages: TransportMessage[]) => {
+      for (const message of [...messages].sort((a, b) => a.sequence_number - b.sequence_number)) {
+        if (!stopped && message.sequence_number > lastSequence) {
+          lastSequence = message.sequence_number
+          listener.onMessage(message)
+        }
+      }
+    }
+
+    const push = this.transport as Partial<PushTransport>
+    if (typeof push.subscribe === 'function') {
+      // Buffer pushed messages until the backlog has been delivered
+      let backlogLoaded = false
+      const pushed: TransportMessage[] = []
+      const unsubscribe = push.subscribe.call(this.transport, topicId, message => {
+        if (backlogLoaded) {
+          deliver([message])
+        } else {
+          pushed.push(message)
+        }
+      })
+      this.transport.getMessages(topicId)
+        .then(({ messages }) => deliver(messages))
+        .catch(error => listener.onError(error as Error))
+        .finally(() => {
+          backlogLoaded = true
+          deliver(pushed)
+        })
+      return () => {
+        stopped = true
+        unsubscribe()
+      }
+    }
+
+    let timer: NodeJS.Timeout | undefined
+    const poll = async () => {
+      try {
+        const { messages } = await this.transport.getMessages(topicId)
+        deliver(messages)
+      } catch (error) {
+        listener.onError(error as Error)
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, this.pollInterval)
+      }
+    }
+    poll()
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Stream reading the mirror node REST API with a sequence number cursor
+ */
+export class MirrorNodeRestTopicStream implements TopicStream {
+  private network: HederaNetworkConfig
+  private pollInterval: number
+  private pageSize: number
+
+  /**
+   * @param pollInterval - milliseconds to wait after an empty page (default: 1000)
+   * @param pageSize - Messages per request (default: 100)
+   */
+  constructor(network: HederaNetworkConfig, pollInterval: number = 1000, pageSize: number = 100) {
+    this.network = network
+    this.pollInterval = pollInterval
+    this.pageSize = pageSize
+  }
+
+  open(topicId: string, afterSequence: number, listener: TopicStreamListener): () => void {
+    let lastSequence = afterSequence
+    let stopped = false
+    let timer: NodeJS.Timeout | undefined
+
+    const poll = async () => {
+      let delay = this.pollInterval
+      try {
+        const response = await axios.get(`${this.network.mirrorNodeUrl}/api/v1/topics/${topicId}/messages`, {
+          params: { 'sequencenumber': `gt:${lastSequence}`, limit: this.pageSize, order: 'asc' }
+        })
+        const messages: any[] = response.data?.messages || []
+        for (const message of messages) {
+          if (stopped) return
+          lastSequence = message.sequence_number
+          listener.onMessage(toTransportMessage(
+            message.sequence_number,
+            message.consensus_timestamp,
+            Buffer.from(message.message, 'base64').toString('utf8'),
+            message.payer_account_id
+          ))
+        }
+        if (messages.length === this.pageSize) {
+          delay = 0 // More pages waiting
+        }
+      } catch (error) {
+        listener.onError(error as Error)
+      }
+      if (!stopped) {
+        timer = setTimeout(poll, delay)
+      }
+    }
+    poll()
+    return () => {
+      stopped = true
+      if (timer) clearTimeout(timer)
+    }
+  }
+}
+
+/**
+ * Stream subscribing to the mirror node gRPC API (TopicMessageQuery)
+ *
+ * The query starts at the consensus time of the resume point, looked up on the
+ * mirror node REST API; messages at or below it are skipped.
+ */
+export class MirrorNodeGrpcTopicStream implements TopicStream {
+  private network: HederaNetworkConfig
+
+  constructor(network: HederaNetworkConfig) {
+    this.network = network
+  }
+
+  open(topicId: string, afterSequence: number, listener: TopicStreamListener): () => void {
+    const client = createHederaClient(this.network)
+    let lastSequence = afterSequence
+    let handle: { unsubscribe(): void } | undefined
+    let stopped = false
+
+    this.startTimeOf(topicId, afterSequence).then(startTime => {
+      if (stopped) return
+      handle = new TopicMessageQuery()
+        .setTopicId(TopicId.fromString(topicId))
+        .setStartTime(startTime)
+        .subscribe(
+          client,
+          (_message, error) => listener.onError(error),
+          message => {
+            const sequenceNumber = message.sequenceNumber.toNumber()
+            if (stopped || sequenceNumber <= lastSequence) return
+            lastSequence = sequenceNumber
+            listener.onMessage(toTransportMessage(
+              sequenceNumber,
+              `${message.consensusTimestamp.seconds.toString()}.${message.consensusTimestamp.nanos.toString().padStart(9, '0')}`,
+              Buffer.from(message.contents).toString('utf8'),
+              message.initialTransactionId?.accountId?.toString()
+            ))
+          }
+        )
+    })
+
+    return () => {
+      stopped = true
+      handle?.unsubscribe()
+      client.close()
+    }
+  }
+
+  private async startTimeOf(topicId: string, sequenceNumber: number): Promise<Timestamp> {
+    if (sequenceNumber <= 0) {
+      return new Timestamp(0, 0)
+    }
+    try {
+      const response = await axios.get(`${this.network.mirrorNodeUrl}/api/v1/topics/${topicId}/messages/${sequenceNumber}`)
+      const [seconds, nanos] = String(response.data.consensus_timestamp).split('.')
+      return new Timestamp(Number(seconds), Number(nanos || 0))
+    } catch {
+      return new Timestamp(0, 0)
+    }
+  }
+}
+
+/**
+ * Topic stream of a kind
+ */
+export function createTopicStream(kind: TopicStreamKind, network: HederaNetworkConfig, transport: MessageTransport): TopicStream {
+  switch (kind) {
+    case 'grpc':
+      return new MirrorNodeGrpcTopicStream(network)
+    case 'rest':
+      return new MirrorNodeRestTopicStream(network)
+    case 'poll':
+      return new TransportTopicStream(transport)
+  }
+}
+
+/**
+ * Per-topic delivery state
+ */
+interface TopicState {
+  handlers: Set<TopicMessageHandler>
+  queue: TransportMessage[]
+  queuedSequence: number // Highest sequence number received from the stream
+  draining: boolean
+  close?: () => void // Stops the stream; unset while paused
+}
+
+/**
+ * Shared topic subscriber
+ */
+export class TopicSubscriber {
+  private transport: MessageTransport
+  private stream: TopicStream
+  private cursorStore: SequenceCursorStore
+  private maxQueueSize: number
+  private topics: Map<string, TopicState> = new Map()
+
+  constructor(transport: MessageTransport, options: TopicSubscriberOptions = {}) {
+    this.transport = transport
+    this.stream = options.stream || new TransportTopicStream(transport, options.pollInterval)
+    this.cursorStore = options.cursorStore || new InMemorySequenceCursorStore()
+    this.maxQueueSize = options.maxQueueSize || 100
+  }
+
+  /**
+   * Handle a topic's messages after its last processed sequence number
+   */
+  subscribe(topicId: string, handler: TopicMessageHandler): TopicSubscription {
+    let state = this.topics.get(topicId)
+    if (!state) {
+      state = {
+        handlers: new Set(),
+        queue: [],
+        queuedSequence: this.cursorStore.getSequence(topicId),
+        draining: false
+      }
+      this.topics.set(topicId, state)
+      this.openStream(topicId, state)
+    }
+    state.handlers.add(handler)
+
+    return {
+      topicId,
+      unsubscribe: () => {
+        state!.handlers.delete(handler)
+        if (state!.handlers.size === 0) {
+          state!.close?.()
+          this.topics.delete(topicId)
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop all streams
+   */
+  close(): void {
+    for (const state of this.topics.values()) {
+      state.close?.()
+    }
+    this.topics.clear()
+  }
+
+  private openStream(topicId: string, state: TopicState): void {
+    state.close = this.stream.open(topicId, state.queuedSequence, {
+      onMessage: message => {
+        if (message.sequence_number <= state.queuedSequence) return
+        state.queuedSequence = message.sequence_number
+        state.queue.push(message)
+
+        // Backpressure: pause the stream until the queue has drained
+        if (state.queue.length >= this.maxQueueSize && state.close) {
+          console.log(chalk.yellow(`⏸️  Pausing ${topicId}: ${state.queue.length} messages queued`))
+          state.close()
+          delete state.close
+        }
+        this.drain(topicId, state)
+      },
+      onError: error => {
+        console.error(chalk.red(`❌ Error streaming ${topicId}: ${error.message}`))
+      }
+    })
+  }
+
+  private async drain(topicId: string, state: TopicState): Promise<void> {
+    if (state.draining) return
+    state.draining = true
+
+    try {
+      while (state.queue.length > 0 && this.topics.get(topicId) === state) {
+        const message = await this.resolveContent(state.queue.shift()!)
+        for (const handler of Array.from(state.handlers)) {
+          try {
+            await handler(message)
+          } catch (error) {
+            console.error(chalk.red(`❌ Handler failed on ${topicId} #${message.sequence_number}: ${(error as Error).message}`))
+          }
+        }
+        this.cursorStore.setSequence(topicId, message.sequence_number)
+
+        if (!state.close && state.queue.length <= this.maxQueueSize / 2 && this.topics.get(topicId) === state) {
+          console.log(chalk.blue(`▶️  Resuming ${topicId}`))
+          this.openStream(topicId, state)
+        }
+      }
+    } finally {
+      state.draining = false
+    }
+  }
+
+  /**
+   * Replace an HCS-1 reference ("hcs://1/<topicId>") with its content when the transport can resolve it
+   */
+  private async resolveContent(message: TransportMessage): Promise<TransportMessage> {
+    const resolver = this.transport as Partial<ContentResolvingTransport>
+    if (!message.data?.startsWith('hcs://1/') || typeof resolver.getMessageContent !== 'function') {
+      return message
+    }
+    try {
+      return { ...message, data: await resolver.getMessageContent.call(this.transport, message.data) }
+    } catch (error) {
+      console.warn(chalk.yellow(`⚠️  Could not resolve ${message.data}: ${(error as Error).message}`))
+      return message
+    }
+  }
+}
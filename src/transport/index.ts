@@ -0,0 +1,31 @@
+/**
+ * Hedron Agent SDK - Transport Module
+ *
+ * Export message transport interfaces and implementations
+ */
+
+export type { MessageTransport, TransportMessage } from './MessageTransport'
+
+export { InMemoryTopicBus } from './InMemoryTopicBus'
+export type { InMemoryTopicBusOptions, TopicListener } from './InMemoryTopicBus'
+
+export { InMemorySequenceCursorStore, FileSequenceCursorStore, selectUnprocessedMessages } from './SequenceCursorStore'
+export type { SequenceCursorStore } from './SequenceCursorStore'
+
+export {
+  TopicSubscriber,
+  TransportTopicStream,
+  MirrorNodeRestTopicStream,
+  MirrorNodeGrpcTopicStream,
+  TOPIC_STREAM_KINDS,
+  createTopicStream,
+  toTransportMessage
+} from './TopicSubscriber'
+export type {
+  TopicMessageHandler,
+  TopicStream,
+  TopicStreamKind,
+  TopicStreamListener,
+  TopicSubscription,
+  TopicSubscriberOptions
+} from './TopicSubscriber'
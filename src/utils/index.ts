@@ -5,4 +5,5 @@
  */
 
 export { loadEnvIfNeeded, getEnv } from './env'
+export { MAX_TIMER_DELAY, timerDelay } from './timers'
 
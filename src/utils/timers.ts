@@ -0,0 +1,18 @@
+/**
+ * Timer utility functions
+ */
+
+/**
+ * Longest delay setTimeout supports; Node fires longer delays (~24.8 days) immediately
+ */
+export const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+/**
+ * Delay until `deadline` (ms since epoch) for setTimeout
+ *
+ * Capped at MAX_TIMER_DELAY, so a timer for a far-off deadline can fire
+ * early: callers re-arm it while `Date.now() < deadline`.
+ */
+export function timerDelay(deadline: number): number {
+  return Math.min(Math.max(0, deadline - Date.now()), MAX_TIMER_DELAY)
+}
@@ -0,0 +1,196 @@
+/**
+ * Mock EVM chain with an EIP-3009 USDC contract (No credentials required)
+ *
+ * In-process JSON-RPC provider for unit tests that settle x402 payments.
+ * It answers the calls ethers makes to sign, send and confirm a transaction,
+ * and executes `transferWithAuthorization` like USDC: the payer's EIP-712
+ * signature is checked, the authorization nonce is consumed and the amount
+ * moves from the payer to the recipient. Any other call reverts.
+ */
+
+import { ethers } from 'ethers'
+
+const USDC_ABI = [
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function balanceOf(address account) view returns (uint256)'
+]
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' }
+  ]
+}
+
+const hex = (value: bigint | number) => ethers.toQuantity(value)
+
+/**
+ * Transaction mined by the mock chain
+ */
+export interface MockTransaction {
+  hash: string
+  from: string // Sender paying gas
+  to: string
+  method: string | null // Called USDC function
+  status: 0 | 1
+}
+
+export class MockUsdcChain extends ethers.JsonRpcApiProvider {
+  readonly usdc: string
+  readonly transactions: MockTransaction[] = []
+  private chainId: number
+  private domain: ethers.TypedDataDomain
+  private usdcInterface = new ethers.Interface(USDC_ABI)
+  private balances: Map<string, bigint> = new Map()
+  private usedNonces: Set<string> = new Set()
+  private accountNonces: Map<string, number> = new Map()
+
+  /**
+   * @param usdc - USDC contract address
+   * @param domain - EIP-712 domain name and version of the contract
+   */
+  constructor(usdc: string, domain: { name: string; version: string }, chainId: number = 84532) {
+    super(new ethers.Network('mock', chainId), { staticNetwork: true, pollingInterval: 10, batchMaxCount: 1 })
+    this.usdc = usdc
+    this.chainId = chainId
+    this.domain = { ...domain, chainId, verifyingContract: usdc }
+  }
+
+  mint(account: string, amount: bigint): void {
+    this.balances.set(account.toLowerCase(), this.balanceOf(account) + amount)
+  }
+
+  balanceOf(account: string): bigint {
+    return this.balances.get(account.toLowerCase()) ?? 0n
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    return (Array.isArray(payload) ? payload : [payload]).map(request => {
+      try {
+        return { id: request.id, result: this.handle(request.method, request.params as any[]) }
+      } catch (error) {
+        return { id: request.id, error: { code: -32000, message: (error as Error).message } }
+      }
+    })
+  }
+
+  private handle(method: string, params: any[]): any {
+    switch (method) {
+      case 'eth_chainId':
+        return hex(this.chainId)
+      case 'eth_blockNumber':
+        return hex(this.transactions.length + 1)
+      case 'eth_getBlockByNumber':
+        return this.blockAt(this.transactions.length + 1)
+      case 'eth_gasPrice':
+      case 'eth_maxPriorityFeePerGas':
+        return hex(1_000_000_000)
+      case 'eth_estimateGas':
+        return hex(100_000)
+      case 'eth_getTransactionCount':
+        return hex(this.accountNonces.get(String(params[0]).toLowerCase()) ?? 0)
+      case 'eth_call':
+        return this.ethCall(params[0])
+      case 'eth_sendRawTransaction':
+        return this.sendRaw(params[0])
+      case 'eth_getTransactionReceipt':
+        return this.receiptOf(params[0])
+      default:
+        throw new Error(`Unsupported method ${method}`)
+    }
+  }
+
+  private ethCall(tx: { to: string; data: string }): string {
+    const call = this.usdcInterface.parseTransaction({ data: tx.data })
+    if (tx.to.toLowerCase() !== this.usdc.toLowerCase() || call?.name !== 'balanceOf') {
+      throw new Error('execution reverted')
+    }
+    return this.usdcInterface.encodeFunctionResult('balanceOf', [this.balanceOf(call.args[0])])
+  }
+
+  private sendRaw(raw: string): string {
+    const tx = ethers.Transaction.from(raw)
+    const from = tx.from!.toLowerCase()
+    this.accountNonces.set(from, (this.accountNonces.get(from) ?? 0) + 1)
+
+    let method: string | null = null
+    let status: 0 | 1 = 0
+    if (tx.to?.toLowerCase() === this.usdc.toLowerCase()) {
+      const call = this.usdcInterface.parseTransaction({ data: tx.data })
+      method = call?.name ?? null
+      if (call?.name === 'transferWithAuthorization') {
+        status = this.transferWithAuthorization(call.args) ? 1 : 0
+      }
+    }
+
+    this.transactions.push({ hash: tx.hash!, from: tx.from!, to: tx.to ?? '', method, status })
+    return tx.hash!
+  }
+
+  private transferWithAuthorization(args: ethers.Result): boolean {
+    const [from, to, value, validAfter, validBefore, nonce, v, r, s] = args
+    const now = Math.floor(Date.now() / 1000)
+    const nonceKey = `${String(from).toLowerCase()}:${nonce}`
+    if (now <= Number(validAfter) || now >= Number(validBefore) || this.usedNonces.has(nonceKey)) {
+      return false
+    }
+
+    const signer = ethers.verifyTypedData(this.domain, TRANSFER_WITH_AUTHORIZATION_TYPES, {
+      from, to, value, validAfter, validBefore, nonce
+    }, ethers.Signature.from({ v, r, s }))
+    if (signer.toLowerCase() !== String(from).toLowerCase() || this.balanceOf(from) < value) {
+      return false
+    }
+
+    this.usedNonces.add(nonceKey)
+    this.balances.set(String(from).toLowerCase(), this.balanceOf(from) - value)
+    this.mint(to, value)
+    return true
+  }
+
+  private receiptOf(hash: string): any {
+    const index = this.transactions.findIndex(tx => tx.hash === hash)
+    const tx = this.transactions[index]
+    if (!tx) {
+      return null
+    }
+    const block = this.blockAt(index + 2)
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: '0x0',
+      blockHash: block.hash,
+      blockNumber: block.number,
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      cumulativeGasUsed: hex(100_000),
+      gasUsed: hex(100_000),
+      effectiveGasPrice: hex(1_000_000_000),
+      logs: [],
+      logsBloom: ethers.toBeHex(0, 256),
+      status: hex(tx.status),
+      type: '0x2'
+    }
+  }
+
+  private blockAt(number: number): any {
+    return {
+      hash: ethers.toBeHex(number, 32),
+      parentHash: ethers.toBeHex(number - 1, 32),
+      number: hex(number),
+      timestamp: hex(Math.floor(Date.now() / 1000)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: hex(30_000_000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: hex(1_000_000_000),
+      transactions: []
+    }
+  }
+}
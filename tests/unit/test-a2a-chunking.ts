@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for A2A Message Chunking (No credentials required)
+ *
+ * Tests splitting large envelopes into chunks within the message size,
+ * out-of-order reassembly with hash checks, chunked signed request/response
+ * round trips and the HCS-1 inscription fallback on the in-memory bus
+ */
+
+import { PrivateKey } from '@hashgraph/sdk'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import {
+  A2AChunk,
+  A2AChunkAssembler,
+  InMemoryPayloadInscriber,
+  chunkContent,
+  contentHash
+} from '../../src/protocols/A2AChunking'
+import { isA2AChunk, isA2AInscriptionReference } from '../../src/protocols/ProtocolSchemas'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Negotiation history with multi-byte characters, well over one HCS message
+function largePayload(rounds: number) {
+  return {
+    type: 'negotiation_history',
+    rounds: Array.from({ length: rounds }, (_, round) => ({
+      round,
+      offer: 1000 - round * 7.5,
+      reasoning: `Round ${round}: the vendor's delivery window (≈ ${round + 2} days) justifies a counter-offer — «net 30» terms 🚚`
+    }))
+  }
+}
+
+async function testA2AChunking() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing A2A Message Chunking (No credentials required)\n'))
+
+  const protocols: A2AProtocol[] = []
+
+  try {
+    // Test 1: Chunks fit the message size and carry the header
+    console.log(chalk.blue('\n📝 Test 1: Splitting'))
+    const content = JSON.stringify(largePayload(40))
+    const chunks = chunkContent(content, 500, 'test-id')
+    const parsed = chunks.map(chunk => JSON.parse(chunk) as A2AChunk)
+    if (chunks.some(chunk => Buffer.byteLength(chunk) > 500)) throw new Error('Chunk exceeds the message size')
+    if (!parsed.every(isA2AChunk)) throw new Error('Chunk does not match A2AChunkSchema')
+    if (!parsed.every((chunk, index) => chunk.chunk.index === index && chunk.chunk.total === chunks.length && chunk.chunk.id === 'test-id')) {
+      throw new Error('Wrong chunk headers')
+    }
+    if (parsed[0]!.chunk.hash !== contentHash(content)) throw new Error('Wrong envelope hash')
+    let tooSmall = false
+    try {
+      chunkContent(content, 50)
+    } catch (error) {
+      tooSmall = (error as Error).message.includes('too small')
+    }
+    if (!tooSmall) throw new Error('Size below the header overhead accepted')
+    console.log(chalk.green(`✅ ${content.length}-character envelope split into ${chunks.length} chunks of at most 500 bytes`))
+
+    // Test 2: Reassembly in any order, with hash and sender checks
+    console.log(chalk.blue('\n📝 Test 2: Reassembly'))
+    const assembler = new A2AChunkAssembler()
+    const shuffled = [...parsed].reverse()
+    let assembled: string | null = null
+    for (const chunk of shuffled) {
+      if (assembled !== null) throw new Error('Envelope completed early')
+      assembled = assembler.add(chunk, '0.0.1001')
+    }
+    if (assembled !== content) throw new Error('Reassembled envelope differs')
+
+    const tampered = parsed.map((chunk, index) => index === 1 ? { ...chunk, data: Buffer.from('forged').toString('base64') } : chunk)
+    if (tampered.map(chunk => assembler.add(chunk, '0.0.1001')).some(result => result !== null)) throw new Error('Tampered envelope accepted')
+
+    const [head, ...rest] = parsed
+    assembler.add(head!, '0.0.6666')
+    if (rest.map(chunk => assembler.add(chunk, '0.0.1001')).some(result => result !== null)) throw new Error('Chunks of different senders mixed')
+    if (assembler.getPendingCount() !== 2) throw new Error(`Pending envelopes: ${assembler.getPendingCount()}`)
+
+    const expiring = new A2AChunkAssembler({ timeout: 20 })
+    expiring.add(head!, '0.0.1001')
+    await wait(40)
+    if (expiring.getPendingCount() !== 0) throw new Error('Incomplete envelope not expired')
+    console.log(chalk.green('✅ Out-of-order chunks reassembled; tampered, mixed and stale chunks dropped'))
+
+    // Test 3: Signed request and response exchanged as chunks
+    console.log(chalk.blue('\n📝 Test 3: Chunked request/response'))
+    const bus = new InMemoryTopicBus()
+    const buyerTopicId = bus.createTopic()
+    const vendorTopicId = bus.createTopic()
+    const buyerKey = PrivateKey.generateED25519()
+    const vendorKey = PrivateKey.generateED25519()
+    const keys: Record<string, PrivateKey> = { '0.0.1001': buyerKey, '0.0.1002': vendorKey }
+    const keyResolver = { resolvePublicKey: (agentId: string) => keys[agentId]?.publicKey ?? null }
+
+    const buyer = new A2AProtocol(bus.forPayer('0.0.1001'), '0.0.1001', ['procurement'], undefined, undefined, {
+      inboundTopicId: buyerTopicId, pollInterval: 20, privateKey: buyerKey, keyResolver, strictSignatures: true, maxMessageSize: 600
+    })
+    const vendor = new A2AProtocol(bus.forPayer('0.0.1002'), '0.0.1002', ['quotes'], undefined, undefined, {
+      inboundTopicId: vendorTopicId, pollInterval: 20, privateKey: vendorKey, keyResolver, strictSignatures: true, maxMessageSize: 600
+    })
+    protocols.push(buyer, vendor)
+    vendor.onRequest('negotiation_history', async payload => ({
+      type: 'analysis',
+      rounds: payload.rounds.length,
+      reasoning: largePayload(30).rounds.map(round => round.reasoning)
+    }))
+    await vendor.startListening(vendorTopicId)
+
+    const history = largePayload(25)
+    const response = await buyer.request('0.0.1002', history, { topicId: vendorTopicId, timeout: 5000 })
+    if (response.payload.rounds !== 25 || response.payload.reasoning.length !== 30) throw new Error('Wrong response payload')
+
+    const requestMessages = (await bus.getMessages(vendorTopicId)).messages
+    const responseMessages = (await bus.getMessages(buyerTopicId)).messages
+    if (requestMessages.length < 2 || responseMessages.length < 2) throw new Error('Large envelopes were not chunked')
+    if ([...requestMessages, ...responseMessages].some(message => Buffer.byteLength(message.data!) > 600)) {
+      throw new Error('Topic message exceeds the configured size')
+    }
+    console.log(chalk.green(`✅ Request in ${requestMessages.length} chunks and response in ${responseMessages.length} chunks verified after reassembly`))
+
+    // Test 4: Small envelopes are still sent whole
+    console.log(chalk.blue('\n📝 Test 4: Small envelopes'))
+    const before = (await bus.getMessages(vendorTopicId)).messages.length
+    await buyer.sendMessage(vendorTopicId, '0.0.1002', 'notification', { type: 'ping' })
+    const ping = (await bus.getMessages(vendorTopicId)).messages.slice(before)
+    if (ping.length !== 1 || JSON.parse(ping[0]!.data!).payload.type !== 'ping') throw new Error('Small envelope not sent as one message')
+    console.log(chalk.green('✅ Small envelope sent as a single message'))
+
+    // Test 5: Very large envelopes fall back to an HCS-1 inscription
+    console.log(chalk.blue('\n📝 Test 5: Inscription fallback'))
+    const inscriber = new InMemoryPayloadInscriber()
+    const archiveTopicId = bus.createTopic()
+    const sender = new A2AProtocol(bus.forPayer('0.0.1001'), '0.0.1001', ['procurement'], undefined, undefined, {
+      maxMessageSize: 600, maxChunks: 5, inscriber
+    })
+    const receiver = new A2AProtocol(bus.forPayer('0.0.1002'), '0.0.1002', ['quotes'], undefined, undefined, { inscriber })
+    protocols.push(sender, receiver)
+    await sender.sendMessage(archiveTopicId, '0.0.1002', 'notification', largePayload(200))
+    const archived = (await bus.getMessages(archiveTopicId)).messages
+    const reference = JSON.parse(archived[0]!.data!)
+    if (archived.length !== 1 || !isA2AInscriptionReference(reference)) throw new Error('Envelope was not inscribed')
+    const resolved = await receiver.parseIncoming(archived[0]!.data!, archived[0]!.payer)
+    if (resolved?.payload.rounds.length !== 200) throw new Error('Inscribed envelope not resolved')
+
+    const forged = JSON.stringify({ ...reference, hash: contentHash('forged') })
+    if (await receiver.parseIncoming(forged)) throw new Error('Inscription with a wrong hash accepted')
+    const withoutInscriber = new A2AProtocol(bus, '0.0.1002', ['quotes'])
+    if (await withoutInscriber.parseIncoming(archived[0]!.data!)) throw new Error('Reference resolved without an inscriber')
+    console.log(chalk.green(`✅ ${reference.size}-byte envelope inscribed as ${reference.reference} and resolved`))
+
+    console.log(chalk.bold.green('\n✅ All A2A Chunking Unit Tests Passed!\n'))
+    protocols.forEach(protocol => protocol.stopListening())
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    protocols.forEach(protocol => protocol.stopListening())
+    process.exit(1)
+  }
+}
+
+// Run tests
+testA2AChunking()
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for A2A Request/Response (No credentials required)
+ *
+ * Tests correlated request/response calls between two agents over the in-memory bus
+ * and that listeners resume from their cursor store after a restart
+ */
+
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { InMemorySequenceCursorStore } from '../../src/transport/SequenceCursorStore'
+import chalk from 'chalk'
+
+async function expectRejection(promise: Promise<unknown>, fragment: string): Promise<void> {
+  try {
+    await promise
+  } catch (error) {
+    if (!(error as Error).message.includes(fragment)) {
+      throw new Error(`Unexpected error: ${(error as Error).message}`)
+    }
+    return
+  }
+  throw new Error(`Expected rejection containing "${fragment}"`)
+}
+
+async function testA2ARequest() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing A2A Request/Response (No credentials required)\n'))
+
+  const bus = new InMemoryTopicBus()
+  const buyerTopicId = bus.createTopic()
+  const vendorTopicId = bus.createTopic()
+
+  const buyer = new A2AProtocol(bus, 'buyer-agent', ['procurement'], undefined, undefined, {
+    inboundTopicId: buyerTopicId,
+    pollInterval: 50,
+    agentTopics: { 'vendor-agent': vendorTopicId }
+  })
+  const vendor = new A2AProtocol(bus, 'vendor-agent', ['quotes'], undefined, undefined, {
+    inboundTopicId: vendorTopicId,
+    pollInterval: 50
+  })
+
+  try {
+    vendor.onRequest('quote_request', async payload => ({
+      type: 'quote',
+      sku: payload.sku,
+      unitPrice: 12.5
+    }))
+    vendor.onRequest('failing_request', async () => {
+      throw new Error('Out of stock')
+    })
+    await vendor.startListening(vendorTopicId)
+
+    // Test 1: Request resolves with the correlated response
+    console.log(chalk.blue('\n📝 Test 1: Successful request'))
+    const response = await buyer.request('vendor-agent', { type: 'quote_request', sku: 'WIDGET-1' }, { timeout: 5000 })
+    if (response.messageType !== 'response') throw new Error('Wrong message type')
+    if (response.payload.unitPrice !== 12.5 || response.payload.sku !== 'WIDGET-1') throw new Error('Wrong response payload')
+    if (!response.correlationId) throw new Error('Response missing correlation ID')
+    console.log(chalk.green(`✅ Response ${response.correlationId} received`))
+
+    // Test 2: Concurrent requests are matched by correlation ID
+    console.log(chalk.blue('\n📝 Test 2: Concurrent requests'))
+    const [first, second] = await Promise.all([
+      buyer.request('vendor-agent', { type: 'quote_request', sku: 'A' }),
+      buyer.request('vendor-agent', { type: 'quote_request', sku: 'B' })
+    ])
+    if (first.payload.sku !== 'A' || second.payload.sku !== 'B') throw new Error('Responses were mismatched')
+    console.log(chalk.green(`✅ Concurrent responses matched`))
+
+    // Test 3: Handler errors reject the request
+    console.log(chalk.blue('\n📝 Test 3: Error payload'))
+    await expectRejection(
+      buyer.request('vendor-agent', { type: 'failing_request' }, { timeout: 5000 }),
+      'Out of stock'
+    )
+    console.log(chalk.green(`✅ Error payload rejected the request`))
+
+    // Test 4: Unhandled requests time out
+    console.log(chalk.blue('\n📝 Test 4: Timeout'))
+    await expectRejection(
+      buyer.request('vendor-agent', { type: 'unknown_request' }, { timeout: 300 }),
+      'timed out'
+    )
+    console.log(chalk.green(`✅ Request timed out`))
+
+    // Test 5: A reply topic is required
+    console.log(chalk.blue('\n📝 Test 5: Missing reply topic'))
+    const noInbox = new A2AProtocol(bus, 'no-inbox-agent', [])
+    await expectRejection(noInbox.request('vendor-agent', { type: 'quote_request' }), 'No reply topic')
+    console.log(chalk.green(`✅ Missing reply topic rejected`))
+
+    // Test 6: The receiver's topic comes from the environment or options
+    console.log(chalk.blue('\n📝 Test 6: Receiver topic lookup'))
+    const envBuyer = new A2AProtocol(bus, 'env-buyer', [], undefined, undefined, { inboundTopicId: bus.createTopic(), pollInterval: 50 })
+    process.env['VENDOR-AGENT_TOPIC_ID'] = vendorTopicId
+    const fromEnv = await envBuyer.request('vendor-agent', { type: 'quote_request', sku: 'ENV' }, { timeout: 5000 })
+    if (fromEnv.payload.sku !== 'ENV') throw new Error('Request to the environment topic failed')
+    const explicit = await noInbox.request('vendor-agent', { type: 'quote_request', sku: 'OPT' }, { topicId: vendorTopicId, replyTopicId: buyerTopicId, timeout: 5000 })
+    if (explicit.payload.sku !== 'OPT') throw new Error('Request to the topicId option failed')
+    await expectRejection(buyer.request('unknown-agent', { type: 'quote_request' }), 'Cannot find topic ID for agent unknown-agent')
+    envBuyer.stopListening()
+    noInbox.stopListening()
+    console.log(chalk.green(`✅ Receiver topic resolved from the environment and the topicId option`))
+
+    // Test 7: Requests sent while the receiver is down are handled after a restart
+    console.log(chalk.blue('\n📝 Test 7: Resume after restart'))
+    const restartTopicId = bus.createTopic()
+    const cursors = new InMemorySequenceCursorStore()
+    const startVendor = async () => {
+      const instance = new A2AProtocol(bus, 'vendor-agent', ['quotes'], undefined, undefined, { pollInterval: 50, cursorStore: cursors })
+      instance.onRequest('quote_request', async payload => ({ type: 'quote', sku: payload.sku }))
+      await instance.startListening(restartTopicId)
+      return instance
+    }
+    const before = await startVendor()
+    const live = await buyer.request('vendor-agent', { type: 'quote_request', sku: 'LIVE' }, { topicId: restartTopicId, timeout: 5000 })
+    if (live.payload.sku !== 'LIVE') throw new Error('Request before the restart failed')
+    before.stopListening()
+
+    const whileDown = buyer.request('vendor-agent', { type: 'quote_request', sku: 'DOWN' }, { topicId: restartTopicId, timeout: 5000 })
+    await new Promise(resolve => setTimeout(resolve, 100))
+    const after = await startVendor()
+    if ((await whileDown).payload.sku !== 'DOWN') throw new Error('Request sent while down was not answered')
+    if (cursors.getSequence(restartTopicId) !== 2) throw new Error(`Cursor at ${cursors.getSequence(restartTopicId)}, expected 2`)
+    after.stopListening()
+    console.log(chalk.green(`✅ Restarted listener resumed from its cursor`))
+
+    buyer.stopListening()
+    vendor.stopListening()
+
+    console.log(chalk.bold.green('\n✅ All A2A Request/Response Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testA2ARequest()
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for A2A Message Signing (No credentials required)
+ *
+ * Tests envelope signing, verification and strict-mode rejection with
+ * locally generated ED25519 and ECDSA keys
+ */
+
+import { PrivateKey } from '@hashgraph/sdk'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2AMessageSigner, A2AKeyRing } from '../../src/protocols/A2AMessageSigner'
+import { AgentRegistry } from '../../src/agents/AgentRegistry'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+async function testA2ASigning() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing A2A Message Signing (No credentials required)\n'))
+
+  try {
+    const bus = new InMemoryTopicBus()
+    const senderKey = PrivateKey.generateED25519()
+    const ecdsaKey = PrivateKey.generateECDSA()
+    const attackerKey = PrivateKey.generateED25519()
+
+    const keyRing = new A2AKeyRing()
+    keyRing.addKey('sender-agent', senderKey.publicKey)
+    keyRing.addKey('ecdsa-agent', ecdsaKey.publicKey.toStringDer())
+
+    const sender = new A2AProtocol(bus, 'sender-agent', ['payment'], undefined, undefined, { privateKey: senderKey })
+    const receiver = new A2AProtocol(bus, 'receiver-agent', ['payment'], undefined, undefined, {
+      keyResolver: keyRing,
+      strictSignatures: true
+    })
+
+    // Test 1: Signed message verifies
+    console.log(chalk.blue('\n📝 Test 1: Signed ED25519 message'))
+    const message = sender.createMessage('receiver-agent', 'request', { type: 'payment_request', amount: '10' })
+    if (!message.signature) throw new Error('Message was not signed')
+    if (!receiver.parseMessage(JSON.stringify(message))) throw new Error('Valid signature rejected')
+    console.log(chalk.green(`✅ Signature verified`))
+
+    // Test 2: Canonical form ignores key order
+    console.log(chalk.blue('\n📝 Test 2: Canonical serialization'))
+    const reordered = Object.fromEntries(Object.entries(message).reverse()) as typeof message
+    if (A2AMessageSigner.canonicalize(reordered) !== A2AMessageSigner.canonicalize(message)) {
+      throw new Error('Canonical form depends on key order')
+    }
+    console.log(chalk.green(`✅ Canonical form is key-order independent`))
+
+    // Test 3: Tampered payload is rejected
+    console.log(chalk.blue('\n📝 Test 3: Tampered payload'))
+    const tampered = { ...message, payload: { ...message.payload, amount: '10000' } }
+    if (receiver.parseMessage(JSON.stringify(tampered))) throw new Error('Tampered message accepted')
+    console.log(chalk.green(`✅ Tampered message rejected`))
+
+    // Test 4: Forged sender is rejected
+    console.log(chalk.blue('\n📝 Test 4: Forged sender'))
+    const forger = new A2AProtocol(bus, 'sender-agent', ['payment'], undefined, undefined, { privateKey: attackerKey })
+    const forged = forger.createMessage('receiver-agent', 'request', { type: 'payment_request' })
+    if (receiver.parseMessage(JSON.stringify(forged))) throw new Error('Forged message accepted')
+    console.log(chalk.green(`✅ Forged message rejected`))
+
+    // Test 5: Strict mode rejects unsigned and unknown senders
+    console.log(chalk.blue('\n📝 Test 5: Strict mode'))
+    const unsignedSender = new A2AProtocol(bus, 'sender-agent', ['payment'])
+    const unsigned = unsignedSender.createMessage('receiver-agent', 'request', {})
+    if (receiver.parseMessage(JSON.stringify(unsigned))) throw new Error('Unsigned message accepted in strict mode')
+
+    const stranger = new A2AProtocol(bus, 'unknown-agent', [], undefined, undefined, { privateKey: attackerKey })
+    if (receiver.parseMessage(JSON.stringify(stranger.createMessage('receiver-agent', 'request', {})))) {
+      throw new Error('Unknown sender accepted in strict mode')
+    }
+
+    const lenient = new A2AProtocol(bus, 'receiver-agent', [])
+    if (!lenient.parseMessage(JSON.stringify(unsigned))) throw new Error('Unsigned message rejected in lenient mode')
+    console.log(chalk.green(`✅ Strict and lenient modes behave as expected`))
+
+    // Test 6: ECDSA keys and registry fallback
+    console.log(chalk.blue('\n📝 Test 6: ECDSA signatures via registry'))
+    const registry = new AgentRegistry()
+    registry.registerAgent({
+      agentId: 'registry-agent',
+      agentName: 'RegistryAgent',
+      agentType: 'settlement',
+      capabilities: [],
+      supportedMessageTypes: [],
+      topicId: '0.0.1',
+      status: 'active',
+      publicKey: ecdsaKey.publicKey.toStringDer()
+    })
+    const registryReceiver = new A2AProtocol(bus, 'receiver-agent', [], undefined, undefined, {
+      keyResolver: new A2AKeyRing(registry),
+      strictSignatures: true
+    })
+    const ecdsaSender = new A2AProtocol(bus, 'registry-agent', [], undefined, undefined, { privateKey: ecdsaKey })
+    const ecdsaMessage = ecdsaSender.createMessage('receiver-agent', 'notification', { event: 'done' })
+    if (!registryReceiver.parseMessage(JSON.stringify(ecdsaMessage))) throw new Error('ECDSA signature rejected')
+    console.log(chalk.green(`✅ ECDSA signature verified with registry key`))
+
+    // Test 7: Key loaded from HCS-11 profile
+    console.log(chalk.blue('\n📝 Test 7: HCS-11 profile key'))
+    const profileRing = new A2AKeyRing()
+    await profileRing.loadFromProfile('sender-agent', {
+      getAgentProfile: async () => ({ success: true, profile: { properties: { publicKey: senderKey.publicKey.toStringDer() } } })
+    })
+    if (!A2AMessageSigner.verify(message, profileRing.resolvePublicKey('sender-agent')!)) {
+      throw new Error('Profile key did not verify signature')
+    }
+    console.log(chalk.green(`✅ Profile key verified signature`))
+
+    console.log(chalk.bold.green('\n✅ All A2A Signing Unit Tests Passed!\n'))
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testA2ASigning()
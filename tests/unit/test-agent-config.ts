@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for Agent Configuration (No credentials required)
+ *
+ * Tests loading typed agent and facilitator configs from the environment and
+ * JSON/YAML files, reporting every problem in one error, and creating agents
+ * from config objects without any environment variables
+ */
+
+import { PrivateKey } from '@hashgraph/sdk'
+import { loadConfig, loadAgentConfig, validateConfig, SettlementAgentConfig } from '../../src/config/AgentConfig'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { InMemorySequenceCursorStore } from '../../src/transport/SequenceCursorStore'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import chalk from 'chalk'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// Agents must not depend on these once they are given a config
+const CONFIG_KEYS = [
+  'HEDRON_CONFIG', 'HEDERA_NETWORK', 'HEDERA_ACCOUNT_ID', 'HEDERA_PRIVATE_KEY', 'PAYMENT_NETWORK', 'BASE_RPC_URL',
+  'SETTLEMENT_WALLET_PRIVATE_KEY', 'HEDERA_MERCHANT_ACCOUNT_ID', 'MERCHANT_WALLET_ADDRESS', 'USDC_CONTRACT',
+  'USE_HCS10_CONNECTIONS', 'AGENT_STATE_DIR',
+  ...['ANALYZER', 'VERIFIER', 'SETTLEMENT'].flatMap(prefix => [
+    `${prefix}_AGENT_ID`, `${prefix}_PRIVATE_KEY`, `${prefix}_TOPIC_ID`, `${prefix}_HEDERA_NETWORK`
+  ])
+]
+for (const key of CONFIG_KEYS) {
+  delete process.env[key]
+}
+
+const WALLET_KEY = `0x${'11'.repeat(32)}`
+const operatorKey = PrivateKey.generateED25519().toStringDer()
+
+async function testAgentConfig() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Agent Configuration (No credentials required)\n'))
+
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-config-'))
+
+  try {
+    // Test 1: Environment variables become typed configs
+    console.log(chalk.blue('\n📝 Test 1: Config from environment'))
+    const env = {
+      HEDERA_NETWORK: 'mainnet',
+      SETTLEMENT_HEDERA_NETWORK: 'local',
+      HEDERA_ACCOUNT_ID: '0.0.2',
+      HEDERA_PRIVATE_KEY: operatorKey,
+      ANALYZER_AGENT_ID: '0.0.1001',
+      ANALYZER_PRIVATE_KEY: 'placeholder-key-for-analyzer',
+      ANALYZER_X402_BUDGET: '{"hedera-testnet":{"maxTotal":"5"}}',
+      SETTLEMENT_AGENT_ID: '0.0.1003',
+      SETTLEMENT_PRIVATE_KEY: operatorKey,
+      SETTLEMENT_TOPIC_ID: '0.0.5003',
+      BASE_RPC_URL: 'http://127.0.0.1:8545',
+      SETTLEMENT_WALLET_PRIVATE_KEY: WALLET_KEY,
+      PAYMENT_NETWORK: 'hedera-testnet',
+      USE_HCS10_CONNECTIONS: 'true',
+      HITL_ENABLED: 'true',
+      HITL_PAYMENT_THRESHOLD: '250',
+      HBAR_PAYMENT_AMOUNT: '2.5'
+    }
+    const fromEnv = loadConfig(['analyzer', 'settlement'], { env })
+    if (fromEnv.analyzer.network !== 'mainnet' || fromEnv.settlement.network !== 'local') throw new Error('Wrong agent networks')
+    if (fromEnv.analyzer.x402Budget?.['hedera-testnet']?.maxTotal !== '5') throw new Error('Budget JSON not parsed')
+    if (fromEnv.settlement.useConnections !== true || fromEnv.settlement.hitl?.paymentThreshold !== 250 || fromEnv.settlement.hbarPaymentAmount !== 2.5) {
+      throw new Error(`Unexpected settlement config: ${JSON.stringify(fromEnv.settlement)}`)
+    }
+    if (fromEnv.settlement.payment.operator?.accountId !== '0.0.2' || fromEnv.settlement.topicId !== '0.0.5003') throw new Error('Payment operator not loaded')
+    console.log(chalk.green('✅ analyzer and settlement configs loaded'))
+
+    // Test 2: Every problem is reported at once
+    console.log(chalk.blue('\n📝 Test 2: All problems reported together'))
+    let message = ''
+    try {
+      loadConfig(['verifier', 'settlement'], {
+        env: { VERIFIER_AGENT_ID: 'verifier', SETTLEMENT_PRIVATE_KEY: 'placeholder-key-for-settlement', PAYMENT_NETWORK: 'hedera-testnet', HITL_PAYMENT_THRESHOLD: 'lots' }
+      })
+    } catch (error) {
+      message = (error as Error).message
+    }
+    const expected = [
+      'verifier.agentId: Must be a Hedera entity ID (shard.realm.num) (set VERIFIER_AGENT_ID)',
+      'verifier.privateKey',
+      'settlement.agentId',
+      'settlement.operator: Required when privateKey is a placeholder',
+      'settlement.payment.rpcUrl',
+      'settlement.payment.walletPrivateKey',
+      'settlement.payment.operator: Required to pay on a Hedera network',
+      'settlement.hitl.paymentThreshold'
+    ]
+    const missing = expected.filter(problem => !message.includes(problem))
+    if (missing.length > 0) throw new Error(`Problems not reported: ${missing.join(', ')}\n${message}`)
+    console.log(chalk.green(`✅ ${message.split('\n').length - 1} problems in one error`))
+
+    // Test 3: JSON and YAML files, overridden by the environment
+    console.log(chalk.blue('\n📝 Test 3: Config files'))
+    const jsonFile = path.join(stateDir, 'hedron.json')
+    fs.writeFileSync(jsonFile, JSON.stringify({
+      network: 'previewnet',
+      stateDir,
+      operator: { accountId: '0.0.2', privateKey: operatorKey },
+      payment: { network: 'hedera-local', rpcUrl: 'http://127.0.0.1:8545', walletPrivateKey: WALLET_KEY },
+      verifier: { agentId: '0.0.1002', privateKey: operatorKey, settlementTopicId: '0.0.5003' },
+      facilitator: { payment: { hederaMerchantAccountId: '0.0.5005' } }
+    }))
+    const fromJson = loadConfig(['verifier', 'facilitator'], { file: jsonFile, env: { VERIFIER_TOPIC_ID: '0.0.5002' } })
+    if (fromJson.verifier.network !== 'previewnet' || fromJson.verifier.topicId !== '0.0.5002' || fromJson.verifier.stateDir !== stateDir) {
+      throw new Error(`Unexpected verifier config: ${JSON.stringify(fromJson.verifier)}`)
+    }
+    if (fromJson.facilitator.payment.operator?.accountId !== '0.0.2' || fromJson.facilitator.payment.hederaMerchantAccountId !== '0.0.5005') {
+      throw new Error(`Unexpected facilitator config: ${JSON.stringify(fromJson.facilitator)}`)
+    }
+
+    const yamlFile = path.join(stateDir, 'hedron.yaml')
+    fs.writeFileSync(yamlFile, [
+      'network: local',
+      'analyzer:',
+      '  agentId: 0.0.1001',
+      `  privateKey: "${operatorKey}"`,
+      '  x402Budget:',
+      '    base-sepolia: { maxPerPayment: "0.05" }'
+    ].join('\n'))
+    const fromYaml = loadAgentConfig('analyzer', { env: { HEDRON_CONFIG: yamlFile, ANALYZER_HEDERA_NETWORK: 'testnet' } })
+    if (fromYaml.network !== 'testnet' || fromYaml.x402Budget?.['base-sepolia']?.maxPerPayment !== '0.05') {
+      throw new Error(`Unexpected YAML config: ${JSON.stringify(fromYaml)}`)
+    }
+    console.log(chalk.green('✅ JSON and YAML files merged with environment overrides'))
+
+    // Test 4: Agents and the facilitator run from config objects alone
+    console.log(chalk.blue('\n📝 Test 4: Programmatic agents'))
+    const { AnalyzerAgent } = await import('../../src/agents/AnalyzerAgent')
+    const { VerifierAgent } = await import('../../src/agents/VerifierAgent')
+    const { SettlementAgent } = await import('../../src/agents/SettlementAgent')
+    const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+    for (const key of CONFIG_KEYS) {
+      delete process.env[key] // dotenv may have loaded a .env file
+    }
+
+    const bus = new InMemoryTopicBus()
+    const settlementConfig: SettlementAgentConfig = {
+      agentId: '0.0.1003',
+      privateKey: operatorKey,
+      topicId: bus.createTopic(),
+      stateDir,
+      payment: { network: 'base-sepolia', rpcUrl: 'http://127.0.0.1:8545', walletPrivateKey: WALLET_KEY, merchantWalletAddress: '0x0000000000000000000000000000000000000001' }
+    }
+    new AnalyzerAgent(bus.forPayer('0.0.1001'), { agentId: '0.0.1001', privateKey: operatorKey, network: 'local' })
+    const verifier = new VerifierAgent(bus.forPayer('0.0.1002'), new InMemorySequenceCursorStore(), {
+      agentId: '0.0.1002',
+      privateKey: operatorKey,
+      settlementTopicId: settlementConfig.topicId!
+    })
+    new SettlementAgent(bus.forPayer('0.0.1003'), new InMemorySequenceCursorStore(), new InMemorySettlementLedger(), settlementConfig)
+
+    let topicError = ''
+    try {
+      await verifier.init()
+    } catch (error) {
+      topicError = (error as Error).message
+    }
+    if (!topicError.includes('VERIFIER_TOPIC_ID')) throw new Error(`Missing topic not reported: ${topicError}`)
+
+    const facilitator = new X402FacilitatorServer(new InMemorySettlementLedger(), new InMemoryNonceStore(), undefined, { payment: settlementConfig.payment })
+    const requirements = facilitator.createPaymentRequirements({ amount: '1', resource: '/premium' })
+    if (requirements.payTo !== '0x0000000000000000000000000000000000000001' || requirements.network !== 'base-sepolia') {
+      throw new Error(`Unexpected requirements: ${JSON.stringify(requirements)}`)
+    }
+
+    let rejected = ''
+    try {
+      new SettlementAgent(bus, undefined, undefined, { ...settlementConfig, payment: { ...settlementConfig.payment, network: 'hedera-testnet' } })
+    } catch (error) {
+      rejected = (error as Error).message
+    }
+    if (!rejected.includes('settlement.payment.operator')) throw new Error(`Invalid config accepted: ${rejected}`)
+
+    let unconfigured = ''
+    try {
+      new AnalyzerAgent(bus)
+    } catch (error) {
+      unconfigured = (error as Error).message
+    }
+    if (!unconfigured.includes('ANALYZER_AGENT_ID') || !unconfigured.includes('ANALYZER_PRIVATE_KEY')) throw new Error(`Unexpected error: ${unconfigured}`)
+    if (validateConfig('verifier', { agentId: '0.0.1002', privateKey: operatorKey, network: 'devnet' }).valid) throw new Error('Unknown network accepted')
+    console.log(chalk.green('✅ Agents and facilitator created without environment variables'))
+
+    // Test 5: A2A falls back to configured agent topics
+    console.log(chalk.blue('\n📝 Test 5: Configured agent topics'))
+    const receiverTopic = bus.createTopic()
+    const noConnections = { getConnection: () => undefined } as any
+    const a2a = new A2AProtocol(bus, '0.0.1001', ['payment'], noConnections, undefined, { agentTopics: { '0.0.1003': receiverTopic } })
+    await a2a.sendViaConnection('0.0.1003', 'notification', { hello: true })
+    const delivered = (await bus.getMessages(receiverTopic)).messages
+    if (delivered.length !== 1) throw new Error('Message not sent to the configured topic')
+    console.log(chalk.green(`✅ Message sent to ${receiverTopic}`))
+
+    console.log(chalk.bold.green('\n✅ All Agent Configuration Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testAgentConfig()
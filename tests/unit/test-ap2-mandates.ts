@@ -0,0 +1,159 @@
+/**
+ * Unit Tests for AP2 Mandates (No credentials required)
+ *
+ * Tests intent and cart mandate signing, verification, spending limit
+ * enforcement and persisting reservations across restarts
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PrivateKey } from '@hashgraph/sdk'
+import { A2AKeyRing } from '../../src/protocols/A2AMessageSigner'
+import { AP2Protocol, AP2PaymentRequest } from '../../src/protocols/AP2Protocol'
+import { AP2Mandates, AP2MandateRegistry } from '../../src/protocols/AP2Mandates'
+import { FileMandateStore } from '../../src/protocols/MandateStore'
+import chalk from 'chalk'
+
+function expectInvalid(result: { valid: boolean; error?: string }, fragment: string): void {
+  if (result.valid) {
+    throw new Error(`Expected failure containing "${fragment}"`)
+  }
+  if (!result.error?.includes(fragment)) {
+    throw new Error(`Unexpected error: ${result.error}`)
+  }
+}
+
+async function testAP2Mandates() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing AP2 Mandates (No credentials required)\n'))
+
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-mandates-'))
+
+  try {
+    const userKey = PrivateKey.generateED25519()
+    const otherKey = PrivateKey.generateECDSA()
+    const keyRing = new A2AKeyRing()
+    keyRing.addKey('0.0.1001', userKey.publicKey)
+    const registry = new AP2MandateRegistry(keyRing)
+    const expiry = Date.now() + 3600000
+
+    const payment = (paymentId: string, amount: string, recipient: string, mandateId?: string): AP2PaymentRequest => ({
+      ...AP2Protocol.createPaymentRequest(paymentId, amount, 'USDC', recipient, 'base-sepolia', {
+        purpose: 'procurement',
+        reference: paymentId
+      }),
+      ...(mandateId !== undefined && { mandateId })
+    })
+
+    // Test 1: Signing and verification
+    console.log(chalk.blue('\n📝 Test 1: Signing and verification'))
+    const intent = AP2Mandates.sign(AP2Mandates.createIntentMandate({
+      userId: '0.0.1001',
+      agentId: 'settlement-agent',
+      description: 'Office supplies up to 100 USDC',
+      maxAmount: '100',
+      currency: 'USDC',
+      merchants: ['0.0.2001', '0.0.2002'],
+      expiry
+    }), userKey)
+    if (!AP2Mandates.verify(intent, userKey.publicKey)) throw new Error('Signed mandate did not verify')
+    if (AP2Mandates.verify({ ...intent, maxAmount: '1000' }, userKey.publicKey)) throw new Error('Tampered mandate verified')
+    expectInvalid(registry.addMandate(AP2Mandates.sign(intent, otherKey)), 'Invalid signature')
+    expectInvalid(registry.addMandate({ ...intent, signature: undefined as any }), 'Invalid signature')
+    expectInvalid(registry.addMandate({ ...AP2Mandates.sign(intent, otherKey), userId: '0.0.9999' }), 'No public key')
+    if (!registry.addMandate(intent).valid) throw new Error('Valid mandate rejected')
+    console.log(chalk.green(`✅ Only mandates signed by the user are registered`))
+
+    // Test 2: Intent mandate limits
+    console.log(chalk.blue('\n📝 Test 2: Intent mandate limits'))
+    if (!registry.authorize(payment('pay-1', '60', '0.0.2001', intent.mandateId), 'settlement-agent').valid) throw new Error('Payment within mandate refused')
+    if (!registry.authorize(payment('pay-1', '60', '0.0.2001', intent.mandateId), 'settlement-agent').valid) throw new Error('Re-authorization refused')
+    expectInvalid(registry.authorize(payment('pay-1', '90', '0.0.2001', intent.mandateId), 'settlement-agent'), 'already authorized for a different')
+    expectInvalid(registry.authorize(payment('pay-1', '60', '0.0.2002', intent.mandateId), 'settlement-agent'), 'already authorized for a different')
+    expectInvalid(registry.authorize(payment('pay-1', '60', '0.0.2001'), 'settlement-agent'), 'already authorized for a different')
+    expectInvalid(registry.authorize(payment('pay-2', '40.01', '0.0.2002', intent.mandateId), 'settlement-agent'), 'exceeds the 40 USDC remaining')
+    expectInvalid(registry.authorize(payment('pay-3', '10', '0.0.6666', intent.mandateId), 'settlement-agent'), 'not allowed')
+    expectInvalid(registry.authorize(payment('pay-4', '10', '0.0.2001', intent.mandateId), 'rogue-agent'), 'does not authorize agent')
+    expectInvalid(registry.authorize(payment('pay-5', '10', '0.0.2001'), 'settlement-agent'), 'has no mandate')
+    expectInvalid(registry.authorize({ ...payment('pay-6', '10', '0.0.2001', intent.mandateId), currency: 'HBAR' }, 'settlement-agent'), 'is in USDC')
+    registry.release('pay-1')
+    if (registry.getRemaining(intent.mandateId) !== '100') throw new Error('Release did not restore the limit')
+    if (!registry.authorize(payment('pay-7', '40.01', '0.0.2002', intent.mandateId), 'settlement-agent').valid) throw new Error('Released amount not available')
+    console.log(chalk.green(`✅ Remaining on intent: ${registry.getRemaining(intent.mandateId)} USDC`))
+
+    // Test 3: Cart mandates under the intent
+    console.log(chalk.blue('\n📝 Test 3: Cart mandates'))
+    const cart = AP2Mandates.sign(AP2Mandates.createCartMandate({
+      userId: '0.0.1001',
+      agentId: 'settlement-agent',
+      merchant: '0.0.2001',
+      items: [
+        { sku: 'PAPER-A4', description: 'A4 paper', quantity: 3, unitPrice: '4.25' },
+        { sku: 'PEN-BLK', description: 'Black pens', quantity: 10, unitPrice: '0.5' }
+      ],
+      currency: 'USDC',
+      expiry,
+      intentMandateId: intent.mandateId
+    }), userKey)
+    if (cart.total !== '17.75') throw new Error(`Wrong cart total: ${cart.total}`)
+    expectInvalid(registry.addMandate(AP2Mandates.sign({ ...cart, mandateId: 'cart-bad', total: '1' }, userKey)), 'does not match its items')
+    if (!registry.addMandate(cart).valid) throw new Error('Valid cart rejected')
+    expectInvalid(registry.authorize(payment('pay-8', '18', '0.0.2001', cart.mandateId), 'settlement-agent'), 'does not match cart total')
+    expectInvalid(registry.authorize(payment('pay-9', '17.75', '0.0.2002', cart.mandateId), 'settlement-agent'), 'does not match cart merchant')
+    if (!registry.authorize(payment('pay-10', '17.75', '0.0.2001', cart.mandateId), 'settlement-agent').valid) throw new Error('Cart payment refused')
+    expectInvalid(registry.authorize(payment('pay-11', '17.75', '0.0.2001', cart.mandateId), 'settlement-agent'), 'already been used')
+    if (registry.getRemaining(intent.mandateId) !== '42.24') throw new Error(`Cart not charged to intent: ${registry.getRemaining(intent.mandateId)}`)
+    console.log(chalk.green(`✅ Cart of ${cart.total} USDC charged to its intent mandate`))
+
+    // Test 4: Expiry and mandate messages
+    console.log(chalk.blue('\n📝 Test 4: Expiry and messages'))
+    const expired = AP2Mandates.sign(AP2Mandates.createIntentMandate({
+      userId: '0.0.1001', agentId: 'settlement-agent', description: 'Expired', maxAmount: '5',
+      currency: 'USDC', merchants: ['0.0.2001'], expiry: Date.now() - 1
+    }), userKey)
+    registry.addMandate(expired)
+    expectInvalid(registry.authorize(payment('pay-12', '1', '0.0.2001', expired.mandateId), 'settlement-agent'), 'expired')
+    const message: any = { sender: { agentId: 'user-agent' }, payload: AP2Mandates.createMandateMessage(cart) }
+    if (AP2Mandates.parseMandateMessage(message)?.mandateId !== cart.mandateId) throw new Error('Mandate message not parsed')
+    message.payload.data = { ...cart, items: [] }
+    if (AP2Mandates.parseMandateMessage(message) !== null) throw new Error('Cart without items parsed')
+    console.log(chalk.green(`✅ Expired mandates refused, messages validated`))
+
+    // Test 5: Opting out of mandates
+    console.log(chalk.blue('\n📝 Test 5: Optional mandates'))
+    const optional = new AP2MandateRegistry(keyRing, { requireMandate: false })
+    if (!optional.authorize(payment('pay-13', '10', '0.0.2001'), 'settlement-agent').valid) throw new Error('Payment without mandate refused after opting out')
+    console.log(chalk.green(`✅ Payments without a mandate only accepted with requireMandate: false`))
+
+    // Test 6: Reservations survive a restart
+    console.log(chalk.blue('\n📝 Test 6: Persisted reservations'))
+    const storePath = path.join(stateDir, 'mandates.json')
+    const before = new AP2MandateRegistry(keyRing, { store: new FileMandateStore(storePath) })
+    before.addMandate(intent)
+    before.addMandate(cart)
+    if (!before.authorize(payment('pay-14', '17.75', '0.0.2001', cart.mandateId), 'settlement-agent').valid) throw new Error('Cart payment refused')
+    if (!before.authorize(payment('pay-15', '50', '0.0.2002', intent.mandateId), 'settlement-agent').valid) throw new Error('Intent payment refused')
+    const after = new AP2MandateRegistry(keyRing, { store: new FileMandateStore(storePath) })
+    if (after.getMandate(cart.mandateId)?.mandateId !== cart.mandateId) throw new Error('Mandate not restored')
+    if (after.getRemaining(intent.mandateId) !== '32.25') throw new Error(`Spent amount not restored: ${after.getRemaining(intent.mandateId)}`)
+    expectInvalid(after.authorize(payment('pay-16', '17.75', '0.0.2001', cart.mandateId), 'settlement-agent'), 'already been used')
+    expectInvalid(after.authorize(payment('pay-17', '40', '0.0.2002', intent.mandateId), 'settlement-agent'), 'exceeds the 32.25 USDC remaining')
+    after.release('pay-15')
+    if (new AP2MandateRegistry(keyRing, { store: new FileMandateStore(storePath) }).getRemaining(intent.mandateId) !== '82.25') {
+      throw new Error('Release not persisted')
+    }
+    console.log(chalk.green(`✅ Spent limits and used carts restored from ${path.basename(storePath)}`))
+
+    console.log(chalk.bold.green('\n✅ All AP2 Mandate Unit Tests Passed!\n'))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(1)
+  }
+}
+
+// Run tests
+testAP2Mandates()
@@ -0,0 +1,127 @@
+/**
+ * Unit Tests for AP2 Payment Tracker (No credentials required)
+ *
+ * Tests the payment lifecycle state machine, status updates sent back to the
+ * payer over A2A, and request expiry
+ */
+
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { AP2Protocol } from '../../src/protocols/AP2Protocol'
+import { AP2PaymentTracker } from '../../src/protocols/AP2PaymentTracker'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+async function expectRejection(promise: Promise<unknown>, fragment: string): Promise<void> {
+  try {
+    await promise
+  } catch (error) {
+    if (!(error as Error).message.includes(fragment)) {
+      throw new Error(`Unexpected error: ${(error as Error).message}`)
+    }
+    return
+  }
+  throw new Error(`Expected rejection containing "${fragment}"`)
+}
+
+async function testAP2PaymentTracker() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing AP2 Payment Tracker (No credentials required)\n'))
+
+  const bus = new InMemoryTopicBus()
+  const payerTopicId = bus.createTopic()
+  const payeeTopicId = bus.createTopic()
+
+  const payer = new A2AProtocol(bus, 'payer-agent', ['procurement'])
+  const payee = new A2AProtocol(bus, 'payee-agent', ['payment'])
+  const payerTracker = new AP2PaymentTracker(payer)
+  const payeeTracker = new AP2PaymentTracker(payee)
+
+  // Status updates arriving on the payer's topic are applied to its tracker
+  bus.subscribe(payerTopicId, topicMessage => {
+    const message = payer.parseMessage(topicMessage.data!)
+    if (message) payerTracker.processResponseMessage(message)
+  })
+  // Payment requests arriving on the payee's topic are tracked
+  bus.subscribe(payeeTopicId, topicMessage => {
+    const message = payee.parseMessage(topicMessage.data!)
+    if (message) payeeTracker.processPaymentMessage(message)
+  })
+
+  const sendRequest = async (paymentId: string, expiry?: number) => {
+    const request = AP2Protocol.createPaymentRequest(paymentId, '25', 'USDC', '0.0.5005', 'hedera-testnet', {
+      purpose: 'settlement',
+      reference: `invoice-${paymentId}`
+    })
+    if (expiry !== undefined) request.expiry = expiry
+    payerTracker.trackOutgoing(request, 'payee-agent')
+    await payer.sendMessage(payeeTopicId, 'payee-agent', 'request', AP2Protocol.createAP2Message(request), { replyTo: payerTopicId })
+    return request
+  }
+
+  try {
+    // Test 1: Happy path with status updates reaching the payer
+    console.log(chalk.blue('\n📝 Test 1: pending → processing → completed'))
+    await sendRequest('pay-1')
+    if (payeeTracker.getStatus('pay-1')?.status !== 'pending') throw new Error('Payee did not track the request')
+    await payeeTracker.markProcessing('pay-1')
+    if (payerTracker.getStatus('pay-1')?.status !== 'processing') throw new Error('Payer missed processing update')
+    await payeeTracker.markCompleted('pay-1', '0.0.5005@1700000000.000000001')
+    const completed = payerTracker.getPayment('pay-1')!
+    if (completed.status !== 'completed' || completed.transactionHash !== '0.0.5005@1700000000.000000001') {
+      throw new Error('Payer missed completion')
+    }
+    if (completed.history.map(change => change.status).join(',') !== 'pending,processing,completed') {
+      throw new Error('Wrong payer history')
+    }
+    console.log(chalk.green(`✅ Payer sees ${completed.history.map(change => change.status).join(' → ')}`))
+
+    // Test 2: Illegal transitions are refused
+    console.log(chalk.blue('\n📝 Test 2: Illegal transitions'))
+    await expectRejection(payeeTracker.markFailed('pay-1', 'late failure'), 'Illegal payment transition')
+    await sendRequest('pay-2')
+    await expectRejection(payeeTracker.markCompleted('pay-2'), 'pending → completed')
+    await expectRejection(payeeTracker.transition('pay-2', 'failed'), 'requires an error')
+    await expectRejection(payeeTracker.markProcessing('pay-unknown'), 'Unknown payment')
+    await payeeTracker.reject('pay-2', 'Over budget')
+    if (payerTracker.getStatus('pay-2')?.error !== 'Over budget') throw new Error('Payer missed rejection')
+    console.log(chalk.green(`✅ Illegal transitions rejected`))
+
+    // Test 3: Duplicate requests do not reset state
+    console.log(chalk.blue('\n📝 Test 3: Duplicate request'))
+    await payer.sendMessage(payeeTopicId, 'payee-agent', 'request', AP2Protocol.createAP2Message(payeeTracker.getPayment('pay-1')!.request), { replyTo: payerTopicId })
+    if (payeeTracker.getStatus('pay-1')?.status !== 'completed') throw new Error('Duplicate request reset the payment')
+    console.log(chalk.green(`✅ Duplicate request ignored`))
+
+    // Test 4: Pending payments fail at expiry
+    console.log(chalk.blue('\n📝 Test 4: Expiry'))
+    await sendRequest('pay-3', Date.now() + 100)
+    await new Promise(resolve => setTimeout(resolve, 200))
+    const expired = payerTracker.getStatus('pay-3')
+    if (expired?.status !== 'failed' || expired.error !== 'Payment request expired') throw new Error('Payment did not expire')
+    await sendRequest('pay-4', Date.now() - 1)
+    await expectRejection(payeeTracker.markProcessing('pay-4'), 'expired')
+    await sendRequest('pay-5', Date.now() + 30 * 24 * 60 * 60 * 1000)
+    await new Promise(resolve => setTimeout(resolve, 50))
+    if (payeeTracker.getStatus('pay-5')?.status !== 'pending') throw new Error('Payment expiring in 30 days expired early')
+    console.log(chalk.green(`✅ Expired payments fail and the payer is notified; far-off expiries wait`))
+
+    // Test 5: Queries
+    console.log(chalk.blue('\n📝 Test 5: Queries'))
+    const failed = payeeTracker.listPayments('failed').map(payment => payment.request.paymentId)
+    if (failed.join(',') !== 'pay-3,pay-4') throw new Error(`Wrong failed payments: ${failed.join(',')}`)
+    if (payeeTracker.listPayments(['completed', 'rejected']).length !== 2) throw new Error('Wrong multi-status query')
+    if (payeeTracker.getStatus('missing') !== null) throw new Error('Unknown payment should have no status')
+    console.log(chalk.green(`✅ Status queries work`))
+
+    console.log(chalk.bold.green('\n✅ All AP2 Payment Tracker Unit Tests Passed!\n'))
+    payerTracker.close()
+    payeeTracker.close()
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testAP2PaymentTracker()
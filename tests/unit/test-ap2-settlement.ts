@@ -0,0 +1,200 @@
+/**
+ * Unit Tests for AP2 Payment Settlement (No credentials required)
+ *
+ * Tests that SettlementAgentEnhanced only pays AP2 requests signed by a known
+ * agent or covered by a mandate, rejects networks it cannot pay on, records Hedera payments in the settlement
+ * ledger before submitting them, never pays a request again after a restart
+ * and releases the mandate reservation of a payment that failed on chain.
+ * Hedera transfers and receipt lookups are stubbed.
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PrivateKey, TransferTransaction } from '@hashgraph/sdk'
+import { SettlementAgentEnhanced } from '../../src/agents/SettlementAgentEnhanced'
+import { globalAgentRegistry } from '../../src/agents/AgentRegistry'
+import { X402FacilitatorServer } from '../../src/facilitator/X402FacilitatorServer'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { AP2Protocol } from '../../src/protocols/AP2Protocol'
+import { AP2Mandates } from '../../src/protocols/AP2Mandates'
+import { InMemoryNegotiationStore } from '../../src/protocols/NegotiationStore'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { InMemorySequenceCursorStore } from '../../src/transport/SequenceCursorStore'
+import { SettlementAgentConfig } from '../../src/config/AgentConfig'
+import chalk from 'chalk'
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function waitFor(condition: () => boolean, timeout: number, what: string): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error(`Timed out waiting for ${what}`)
+    await wait(10)
+  }
+}
+
+async function testAP2Settlement() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing AP2 Payment Settlement (No credentials required)\n'))
+
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-ap2-settlement-'))
+  const agents: SettlementAgentEnhanced[] = []
+
+  // Transfers are recorded instead of submitted; `failNext` simulates a connection lost after submission
+  const submitted: string[] = []
+  const transfers = () => submitted.length
+  let failNext = false
+  TransferTransaction.prototype.execute = async function (this: TransferTransaction) {
+    submitted.push(this.transactionId!.toString())
+    if (failNext) {
+      failNext = false
+      throw new Error('Connection lost')
+    }
+    return { transactionId: this.transactionId, getReceipt: async () => ({ status: 'SUCCESS' }) } as any
+  }
+  let chainStatus: 'confirmed' | 'failed' | 'unknown' = 'unknown'
+  X402FacilitatorServer.prototype.getTransactionStatus = async () => chainStatus
+
+  const operatorKey = PrivateKey.generateED25519()
+  const buyerKey = PrivateKey.generateED25519()
+  const bus = new InMemoryTopicBus()
+  const settlementTopicId = bus.createTopic()
+  const buyerTopicId = bus.createTopic()
+  globalAgentRegistry.registerAgent({
+    agentId: '0.0.1001',
+    agentName: 'Buyer',
+    agentType: 'buyer',
+    capabilities: ['procurement'],
+    supportedMessageTypes: ['request'],
+    topicId: buyerTopicId,
+    status: 'active',
+    publicKey: buyerKey.publicKey.toStringDer()
+  })
+
+  const config: SettlementAgentConfig = {
+    agentId: '0.0.1003',
+    privateKey: operatorKey.toStringDer(),
+    topicId: settlementTopicId,
+    stateDir,
+    requireMandate: false,
+    agentTopics: { '0.0.1001': buyerTopicId },
+    payment: {
+      network: 'hedera-testnet',
+      rpcUrl: 'http://127.0.0.1:8545',
+      walletPrivateKey: `0x${'11'.repeat(32)}`,
+      operator: { accountId: '0.0.2002', privateKey: operatorKey.toStringDer() }
+    }
+  }
+
+  // Each start reads the topic from the beginning, like a restart after a lost cursor, unless given the previous cursors
+  const startAgent = async (cursors = new InMemorySequenceCursorStore()) => {
+    const agent = new SettlementAgentEnhanced(bus.forPayer('0.0.1003'), cursors, new InMemoryNegotiationStore(), undefined, config)
+    agents.push(agent)
+    await agent.init()
+    return agent
+  }
+
+  const buyer = new A2AProtocol(bus.forPayer('0.0.1001'), '0.0.1001', ['procurement'], undefined, undefined, { privateKey: buyerKey })
+  const impostor = new A2AProtocol(bus.forPayer('0.0.6666'), '0.0.1001', ['procurement'])
+  const requestPayment = async (sender: A2AProtocol, paymentId: string, options: { onBase?: boolean; mandateId?: string } = {}) => {
+    const request = options.onBase
+      ? AP2Protocol.createPaymentRequest(paymentId, '2.5', 'USDC', '0x1234567890123456789012345678901234567890', 'base-sepolia', { purpose: 'data', reference: paymentId })
+      : AP2Protocol.createPaymentRequest(paymentId, '2.5', 'HBAR', '0.0.5005', 'hedera-testnet', { purpose: 'data', reference: paymentId })
+    if (options.mandateId) {
+      request.mandateId = options.mandateId
+    }
+    await sender.sendMessage(settlementTopicId, '0.0.1003', 'request', AP2Protocol.createAP2Message(request), { replyTo: buyerTopicId })
+  }
+
+  try {
+    const agent = await startAgent()
+
+    // Test 1: Requests without a mandate must be signed by a known agent, and only Hedera is paid
+    console.log(chalk.blue('\n📝 Test 1: Unsigned and unsupported requests'))
+    await requestPayment(impostor, 'pay-unsigned')
+    await waitFor(() => agent.getPaymentStatus('pay-unsigned') !== null, 1000, 'unsigned request')
+    const unsigned = agent.getPaymentStatus('pay-unsigned')!
+    if (unsigned.status !== 'rejected' || !unsigned.error?.includes('not signed by a known agent')) throw new Error(`Unsigned request: ${JSON.stringify(unsigned)}`)
+    if (transfers() > 0) throw new Error('Unsigned request paid')
+    console.log(chalk.green(`✅ ${unsigned.error}`))
+
+    await requestPayment(buyer, 'pay-base', { onBase: true })
+    await waitFor(() => agent.getPaymentStatus('pay-base') !== null, 1000, 'Base request')
+    const onBase = agent.getPaymentStatus('pay-base')!
+    if (onBase.status !== 'rejected' || !onBase.error?.includes('not supported') || transfers() > 0) throw new Error(`Base request: ${JSON.stringify(onBase)}`)
+    if (agent.getLedger().get('ap2:pay-base')) throw new Error('Unpaid Base request recorded in the ledger')
+    console.log(chalk.green(`✅ ${onBase.error}`))
+
+    // Test 2: Signed requests are recorded in the ledger before submission
+    console.log(chalk.blue('\n📝 Test 2: Ledger-recorded payment'))
+    await requestPayment(buyer, 'pay-1')
+    await waitFor(() => agent.getPaymentStatus('pay-1')?.status === 'completed', 1000, 'signed payment')
+    const entry = agent.getLedger().get('ap2:pay-1')
+    if (transfers() !== 1 || entry?.status !== 'confirmed' || entry.txHash !== submitted[0]) throw new Error(`Unexpected ledger entry: ${JSON.stringify(entry)}`)
+    if (entry.amount !== '250000000' || entry.asset !== 'HBAR' || entry.recipient !== '0.0.5005') throw new Error('Payment details not recorded')
+    if (agent.getPaymentStatus('pay-1')?.transactionHash !== submitted[0]) throw new Error('Transaction ID not reported')
+    console.log(chalk.green(`✅ pay-1 confirmed in ${entry.txHash}`))
+
+    // Test 3: A payment interrupted after submission is left for reconciliation
+    console.log(chalk.blue('\n📝 Test 3: Interrupted payment'))
+    failNext = true
+    await requestPayment(buyer, 'pay-2')
+    await waitFor(() => agent.getPaymentStatus('pay-2')?.status === 'failed', 1000, 'interrupted payment')
+    if (agent.getLedger().get('ap2:pay-2')?.status !== 'submitted' || transfers() !== 2) throw new Error('Interrupted payment not left submitted')
+    console.log(chalk.green(`✅ pay-2 left submitted as ${submitted[1]}`))
+
+    // Test 4: After a restart nothing is paid twice
+    console.log(chalk.blue('\n📝 Test 4: Restart'))
+    agent.stop()
+    chainStatus = 'confirmed'
+    const restarted = await startAgent()
+    if (restarted.getLedger().get('ap2:pay-2')?.status !== 'confirmed') throw new Error('Submitted payment not reconciled')
+    await waitFor(() => restarted.getPaymentStatus('pay-2') !== null, 1000, 're-delivered requests')
+    await wait(50)
+    if (transfers() !== 2) throw new Error(`Re-delivered requests paid again: ${transfers()} transfers`)
+    if (restarted.getPaymentStatus('pay-1')?.status !== 'pending') throw new Error('Paid request processed again')
+    console.log(chalk.green(`✅ Re-delivered pay-1 and pay-2 skipped; ${transfers()} transfers in total`))
+
+    // Test 5: A payment that failed on chain gives its mandate reservation back
+    console.log(chalk.blue('\n📝 Test 5: Failed payment under a mandate'))
+    const intent = AP2Mandates.sign(AP2Mandates.createIntentMandate({
+      userId: '0.0.1001',
+      agentId: '0.0.1003',
+      description: 'Data purchases up to 10 HBAR',
+      maxAmount: '10',
+      currency: 'HBAR',
+      merchants: ['0.0.5005'],
+      expiry: Date.now() + 3600000
+    }), buyerKey)
+    restarted.stop()
+    const cursors = new InMemorySequenceCursorStore()
+    const beforeFailure = await startAgent(cursors)
+    await buyer.sendMessage(settlementTopicId, '0.0.1003', 'notification', AP2Mandates.createMandateMessage(intent))
+    failNext = true
+    await requestPayment(buyer, 'pay-3', { mandateId: intent.mandateId })
+    await waitFor(() => beforeFailure.getPaymentStatus('pay-3')?.status === 'failed', 1000, 'interrupted mandate payment')
+    if (beforeFailure['mandates'].getRemaining(intent.mandateId) !== '7.5') throw new Error('Submitted payment not reserved')
+    beforeFailure.stop()
+    chainStatus = 'failed'
+    const afterFailure = await startAgent(cursors)
+    if (afterFailure.getLedger().get('ap2:pay-3')?.status !== 'failed') throw new Error('Failed payment not reconciled')
+    if (afterFailure['mandates'].getRemaining(intent.mandateId) !== '10') {
+      throw new Error(`Reservation not released: ${afterFailure['mandates'].getRemaining(intent.mandateId)} HBAR remaining`)
+    }
+    console.log(chalk.green(`✅ pay-3 failed on chain; ${afterFailure['mandates'].getRemaining(intent.mandateId)} HBAR available again`))
+
+    console.log(chalk.bold.green('\n✅ All AP2 Payment Settlement Unit Tests Passed!\n'))
+    agents.forEach(settlementAgent => settlementAgent.stop())
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    agents.forEach(settlementAgent => settlementAgent.stop())
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(1)
+  }
+}
+
+// Run tests
+testAP2Settlement()
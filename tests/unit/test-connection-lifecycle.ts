@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the HCS-10 Connection Lifecycle (No credentials required)
+ *
+ * Tests heartbeats on connection topics, dead-peer detection, reconnecting
+ * with backoff, idle-timeout closing and onConnectionStateChange events on an
+ * in-memory topic bus
+ */
+
+import {
+  HCS10ConnectionManager,
+  Connection,
+  ConnectionStatus,
+  HCS10ConnectionManagerOptions
+} from '../../src/protocols/HCS10ConnectionManager'
+import { ConnectionTopicFactory } from '../../src/protocols/HCS10ConnectionTopics'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function waitFor(condition: () => boolean, timeout: number, what: string): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error(`Timed out waiting for ${what}`)
+    await wait(10)
+  }
+}
+
+async function testConnectionLifecycle() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing HCS-10 Connection Lifecycle (No credentials required)\n'))
+
+  const bus = new InMemoryTopicBus({ autoCreateTopics: false, firstTopicNumber: 5000 })
+  const inboundTopics: Record<string, string> = {}
+  const topicFactory: ConnectionTopicFactory = { createConnectionTopic: async () => bus.createTopic() }
+  const managers: HCS10ConnectionManager[] = []
+  const events: Map<string, string[]> = new Map()
+
+  // Manager recording "<peer>:<status>[ (reason)]" events
+  const manager = (agentId: string, options: HCS10ConnectionManagerOptions = {}) => {
+    inboundTopics[agentId] = inboundTopics[agentId] || bus.createTopic()
+    events.set(agentId, events.get(agentId) || [])
+    const created = new HCS10ConnectionManager(bus.forPayer(agentId), agentId, {
+      inboundTopics,
+      topicFactory,
+      pollInterval: 10,
+      onConnectionStateChange: async (connection: Connection, _previous: ConnectionStatus, reason?: string) => {
+        events.get(agentId)!.push(`${connection.agentId}:${connection.status}${reason ? ` (${reason})` : ''}`)
+      },
+      ...options
+    })
+    managers.push(created)
+    return created
+  }
+  const liveness = { heartbeatInterval: 40, maxMissedHeartbeats: 3, reconnectDelay: 20 }
+
+  try {
+    // Test 1: Heartbeats keep both sides alive
+    console.log(chalk.blue('\n📝 Test 1: Heartbeats'))
+    const alice = manager('0.0.1001', { liveness })
+    const bob = manager('0.0.1002', { liveness })
+    await bob.monitorIncomingRequests(inboundTopics['0.0.1002']!)
+    const connection = await alice.requestConnection('0.0.1002', { timeout: 1000 })
+    const firstTopic = connection.connectionTopicId
+    await wait(300)
+
+    if (connection.status !== 'established' || bob.getConnection('0.0.1001')?.status !== 'established') {
+      throw new Error('Connection dropped despite heartbeats')
+    }
+    const heartbeats = (await bus.getMessages(firstTopic)).messages.filter(message => JSON.parse(message.data!).op === 'heartbeat')
+    const senders = new Set(heartbeats.map(message => message.payer))
+    if (heartbeats.length < 4 || senders.size !== 2) throw new Error(`Heartbeats: ${heartbeats.length} from ${[...senders]}`)
+    if (events.get('0.0.1001')!.join() !== '0.0.1002:established' || events.get('0.0.1002')!.join() !== '0.0.1001:established') {
+      throw new Error(`Unexpected events: ${JSON.stringify([...events])}`)
+    }
+    console.log(chalk.green(`✅ ${heartbeats.length} heartbeats from both peers`))
+
+    // Test 2: Dead peer → reconnecting → re-established with a restarted peer
+    console.log(chalk.blue('\n📝 Test 2: Dead peer and reconnect'))
+    bob.close()
+    await waitFor(() => connection.status === 'reconnecting', 1000, 'dead peer detection')
+    const restarted = manager('0.0.1002', { liveness })
+    await restarted.monitorIncomingRequests(inboundTopics['0.0.1002']!)
+    await waitFor(() => connection.status === 'established' && connection.connectionTopicId !== firstTopic, 3000, 'reconnect')
+    if (!bus.hasTopic(connection.connectionTopicId)) throw new Error('Reconnected to an unknown topic')
+    const aliceEvents = events.get('0.0.1001')!.join()
+    if (aliceEvents !== '0.0.1002:established,0.0.1002:reconnecting (Peer unresponsive),0.0.1002:established') {
+      throw new Error(`Reconnect events: ${aliceEvents}`)
+    }
+    console.log(chalk.green(`✅ Reconnected on ${connection.connectionTopicId}`))
+
+    // Test 3: A dead requester is closed on the receiving side
+    console.log(chalk.blue('\n📝 Test 3: Dead requester'))
+    alice.close()
+    await waitFor(() => restarted.getConnection('0.0.1001')?.status === 'closed', 1000, 'requester closed')
+    if (restarted.getConnection('0.0.1001')!.closeReason !== 'Peer unresponsive') throw new Error('Wrong close reason')
+    console.log(chalk.green('✅ Receiver closed the connection of the unresponsive requester'))
+
+    // Test 4: Reconnect gives up after the configured attempts
+    console.log(chalk.blue('\n📝 Test 4: Reconnect attempts'))
+    const carol = manager('0.0.1003', { liveness: { ...liveness, reconnectAttempts: 2 } })
+    const dave = manager('0.0.1004', { liveness })
+    await dave.monitorIncomingRequests(inboundTopics['0.0.1004']!)
+    const lost = await carol.requestConnection('0.0.1004', { timeout: 100 })
+    dave.close()
+    await waitFor(() => lost.status === 'closed', 3000, 'reconnect give-up')
+    if (lost.closeReason !== 'Reconnect failed after 2 attempts') throw new Error(`Close reason: ${lost.closeReason}`)
+    console.log(chalk.green('✅ Closed after 2 failed reconnect attempts'))
+
+    // Test 5: Idle timeout closes both sides with close_connection
+    console.log(chalk.blue('\n📝 Test 5: Idle timeout'))
+    const closedByPeer: Connection[] = []
+    const erin = manager('0.0.1005', { liveness: { ...liveness, idleTimeout: 200 } })
+    const frank = manager('0.0.1006', { liveness })
+    await frank.monitorIncomingRequests(inboundTopics['0.0.1006']!, undefined, {
+      onConnectionClosed: async closed => {
+        closedByPeer.push(closed)
+      }
+    })
+    const idle = await erin.requestConnection('0.0.1006', { timeout: 1000 })
+    await wait(120)
+    await bus.forPayer('0.0.1006').sendMessage(idle.connectionTopicId, JSON.stringify({ sender: { agentId: '0.0.1006' }, payload: 'work' }))
+    await wait(120)
+    if (idle.status !== 'established') throw new Error('Connection with recent traffic closed as idle')
+    await waitFor(() => idle.status === 'closed', 1000, 'idle close')
+    await waitFor(() => closedByPeer.length === 1, 1000, 'peer close')
+    if (idle.closeReason !== 'Idle timeout' || closedByPeer[0]!.closeReason !== 'Idle timeout') throw new Error('Idle close reason not shared')
+    if (!events.get('0.0.1006')!.includes('0.0.1005:closed (Idle timeout)')) throw new Error('Peer close event missing')
+    console.log(chalk.green('✅ Idle connection closed on both sides'))
+
+    console.log(chalk.bold.green('\n✅ All Connection Lifecycle Unit Tests Passed!\n'))
+    managers.forEach(created => created.close())
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    managers.forEach(created => created.close())
+    process.exit(1)
+  }
+}
+
+// Run tests
+testConnectionLifecycle()
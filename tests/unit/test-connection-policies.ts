@@ -0,0 +1,217 @@
+/**
+ * Unit Tests for HCS-10 Connection Policies and Fees (No credentials required)
+ *
+ * Tests allow-list, reputation and capability rules, connection fee checks
+ * against a mock mirror node (direct, scheduled and searched payments, used
+ * payments kept across restarts) and that receivers post connection_rejected with a reason on their inbound topic
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import express from 'express'
+import { HCS10ConnectionManager, ConnectionRequest } from '../../src/protocols/HCS10ConnectionManager'
+import { RuleBasedConnectionPolicy } from '../../src/protocols/HCS10ConnectionPolicy'
+import { MirrorNodeFeeVerifier, mirrorTransactionId } from '../../src/protocols/HCS10FeeVerifier'
+import { FileNonceStore } from '../../src/facilitator/NonceStore'
+import { ConnectionTopicFactory } from '../../src/protocols/HCS10ConnectionTopics'
+import { AgentRegistry } from '../../src/agents/AgentRegistry'
+import { getHederaNetwork } from '../../src/config/NetworkRegistry'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const PAYER = '0.0.1001'
+const RECEIVER = '0.0.1002'
+const STRANGER = '0.0.1003'
+const ONE_HBAR = 100_000_000
+
+function request(fromAgentId: string, metadata?: Record<string, any>): ConnectionRequest {
+  return { fromAgentId, timestamp: Date.now(), ...(metadata && { metadata }) }
+}
+
+async function testConnectionPolicies() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing HCS-10 Connection Policies (No credentials required)\n'))
+
+  // Mock mirror node with three fee payments from PAYER to RECEIVER
+  const paidAt = ((Date.now() - 60_000) / 1000).toFixed(9)
+  const transfer = (id: string, amount: number, timestamp = paidAt) => ({
+    transaction_id: id,
+    consensus_timestamp: timestamp,
+    result: 'SUCCESS',
+    transfers: [{ account: PAYER, amount: -amount }, { account: RECEIVER, amount }]
+  })
+  const transactions = [
+    transfer('0.0.1001-1700000000-000000001', ONE_HBAR),
+    transfer('0.0.1001-1700000000-000000002', ONE_HBAR / 2),
+    transfer('0.0.1001-1700000000-000000003', ONE_HBAR, ((Date.now() - 30_000) / 1000).toFixed(9))
+  ]
+  const app = express()
+  app.get('/api/v1/transactions/:id', (req, res) => {
+    res.json({ transactions: transactions.filter(transaction => transaction.transaction_id === req.params.id) })
+  })
+  app.get('/api/v1/transactions', (req, res) => {
+    const account = req.query['account.id']
+    res.json({
+      transactions: account
+        ? transactions.filter(transaction => transaction.transfers.some(item => item.account === account)).reverse()
+        : transactions.filter(transaction => transaction.consensus_timestamp === req.query.timestamp)
+    })
+  })
+  app.get('/api/v1/schedules/:id', (req, res) => {
+    res.json(req.params.id === '0.0.7001'
+      ? { schedule_id: '0.0.7001', creator_account_id: PAYER, payer_account_id: PAYER, executed_timestamp: transactions[2]!.consensus_timestamp }
+      : { schedule_id: req.params.id, creator_account_id: PAYER, payer_account_id: PAYER, executed_timestamp: null })
+  })
+  const server = app.listen(0)
+  await new Promise(resolve => server.once('listening', resolve))
+  const address = server.address()
+  const mirror = { ...getHederaNetwork('local'), mirrorNodeUrl: `http://localhost:${typeof address === 'object' && address ? address.port : 0}` }
+  const managers: HCS10ConnectionManager[] = []
+
+  try {
+    // Test 1: Allow-list, deny-list and reputation
+    console.log(chalk.blue('\n📝 Test 1: Allow-list and reputation'))
+    const scores: Record<string, number> = { [PAYER]: 80, [STRANGER]: 20 }
+    const policy = new RuleBasedConnectionPolicy({
+      allowList: [PAYER, STRANGER],
+      denyList: ['0.0.6666'],
+      minReputation: 50,
+      reputation: { getReputation: async agentId => scores[agentId] ?? null }
+    })
+    if (!(await policy.evaluate(request(PAYER))).accept) throw new Error('Reputable agent rejected')
+    const low = await policy.evaluate(request(STRANGER))
+    if (low.accept || !low.reason?.includes('below the required 50')) throw new Error(`Low reputation: ${JSON.stringify(low)}`)
+    if ((await policy.evaluate(request('0.0.4444'))).reason !== 'Agent 0.0.4444 is not on the allow-list') throw new Error('Allow-list ignored')
+    if ((await policy.evaluate(request('0.0.6666'))).reason !== 'Agent 0.0.6666 is not allowed to connect') throw new Error('Deny-list ignored')
+
+    let missingSource = false
+    try {
+      new RuleBasedConnectionPolicy({ minReputation: 1 })
+    } catch (error) {
+      missingSource = (error as Error).message.includes('reputation source')
+    }
+    if (!missingSource) throw new Error('minReputation accepted without a reputation source')
+    console.log(chalk.green('✅ Allow-list, deny-list and minimum reputation applied'))
+
+    // Test 2: Capability match
+    console.log(chalk.blue('\n📝 Test 2: Capabilities'))
+    const registry = new AgentRegistry()
+    registry.registerAgent({
+      agentId: PAYER, agentName: 'Payer', agentType: 'buyer', capabilities: ['x402-payment'],
+      supportedMessageTypes: ['request'], topicId: '0.0.5000', status: 'active'
+    })
+    const fromRegistry = new RuleBasedConnectionPolicy({ requiredCapabilities: ['x402-payment'], directory: registry })
+    if (!(await fromRegistry.evaluate(request(PAYER))).accept) throw new Error('Registered capability not matched')
+    if ((await fromRegistry.evaluate(request(STRANGER, { capabilities: ['x402-payment'] }))).accept) throw new Error('Self-declared capability trusted over the registry')
+    const fromMetadata = new RuleBasedConnectionPolicy({ requiredCapabilities: ['x402-payment', 'usdc-transfer'] })
+    const partial = await fromMetadata.evaluate(request(STRANGER, { capabilities: ['x402-payment'] }))
+    if (partial.reason !== 'Missing capabilities: usdc-transfer') throw new Error(`Capability reason: ${partial.reason}`)
+    console.log(chalk.green('✅ Capabilities matched from the registry or request metadata'))
+
+    // Test 3: Fee payments on the mirror node
+    console.log(chalk.blue('\n📝 Test 3: Fee verification'))
+    if (mirrorTransactionId('0.0.1001@1700000000.000000001') !== '0.0.1001-1700000000-000000001') throw new Error('Wrong mirror transaction ID')
+    const fee = { hbarFee: 1, recipientAccountId: RECEIVER }
+    const verifier = new MirrorNodeFeeVerifier(mirror)
+    const direct = await verifier.verifyFeePayment(request(PAYER, { feePayment: { transactionId: '0.0.1001@1700000000.000000001' } }), fee)
+    if (!direct.paid || direct.transactionId !== '0.0.1001-1700000000-000000001') throw new Error(`Direct payment: ${JSON.stringify(direct)}`)
+    if ((await verifier.verifyFeePayment(request(PAYER, { feePayment: { transactionId: '0.0.1001@1700000000.000000001' } }), fee)).paid) {
+      throw new Error('Fee payment reused')
+    }
+    if ((await verifier.verifyFeePayment(request(PAYER, { feePayment: { transactionId: '0.0.1001-1700000000-000000002' } }), fee)).paid) {
+      throw new Error('Partial fee accepted')
+    }
+    if ((await verifier.verifyFeePayment(request(STRANGER, { feePayment: { transactionId: '0.0.1001-1700000000-000000003' } }), fee)).paid) {
+      throw new Error('Someone else\'s payment accepted')
+    }
+    const pending = await verifier.verifyFeePayment(request(PAYER, { feePayment: { scheduleId: '0.0.7002' } }), fee)
+    if (pending.paid || !pending.reason?.includes('has not executed')) throw new Error('Unexecuted schedule accepted')
+    const scheduled = await verifier.verifyFeePayment(request(PAYER, { feePayment: { scheduleId: '0.0.7001' } }), fee)
+    if (!scheduled.paid || scheduled.transactionId !== '0.0.1001-1700000000-000000003') throw new Error(`Scheduled payment: ${JSON.stringify(scheduled)}`)
+
+    const searched = await new MirrorNodeFeeVerifier(mirror).verifyFeePayment(request(PAYER), fee)
+    if (searched.transactionId !== '0.0.1001-1700000000-000000003') throw new Error(`Searched payment: ${JSON.stringify(searched)}`)
+    const early = await new MirrorNodeFeeVerifier(mirror).verifyFeePayment({ fromAgentId: PAYER, timestamp: Date.now() - 120_000 }, fee)
+    if (early.paid) throw new Error('Payment after the request accepted')
+
+    const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-fee-payments-'))
+    const usedPaymentsPath = path.join(stateDir, 'fee-payments.json')
+    try {
+      const beforeRestart = new MirrorNodeFeeVerifier(mirror, { usedPayments: new FileNonceStore(usedPaymentsPath) })
+      if (!(await beforeRestart.verifyFeePayment(request(PAYER), fee)).paid) throw new Error('Payment not accepted before the restart')
+      const afterRestart = new MirrorNodeFeeVerifier(mirror, { usedPayments: new FileNonceStore(usedPaymentsPath) })
+      const replayed = await afterRestart.verifyFeePayment(request(PAYER, { feePayment: { transactionId: '0.0.1001-1700000000-000000003' } }), fee)
+      if (replayed.paid || !replayed.reason?.includes('No unused payment')) throw new Error('Used payment accepted after a restart')
+    } finally {
+      fs.rmSync(stateDir, { recursive: true, force: true })
+    }
+    console.log(chalk.green('✅ Direct, scheduled and searched payments verified once each, also across restarts'))
+
+    // Test 4: Receivers reject with a reason on the inbound topic
+    console.log(chalk.blue('\n📝 Test 4: Auto accept/reject'))
+    const bus = new InMemoryTopicBus({ autoCreateTopics: false, firstTopicNumber: 5000 })
+    const inboundTopics = { [PAYER]: bus.createTopic(), [RECEIVER]: bus.createTopic(), [STRANGER]: bus.createTopic() }
+    const topicFactory: ConnectionTopicFactory = { createConnectionTopic: async () => bus.createTopic() }
+    const rejections: string[] = []
+    const accepted: ConnectionRequest[] = []
+    const receiver = new HCS10ConnectionManager(bus.forPayer(RECEIVER), RECEIVER, {
+      inboundTopics,
+      topicFactory,
+      pollInterval: 20,
+      policy: new RuleBasedConnectionPolicy({ allowList: [PAYER] }),
+      feeVerifier: new MirrorNodeFeeVerifier(mirror)
+    })
+    managers.push(receiver)
+    await receiver.monitorIncomingRequests(inboundTopics[RECEIVER]!, { hbarFee: 1 }, {
+      onConnectionRequest: async connectionRequest => {
+        accepted.push(connectionRequest)
+        return true
+      },
+      onConnectionRejected: async (_request, reason) => {
+        rejections.push(reason)
+      }
+    })
+
+    const connect = async (agentId: string, options: Record<string, any> = {}) => {
+      const manager = new HCS10ConnectionManager(bus.forPayer(agentId), agentId, { inboundTopics, pollInterval: 20 })
+      try {
+        return await manager.requestConnection(RECEIVER, { timeout: 2000, ...options })
+      } catch (error) {
+        return (error as Error).message
+      }
+    }
+
+    const stranger = await connect(STRANGER)
+    if (stranger !== `Connection rejected by ${RECEIVER}: Agent ${STRANGER} is not on the allow-list`) throw new Error(`Stranger: ${stranger}`)
+    const unpaid = await connect(PAYER, { feePayment: { transactionId: '0.0.1001-1700000000-000000002' } })
+    if (typeof unpaid !== 'string' || !unpaid.includes('No unused payment of 1 HBAR')) throw new Error(`Unpaid: ${JSON.stringify(unpaid)}`)
+    const paid = await connect(PAYER, { feePayment: { transactionId: '0.0.1001-1700000000-000000001' } })
+    if (typeof paid === 'string' || paid.status !== 'established') throw new Error(`Paid: ${paid}`)
+    if (accepted.length !== 1 || accepted[0]!.feePaid !== true) throw new Error('Callback not asked after policy and fee checks')
+
+    const replies = (await bus.getMessages(inboundTopics[RECEIVER]!)).messages
+      .map(message => JSON.parse(message.data!))
+      .filter(operation => operation.op !== 'connection_request')
+    if (replies.map(operation => operation.op).join(',') !== 'connection_rejected,connection_rejected,connection_created') {
+      throw new Error(`Inbound replies: ${JSON.stringify(replies)}`)
+    }
+    if (replies[0].reason !== rejections[0] || replies[0].connected_account_id !== STRANGER || rejections.length !== 2) {
+      throw new Error('Rejection reason not posted')
+    }
+    console.log(chalk.green('✅ Rejections carry reasons; the paying allow-listed agent connected'))
+
+    console.log(chalk.bold.green('\n✅ All Connection Policy Unit Tests Passed!\n'))
+    managers.forEach(manager => manager.stopMonitoring())
+    server.close()
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    managers.forEach(manager => manager.stopMonitoring())
+    server.close()
+    process.exit(1)
+  }
+}
+
+// Run tests
+testConnectionPolicies()
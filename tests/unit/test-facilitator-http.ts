@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for x402 Facilitator HTTP Server (No credentials required)
+ *
+ * Tests /supported, /verify and /settle over HTTP, request validation and
+ * structured error bodies
+ */
+
+import { processPayment } from 'a2a-x402'
+import { ethers } from 'ethers'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import chalk from 'chalk'
+
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'base-sepolia'
+
+async function post(url: string, body: unknown, headers: Record<string, string> = {}): Promise<{ status: number; body: any }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+async function testFacilitatorHttp() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing x402 Facilitator HTTP Server (No credentials required)\n'))
+
+  const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+  const { X402FacilitatorHttpServer } = await import('../../src/facilitator/X402FacilitatorHttpServer')
+
+  const ledger = new InMemorySettlementLedger()
+  const server = new X402FacilitatorHttpServer(new X402FacilitatorServer(ledger, new InMemoryNonceStore()), 0)
+  await server.start()
+  const url = server.getUrl()
+
+  const requirements = {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '1000000',
+    resource: '/premium',
+    payTo: '0x1234567890123456789012345678901234567890',
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    maxTimeoutSeconds: 120
+  }
+  const paymentPayload = await processPayment(requirements as any, new ethers.Wallet(ethers.Wallet.createRandom().privateKey))
+  const paymentHeader = Buffer.from(JSON.stringify(paymentPayload)).toString('base64')
+
+  try {
+    // Test 1: Supported kinds
+    console.log(chalk.blue('\n📝 Test 1: GET /supported'))
+    const supported = await (await fetch(`${url}/supported`)).json() as any
+    if (!supported.kinds.some((kind: any) => kind.x402Version === 1 && kind.scheme === 'exact' && kind.network === 'base-sepolia')) {
+      throw new Error(`Unexpected kinds: ${JSON.stringify(supported)}`)
+    }
+    console.log(chalk.green(`✅ ${JSON.stringify(supported.kinds)}`))
+
+    // Test 2: Verification with header or decoded payload
+    console.log(chalk.blue('\n📝 Test 2: POST /verify'))
+    const byHeader = await post(`${url}/verify`, { x402Version: 1, paymentHeader, paymentRequirements: requirements })
+    if (byHeader.status !== 200 || byHeader.body.isValid !== true) throw new Error(`Valid payment rejected: ${JSON.stringify(byHeader.body)}`)
+    const byPayload = await post(`${url}/verify`, { x402Version: 1, paymentPayload, paymentRequirements: { ...requirements, maxAmountRequired: '2000000' } })
+    if (byPayload.status !== 200 || byPayload.body.isValid !== false || !byPayload.body.invalidReason) throw new Error('Amount mismatch accepted')
+    console.log(chalk.green(`✅ Valid payment verified, mismatched amount reported as invalid`))
+
+    // Test 3: Request validation
+    console.log(chalk.blue('\n📝 Test 3: Request validation'))
+    const missing = await post(`${url}/verify`, { paymentHeader })
+    if (missing.status !== 400 || missing.body.error !== 'invalid_request' || missing.body.issues[0].path !== 'paymentRequirements') {
+      throw new Error(`Unexpected body: ${JSON.stringify(missing.body)}`)
+    }
+    const noPayment = await post(`${url}/settle`, { paymentRequirements: requirements })
+    if (noPayment.status !== 400 || !noPayment.body.message.includes('paymentHeader or paymentPayload')) throw new Error('Missing payment accepted')
+    const badHeader = await post(`${url}/verify`, { paymentHeader: 'not-base64-json', paymentRequirements: requirements })
+    if (badHeader.status !== 400 || badHeader.body.error !== 'invalid_request') throw new Error('Bad header accepted')
+    const unsupported = await post(`${url}/verify`, { paymentHeader, paymentRequirements: { ...requirements, network: 'solana' } })
+    if (unsupported.status !== 400 || unsupported.body.error !== 'unsupported_scheme') throw new Error('Unsupported network accepted')
+    const malformed = await post(`${url}/verify`, '{"paymentHeader":')
+    if (malformed.status !== 400 || malformed.body.error !== 'invalid_request') throw new Error('Malformed JSON not reported')
+    const notFound = await fetch(`${url}/nope`)
+    if (notFound.status !== 404 || (await notFound.json() as any).error !== 'not_found') throw new Error('Unknown route not reported')
+    console.log(chalk.green(`✅ ${missing.body.message}`))
+
+    // Test 4: Settlement honours the Idempotency-Key header
+    console.log(chalk.blue('\n📝 Test 4: POST /settle'))
+    ledger.begin('order-42', { network: 'base-sepolia' })
+    ledger.markSubmitted('order-42', '0xabc')
+    ledger.markConfirmed('order-42')
+    const settled = await post(`${url}/settle`, { x402Version: 1, paymentHeader, paymentRequirements: requirements }, { 'Idempotency-Key': 'order-42' })
+    if (settled.status !== 200 || settled.body.success !== true || settled.body.txHash !== '0xabc') {
+      throw new Error(`Unexpected settlement: ${JSON.stringify(settled.body)}`)
+    }
+    console.log(chalk.green(`✅ Settlement replayed ${settled.body.txHash} for Idempotency-Key order-42`))
+
+    console.log(chalk.bold.green('\n✅ All Facilitator HTTP Unit Tests Passed!\n'))
+    await server.stop()
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    await server.stop()
+    process.exit(1)
+  }
+}
+
+// Run tests
+testFacilitatorHttp()
@@ -0,0 +1,261 @@
+/**
+ * Unit Tests for the HCS-10 Connection Handshake (No credentials required)
+ *
+ * Runs connection_request / connection_created between two connection
+ * managers on an in-memory topic bus and checks that the requester stores the
+ * connection topic the receiver created, that A2A messages travel over it,
+ * that inbound topics are resolved from HCS-11 profiles and that requests
+ * over an HCS10Client keep their metadata and that only the target agent can
+ * answer a request
+ */
+
+import { HCS10ConnectionManager, Connection, ConnectionRequest } from '../../src/protocols/HCS10ConnectionManager'
+import { ConnectionTopicFactory, connectionTopicMemo } from '../../src/protocols/HCS10ConnectionTopics'
+import { inboundTopicOf } from '../../src/protocols/HCS11ProfileSource'
+import { ProfileSource } from '../../src/protocols/A2AMessageSigner'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { TransportMessage } from '../../src/transport/MessageTransport'
+import chalk from 'chalk'
+
+const REQUESTER = '0.0.1001'
+const RECEIVER = '0.0.1002'
+
+/**
+ * Stand-in for HCS10Client on the bus: SDK connection methods, `message`
+ * envelopes around sendMessage data and operations parsed by getMessages
+ */
+class MockHCS10Client {
+  sdkRequests = 0
+  private bus: InMemoryTopicBus
+  private accountId: string
+  private operatorId: string
+
+  constructor(bus: InMemoryTopicBus, accountId: string, inboundTopicId: string) {
+    this.bus = bus
+    this.accountId = accountId
+    this.operatorId = `${inboundTopicId}@${accountId}`
+  }
+
+  async sendMessage(topicId: string, data: string): Promise<number | undefined> {
+    return this.post(topicId, { op: 'message', data })
+  }
+
+  async getMessages(topicId: string): Promise<{ messages: TransportMessage[] }> {
+    const { messages } = await this.bus.getMessages(topicId)
+    return { messages: messages.map(message => ({ ...message, ...JSON.parse(message.data!) })) }
+  }
+
+  async submitConnectionRequest(inboundTopicId: string, memo: string) {
+    this.sdkRequests++
+    const sequenceNumber = await this.post(inboundTopicId, { op: 'connection_request', m: memo })
+    return { topicSequenceNumber: { toNumber: () => sequenceNumber } }
+  }
+
+  async handleConnectionRequest(inboundTopicId: string, requestingAccountId: string, connectionRequestId: number) {
+    const connectionTopicId = this.bus.createTopic()
+    await this.post(inboundTopicId, {
+      op: 'connection_created',
+      connection_topic_id: connectionTopicId,
+      connected_account_id: requestingAccountId,
+      connection_id: connectionRequestId
+    })
+    return { connectionTopicId }
+  }
+
+  private async post(topicId: string, operation: Record<string, any>): Promise<number> {
+    const sequenceNumber = await this.bus.forPayer(this.accountId).sendMessage(topicId, JSON.stringify({ p: 'hcs-10', ...operation, operator_id: this.operatorId }))
+    return sequenceNumber!
+  }
+}
+
+async function testHCS10Handshake() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing HCS-10 Connection Handshake (No credentials required)\n'))
+
+  const managers: HCS10ConnectionManager[] = []
+
+  try {
+    const bus = new InMemoryTopicBus({ autoCreateTopics: false, firstTopicNumber: 5000 })
+    const requesterInbound = bus.createTopic()
+    const receiverInbound = bus.createTopic()
+
+    // Topic factory creating bus topics and remembering their memos
+    const memos: Map<string, string> = new Map()
+    const topicFactory: ConnectionTopicFactory = {
+      async createConnectionTopic(requesterAccountId: string, memo: string) {
+        const topicId = bus.createTopic()
+        memos.set(topicId, `${requesterAccountId} ${memo}`)
+        return topicId
+      }
+    }
+
+    // Profiles advertise inbound topics the way HCS-11 does
+    const profiles: ProfileSource = {
+      async getAgentProfile(accountId: string) {
+        const inboundTopicId = { [REQUESTER]: requesterInbound, [RECEIVER]: receiverInbound }[accountId]
+        return inboundTopicId
+          ? { success: true, profile: { type: 1, inboundTopicId } }
+          : { success: false, error: 'Profile not found' }
+      }
+    }
+
+    // Test 1: Profile parsing
+    console.log(chalk.blue('\n📝 Test 1: Inbound topics from profiles'))
+    if (inboundTopicOf({ profile: { inboundTopicId: '0.0.7' } }) !== '0.0.7') throw new Error('Profile inbound topic not read')
+    if (inboundTopicOf({ profile: {}, topicInfo: { inboundTopic: '0.0.8' } }) !== '0.0.8') throw new Error('SDK topic info not read')
+    if (inboundTopicOf({ profile: {} }) !== null) throw new Error('Missing inbound topic not reported')
+    if (connectionTopicMemo('0.0.7', 3) !== 'hcs-10:1:60:2:0.0.7:3') throw new Error(`Wrong connection memo ${connectionTopicMemo('0.0.7', 3)}`)
+    console.log(chalk.green('✅ inboundTopicId and topicInfo.inboundTopic resolved'))
+
+    // Test 2: Handshake
+    console.log(chalk.blue('\n📝 Test 2: connection_request → connection_created'))
+    const requests: ConnectionRequest[] = []
+    const established: Connection[] = []
+    const receiver = new HCS10ConnectionManager(bus.forPayer(RECEIVER), RECEIVER, { profileSource: profiles, topicFactory, pollInterval: 20 })
+    const requester = new HCS10ConnectionManager(bus.forPayer(REQUESTER), REQUESTER, { profileSource: profiles, pollInterval: 20 })
+    managers.push(receiver, requester)
+
+    await receiver.monitorIncomingRequests(receiverInbound, undefined, {
+      onConnectionRequest: async request => {
+        requests.push(request)
+        return true
+      },
+      onConnectionEstablished: async connection => {
+        established.push(connection)
+      }
+    })
+
+    const connection = await requester.requestConnection(RECEIVER, { timeout: 2000, metadata: { purpose: 'settlement' } })
+    const request = requests[0]
+    if (!request || request.fromAgentId !== REQUESTER || request.inboundTopicId !== requesterInbound || request.metadata?.purpose !== 'settlement') {
+      throw new Error(`Unexpected request: ${JSON.stringify(request)}`)
+    }
+    if (connection.status !== 'established' || !bus.hasTopic(connection.connectionTopicId)) {
+      throw new Error(`Connection topic ${connection.connectionTopicId} is not a real topic`)
+    }
+    if (connection.connectionRequestId !== request.connectionRequestId) throw new Error('Connection request IDs differ')
+    if (receiver.getConnection(REQUESTER)?.connectionTopicId !== connection.connectionTopicId || established.length !== 1) {
+      throw new Error('Receiver did not store the connection')
+    }
+    const memo = memos.get(connection.connectionTopicId)
+    if (memo !== `${REQUESTER} hcs-10:1:60:2:${receiverInbound}:${request.connectionRequestId}`) throw new Error(`Unexpected topic memo ${memo}`)
+
+    const inbound = (await bus.getMessages(receiverInbound)).messages.map(message => JSON.parse(message.data!))
+    if (inbound.map(operation => operation.op).join(',') !== 'connection_request,connection_created') {
+      throw new Error(`Inbound topic: ${JSON.stringify(inbound)}`)
+    }
+    if (inbound[0].operator_id !== `${requesterInbound}@${REQUESTER}` || inbound[1].connected_account_id !== REQUESTER) {
+      throw new Error('Operator IDs do not follow HCS-10')
+    }
+    console.log(chalk.green(`✅ Connection topic ${connection.connectionTopicId} created and stored on both sides`))
+
+    // Test 3: A2A over the connection topic
+    console.log(chalk.blue('\n📝 Test 3: A2A via connection'))
+    const a2a = new A2AProtocol(bus.forPayer(REQUESTER), REQUESTER, ['payment'], requester)
+    await a2a.sendViaConnection(RECEIVER, 'notification', { hello: true })
+    const delivered = (await bus.getMessages(connection.connectionTopicId)).messages
+    if (delivered.length !== 1 || JSON.parse(delivered[0]!.data!).payload?.hello !== true) {
+      throw new Error('A2A message not delivered to the connection topic')
+    }
+    console.log(chalk.green('✅ sendViaConnection delivered to the connection topic'))
+
+    // Test 4: Rejections, already answered requests and unknown agents
+    console.log(chalk.blue('\n📝 Test 4: Rejection and unknown agents'))
+    const rejected: ConnectionRequest[] = []
+    receiver.stopMonitoring()
+    const picky = new HCS10ConnectionManager(bus.forPayer(RECEIVER), RECEIVER, { profileSource: profiles, topicFactory, pollInterval: 20 })
+    managers.push(picky)
+    await picky.monitorIncomingRequests(receiverInbound, undefined, {
+      onConnectionRequest: async () => false,
+      onConnectionRejected: async request => {
+        rejected.push(request)
+      }
+    })
+    const topicsBefore = bus.getTopicIds().length
+    let refused = false
+    try {
+      await new HCS10ConnectionManager(bus.forPayer('0.0.1003'), '0.0.1003', { profileSource: profiles, inboundTopicId: bus.createTopic(), pollInterval: 20 })
+        .requestConnection(RECEIVER, { timeout: 200 })
+    } catch (error) {
+      refused = (error as Error).message.includes('Declined by agent')
+    }
+    if (!refused || rejected.length !== 1 || rejected[0]!.fromAgentId !== '0.0.1003') throw new Error('Rejected request was not reported')
+    if (bus.getTopicIds().length !== topicsBefore + 1) throw new Error('Answered or rejected requests created topics')
+
+    let unknown = false
+    try {
+      await requester.requestConnection('0.0.9999', { timeout: 200 })
+    } catch (error) {
+      unknown = (error as Error).message.includes('Cannot find inbound topic for agent 0.0.9999')
+    }
+    if (!unknown) throw new Error('Unknown agent not reported')
+    console.log(chalk.green('✅ Rejected requests are refused, answered requests are not re-accepted'))
+
+    // Test 5: Metadata survives the HCS10Client path
+    console.log(chalk.blue('\n📝 Test 5: HCS10Client requests'))
+    const sdkInbound = { [REQUESTER]: bus.createTopic(), [RECEIVER]: bus.createTopic(), '0.0.1003': bus.createTopic() }
+    const sdkRequests: ConnectionRequest[] = []
+    const sdkReceiver = new HCS10ConnectionManager(new MockHCS10Client(bus, RECEIVER, sdkInbound[RECEIVER]), RECEIVER, { inboundTopics: sdkInbound, pollInterval: 20 })
+    const sdkRequesterClient = new MockHCS10Client(bus, REQUESTER, sdkInbound[REQUESTER])
+    const sdkRequester = new HCS10ConnectionManager(sdkRequesterClient, REQUESTER, { inboundTopics: sdkInbound, pollInterval: 20 })
+    const plainClient = new MockHCS10Client(bus, '0.0.1003', sdkInbound['0.0.1003'])
+    const plainRequester = new HCS10ConnectionManager(plainClient, '0.0.1003', { inboundTopics: sdkInbound, pollInterval: 20 })
+    managers.push(sdkReceiver, sdkRequester, plainRequester)
+    await sdkReceiver.monitorIncomingRequests(sdkInbound[RECEIVER], undefined, {
+      onConnectionRequest: async sdkRequest => {
+        sdkRequests.push(sdkRequest)
+        return true
+      }
+    })
+
+    const sdkConnection = await sdkRequester.requestConnection(RECEIVER, {
+      timeout: 2000,
+      metadata: { capabilities: ['x402-payment'] },
+      feePayment: { transactionId: '0.0.1001@1700000000.000000001' }
+    })
+    const withMetadata = sdkRequests[0]
+    if (sdkConnection.status !== 'established' || sdkRequesterClient.sdkRequests !== 0) throw new Error('Request with metadata not sent as a structured operation')
+    if (withMetadata?.metadata?.feePayment?.transactionId !== '0.0.1001@1700000000.000000001' || withMetadata.metadata.capabilities?.[0] !== 'x402-payment') {
+      throw new Error(`Metadata lost: ${JSON.stringify(withMetadata)}`)
+    }
+    if (withMetadata.fromAgentId !== REQUESTER || withMetadata.inboundTopicId !== sdkInbound[REQUESTER]) throw new Error('Requester not identified')
+
+    await plainRequester.requestConnection(RECEIVER, { timeout: 2000 })
+    if (plainClient.sdkRequests !== 1 || sdkRequests[1]?.fromAgentId !== '0.0.1003') throw new Error('Request without metadata did not use the SDK')
+    console.log(chalk.green('✅ Fee payment and capabilities delivered over HCS10Client; plain requests use the SDK'))
+
+    // Test 6: Replies from anyone but the target are ignored
+    console.log(chalk.blue('\n📝 Test 6: Forged replies'))
+    const TARGET = '0.0.1004'
+    const targetInbound = bus.createTopic()
+    const forger = bus.forPayer('0.0.1666')
+    const forgedId = 4 // The request below is the fourth message on the topic
+    await forger.sendMessage(targetInbound, JSON.stringify({ p: 'hcs-10', op: 'connection_rejected', operator_id: `${targetInbound}@0.0.1666`, connection_id: forgedId, reason: 'Forged' }))
+    await forger.sendMessage(targetInbound, JSON.stringify({ p: 'hcs-10', op: 'connection_created', operator_id: `${targetInbound}@${TARGET}`, connection_topic_id: '0.0.6666', connection_id: forgedId }))
+    await forger.sendMessage(targetInbound, JSON.stringify({ p: 'hcs-10', op: 'connection_rejected', connection_id: forgedId, reason: 'Forged' }))
+    const cautious = new HCS10ConnectionManager(bus.forPayer('0.0.1005'), '0.0.1005', { inboundTopics: { [TARGET]: targetInbound, '0.0.1005': bus.createTopic() }, pollInterval: 20 })
+    managers.push(cautious)
+    const genuineTopic = bus.createTopic()
+    setTimeout(() => {
+      bus.forPayer(TARGET).sendMessage(targetInbound, JSON.stringify({
+        p: 'hcs-10', op: 'connection_created', operator_id: `${targetInbound}@${TARGET}`, connection_topic_id: genuineTopic, connected_account_id: '0.0.1005', connection_id: forgedId
+      }))
+    }, 100)
+    const genuine = await cautious.requestConnection(TARGET, { timeout: 2000 })
+    if (genuine.connectionRequestId !== forgedId) throw new Error(`Unexpected request ID ${genuine.connectionRequestId}`)
+    if (genuine.status !== 'established' || genuine.connectionTopicId !== genuineTopic) throw new Error(`Forged reply accepted: ${genuine.status} ${genuine.connectionTopicId}`)
+    console.log(chalk.green('✅ Only the target agent can accept or reject a request'))
+
+    console.log(chalk.bold.green('\n✅ All HCS-10 Handshake Unit Tests Passed!\n'))
+    managers.forEach(manager => manager.stopMonitoring())
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    managers.forEach(manager => manager.stopMonitoring())
+    process.exit(1)
+  }
+}
+
+// Run tests
+testHCS10Handshake()
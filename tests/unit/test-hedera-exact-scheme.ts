@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for the Hedera x402 "exact" Scheme (No credentials required)
+ *
+ * Tests payer-signed TransferTransactions: building, verification of amount,
+ * recipient, memo and fee payer from the bytes, and facilitator co-signing
+ */
+
+import { PrivateKey, Hbar, TransactionId, TransferTransaction, AccountId } from '@hashgraph/sdk'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import { A2AKeyRing } from '../../src/protocols/A2AMessageSigner'
+import chalk from 'chalk'
+
+const operatorKey = PrivateKey.generateED25519()
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'hedera-testnet'
+process.env.HEDERA_ACCOUNT_ID = '0.0.2002'
+process.env.HEDERA_PRIVATE_KEY = operatorKey.toStringDer()
+process.env.HEDERA_MERCHANT_ACCOUNT_ID = '0.0.5005'
+
+const encode = (transaction: string) => Buffer.from(JSON.stringify({
+  x402Version: 1,
+  scheme: 'exact',
+  network: 'hedera-testnet',
+  payload: { transaction }
+})).toString('base64')
+
+async function testHederaExactScheme() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Hedera x402 Exact Scheme (No credentials required)\n'))
+
+  const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+  const { createHederaPaymentTransaction, decodeHederaPayment } = await import('../../src/facilitator/HederaExactScheme')
+
+  const payerKey = PrivateKey.generateED25519()
+  const keyRing = new A2AKeyRing()
+  keyRing.addKey('0.0.1001', payerKey.publicKey)
+  const ledger = new InMemorySettlementLedger()
+  const facilitator = new X402FacilitatorServer(ledger, new InMemoryNonceStore(), keyRing)
+  const requirements = facilitator.createPaymentRequirements({ amount: '1', resource: '/premium' })
+
+  // Signs an arbitrary transfer the way a (possibly malicious) payer could
+  const customTransfer = async (build: (tx: TransferTransaction) => TransferTransaction, feePayer = '0.0.2002') => {
+    const tx = build(new TransferTransaction())
+      .setTransactionId(TransactionId.generate(feePayer))
+      .setNodeAccountIds([AccountId.fromString('0.0.3')])
+      .setTransactionMemo(requirements.extra.memo)
+      .freeze()
+    await tx.sign(payerKey)
+    return Buffer.from(tx.toBytes()).toString('base64')
+  }
+
+  try {
+    // Test 1: Requirements name the facilitator as fee payer
+    console.log(chalk.blue('\n📝 Test 1: Payment requirements'))
+    if (requirements.extra?.feePayer !== '0.0.2002' || !requirements.extra.memo.startsWith('x402:') || requirements.maxAmountRequired !== '100000000') {
+      throw new Error(`Unexpected requirements: ${JSON.stringify(requirements)}`)
+    }
+    const hederaKind = facilitator.getSupportedSchemes().kinds.find(kind => kind.network === 'hedera-testnet')
+    if (hederaKind?.extra?.feePayer !== '0.0.2002') throw new Error('Fee payer not advertised')
+    console.log(chalk.green(`✅ feePayer ${requirements.extra.feePayer}, memo ${requirements.extra.memo}`))
+
+    // Test 2: Payer-signed transfer verifies
+    console.log(chalk.blue('\n📝 Test 2: Valid transfer'))
+    const transaction = await createHederaPaymentTransaction(requirements, '0.0.1001', payerKey)
+    const payment = decodeHederaPayment({ payload: { transaction } })
+    if (payment.payer !== '0.0.1001' || payment.recipient !== '0.0.5005' || payment.amount !== '100000000' || payment.feePayer !== '0.0.2002') {
+      throw new Error(`Unexpected decoded payment: ${payment.payer} → ${payment.recipient}`)
+    }
+    const valid = await facilitator.verify(encode(transaction), requirements)
+    if (!valid.isValid) throw new Error(`Valid transfer rejected: ${valid.invalidReason}`)
+    console.log(chalk.green(`✅ ${payment.transactionId}: ${payment.amount} tinybars ${payment.payer} → ${payment.recipient}`))
+
+    // Test 3: Transfers that don't match the requirements
+    console.log(chalk.blue('\n📝 Test 3: Rejected transfers'))
+    const cases: Array<[string, string, any?]> = [
+      ['Amount mismatch', await customTransfer(tx => tx.addHbarTransfer('0.0.1001', new Hbar(-0.5)).addHbarTransfer('0.0.5005', new Hbar(0.5)))],
+      ['Recipient mismatch', await customTransfer(tx => tx.addHbarTransfer('0.0.1001', new Hbar(-1)).addHbarTransfer('0.0.6006', new Hbar(1)))],
+      ['debits the facilitator', await customTransfer(tx => tx.addHbarTransfer('0.0.2002', new Hbar(-1)).addHbarTransfer('0.0.5005', new Hbar(1)))],
+      ['one payer to one recipient', await customTransfer(tx => tx.addHbarTransfer('0.0.1001', new Hbar(-1)).addHbarTransfer('0.0.2002', new Hbar(-1)).addHbarTransfer('0.0.5005', new Hbar(2)))],
+      ['is not the facilitator', await customTransfer(tx => tx.addHbarTransfer('0.0.1001', new Hbar(-1)).addHbarTransfer('0.0.5005', new Hbar(1)), '0.0.1001')],
+      ['Memo mismatch', transaction, { ...requirements, extra: { ...requirements.extra, memo: 'x402:other' } }],
+      ['not signed by 0.0.1001', await createHederaPaymentTransaction(requirements, '0.0.1001', PrivateKey.generateED25519())]
+    ]
+    for (const [expected, tx, caseRequirements] of cases) {
+      const result = await facilitator.verify(encode(tx), caseRequirements || requirements)
+      if (result.isValid || !result.invalidReason.includes(expected)) throw new Error(`Expected "${expected}", got ${result.invalidReason}`)
+    }
+    const legacy = Buffer.from(JSON.stringify({ x402Version: 1, scheme: 'exact', network: 'hedera-testnet', payload: { authorization: { from: '0.0.1001' } } })).toString('base64')
+    if ((await facilitator.verify(legacy, requirements)).isValid) throw new Error('Payment without a transaction accepted')
+    console.log(chalk.green(`✅ ${cases.length + 1} invalid transfers rejected`))
+
+    // Test 4: Settlement co-signs and submits the payer's transaction
+    console.log(chalk.blue('\n📝 Test 4: Settlement'))
+    const submitted: TransferTransaction[] = []
+    const originalExecute = TransferTransaction.prototype.execute
+    TransferTransaction.prototype.execute = async function (this: TransferTransaction) {
+      submitted.push(this)
+      return { transactionId: this.transactionId, getReceipt: async () => ({ status: 'SUCCESS' }) } as any
+    }
+    const settled = await facilitator.settle(encode(transaction), requirements)
+    TransferTransaction.prototype.execute = originalExecute
+
+    if (!settled.success || settled.txHash !== payment.transactionId || submitted.length !== 1) throw new Error(`Settlement failed: ${settled.error}`)
+    if (!payerKey.publicKey.verifyTransaction(submitted[0]!) || !operatorKey.publicKey.verifyTransaction(submitted[0]!)) {
+      throw new Error('Submitted transaction is missing the payer or facilitator signature')
+    }
+    const entry = ledger.list()[0]
+    if (entry?.amount !== '100000000' || entry.recipient !== '0.0.5005' || entry.status !== 'confirmed') throw new Error(`Unexpected ledger entry: ${JSON.stringify(entry)}`)
+
+    const reused = await facilitator.verify(encode(transaction), requirements)
+    if (reused.invalidReason !== 'Authorization nonce already used') throw new Error('Submitted transaction verified again')
+    console.log(chalk.green(`✅ Co-signed and submitted ${settled.txHash}; transaction ID cannot be reused`))
+
+    console.log(chalk.bold.green('\n✅ All Hedera Exact Scheme Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testHederaExactScheme()
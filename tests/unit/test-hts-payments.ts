@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for HTS Token Payments (No credentials required)
+ *
+ * Tests x402 requirements priced in an HTS token, verification and settlement
+ * of payer-signed token transfers, per-token client budgets and AP2 requests
+ * in HTS token currencies. Token lookups on the network are stubbed.
+ */
+
+import { PrivateKey, Hbar, Long, TransactionId, TransferTransaction, AccountId } from '@hashgraph/sdk'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import { X402BudgetPolicy } from '../../src/facilitator/X402PaymentClient'
+import { TokenService } from '../../src/services/TokenService'
+import { A2AKeyRing } from '../../src/protocols/A2AMessageSigner'
+import { AP2Protocol } from '../../src/protocols/AP2Protocol'
+import chalk from 'chalk'
+
+const operatorKey = PrivateKey.generateED25519()
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'hedera-testnet'
+process.env.HEDERA_ACCOUNT_ID = '0.0.2002'
+process.env.HEDERA_PRIVATE_KEY = operatorKey.toStringDer()
+process.env.HEDERA_MERCHANT_ACCOUNT_ID = '0.0.5005'
+
+const TOKEN_ID = '0.0.7007'
+
+const encode = (transaction: string) => Buffer.from(JSON.stringify({
+  x402Version: 1,
+  scheme: 'exact',
+  network: 'hedera-testnet',
+  payload: { transaction }
+})).toString('base64')
+
+async function testHtsPayments() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing HTS Token Payments (No credentials required)\n'))
+
+  // Token "0.0.7007" has 2 decimals; only 0.0.5005 is associated with it
+  const tokenInfoLookups: string[] = []
+  TokenService.prototype.getTokenInfo = async (tokenId: string) => {
+    tokenInfoLookups.push(tokenId)
+    return { tokenId, name: 'Test Token', symbol: 'TST', decimals: 2, totalSupply: '1000000', type: 'FUNGIBLE_COMMON' }
+  }
+  TokenService.prototype.isTokenAssociated = async (accountId: string, tokenId: string) =>
+    accountId === '0.0.5005' && tokenId === TOKEN_ID
+
+  const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+  const { createHederaPaymentTransaction, decodeHederaPayment } = await import('../../src/facilitator/HederaExactScheme')
+
+  const payerKey = PrivateKey.generateED25519()
+  const keyRing = new A2AKeyRing()
+  keyRing.addKey('0.0.1001', payerKey.publicKey)
+  const ledger = new InMemorySettlementLedger()
+  const facilitator = new X402FacilitatorServer(ledger, new InMemoryNonceStore(), keyRing)
+
+  try {
+    // Test 1: Token requirements are priced with the token's decimals
+    console.log(chalk.blue('\n📝 Test 1: Token payment requirements'))
+    let unpriced = false
+    try {
+      facilitator.createPaymentRequirements({ amount: '2.5', resource: '/premium', asset: TOKEN_ID })
+    } catch (error) {
+      unpriced = (error as Error).message.includes('Unknown decimals')
+    }
+    if (!unpriced) throw new Error('Token requirements built without decimals')
+
+    if (await facilitator.loadToken(TOKEN_ID) !== 2) throw new Error('Wrong token decimals')
+    await facilitator.loadToken(TOKEN_ID)
+    if (tokenInfoLookups.length !== 1) throw new Error(`Token info looked up ${tokenInfoLookups.length} times`)
+
+    const requirements = facilitator.createPaymentRequirements({ amount: '2.5', resource: '/premium', asset: TOKEN_ID })
+    if (requirements.asset !== TOKEN_ID || requirements.maxAmountRequired !== '250') {
+      throw new Error(`Unexpected requirements: ${JSON.stringify(requirements)}`)
+    }
+    const explicit = facilitator.createPaymentRequirements({ amount: '1', resource: '/other', asset: '0.0.8008', decimals: 6 })
+    if (explicit.maxAmountRequired !== '1000000') throw new Error('Explicit decimals ignored')
+    console.log(chalk.green(`✅ 2.5 TST = ${requirements.maxAmountRequired} base units`))
+
+    // Test 2: Payer-signed token transfer verifies
+    console.log(chalk.blue('\n📝 Test 2: Token transfer'))
+    const transaction = await createHederaPaymentTransaction(requirements, '0.0.1001', payerKey)
+    const payment = decodeHederaPayment({ payload: { transaction } })
+    if (payment.asset !== TOKEN_ID || payment.amount !== '250' || payment.payer !== '0.0.1001' || payment.recipient !== '0.0.5005') {
+      throw new Error(`Unexpected decoded payment: ${JSON.stringify({ ...payment, transaction: undefined })}`)
+    }
+    const valid = await facilitator.verify(encode(transaction), requirements)
+    if (!valid.isValid) throw new Error(`Valid token transfer rejected: ${valid.invalidReason}`)
+    console.log(chalk.green(`✅ ${payment.amount} of ${payment.asset} ${payment.payer} → ${payment.recipient}`))
+
+    // Test 3: Transfers of the wrong asset or to unassociated accounts
+    console.log(chalk.blue('\n📝 Test 3: Rejected token transfers'))
+    const customTransfer = async (build: (tx: TransferTransaction) => TransferTransaction) => {
+      const tx = build(new TransferTransaction())
+        .setTransactionId(TransactionId.generate('0.0.2002'))
+        .setNodeAccountIds([AccountId.fromString('0.0.3')])
+        .setTransactionMemo(requirements.extra.memo)
+        .freeze()
+      await tx.sign(payerKey)
+      return Buffer.from(tx.toBytes()).toString('base64')
+    }
+    const hbarRequirements = facilitator.createPaymentRequirements({ amount: '1', resource: '/premium' })
+    const cases: Array<[string, string, any?]> = [
+      ['Asset mismatch', await customTransfer(tx => tx.addHbarTransfer('0.0.1001', Hbar.fromTinybars(-250)).addHbarTransfer('0.0.5005', Hbar.fromTinybars(250)))],
+      ['Asset mismatch', await customTransfer(tx => tx.addTokenTransfer('0.0.8008', '0.0.1001', Long.fromNumber(-250)).addTokenTransfer('0.0.8008', '0.0.5005', Long.fromNumber(250)))],
+      ['Asset mismatch', transaction, hbarRequirements],
+      ['single asset', await customTransfer(tx => tx
+        .addTokenTransfer(TOKEN_ID, '0.0.1001', Long.fromNumber(-250)).addTokenTransfer(TOKEN_ID, '0.0.5005', Long.fromNumber(250))
+        .addHbarTransfer('0.0.1001', new Hbar(-1)).addHbarTransfer('0.0.6006', new Hbar(1)))],
+      ['do not balance', await customTransfer(tx => tx.addTokenTransfer(TOKEN_ID, '0.0.1001', Long.fromNumber(-300)).addTokenTransfer(TOKEN_ID, '0.0.5005', Long.fromNumber(250)))],
+      ['not associated with token', await customTransfer(tx => tx.addTokenTransfer(TOKEN_ID, '0.0.1001', Long.fromNumber(-250)).addTokenTransfer(TOKEN_ID, '0.0.6006', Long.fromNumber(250))),
+        { ...requirements, payTo: '0.0.6006' }]
+    ]
+    for (const [expected, tx, caseRequirements] of cases) {
+      const result = await facilitator.verify(encode(tx), caseRequirements || requirements)
+      if (result.isValid || !result.invalidReason.includes(expected)) throw new Error(`Expected "${expected}", got ${result.invalidReason}`)
+    }
+    console.log(chalk.green(`✅ ${cases.length} invalid token transfers rejected`))
+
+    // Test 4: Settlement submits the token transfer
+    console.log(chalk.blue('\n📝 Test 4: Token settlement'))
+    const submitted: TransferTransaction[] = []
+    const originalExecute = TransferTransaction.prototype.execute
+    TransferTransaction.prototype.execute = async function (this: TransferTransaction) {
+      submitted.push(this)
+      return { transactionId: this.transactionId, getReceipt: async () => ({ status: 'SUCCESS' }) } as any
+    }
+    const settled = await facilitator.settle(encode(transaction), requirements)
+    TransferTransaction.prototype.execute = originalExecute
+
+    if (!settled.success || settled.txHash !== payment.transactionId || submitted.length !== 1) throw new Error(`Settlement failed: ${settled.error}`)
+    if (!operatorKey.publicKey.verifyTransaction(submitted[0]!)) throw new Error('Submitted transaction is missing the facilitator signature')
+    const entry = ledger.list()[0]
+    if (entry?.asset !== TOKEN_ID || entry.amount !== '250' || entry.status !== 'confirmed') throw new Error(`Unexpected ledger entry: ${JSON.stringify(entry)}`)
+    console.log(chalk.green(`✅ Settled ${settled.txHash}`))
+
+    // Test 5: Client budgets only pay in configured tokens, tracked per token
+    console.log(chalk.blue('\n📝 Test 5: Per-token budget'))
+    const unlisted = new X402BudgetPolicy({ 'hedera-testnet': { maxTotal: '10' } })
+    const refused = unlisted.check(requirements)
+    if (refused.valid || !refused.error?.includes(`No budget for token ${TOKEN_ID}`)) throw new Error(`Unlisted token accepted: ${refused.error}`)
+
+    const budget = new X402BudgetPolicy({
+      'hedera-testnet': { maxTotal: '1', tokens: { [TOKEN_ID]: { decimals: 2, maxPerPayment: '3', maxTotal: '5' } } }
+    })
+    if (!budget.reserve(requirements).valid || !budget.reserve(requirements).valid) throw new Error('Token payments within budget refused')
+    if (budget.reserve(requirements).valid) throw new Error('Token budget exceeded')
+    if (budget.getSpent('hedera-testnet', TOKEN_ID) !== '5.0' || budget.getRemaining('hedera-testnet', TOKEN_ID) !== '0.0') {
+      throw new Error(`Unexpected token spend: ${budget.getSpent('hedera-testnet', TOKEN_ID)}`)
+    }
+    if (budget.getSpent('hedera-testnet') !== '0.0' || !budget.check(hbarRequirements).valid) throw new Error('Token spend counted against HBAR')
+    if (budget.check({ ...requirements, maxAmountRequired: '400' }).valid) throw new Error('Per-payment token limit ignored')
+    budget.release(requirements)
+    if (budget.getRemaining('hedera-testnet', TOKEN_ID) !== '2.5') throw new Error('Token reservation not released')
+    console.log(chalk.green('✅ Token spend tracked separately from HBAR'))
+
+    // Test 6: AP2 requests in HTS tokens
+    console.log(chalk.blue('\n📝 Test 6: AP2 token currency'))
+    const metadata = { purpose: 'data', reference: 'ref-1' }
+    const tokenRequest = AP2Protocol.createPaymentRequest('pay-1', '2.5', TOKEN_ID, '0.0.5005', 'hedera-testnet', metadata)
+    const tokenValidation = AP2Protocol.validatePaymentRequest(tokenRequest)
+    if (!tokenValidation.valid) throw new Error(`Token request rejected: ${tokenValidation.error}`)
+
+    const baseRequest = AP2Protocol.createPaymentRequest('pay-2', '2.5', TOKEN_ID, '0x0000000000000000000000000000000000000001', 'base-sepolia', metadata)
+    if (AP2Protocol.validatePaymentRequest(baseRequest).valid) throw new Error('HTS token accepted on base-sepolia')
+    if (AP2Protocol.validatePaymentRequest({ ...tokenRequest, currency: 'DOGE' as any }).valid) throw new Error('Unknown currency accepted')
+    console.log(chalk.green('✅ HTS token currency accepted on hedera-testnet only'))
+
+    console.log(chalk.bold.green('\n✅ All HTS Token Payment Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testHtsPayments()
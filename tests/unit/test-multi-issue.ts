@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Multi-Issue Negotiation (No credentials required)
+ *
+ * Tests weighted utility scoring, trade-off counter-offers and an automated
+ * supply chain negotiation with utilities logged on every history entry
+ */
+
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2ANegotiation, NegotiationState } from '../../src/protocols/A2ANegotiation'
+import { MultiIssueUtility, SupplyChainTerms, paretoDominates } from '../../src/protocols/MultiIssueUtility'
+import { MultiIssueStrategy } from '../../src/protocols/NegotiationStrategy'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+const buyerUtility = new MultiIssueUtility<SupplyChainTerms>([
+  { name: 'pricePerUnit', type: 'numeric', weight: 0.5, min: 70, max: 110, prefer: 'low' },
+  { name: 'quantity', type: 'numeric', weight: 0.05, min: 500, max: 1500, prefer: 'high', step: 100 },
+  { name: 'deliveryDate', type: 'date', weight: 0.25, earliest: '2024-02-01', latest: '2024-03-31', prefer: 'early' },
+  { name: 'paymentSchedule', type: 'discrete', weight: 0.1, utilities: { 'Net 60': 1, 'Net 30': 0.6, 'Upfront': 0 } },
+  { name: 'warrantyMonths', type: 'numeric', weight: 0.1, min: 0, max: 24, prefer: 'high', step: 1 }
+])
+
+const vendorUtility = new MultiIssueUtility<SupplyChainTerms>([
+  { name: 'pricePerUnit', type: 'numeric', weight: 0.6, min: 70, max: 110, prefer: 'high' },
+  { name: 'quantity', type: 'numeric', weight: 0.2, min: 500, max: 1500, prefer: 'high', step: 100 },
+  { name: 'deliveryDate', type: 'date', weight: 0.05, earliest: '2024-02-01', latest: '2024-03-31', prefer: 'late' },
+  { name: 'paymentSchedule', type: 'discrete', weight: 0.1, utilities: { 'Upfront': 1, 'Net 30': 0.5, 'Net 60': 0 } },
+  { name: 'warrantyMonths', type: 'numeric', weight: 0.05, min: 0, max: 24, prefer: 'low', step: 1 }
+])
+
+async function testMultiIssue() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Multi-Issue Negotiation (No credentials required)\n'))
+
+  try {
+    const buyerIdeal: SupplyChainTerms = {
+      pricePerUnit: 70,
+      quantity: 1500,
+      deliveryDate: '2024-02-01',
+      paymentSchedule: 'Net 60',
+      warrantyMonths: 24
+    }
+    const vendorIdeal: SupplyChainTerms = {
+      pricePerUnit: 110,
+      quantity: 1500,
+      deliveryDate: '2024-03-31',
+      paymentSchedule: 'Upfront',
+      warrantyMonths: 0
+    }
+
+    // Test 1: Weighted scoring
+    console.log(chalk.blue('\n📝 Test 1: Weighted utility scores'))
+    if (Math.abs(buyerUtility.score(buyerIdeal) - 1) > 1e-9) throw new Error('Ideal offer should score 1')
+    if (buyerUtility.score(vendorIdeal) > 0.1) throw new Error('Opposing offer should score close to 0')
+    const breakdown = buyerUtility.breakdown({ ...buyerIdeal, pricePerUnit: 90, paymentSchedule: 'Net 30' })
+    if (breakdown.pricePerUnit !== 0.5 || breakdown.paymentSchedule !== 0.6) throw new Error('Wrong per-issue utilities')
+    console.log(chalk.green(`✅ Scores: ideal 1, opposing ${buyerUtility.score(vendorIdeal).toFixed(3)}`))
+
+    // Test 2: Trade-off counter-offers
+    console.log(chalk.blue('\n📝 Test 2: Trade-off counter-offer'))
+    const counter = buyerUtility.generateCounterOffer(vendorIdeal, 0.6, { pricePerUnit: 3, quantity: 2, paymentSchedule: 2 })
+    const counterUtility = buyerUtility.score(counter)
+    if (counterUtility < 0.6 - 1e-9) throw new Error(`Counter-offer utility ${counterUtility} below target`)
+    if (counter.pricePerUnit !== vendorIdeal.pricePerUnit && counter.deliveryDate === vendorIdeal.deliveryDate) {
+      throw new Error('Counter-offer should concede on issues the vendor values most')
+    }
+    if (counter.quantity !== 1500) throw new Error('Issues already at the shared optimum should be kept')
+    if (!paretoDominates(counter, { ...counter, pricePerUnit: counter.pricePerUnit + 1 }, [buyerUtility])) {
+      throw new Error('Pareto dominance check failed')
+    }
+    console.log(chalk.green(`✅ Counter-offer ${JSON.stringify(counter)} scores ${counterUtility.toFixed(3)}`))
+
+    // Test 3: Automated negotiation with utility log
+    console.log(chalk.blue('\n📝 Test 3: Automated multi-issue negotiation'))
+    const bus = new InMemoryTopicBus()
+    const buyerTopicId = bus.createTopic()
+    const vendorTopicId = bus.createTopic()
+    const buyerA2A = new A2AProtocol(bus, 'buyer-agent', ['negotiation'])
+    const vendorA2A = new A2AProtocol(bus, 'vendor-agent', ['negotiation'])
+
+    const buyer = new A2ANegotiation(buyerA2A, {
+      replyTopicId: buyerTopicId,
+      utility: buyerUtility,
+      strategy: new MultiIssueStrategy({ utility: buyerUtility, reservationUtility: 0.4, maxRounds: 8 })
+    })
+    const vendor = new A2ANegotiation(vendorA2A, {
+      replyTopicId: vendorTopicId,
+      utility: vendorUtility,
+      strategy: new MultiIssueStrategy({ utility: vendorUtility, reservationUtility: 0.4, maxRounds: 8, beta: 2 })
+    })
+
+    bus.subscribe(buyerTopicId, message => {
+      const parsed = buyerA2A.parseMessage(message.data!)
+      if (parsed) buyer.processNegotiationMessage(parsed)
+    })
+    bus.subscribe(vendorTopicId, message => {
+      const parsed = vendorA2A.parseMessage(message.data!)
+      if (parsed) vendor.processNegotiationMessage(parsed)
+    })
+
+    const proposalId = await buyer.proposeNegotiation(vendorTopicId, 'service', 'vendor-agent', buyerIdeal)
+    for (let i = 0; i < 100; i++) {
+      const state = buyer.getNegotiation(proposalId)!.state
+      if (state !== NegotiationState.PENDING && state !== NegotiationState.IN_PROGRESS) break
+      await sleep(20)
+    }
+
+    const result = buyer.getNegotiation<SupplyChainTerms>(proposalId)!
+    if (result.state !== NegotiationState.AGREED) throw new Error(`Negotiation ended in ${result.state}`)
+    if (buyerUtility.score(result.currentOffer) < 0.4 || vendorUtility.score(result.currentOffer) < 0.4) {
+      throw new Error('Agreement violates a reservation utility')
+    }
+    if (!result.history.every(entry => entry.proposal === null || typeof entry.utility === 'number')) {
+      throw new Error('History entries are missing utilities')
+    }
+    console.log(chalk.green(`✅ Agreed on ${JSON.stringify(result.currentOffer)}`))
+    console.log(chalk.green(`✅ Buyer utility log: ${result.history.map(entry => entry.utility?.toFixed(3)).join(' → ')}`))
+
+    buyer.close()
+    vendor.close()
+
+    console.log(chalk.bold.green('\n✅ All Multi-Issue Negotiation Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testMultiIssue()
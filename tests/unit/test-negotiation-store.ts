@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Negotiation Store (No credentials required)
+ *
+ * Tests negotiation persistence, queries and rehydration of open negotiations
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2ANegotiation, NegotiationState, NegotiationProposal } from '../../src/protocols/A2ANegotiation'
+import { InMemoryNegotiationStore, FileNegotiationStore, SqliteNegotiationStore } from '../../src/protocols/NegotiationStore'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+function makeProposal(proposalId: string, from: string, to: string, state: NegotiationState, createdAt: number): NegotiationProposal {
+  return {
+    proposalId,
+    negotiationType: 'payment',
+    from,
+    to,
+    currentOffer: { amount: 1 },
+    history: [],
+    state,
+    createdAt,
+    expiresAt: createdAt + 60000
+  }
+}
+
+async function testNegotiationStore() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Negotiation Store (No credentials required)\n'))
+
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-negotiations-'))
+  const bus = new InMemoryTopicBus()
+  const a2a = new A2AProtocol(bus, 'buyer-agent', ['negotiation'])
+
+  try {
+    // Test 1: Queries by state and counterparty
+    console.log(chalk.blue('\n📝 Test 1: listNegotiations queries'))
+    const memoryStore = new InMemoryNegotiationStore()
+    memoryStore.save(makeProposal('n-1', 'buyer-agent', 'vendor-a', NegotiationState.PENDING, 1))
+    memoryStore.save(makeProposal('n-2', 'buyer-agent', 'vendor-b', NegotiationState.AGREED, 2))
+    memoryStore.save(makeProposal('n-3', 'vendor-a', 'buyer-agent', NegotiationState.IN_PROGRESS, 3))
+
+    const negotiation = new A2ANegotiation(a2a, { store: memoryStore })
+    const withVendorA = negotiation.listNegotiations({ counterparty: 'vendor-a' })
+    if (withVendorA.map(n => n.proposalId).join(',') !== 'n-1,n-3') throw new Error('Counterparty query failed')
+    const agreed = negotiation.listNegotiations({ state: NegotiationState.AGREED })
+    if (agreed.length !== 1 || agreed[0]!.proposalId !== 'n-2') throw new Error('State query failed')
+    const openWithB = negotiation.listNegotiations({ state: [NegotiationState.PENDING, NegotiationState.IN_PROGRESS], counterparty: 'vendor-b' })
+    if (openWithB.length !== 0) throw new Error('Combined query failed')
+    negotiation.close()
+    console.log(chalk.green(`✅ Queries filter by state and counterparty`))
+
+    // Test 2: File store survives a restart with history intact
+    console.log(chalk.blue('\n📝 Test 2: File store persistence'))
+    const filePath = path.join(stateDir, 'negotiations.json')
+    const first = new A2ANegotiation(a2a, { store: new FileNegotiationStore(filePath) })
+    const proposalId = first.startNegotiation('payment', 'vendor-agent', { amount: 1, currency: 'USDC' })
+    const vendor = new A2AProtocol(bus, 'vendor-agent', ['negotiation'])
+    await first.processNegotiationMessage(vendor.createMessage('buyer-agent', 'request', {
+      type: 'negotiation',
+      action: 'counter',
+      proposalId,
+      proposal: { amount: 1.5, currency: 'USDC' }
+    }))
+    first.close()
+
+    const restored = new A2ANegotiation(a2a, { store: new FileNegotiationStore(filePath) })
+    const reloaded = restored.getNegotiation(proposalId)
+    if (!reloaded) throw new Error('Negotiation was not persisted')
+    if (reloaded.state !== NegotiationState.IN_PROGRESS) throw new Error('State was not persisted')
+    if (reloaded.history.length !== 2 || reloaded.currentOffer.amount !== 1.5) throw new Error('History was not persisted')
+    if (restored.getActiveNegotiations().length !== 1) throw new Error('Open negotiation not restored')
+    restored.close()
+    console.log(chalk.green(`✅ Negotiation and history restored from file`))
+
+    // Test 3: Rehydration re-arms timeouts from expiresAt
+    console.log(chalk.blue('\n📝 Test 3: Timeout rehydration'))
+    const timeoutStore = new InMemoryNegotiationStore()
+    const expired = makeProposal('expired', 'buyer-agent', 'vendor-a', NegotiationState.PENDING, Date.now() - 120000)
+    const soon = makeProposal('soon', 'buyer-agent', 'vendor-a', NegotiationState.PENDING, Date.now())
+    soon.expiresAt = Date.now() + 100
+    const later = makeProposal('later', 'buyer-agent', 'vendor-a', NegotiationState.IN_PROGRESS, Date.now())
+    const longLived = makeProposal('long-lived', 'buyer-agent', 'vendor-a', NegotiationState.IN_PROGRESS, Date.now())
+    longLived.expiresAt = Date.now() + 30 * 24 * 60 * 60 * 1000
+    timeoutStore.save(expired)
+    timeoutStore.save(soon)
+    timeoutStore.save(later)
+    timeoutStore.save(longLived)
+
+    const rehydrated = new A2ANegotiation(a2a, { store: timeoutStore })
+    await sleep(250)
+    if (timeoutStore.get('expired')!.state !== NegotiationState.TIMEOUT) throw new Error('Expired negotiation not timed out')
+    if (timeoutStore.get('soon')!.state !== NegotiationState.TIMEOUT) throw new Error('Re-armed timeout did not fire')
+    if (timeoutStore.get('later')!.state !== NegotiationState.IN_PROGRESS) throw new Error('Negotiation timed out too early')
+    if (timeoutStore.get('long-lived')!.state !== NegotiationState.IN_PROGRESS) throw new Error('Negotiation expiring in 30 days timed out')
+    rehydrated.close()
+    console.log(chalk.green(`✅ Timeouts re-armed from expiresAt`))
+
+    // Test 4: SQLite store queries and survives a restart
+    console.log(chalk.blue('\n📝 Test 4: SQLite store'))
+    const databasePath = path.join(stateDir, 'negotiations.db')
+    const sqliteStore = new SqliteNegotiationStore(databasePath)
+    sqliteStore.save(makeProposal('s-1', 'buyer-agent', 'vendor-a', NegotiationState.PENDING, 1))
+    sqliteStore.save(makeProposal('s-2', 'vendor-b', 'buyer-agent', NegotiationState.REJECTED, 2))
+    sqliteStore.save(makeProposal('s-3', 'buyer-agent', 'vendor-a', NegotiationState.IN_PROGRESS, Date.now()))
+    const open = sqliteStore.list({ state: [NegotiationState.PENDING], counterparty: 'vendor-a' })
+    if (open.length !== 1 || open[0]!.proposalId !== 's-1') throw new Error('SQLite query failed')
+    if (sqliteStore.list({ state: [] }).length !== 0) throw new Error('Empty state filter matched')
+    sqliteStore.delete('s-1')
+    if (sqliteStore.get('s-1') !== null) throw new Error('SQLite delete failed')
+    sqliteStore.close()
+
+    const reopened = new A2ANegotiation(a2a, { store: new SqliteNegotiationStore(databasePath) })
+    if (reopened.listNegotiations().map(n => n.proposalId).join(',') !== 's-2,s-3') throw new Error('SQLite store not persisted')
+    if (reopened.getActiveNegotiations().map(n => n.proposalId).join(',') !== 's-3') throw new Error('Open SQLite negotiation not restored')
+    reopened.close()
+    console.log(chalk.green(`✅ SQLite store queries, deletes and survives a restart`))
+
+    console.log(chalk.bold.green('\n✅ All Negotiation Store Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testNegotiationStore()
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Negotiation Strategies (No credentials required)
+ *
+ * Tests the built-in concession tactics and a fully automated buyer/vendor
+ * negotiation over the in-memory bus
+ */
+
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2ANegotiation, NegotiationState, NegotiationProposal } from '../../src/protocols/A2ANegotiation'
+import {
+  LinearConcessionStrategy,
+  BoulwareStrategy,
+  ConcederStrategy,
+  TitForTatStrategy,
+  NegotiationContext
+} from '../../src/protocols/NegotiationStrategy'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+function contextAt(progress: number, offer: any, history: NegotiationProposal['history'] = []): NegotiationContext {
+  const negotiation: NegotiationProposal = {
+    proposalId: 'negotiation-test',
+    negotiationType: 'payment',
+    from: 'vendor-agent',
+    to: 'buyer-agent',
+    currentOffer: offer,
+    history,
+    state: NegotiationState.IN_PROGRESS,
+    createdAt: 0,
+    expiresAt: 1000
+  }
+  return { negotiation, offer, agentId: 'buyer-agent', now: progress * 1000 }
+}
+
+async function testNegotiationStrategy() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Negotiation Strategies (No credentials required)\n'))
+
+  try {
+    const buyerParams = { role: 'buyer' as const, initialValue: 80, reservationValue: 100 }
+
+    // Test 1: Time-dependent tactics concede at different rates
+    console.log(chalk.blue('\n📝 Test 1: Linear, Boulware and Conceder tactics'))
+    const halfway = contextAt(0.5, { amount: 120 })
+    const linear = new LinearConcessionStrategy(buyerParams).decide(halfway)
+    const boulware = new BoulwareStrategy(buyerParams).decide(halfway)
+    const conceder = new ConcederStrategy(buyerParams).decide(halfway)
+
+    if (linear.action !== 'counter' || linear.proposal.amount !== 90) throw new Error(`Linear should counter 90, got ${linear.proposal?.amount}`)
+    if (boulware.proposal.amount >= linear.proposal.amount) throw new Error('Boulware should concede less than linear')
+    if (conceder.proposal.amount <= linear.proposal.amount) throw new Error('Conceder should concede more than linear')
+    console.log(chalk.green(`✅ Halfway offers: boulware ${boulware.proposal.amount}, linear ${linear.proposal.amount}, conceder ${conceder.proposal.amount}`))
+
+    // Test 2: Accept good offers, reject at the deadline
+    console.log(chalk.blue('\n📝 Test 2: Accept and reject decisions'))
+    const strategy = new LinearConcessionStrategy(buyerParams)
+    if (strategy.decide(contextAt(0.5, { amount: 85 })).action !== 'accept') throw new Error('Should accept offer below target')
+    if (strategy.decide(contextAt(1, { amount: 99 })).action !== 'accept') throw new Error('Should accept within reservation at deadline')
+    if (strategy.decide(contextAt(1, { amount: 101 })).action !== 'reject') throw new Error('Should reject beyond reservation at deadline')
+    if (strategy.decide(contextAt(0.5, { price: 85 })).action !== 'reject') throw new Error('Should reject offers without the negotiated field')
+
+    let invalid = false
+    try {
+      new LinearConcessionStrategy({ role: 'seller', initialValue: 80, reservationValue: 100 })
+    } catch {
+      invalid = true
+    }
+    if (!invalid) throw new Error('Seller reservation above initial value should be rejected')
+    console.log(chalk.green(`✅ Accept/reject decisions follow reservation values`))
+
+    // Test 3: Tit-for-tat mirrors the counterparty's concession
+    console.log(chalk.blue('\n📝 Test 3: Tit-for-tat'))
+    const titForTat = new TitForTatStrategy(buyerParams)
+    const decision = titForTat.decide(contextAt(0.1, { amount: 112 }, [
+      { timestamp: 1, agentId: 'vendor-agent', action: 'propose', proposal: { amount: 120 } },
+      { timestamp: 2, agentId: 'buyer-agent', action: 'counter', proposal: { amount: 80 } },
+      { timestamp: 3, agentId: 'vendor-agent', action: 'counter', proposal: { amount: 112 } }
+    ]))
+    if (decision.action !== 'counter' || decision.proposal.amount !== 88) throw new Error(`Tit-for-tat should counter 88, got ${decision.proposal?.amount}`)
+    console.log(chalk.green(`✅ Vendor conceded 8, buyer conceded 8`))
+
+    // Test 4: Automated negotiation between two agents
+    console.log(chalk.blue('\n📝 Test 4: Automated buyer/vendor negotiation'))
+    const bus = new InMemoryTopicBus()
+    const buyerTopicId = bus.createTopic()
+    const vendorTopicId = bus.createTopic()
+
+    const buyerA2A = new A2AProtocol(bus, 'buyer-agent', ['negotiation'])
+    const vendorA2A = new A2AProtocol(bus, 'vendor-agent', ['negotiation'])
+
+    const buyer = new A2ANegotiation(buyerA2A, {
+      replyTopicId: buyerTopicId,
+      strategy: new BoulwareStrategy({ ...buyerParams, maxRounds: 6 })
+    })
+    const vendor = new A2ANegotiation(vendorA2A, {
+      replyTopicId: vendorTopicId,
+      strategy: new ConcederStrategy({ role: 'seller', initialValue: 120, reservationValue: 90, maxRounds: 6 })
+    })
+
+    bus.subscribe(buyerTopicId, message => {
+      const parsed = buyerA2A.parseMessage(message.data!)
+      if (parsed) buyer.processNegotiationMessage(parsed)
+    })
+    bus.subscribe(vendorTopicId, message => {
+      const parsed = vendorA2A.parseMessage(message.data!)
+      if (parsed) vendor.processNegotiationMessage(parsed)
+    })
+
+    const proposalId = await buyer.proposeNegotiation(vendorTopicId, 'payment', 'vendor-agent', { amount: 80, currency: 'USDC' })
+
+    for (let i = 0; i < 50 && buyer.getNegotiation(proposalId)!.state === NegotiationState.PENDING; i++) {
+      await sleep(20)
+    }
+    for (let i = 0; i < 50 && buyer.getNegotiation(proposalId)!.state === NegotiationState.IN_PROGRESS; i++) {
+      await sleep(20)
+    }
+
+    const buyerView = buyer.getNegotiation(proposalId)!
+    const vendorView = vendor.getNegotiation(proposalId)!
+    if (buyerView.state !== NegotiationState.AGREED || vendorView.state !== NegotiationState.AGREED) {
+      throw new Error(`Negotiation did not converge (buyer ${buyerView.state}, vendor ${vendorView.state})`)
+    }
+    const price = buyerView.currentOffer.amount
+    if (price < 90 || price > 100) throw new Error(`Agreed price ${price} outside the zone of agreement`)
+    if (buyerView.currentOffer.currency !== 'USDC') throw new Error('Non-negotiated fields were not preserved')
+    console.log(chalk.green(`✅ Agreed on ${price} USDC after ${buyerView.history.length} moves`))
+
+    buyer.close()
+    vendor.close()
+
+    console.log(chalk.bold.green('\n✅ All Negotiation Strategy Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testNegotiationStrategy()
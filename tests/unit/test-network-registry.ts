@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the Network Registry (No credentials required)
+ *
+ * Tests Hedera and EVM network lookups, per-agent network selection, SDK
+ * client construction and that protocols and the facilitator follow the
+ * selected network instead of testnet
+ */
+
+import { PrivateKey } from '@hashgraph/sdk'
+import {
+  getHederaNetwork,
+  getEvmNetwork,
+  selectHederaNetwork,
+  selectPaymentNetwork,
+  configureHederaNetwork,
+  createHederaClient,
+  hcs10NetworkOf,
+  isHederaPaymentNetwork
+} from '../../src/config/NetworkRegistry'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { AP2Protocol } from '../../src/protocols/AP2Protocol'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import chalk from 'chalk'
+
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.HEDERA_ACCOUNT_ID = '0.0.2002'
+process.env.HEDERA_PRIVATE_KEY = PrivateKey.generateED25519().toStringDer()
+process.env.HEDERA_MERCHANT_ACCOUNT_ID = '0.0.5005'
+process.env.MERCHANT_WALLET_ADDRESS = '0x0000000000000000000000000000000000000001'
+delete process.env.USDC_CONTRACT
+delete process.env.HEDERA_NETWORK
+delete process.env.ANALYZER_HEDERA_NETWORK
+
+async function testNetworkRegistry() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Network Registry (No credentials required)\n'))
+
+  try {
+    // Test 1: Lookups by name and payment network
+    console.log(chalk.blue('\n📝 Test 1: Network lookups'))
+    if (getHederaNetwork('testnet') !== getHederaNetwork('hedera-testnet')) throw new Error('Name and payment network differ')
+    if (getHederaNetwork('mainnet').chainId !== 295 || getHederaNetwork('local').chainId !== 298) throw new Error('Wrong Hedera chain IDs')
+    if (getEvmNetwork('base-sepolia').chainId !== 84532 || getEvmNetwork('base').usdcDomain.name !== 'USD Coin') throw new Error('Wrong EVM network')
+    for (const lookup of [() => getHederaNetwork('devnet'), () => getEvmNetwork('polygon')]) {
+      let threw = false
+      try {
+        lookup()
+      } catch (error) {
+        threw = (error as Error).message.includes('Unknown')
+      }
+      if (!threw) throw new Error('Unknown network accepted')
+    }
+    if (!isHederaPaymentNetwork('hedera-local') || isHederaPaymentNetwork('base')) throw new Error('Wrong Hedera payment network check')
+    console.log(chalk.green('✅ Hedera and EVM networks resolved'))
+
+    // Test 2: Per-agent selection
+    console.log(chalk.blue('\n📝 Test 2: Per-agent network selection'))
+    if (selectHederaNetwork('ANALYZER').name !== 'testnet') throw new Error('Default is not testnet')
+    process.env.HEDERA_NETWORK = 'mainnet'
+    process.env.ANALYZER_HEDERA_NETWORK = 'local'
+    if (selectHederaNetwork('ANALYZER').name !== 'local') throw new Error('Agent override ignored')
+    if (selectHederaNetwork('VERIFIER').name !== 'mainnet') throw new Error('HEDERA_NETWORK ignored')
+    process.env.PAYMENT_NETWORK = 'hedera-devnet'
+    let rejected = false
+    try {
+      selectPaymentNetwork()
+    } catch (error) {
+      rejected = (error as Error).message.includes('Unknown PAYMENT_NETWORK')
+    }
+    if (!rejected) throw new Error('Unknown PAYMENT_NETWORK accepted')
+    console.log(chalk.green('✅ ANALYZER_HEDERA_NETWORK > HEDERA_NETWORK > testnet'))
+
+    // Test 3: SDK clients and HCS-10 availability
+    console.log(chalk.blue('\n📝 Test 3: Clients'))
+    const local = configureHederaNetwork('local', { nodes: { '127.0.0.1:50212': '0.0.3' }, mirrorNodeUrl: 'http://localhost:5552' })
+    if (getHederaNetwork('local').mirrorNodeUrl !== 'http://localhost:5552') throw new Error('Override not applied')
+    const localClient = createHederaClient(local)
+    if (!Object.keys(localClient.network).includes('127.0.0.1:50212')) throw new Error(`Local client nodes: ${Object.keys(localClient.network)}`)
+    const mainnetClient = createHederaClient(getHederaNetwork('mainnet'))
+    if (mainnetClient.ledgerId?.toString() !== 'mainnet') throw new Error('Mainnet client is not on mainnet')
+    localClient.close()
+    mainnetClient.close()
+
+    if (hcs10NetworkOf(getHederaNetwork('mainnet')) !== 'mainnet') throw new Error('Wrong HCS-10 network')
+    let noHcs10 = false
+    try {
+      hcs10NetworkOf(local)
+    } catch (error) {
+      noHcs10 = true
+    }
+    if (!noHcs10) throw new Error('HCS-10 client allowed on a local node')
+    console.log(chalk.green('✅ Local node client and mainnet client built'))
+
+    // Test 4: A2A envelopes and AP2 requests carry the selected network
+    console.log(chalk.blue('\n📝 Test 4: Protocol networks'))
+    const bus = new InMemoryTopicBus()
+    const mainnetAgent = new A2AProtocol(bus, 'agent-a', ['payment'])
+    const localAgent = new A2AProtocol(bus, 'agent-b', ['payment'], undefined, undefined, { network: 'hedera-local' })
+    const envelope = mainnetAgent.createMessage('agent-b', 'notification', { hello: true })
+    if (envelope.sender.network !== 'hedera-mainnet') throw new Error(`Envelope network ${envelope.sender.network}`)
+    if (!localAgent.parseMessage(JSON.stringify(envelope))) throw new Error('Mainnet envelope rejected')
+    if (localAgent.createMessage('agent-a', 'notification', {}).sender.network !== 'hedera-local') throw new Error('Network option ignored')
+
+    const metadata = { purpose: 'data', reference: 'ref-1' }
+    if (!AP2Protocol.validatePaymentRequest(AP2Protocol.createPaymentRequest('pay-1', '1', 'USDC', '0x0000000000000000000000000000000000000001', 'base', metadata)).valid) {
+      throw new Error('Payment on base rejected')
+    }
+    if (!AP2Protocol.validatePaymentRequest(AP2Protocol.createPaymentRequest('pay-2', '1', '0.0.456858', '0.0.5005', 'hedera-mainnet', metadata)).valid) {
+      throw new Error('HTS payment on mainnet rejected')
+    }
+    console.log(chalk.green('✅ Envelopes advertise hedera-mainnet / hedera-local'))
+
+    // Test 5: The facilitator serves the selected networks
+    console.log(chalk.blue('\n📝 Test 5: Facilitator networks'))
+    process.env.PAYMENT_NETWORK = 'hedera-local'
+    const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+    const facilitator = new X402FacilitatorServer(new InMemorySettlementLedger(), new InMemoryNonceStore())
+    const networks = facilitator.getSupportedSchemes().kinds.map(kind => kind.network)
+    if (networks.join(',') !== 'base-sepolia,hedera-local') throw new Error(`Supported networks: ${networks}`)
+
+    const hederaRequirements = facilitator.createPaymentRequirements({ amount: '1', resource: '/premium' })
+    if (hederaRequirements.network !== 'hedera-local' || hederaRequirements.asset !== 'HBAR') throw new Error('Hedera requirements not on hedera-local')
+
+    const evmRequirements = facilitator.createPaymentRequirements({ amount: '1', resource: '/premium', network: 'base-sepolia' })
+    if (evmRequirements.asset !== getEvmNetwork('base-sepolia').usdcAddress || evmRequirements.extra?.name !== 'USDC') {
+      throw new Error(`Unexpected EVM requirements: ${JSON.stringify(evmRequirements)}`)
+    }
+    console.log(chalk.green(`✅ Facilitator supports ${networks.join(', ')}`))
+
+    console.log(chalk.bold.green('\n✅ All Network Registry Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testNetworkRegistry()
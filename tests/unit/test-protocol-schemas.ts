@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for Protocol Schemas (No credentials required)
+ *
+ * Tests schema validation error paths, type guards, protocol integration and
+ * JSON Schema export
+ */
+
+import { A2AProtocol, A2AHandshakeProtocol } from '../../src/protocols/A2AProtocol'
+import { AP2Protocol } from '../../src/protocols/AP2Protocol'
+import { A2ANegotiation } from '../../src/protocols/A2ANegotiation'
+import {
+  AP2PaymentRequestSchema,
+  NegotiationMessageSchema,
+  validateWithSchema,
+  isA2AMessage,
+  isAP2PaymentResponse,
+  getProtocolJsonSchemas
+} from '../../src/protocols/ProtocolSchemas'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+async function testProtocolSchemas() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Protocol Schemas (No credentials required)\n'))
+
+  try {
+    const bus = new InMemoryTopicBus()
+    const a2a = new A2AProtocol(bus, 'test-agent-123', ['payment'])
+
+    // Test 1: Precise error paths
+    console.log(chalk.blue('\n📝 Test 1: Error paths'))
+    const request = AP2Protocol.createPaymentRequest('pay-1', '10', 'USDC', '0.0.123', 'hedera-testnet', {
+      purpose: 'settlement',
+      reference: 'invoice-1'
+    })
+    const broken = { ...request, currency: 'EUR', metadata: { purpose: 'settlement' } }
+    const result = validateWithSchema(AP2PaymentRequestSchema, broken)
+    const paths = (result.issues || []).map(issue => issue.path)
+    if (result.valid || !paths.includes('currency') || !paths.includes('metadata.reference')) {
+      throw new Error(`Unexpected issues: ${result.error}`)
+    }
+    console.log(chalk.green(`✅ ${result.error}`))
+
+    // Test 2: Type guards
+    console.log(chalk.blue('\n📝 Test 2: Type guards'))
+    const message: unknown = JSON.parse(JSON.stringify(a2a.createMessage('receiver-agent', 'request', { type: 'ping' })))
+    if (!isA2AMessage(message)) throw new Error('Valid envelope rejected by guard')
+    if (isA2AMessage({ ...message, messageType: 'broadcast' })) throw new Error('Invalid messageType accepted by guard')
+    if (!isAP2PaymentResponse(AP2Protocol.createPaymentResponse('pay-1', 'completed', '0xabc'))) throw new Error('Valid response rejected')
+    if (isAP2PaymentResponse({ paymentId: 'pay-1', status: 'done', timestamp: 1 })) throw new Error('Invalid status accepted')
+    console.log(chalk.green(`✅ Guards accept valid and reject invalid values`))
+
+    // Test 3: Protocol integration
+    console.log(chalk.blue('\n📝 Test 3: Protocol integration'))
+    if (a2a.parseMessage(JSON.stringify({ ...(message as object), timestamp: 'yesterday' }))) throw new Error('Bad timestamp parsed')
+    if (!AP2Protocol.validatePaymentRequest(request).valid) throw new Error('Valid payment request rejected')
+    if (!AP2Protocol.validatePaymentRequest({ ...request, amount: '1e3' }).error?.includes('amount')) throw new Error('Bad amount not reported')
+    if (AP2Protocol.validatePaymentResponse({ paymentId: 'pay-1', status: 'failed', timestamp: Date.now() }).valid) {
+      throw new Error('Failed response without error accepted')
+    }
+
+    const negotiation = new A2ANegotiation(a2a)
+    const sender = new A2AProtocol(bus, 'vendor-agent', [])
+    const malformed = sender.createMessage('test-agent-123', 'request', { type: 'negotiation', action: 'counter', proposalId: 'n-1' })
+    if (await negotiation.processNegotiationMessage(malformed) !== null) throw new Error('Counter without proposal processed')
+    if (validateWithSchema(NegotiationMessageSchema, malformed.payload).issues?.[0]?.path !== 'proposal') throw new Error('Wrong negotiation error path')
+
+    const handshake = new A2AHandshakeProtocol(a2a)
+    const validHandshake = sender.createMessage('test-agent-123', 'request', {
+      type: 'handshake',
+      data: { handshakeType: 'init', agentId: 'vendor-agent', capabilities: [], supportedProtocols: ['A2A'], timestamp: Date.now() }
+    })
+    if (!handshake.parseHandshake(validHandshake)) throw new Error('Valid handshake rejected')
+    if (handshake.parseHandshake({ ...validHandshake, payload: { type: 'handshake', data: { agentId: 'x' } } })) throw new Error('Invalid handshake accepted')
+    console.log(chalk.green(`✅ A2A, AP2, negotiation and handshake validation use the schemas`))
+
+    // Test 4: JSON Schema export
+    console.log(chalk.blue('\n📝 Test 4: JSON Schema documents'))
+    const documents = getProtocolJsonSchemas()
+    for (const name of ['A2AMessage', 'AP2PaymentRequest', 'AP2PaymentResponse', 'A2AHandshake', 'NegotiationMessage']) {
+      const document = documents[name]
+      if (!document || document.title !== name || !String(document.$schema).includes('2020-12')) throw new Error(`Missing schema ${name}`)
+    }
+    const required = (documents.AP2PaymentRequest as any).required as string[]
+    if (!required.includes('metadata') || !required.includes('expiry')) throw new Error('Required fields missing from JSON Schema')
+    console.log(chalk.green(`✅ Exported ${Object.keys(documents).length} JSON Schema documents`))
+
+    console.log(chalk.bold.green('\n✅ All Protocol Schema Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testProtocolSchemas()
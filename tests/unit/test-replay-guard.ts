@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for A2A Replay Protection (No credentials required)
+ *
+ * Tests nonce tracking, timestamp windows and persisted sequence cursors
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2AReplayGuard } from '../../src/protocols/A2AReplayGuard'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { FileSequenceCursorStore, selectUnprocessedMessages } from '../../src/transport/SequenceCursorStore'
+import chalk from 'chalk'
+
+async function testReplayGuard() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing A2A Replay Protection (No credentials required)\n'))
+
+  try {
+    const bus = new InMemoryTopicBus()
+    const sender = new A2AProtocol(bus, 'sender-agent', [])
+    const receiver = new A2AProtocol(bus, 'receiver-agent', [], undefined, undefined, {
+      replayGuard: new A2AReplayGuard({ windowMs: 60000, maxClockSkewMs: 5000 })
+    })
+
+    // Test 1: Replayed nonce is rejected
+    console.log(chalk.blue('\n📝 Test 1: Replayed nonce'))
+    const content = JSON.stringify(sender.createMessage('receiver-agent', 'request', { type: 'ping' }))
+    if (!receiver.parseMessage(content)) throw new Error('First delivery rejected')
+    if (receiver.parseMessage(content)) throw new Error('Replay accepted')
+    console.log(chalk.green(`✅ Replay rejected`))
+
+    // Test 2: Same nonce from a different sender is independent
+    console.log(chalk.blue('\n📝 Test 2: Nonces are scoped per sender'))
+    const other = { ...JSON.parse(content), sender: { agentId: 'other-agent', capabilities: [], network: 'hedera-testnet' } }
+    if (!receiver.parseMessage(JSON.stringify(other))) throw new Error('Other sender rejected')
+    console.log(chalk.green(`✅ Nonce scoped to sender`))
+
+    // Test 3: Stale and future timestamps
+    console.log(chalk.blue('\n📝 Test 3: Timestamp window'))
+    const stale = { ...sender.createMessage('receiver-agent', 'request', {}), timestamp: Date.now() - 120000 }
+    const future = { ...sender.createMessage('receiver-agent', 'request', {}), timestamp: Date.now() + 60000 }
+    const skewed = { ...sender.createMessage('receiver-agent', 'request', {}), timestamp: Date.now() + 2000 }
+    if (receiver.parseMessage(JSON.stringify(stale))) throw new Error('Stale message accepted')
+    if (receiver.parseMessage(JSON.stringify(future))) throw new Error('Future message accepted')
+    if (!receiver.parseMessage(JSON.stringify(skewed))) throw new Error('Message within clock skew rejected')
+    console.log(chalk.green(`✅ Timestamp window enforced`))
+
+    // Test 4: Nonces expire with the window
+    console.log(chalk.blue('\n📝 Test 4: Nonce pruning'))
+    const guard = new A2AReplayGuard({ windowMs: 1000 })
+    const message = sender.createMessage('receiver-agent', 'request', {})
+    guard.checkMessage(message, message.timestamp)
+    guard.checkMessage(sender.createMessage('receiver-agent', 'request', {}), message.timestamp + 5000)
+    if (guard.hasSeen('sender-agent', message.nonce)) throw new Error('Expired nonce not pruned')
+    console.log(chalk.green(`✅ Expired nonces pruned`))
+
+    // Test 5: Sequence cursors survive restarts
+    console.log(chalk.blue('\n📝 Test 5: Persisted sequence cursor'))
+    const cursorFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-cursor-')), 'cursors.json')
+    const topicId = bus.createTopic()
+    for (let i = 0; i < 3; i++) {
+      await bus.sendMessage(topicId, `message-${i}`)
+    }
+
+    const store = new FileSequenceCursorStore(cursorFile)
+    const firstBatch = selectUnprocessedMessages(store, topicId, (await bus.getMessages(topicId)).messages)
+    firstBatch.forEach(m => store.setSequence(topicId, m.sequence_number))
+    await bus.sendMessage(topicId, 'message-3')
+
+    const restarted = new FileSequenceCursorStore(cursorFile)
+    const secondBatch = selectUnprocessedMessages(restarted, topicId, (await bus.getMessages(topicId)).messages)
+    if (firstBatch.length !== 3) throw new Error('First batch should contain all messages')
+    if (secondBatch.length !== 1 || secondBatch[0]!.data !== 'message-3') throw new Error('Restart re-processed messages')
+    console.log(chalk.green(`✅ Only new messages processed after restart`))
+
+    console.log(chalk.bold.green('\n✅ All Replay Protection Unit Tests Passed!\n'))
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testReplayGuard()
@@ -0,0 +1,163 @@
+/**
+ * Unit Tests for Reverse Auctions (No credentials required)
+ *
+ * Tests vendor discovery, sealed-bid and descending auctions, and the audit
+ * trail on the auction topic using the in-memory bus
+ */
+
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { A2AReverseAuction, A2AAuctionBidder, AuctionState } from '../../src/protocols/A2AReverseAuction'
+import { AgentRegistry } from '../../src/agents/AgentRegistry'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import chalk from 'chalk'
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+async function testReverseAuction() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Reverse Auctions (No credentials required)\n'))
+
+  try {
+    const bus = new InMemoryTopicBus()
+    const registry = new AgentRegistry()
+    const buyerA2A = new A2AProtocol(bus, 'buyer-agent', ['procurement'])
+    const auctionHouse = new A2AReverseAuction(buyerA2A, registry)
+
+    // Vendors quote a fixed price per unit; vendor-d is registered but inactive
+    const quotes: Record<string, number> = { 'vendor-a': 95, 'vendor-b': 88, 'vendor-c': 120, 'vendor-d': 50 }
+    const bidders: Record<string, { a2a: A2AProtocol; bidder: A2AAuctionBidder }> = {}
+
+    for (const [vendorId, price] of Object.entries(quotes)) {
+      const topicId = bus.createTopic()
+      registry.registerAgent({
+        agentId: vendorId,
+        agentName: vendorId,
+        agentType: 'vendor',
+        capabilities: ['circuit-boards'],
+        supportedMessageTypes: ['auction'],
+        topicId,
+        status: vendorId === 'vendor-d' ? 'inactive' : 'active'
+      })
+
+      const a2a = new A2AProtocol(bus, vendorId, ['circuit-boards'])
+      const bidder = new A2AAuctionBidder(a2a, invite => invite.auctionType === 'sealed-bid' ? { amount: price, offer: { warrantyMonths: 12 } } : null)
+      bidders[vendorId] = { a2a, bidder }
+      bus.subscribe(topicId, message => {
+        const parsed = a2a.parseMessage(message.data!)
+        if (parsed) bidder.processAuctionMessage(parsed)
+      })
+    }
+
+    const auctionTopicId = bus.createTopic()
+    bus.subscribe(auctionTopicId, message => {
+      for (const { a2a, bidder } of Object.values(bidders)) {
+        const parsed = JSON.parse(message.data!)
+        if (parsed.payload?.action === 'reveal') bidder.processAuctionMessage(a2a.parseMessage(message.data!)!)
+      }
+    })
+
+    // Test 1: Sealed-bid auction
+    console.log(chalk.blue('\n📝 Test 1: Sealed-bid auction'))
+    const sealed = await auctionHouse.startAuction({
+      capability: 'circuit-boards',
+      auctionTopicId,
+      item: { description: 'Custom circuit boards', quantity: 1000 },
+      auctionType: 'sealed-bid',
+      duration: 200,
+      revealWindow: 200,
+      reservePrice: 110,
+      currency: 'USDC'
+    })
+
+    if (sealed.invitedAgents.join(',') !== 'vendor-a,vendor-b,vendor-c') throw new Error('Wrong vendors invited')
+
+    const sealedResult = await auctionHouse.waitForResult(sealed.auctionId)
+    if (sealedResult.state !== AuctionState.AWARDED) throw new Error(`Auction ended ${sealedResult.state}`)
+    if (sealedResult.winner?.bidderId !== 'vendor-b' || sealedResult.winner.amount !== 88) throw new Error('Wrong winner')
+    if (sealedResult.winner.offer?.warrantyMonths !== 12) throw new Error('Bid terms not kept')
+    if (!sealedResult.rejectedBids.some(bid => bid.bidderId === 'vendor-c' && bid.reason.includes('reserve'))) {
+      throw new Error('Bid above reserve price should be rejected')
+    }
+    console.log(chalk.green(`✅ Awarded to ${sealedResult.winner.bidderId} at ${sealedResult.winner.amount} USDC`))
+
+    // Test 2: Audit trail on the auction topic
+    console.log(chalk.blue('\n📝 Test 2: Audit trail'))
+    const auditMessages = (await bus.getMessages(auctionTopicId)).messages.map(message => JSON.parse(message.data!).payload)
+    const actions = auditMessages.map(payload => payload.action)
+    for (const expected of ['open', 'commit', 'reveal', 'reveal_bid', 'award']) {
+      if (!actions.includes(expected)) throw new Error(`Audit trail missing ${expected}`)
+    }
+    if (auditMessages.some(payload => payload.action === 'commit' && payload.amount !== undefined)) {
+      throw new Error('Sealed bids must not reveal amounts before closing')
+    }
+    const award = auditMessages.find(payload => payload.action === 'award')
+    if (award.bids.length !== 2 || award.winner.bidderId !== 'vendor-b') throw new Error('Award record incomplete')
+    console.log(chalk.green(`✅ Topic records ${actions.length} auction messages: ${Array.from(new Set(actions)).join(', ')}`))
+
+    // Test 3: Descending auction
+    console.log(chalk.blue('\n📝 Test 3: Descending auction'))
+    const descending = await auctionHouse.startAuction({
+      capability: 'circuit-boards',
+      auctionTopicId,
+      item: { description: 'Custom circuit boards', quantity: 500 },
+      auctionType: 'descending',
+      duration: 30 * 24 * 60 * 60 * 1000, // Beyond the longest setTimeout delay
+      minDecrement: 2
+    })
+    await new Promise(resolve => setTimeout(resolve, 20))
+    if (auctionHouse.getAuction(descending.auctionId)?.state !== AuctionState.OPEN) throw new Error('Auction closing in 30 days closed early')
+
+    await bidders['vendor-a']!.bidder.submitBid(descending.auctionId, 100)
+    await bidders['vendor-b']!.bidder.submitBid(descending.auctionId, 97)
+    await bidders['vendor-c']!.bidder.submitBid(descending.auctionId, 96) // Undercuts by less than minDecrement
+    await bidders['vendor-a']!.bidder.submitBid(descending.auctionId, 94)
+
+    const outsider = new A2AProtocol(bus, 'vendor-x', [])
+    await outsider.sendMessage(auctionTopicId, 'buyer-agent', 'request', {
+      type: 'auction',
+      action: 'bid',
+      auctionId: descending.auctionId,
+      amount: 10
+    })
+
+    const descendingResult = await auctionHouse.closeBidding(descending.auctionId)
+    if (descendingResult.winner?.bidderId !== 'vendor-a' || descendingResult.winner.amount !== 94) throw new Error('Wrong descending winner')
+    if (descendingResult.bids.length !== 3) throw new Error('Wrong number of accepted bids')
+    const reasons = descendingResult.rejectedBids.map(bid => `${bid.bidderId}: ${bid.reason}`)
+    if (!reasons.some(reason => reason.startsWith('vendor-c') && reason.includes('undercut'))) throw new Error('Small undercut accepted')
+    if (!reasons.some(reason => reason.startsWith('vendor-x') && reason.includes('not invited'))) throw new Error('Uninvited bid accepted')
+    console.log(chalk.green(`✅ Awarded to ${descendingResult.winner.bidderId} at ${descendingResult.winner.amount}`))
+
+    // Test 4: Late bids and empty auctions
+    console.log(chalk.blue('\n📝 Test 4: Deadline enforcement'))
+    const late = await auctionHouse.startAuction({
+      capability: 'circuit-boards',
+      auctionTopicId,
+      item: { description: 'Spare parts' },
+      auctionType: 'descending',
+      duration: 50
+    })
+    await sleep(150)
+    if (auctionHouse.getAuction(late.auctionId)!.state !== AuctionState.NO_AWARD) throw new Error('Expired auction should close without award')
+    console.log(chalk.green(`✅ Auction closed at its deadline without award`))
+
+    let noVendors = false
+    try {
+      await auctionHouse.startAuction({ capability: 'rocket-engines', auctionTopicId, item: {} })
+    } catch {
+      noVendors = true
+    }
+    if (!noVendors) throw new Error('Auction without vendors should fail')
+
+    auctionHouse.close()
+
+    console.log(chalk.bold.green('\n✅ All Reverse Auction Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testReverseAuction()
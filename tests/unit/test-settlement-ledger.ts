@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Settlement Ledger (No credentials required)
+ *
+ * Tests idempotency keys, the settlement lifecycle, file persistence, crash
+ * reconciliation and duplicate settlement through the facilitator
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  InMemorySettlementLedger,
+  FileSettlementLedger,
+  SettlementStatusChecker,
+  settlementIdempotencyKey,
+  reconcileSettlements
+} from '../../src/facilitator/SettlementLedger'
+import chalk from 'chalk'
+
+async function testSettlementLedger() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Settlement Ledger (No credentials required)\n'))
+
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-ledger-'))
+
+  try {
+    // Test 1: Idempotency keys
+    console.log(chalk.blue('\n📝 Test 1: Idempotency keys'))
+    const proposal = { type: 'analysis_proposal', accountId: '0.0.1234', meetsThreshold: true, timestamp: 1 }
+    if (settlementIdempotencyKey('settlement', { proposalId: 'proposal_1' }) !== 'settlement:proposal_1') throw new Error('Proposal ID not used')
+    if (settlementIdempotencyKey('settlement', { paymentId: 'pay-1', proposalId: 'p' }) !== 'settlement:pay-1') throw new Error('Payment ID not preferred')
+    const hashed = settlementIdempotencyKey('settlement', proposal)
+    if (hashed !== settlementIdempotencyKey('settlement', { timestamp: 1, meetsThreshold: true, accountId: '0.0.1234', type: 'analysis_proposal' })) {
+      throw new Error('Key depends on field order')
+    }
+    if (hashed === settlementIdempotencyKey('settlement', { ...proposal, timestamp: 2 })) throw new Error('Different proposals share a key')
+    console.log(chalk.green(`✅ ${hashed}`))
+
+    // Test 2: Lifecycle and duplicate protection
+    console.log(chalk.blue('\n📝 Test 2: Lifecycle'))
+    const ledger = new InMemorySettlementLedger()
+    const details = { network: 'hedera-testnet', amount: '1000000000', asset: 'HBAR', recipient: '0.0.5005' }
+    if (!ledger.begin('settlement:a', details).proceed) throw new Error('First attempt refused')
+    if (ledger.begin('settlement:a', details).proceed) throw new Error('Pending settlement started twice')
+    ledger.markSubmitted('settlement:a', '0.0.1001@1700000000.000000001')
+    if (ledger.begin('settlement:a', details).proceed) throw new Error('Submitted settlement started twice')
+    ledger.markConfirmed('settlement:a')
+    if (ledger.get('settlement:a')?.txHash !== '0.0.1001@1700000000.000000001') throw new Error('Transaction ID lost')
+    if (ledger.begin('settlement:a', details).proceed) throw new Error('Confirmed settlement started twice')
+    let refused = false
+    try { ledger.markFailed('settlement:a', 'late') } catch { refused = true }
+    if (!refused) throw new Error('Confirmed settlement marked failed')
+
+    ledger.begin('settlement:b', details)
+    ledger.markFailed('settlement:b', 'Insufficient balance')
+    const retry = ledger.begin('settlement:b', details)
+    if (!retry.proceed || retry.entry.attempts !== 2 || retry.entry.error !== undefined) throw new Error('Failed settlement not retryable')
+    console.log(chalk.green(`✅ Duplicates refused, failures retryable`))
+
+    // Test 3: File persistence
+    console.log(chalk.blue('\n📝 Test 3: File persistence'))
+    const filePath = path.join(stateDir, 'settlement-ledger.json')
+    const fileLedger = new FileSettlementLedger(filePath)
+    fileLedger.begin('settlement:pending', details)
+    fileLedger.begin('settlement:submitted-ok', details)
+    fileLedger.markSubmitted('settlement:submitted-ok', 'tx-ok')
+    fileLedger.begin('settlement:submitted-reverted', details)
+    fileLedger.markSubmitted('settlement:submitted-reverted', 'tx-reverted')
+    fileLedger.begin('settlement:submitted-unknown', details)
+    fileLedger.markSubmitted('settlement:submitted-unknown', 'tx-unknown')
+    fileLedger.begin('settlement:submitted-error', details)
+    fileLedger.markSubmitted('settlement:submitted-error', 'tx-error')
+
+    const restarted = new FileSettlementLedger(filePath)
+    if (restarted.list('submitted').length !== 4 || restarted.list('pending').length !== 1) throw new Error('Ledger not reloaded')
+    if (fs.existsSync(`${filePath}.tmp`)) throw new Error('Temporary file left behind')
+    console.log(chalk.green(`✅ ${restarted.list().length} entries reloaded`))
+
+    // Test 4: Crash reconciliation
+    console.log(chalk.blue('\n📝 Test 4: Reconciliation'))
+    const checker: SettlementStatusChecker = {
+      async getTransactionStatus(_network, txHash) {
+        if (txHash === 'tx-error') throw new Error('Mirror node unavailable')
+        return txHash === 'tx-ok' ? 'confirmed' : txHash === 'tx-reverted' ? 'failed' : 'unknown'
+      }
+    }
+    const summary = await reconcileSettlements(restarted, checker)
+    if (summary.confirmed !== 1 || summary.failed !== 2 || summary.unresolved !== 2) throw new Error(`Wrong summary: ${JSON.stringify(summary)}`)
+    if (restarted.get('settlement:submitted-ok')?.status !== 'confirmed') throw new Error('Confirmed transaction not reconciled')
+    if (restarted.get('settlement:pending')?.status !== 'failed') throw new Error('Interrupted settlement not failed')
+    if (restarted.get('settlement:submitted-unknown')?.status !== 'submitted') throw new Error('Unknown outcome changed')
+    if (new FileSettlementLedger(filePath).get('settlement:submitted-reverted')?.status !== 'failed') throw new Error('Reconciliation not persisted')
+    console.log(chalk.green(`✅ ${JSON.stringify(summary)}`))
+
+    // Test 5: Facilitator refuses to settle twice
+    console.log(chalk.blue('\n📝 Test 5: Facilitator idempotency'))
+    process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+    process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+    process.env.PAYMENT_NETWORK = 'base-sepolia'
+    const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+    const facilitatorLedger = new InMemorySettlementLedger()
+    const facilitator = new X402FacilitatorServer(facilitatorLedger)
+    const header = Buffer.from(JSON.stringify({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      payload: { authorization: { from: '0xpayer', to: '0xmerchant', value: '1000000', nonce: '0x01' } }
+    })).toString('base64')
+
+    facilitatorLedger.begin('x402:base-sepolia:0xpayer:0x01', { network: 'base-sepolia' })
+    const inFlight = await facilitator.settle(header, { asset: '0xusdc' })
+    if (inFlight.success || !inFlight.error.includes('already pending')) throw new Error('In-flight settlement not refused')
+    facilitatorLedger.markConfirmed('x402:base-sepolia:0xpayer:0x01', '0xabc')
+    const replay = await facilitator.settle(header, { asset: '0xusdc' })
+    if (!replay.success || replay.txHash !== '0xabc') throw new Error('Confirmed settlement not replayed')
+    console.log(chalk.green(`✅ Duplicate settlement returned ${replay.txHash} without a transfer`))
+
+    console.log(chalk.bold.green('\n✅ All Settlement Ledger Unit Tests Passed!\n'))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(1)
+  }
+}
+
+// Run tests
+testSettlementLedger()
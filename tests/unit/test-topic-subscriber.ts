@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for the Topic Subscriber (No credentials required)
+ *
+ * Tests pushed and polled delivery, resuming from the cursor store,
+ * backpressure, per-handler error isolation, the mirror node REST stream
+ * against a mock mirror node and unwrapping of HCS-10 message envelopes
+ */
+
+import express from 'express'
+import {
+  TopicSubscriber,
+  TopicStream,
+  TopicStreamListener,
+  MirrorNodeRestTopicStream,
+  toTransportMessage
+} from '../../src/transport/TopicSubscriber'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { InMemorySequenceCursorStore } from '../../src/transport/SequenceCursorStore'
+import { TransportMessage } from '../../src/transport/MessageTransport'
+import { getHederaNetwork } from '../../src/config/NetworkRegistry'
+import chalk from 'chalk'
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function waitFor(condition: () => boolean, timeout: number, what: string): Promise<void> {
+  const start = Date.now()
+  while (!condition()) {
+    if (Date.now() - start > timeout) throw new Error(`Timed out waiting for ${what}`)
+    await wait(10)
+  }
+}
+
+async function testTopicSubscriber() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Topic Subscriber (No credentials required)\n'))
+
+  const subscribers: TopicSubscriber[] = []
+  let server: ReturnType<ReturnType<typeof express>['listen']> | undefined
+
+  try {
+    // Test 1: Pushed delivery with the backlog first
+    console.log(chalk.blue('\n📝 Test 1: Pushed delivery'))
+    const bus = new InMemoryTopicBus()
+    const topicId = bus.createTopic()
+    await bus.sendMessage(topicId, 'one')
+    await bus.sendMessage(topicId, 'two')
+    const cursors = new InMemorySequenceCursorStore()
+    const pushed = new TopicSubscriber(bus, { cursorStore: cursors })
+    subscribers.push(pushed)
+    const received: string[] = []
+    pushed.subscribe(topicId, async message => {
+      received.push(message.data!)
+    })
+    await bus.sendMessage(topicId, 'three')
+    await waitFor(() => received.length === 3, 1000, 'pushed messages')
+    if (received.join() !== 'one,two,three') throw new Error(`Pushed order: ${received}`)
+    if (cursors.getSequence(topicId) !== 3) throw new Error('Cursor not advanced')
+    console.log(chalk.green('✅ Backlog and new messages delivered in order'))
+
+    // Test 2: Resume after the last processed sequence number
+    console.log(chalk.blue('\n📝 Test 2: Resume from cursor'))
+    pushed.close()
+    await bus.sendMessage(topicId, 'four')
+    const resumed: string[] = []
+    const restarted = new TopicSubscriber(bus, { cursorStore: cursors })
+    subscribers.push(restarted)
+    restarted.subscribe(topicId, async message => {
+      resumed.push(message.data!)
+    })
+    await waitFor(() => resumed.length === 1, 1000, 'resumed message')
+    await wait(50)
+    if (resumed.join() !== 'four') throw new Error(`Resumed with: ${resumed}`)
+    console.log(chalk.green('✅ Only messages after the cursor were delivered'))
+
+    // Test 3: Polling a transport without push
+    console.log(chalk.blue('\n📝 Test 3: Polled delivery'))
+    const pollOnly = { sendMessage: bus.sendMessage.bind(bus), getMessages: bus.getMessages.bind(bus) }
+    const polled: number[] = []
+    const poller = new TopicSubscriber(pollOnly, { pollInterval: 20 })
+    subscribers.push(poller)
+    poller.subscribe(topicId, async message => {
+      polled.push(message.sequence_number)
+    })
+    await waitFor(() => polled.length === 4, 1000, 'polled backlog')
+    await bus.sendMessage(topicId, 'five')
+    await waitFor(() => polled.length === 5, 1000, 'polled message')
+    if (polled.join() !== '1,2,3,4,5') throw new Error(`Polled: ${polled}`)
+    console.log(chalk.green('✅ Polling stream delivered each message once'))
+
+    // Test 4: Backpressure pauses and resumes the stream
+    console.log(chalk.blue('\n📝 Test 4: Backpressure'))
+    let opened = 0
+    let closed = 0
+    let source: TopicStreamListener | undefined
+    let resumeAfter = -1
+    const manual: TopicStream = {
+      open: (_topicId, afterSequence, listener) => {
+        opened++
+        resumeAfter = afterSequence
+        source = listener
+        return () => {
+          closed++
+        }
+      }
+    }
+    const slow = new TopicSubscriber(bus, { stream: manual, maxQueueSize: 4 })
+    subscribers.push(slow)
+    const handled: number[] = []
+    let release: () => void = () => {}
+    const gate = new Promise<void>(resolve => {
+      release = resolve
+    })
+    slow.subscribe('0.0.9000', async message => {
+      await gate
+      handled.push(message.sequence_number)
+    })
+    for (let sequence = 1; sequence <= 5; sequence++) {
+      source!.onMessage(toTransportMessage(sequence, `${1700000000 + sequence}.000000000`, `m${sequence}`))
+    }
+    if (closed !== 1) throw new Error('Stream not paused at maxQueueSize')
+    release()
+    await waitFor(() => opened === 2, 1000, 'stream resume')
+    if (resumeAfter !== 5) throw new Error(`Resumed after ${resumeAfter}`)
+    source!.onMessage(toTransportMessage(6, '1700000006.000000000', 'm6'))
+    await waitFor(() => handled.length === 6, 1000, 'queued messages')
+    if (handled.join() !== '1,2,3,4,5,6') throw new Error(`Handled: ${handled}`)
+    console.log(chalk.green('✅ Stream paused at 4 queued messages and resumed after draining'))
+
+    // Test 5: A failing handler does not affect others
+    console.log(chalk.blue('\n📝 Test 5: Handler error isolation'))
+    const isolatedTopic = bus.createTopic()
+    const isolated = new TopicSubscriber(bus)
+    subscribers.push(isolated)
+    const healthy: string[] = []
+    isolated.subscribe(isolatedTopic, async message => {
+      if (message.data === 'bad') throw new Error('Handler exploded')
+    })
+    isolated.subscribe(isolatedTopic, async message => {
+      healthy.push(message.data!)
+    })
+    await bus.sendMessage(isolatedTopic, 'bad')
+    await bus.sendMessage(isolatedTopic, 'good')
+    await waitFor(() => healthy.length === 2, 1000, 'healthy handler')
+    if (healthy.join() !== 'bad,good') throw new Error(`Healthy handler saw: ${healthy}`)
+    console.log(chalk.green('✅ Other handlers and later messages unaffected by a failing handler'))
+
+    // Test 6: Mirror node REST stream with a sequence cursor
+    console.log(chalk.blue('\n📝 Test 6: Mirror node REST stream'))
+    const mirrorMessages = [1, 2, 3, 4, 5].map(sequence => ({
+      sequence_number: sequence,
+      consensus_timestamp: `${1700000000 + sequence}.000000001`,
+      payer_account_id: '0.0.1001',
+      message: Buffer.from(sequence === 5
+        ? JSON.stringify({ p: 'hcs-10', op: 'message', data: 'wrapped' })
+        : `rest-${sequence}`).toString('base64')
+    }))
+    const queries: string[] = []
+    const app = express()
+    app.get('/api/v1/topics/:topicId/messages', (req, res) => {
+      queries.push(String(req.query.sequencenumber))
+      const after = Number(String(req.query.sequencenumber).replace('gt:', ''))
+      res.json({ messages: mirrorMessages.filter(message => message.sequence_number > after).slice(0, Number(req.query.limit)) })
+    })
+    server = app.listen(0)
+    await new Promise(resolve => server!.once('listening', resolve))
+    const address = server.address()
+    const mirror = { ...getHederaNetwork('local'), mirrorNodeUrl: `http://localhost:${typeof address === 'object' && address ? address.port : 0}` }
+
+    const restCursors = new InMemorySequenceCursorStore()
+    restCursors.setSequence('0.0.8000', 1)
+    const rest = new TopicSubscriber(bus, { stream: new MirrorNodeRestTopicStream(mirror, 20, 2), cursorStore: restCursors })
+    subscribers.push(rest)
+    const streamed: TransportMessage[] = []
+    rest.subscribe('0.0.8000', async message => {
+      streamed.push(message)
+    })
+    await waitFor(() => streamed.length === 4, 2000, 'REST messages')
+    if (queries[0] !== 'gt:1' || queries[1] !== 'gt:3') throw new Error(`REST cursor queries: ${queries}`)
+    if (streamed.map(message => message.data).join() !== 'rest-2,rest-3,rest-4,wrapped') throw new Error('REST messages not unwrapped in order')
+    if (streamed[0]!.payer !== '0.0.1001' || streamed[0]!.timestamp !== 1700000002000) throw new Error('REST message fields not mapped')
+    console.log(chalk.green('✅ REST stream paged with sequencenumber=gt: and unwrapped HCS-10 envelopes'))
+
+    console.log(chalk.bold.green('\n✅ All Topic Subscriber Unit Tests Passed!\n'))
+    subscribers.forEach(subscriber => subscriber.close())
+    server.close()
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    subscribers.forEach(subscriber => subscriber.close())
+    server?.close()
+    process.exit(1)
+  }
+}
+
+// Run tests
+testTopicSubscriber()
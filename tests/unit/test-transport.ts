@@ -0,0 +1,144 @@
+/**
+ * Unit Tests for Message Transport (No credentials required)
+ *
+ * Tests the in-memory topic bus and runs the analyzer → verifier → settlement
+ * pipeline offline by injecting the bus into every agent
+ */
+
+import { PrivateKey } from '@hashgraph/sdk'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { InMemoryTopicBus } from '../../src/transport/InMemoryTopicBus'
+import { A2AProtocol } from '../../src/protocols/A2AProtocol'
+import { AnalyzerAgent } from '../../src/agents/AnalyzerAgent'
+import { VerifierAgent } from '../../src/agents/VerifierAgent'
+import { SettlementAgent } from '../../src/agents/SettlementAgent'
+import chalk from 'chalk'
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms))
+
+async function testTransport() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing Message Transport (No credentials required)\n'))
+
+  try {
+    // Test 1: Sequence numbers and consensus timestamps
+    console.log(chalk.blue('\n📝 Test 1: HCS-like ordering'))
+    const bus = new InMemoryTopicBus()
+    const topicA = bus.createTopic()
+    const topicB = bus.createTopic()
+
+    const seq1 = await bus.sendMessage(topicA, 'first')
+    const seq2 = await bus.sendMessage(topicA, 'second')
+    const seqB = await bus.sendMessage(topicB, 'other topic')
+
+    if (seq1 !== 1 || seq2 !== 2) throw new Error('Sequence numbers must increase per topic')
+    if (seqB !== 1) throw new Error('Sequence numbers must be independent per topic')
+
+    const { messages } = await bus.getMessages(topicA)
+    if (messages.length !== 2) throw new Error('Wrong message count')
+    if (messages[0]!.data !== 'first' || messages[1]!.data !== 'second') throw new Error('Wrong message order')
+    if (!(messages[0]!.consensus_timestamp! < messages[1]!.consensus_timestamp!)) {
+      throw new Error('Consensus timestamps must be strictly increasing')
+    }
+    console.log(chalk.green(`✅ Ordered sequence numbers and consensus timestamps`))
+
+    // Test 2: Payer stamping and subscriptions
+    console.log(chalk.blue('\n📝 Test 2: Payer views and subscriptions'))
+    const received: string[] = []
+    const unsubscribe = bus.subscribe(topicB, message => received.push(`${message.payer}:${message.data}`))
+    await bus.forPayer('0.0.42').sendMessage(topicB, 'hello')
+    unsubscribe()
+    await bus.sendMessage(topicB, 'ignored')
+
+    if (received.length !== 1 || received[0] !== '0.0.42:hello') throw new Error('Subscription did not receive payer-stamped message')
+    console.log(chalk.green(`✅ Payer-stamped message delivered to subscriber`))
+
+    // Test 3: Unknown topics in strict mode
+    console.log(chalk.blue('\n📝 Test 3: Strict topic creation'))
+    const strictBus = new InMemoryTopicBus({ autoCreateTopics: false })
+    let rejected = false
+    try {
+      await strictBus.sendMessage('0.0.999999', 'nope')
+    } catch {
+      rejected = true
+    }
+    if (!rejected) throw new Error('Strict bus should reject unknown topics')
+    console.log(chalk.green(`✅ Unknown topic rejected`))
+
+    // Test 4: A2A protocol over the bus
+    console.log(chalk.blue('\n📝 Test 4: A2A messages over the bus'))
+    const a2a = new A2AProtocol(bus, 'test-agent-123', ['payment'])
+    await a2a.sendMessage(topicA, 'receiver-agent-123', 'request', { type: 'ping' })
+    const a2aMessages = (await bus.getMessages(topicA)).messages
+    const parsed = a2a.parseMessage(a2aMessages[a2aMessages.length - 1]!.data!)
+    if (!parsed || parsed.payload.type !== 'ping') throw new Error('A2A message not delivered')
+    console.log(chalk.green(`✅ A2A message round-tripped through the bus`))
+
+    // Test 5: Offline analyzer → verifier → settlement pipeline
+    console.log(chalk.blue('\n📝 Test 5: Offline agent pipeline'))
+    const pipelineBus = new InMemoryTopicBus()
+    const analyzerTopicId = pipelineBus.createTopic()
+    const verifierTopicId = pipelineBus.createTopic()
+    const settlementTopicId = pipelineBus.createTopic()
+
+    Object.assign(process.env, {
+      ANALYZER_AGENT_ID: '0.0.1001',
+      ANALYZER_PRIVATE_KEY: PrivateKey.generateED25519().toString(),
+      VERIFIER_AGENT_ID: '0.0.1002',
+      VERIFIER_PRIVATE_KEY: PrivateKey.generateED25519().toString(),
+      SETTLEMENT_AGENT_ID: '0.0.1003',
+      SETTLEMENT_PRIVATE_KEY: PrivateKey.generateED25519().toString(),
+      SETTLEMENT_WALLET_PRIVATE_KEY: '0x' + '11'.repeat(32),
+      BASE_RPC_URL: 'http://127.0.0.1:8545',
+      PAYMENT_NETWORK: 'base-sepolia',
+      USE_HCS10_CONNECTIONS: 'false',
+      AGENT_STATE_DIR: fs.mkdtempSync(path.join(os.tmpdir(), 'hedron-transport-')),
+      ANALYZER_TOPIC_ID: analyzerTopicId,
+      VERIFIER_TOPIC_ID: verifierTopicId,
+      SETTLEMENT_TOPIC_ID: settlementTopicId
+    })
+
+    const analyzer = new AnalyzerAgent(pipelineBus.forPayer('0.0.1001'))
+    const verifier = new VerifierAgent(pipelineBus.forPayer('0.0.1002'))
+    const settlement = new SettlementAgent(pipelineBus.forPayer('0.0.1003'))
+
+    // Replace the on-chain transfer with a recorder so no network is touched
+    const settled: any[] = []
+    ;(settlement as any).executeSettlement = async (verification: any) => {
+      settled.push(verification)
+    }
+
+    await verifier.init()
+    await settlement.init()
+
+    await analyzer.getTransport().sendMessage(verifierTopicId, JSON.stringify({
+      type: 'analysis_proposal',
+      accountId: '0.0.123456',
+      meetsThreshold: true,
+      proposalId: 'proposal_offline',
+      timestamp: Date.now()
+    }))
+
+    for (let i = 0; i < 30 && settled.length === 0; i++) {
+      await sleep(500)
+    }
+
+    if (settled.length === 0) throw new Error('Settlement was never triggered')
+    if (settled[0].originalProposal.proposalId !== 'proposal_offline') throw new Error('Wrong proposal settled')
+
+    const settlementMessages = (await pipelineBus.getMessages(settlementTopicId)).messages
+    if (settlementMessages[0]?.payer !== '0.0.1002') throw new Error('Verification result not sent by verifier')
+    console.log(chalk.green(`✅ Proposal flowed from analyzer through verifier to settlement`))
+
+    console.log(chalk.bold.green('\n✅ All Message Transport Unit Tests Passed!\n'))
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    process.exit(1)
+  }
+}
+
+// Run tests
+testTransport()
@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for the x402 Paying Client (No credentials required)
+ *
+ * Tests budget limits, EIP-3009 and Hedera payment signing, retries with
+ * X-PAYMENT and settlement receipts against the x402 Express middleware
+ */
+
+import express from 'express'
+import { ethers } from 'ethers'
+import { PrivateKey } from '@hashgraph/sdk'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { decodeHederaPayment } from '../../src/facilitator/HederaExactScheme'
+import chalk from 'chalk'
+
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'base-sepolia'
+process.env.MERCHANT_WALLET_ADDRESS = '0x1234567890123456789012345678901234567890'
+process.env.USDC_CONTRACT = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+
+async function testX402Client() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing x402 Paying Client (No credentials required)\n'))
+
+  const { X402FacilitatorServer, paymentIdempotencyKey } = await import('../../src/facilitator/X402FacilitatorServer')
+  const { x402PaymentMiddleware } = await import('../../src/facilitator/X402PaymentMiddleware')
+  const { X402PaymentClient, X402BudgetPolicy } = await import('../../src/facilitator/X402PaymentClient')
+
+  // Facilitator that records settlements instead of transferring on chain
+  const ledger = new InMemorySettlementLedger()
+  class RecordingFacilitator extends X402FacilitatorServer {
+    async settle(paymentHeader: string, requirements: any): Promise<any> {
+      const key = paymentIdempotencyKey(JSON.parse(Buffer.from(paymentHeader, 'base64').toString()))
+      ledger.begin(key, { network: requirements.network })
+      ledger.markConfirmed(key, `0xsettled${ledger.list().length}`)
+      return { success: true, error: null, txHash: `0xsettled${ledger.list().length}`, networkId: requirements.network }
+    }
+  }
+
+  const app = express()
+  app.use(x402PaymentMiddleware({
+    facilitator: new RecordingFacilitator(ledger),
+    routes: { '/data': '0.4', '/premium': '2' }
+  }))
+  app.get('/data', (req, res) => res.json({ rows: 3 }))
+  app.get('/premium', (req, res) => res.json({ rows: 100 }))
+  app.get('/free', (req, res) => res.json({ free: true }))
+
+  const server = app.listen(0)
+  await new Promise(resolve => server.once('listening', resolve))
+  const address = server.address()
+  const url = `http://localhost:${typeof address === 'object' && address ? address.port : 0}`
+
+  const wallet = ethers.Wallet.createRandom()
+  const budget = new X402BudgetPolicy({ 'base-sepolia': { maxPerPayment: '1', maxTotal: '1' } })
+  const client = new X402PaymentClient({ budget, evmWallet: new ethers.Wallet(wallet.privateKey) })
+
+  try {
+    // Test 1: Free resources are not paid for
+    console.log(chalk.blue('\n📝 Test 1: Free resource'))
+    const free = await client.fetch(`${url}/free`)
+    if (free.response.status !== 200 || free.payment) throw new Error('Free resource was paid for')
+    console.log(chalk.green('✅ No payment without 402'))
+
+    // Test 2: Paid resource
+    console.log(chalk.blue('\n📝 Test 2: Paying a 402'))
+    const paid = await client.fetch(`${url}/data`)
+    const data = await paid.response.json() as any
+    if (paid.response.status !== 200 || data.rows !== 3) throw new Error(`Paid request failed: ${paid.response.status}`)
+    if (!paid.payment?.success || paid.payment.transaction !== '0xsettled1' || paid.payment.amount !== '400000') {
+      throw new Error(`Wrong receipt: ${JSON.stringify(paid.payment)}`)
+    }
+    if (paid.payment.payer !== wallet.address) throw new Error('Receipt payer is not the agent wallet')
+    if (budget.getSpent('base-sepolia') !== '0.4' || budget.getRemaining('base-sepolia') !== '0.6') {
+      throw new Error(`Wrong budget after payment: ${budget.getSpent('base-sepolia')}`)
+    }
+    console.log(chalk.green(`✅ Paid ${paid.payment.amount} base units in ${paid.payment.transaction}, ${budget.getRemaining('base-sepolia')} USDC left`))
+
+    // Test 3: Budget enforcement
+    console.log(chalk.blue('\n📝 Test 3: Budget limits'))
+    let refused = ''
+    try {
+      await client.fetch(`${url}/premium`)
+    } catch (error) {
+      refused = (error as Error).message
+    }
+    if (!refused.includes('per-payment limit')) throw new Error(`Per-payment limit not enforced: ${refused}`)
+
+    await client.fetch(`${url}/data`)
+    refused = ''
+    try {
+      await client.fetch(`${url}/data`)
+    } catch (error) {
+      refused = (error as Error).message
+    }
+    if (!refused.includes('remaining budget') || budget.getSpent('base-sepolia') !== '0.8') {
+      throw new Error(`Total budget not enforced: ${refused}`)
+    }
+    console.log(chalk.green(`✅ ${refused}`))
+
+    const noBudget = new X402PaymentClient({ budget: {}, evmWallet: new ethers.Wallet(wallet.privateKey) })
+    refused = ''
+    try {
+      await noBudget.fetch(`${url}/data`)
+    } catch (error) {
+      refused = (error as Error).message
+    }
+    if (!refused.includes('No budget for network base-sepolia')) throw new Error('Network without budget was paid on')
+    console.log(chalk.green(`✅ ${refused}`))
+
+    // Test 4: Refused payments are released from the budget
+    console.log(chalk.blue('\n📝 Test 4: Refused payment'))
+    const refusingFetch: typeof fetch = async (input, init) => {
+      const paying = new Headers(init?.headers).has('X-PAYMENT')
+      return new Response(JSON.stringify({
+        x402Version: 1,
+        error: paying ? 'Payment has already been used' : 'X-PAYMENT header is required',
+        accepts: [{ scheme: 'exact', network: 'base-sepolia', maxAmountRequired: '100000', payTo: process.env.MERCHANT_WALLET_ADDRESS, asset: process.env.USDC_CONTRACT, resource: '/x', maxTimeoutSeconds: 60 }]
+      }), { status: 402 })
+    }
+    const refusingBudget = new X402BudgetPolicy({ 'base-sepolia': { maxTotal: '1' } })
+    const refusing = new X402PaymentClient({ budget: refusingBudget, evmWallet: new ethers.Wallet(wallet.privateKey), fetch: refusingFetch })
+    refused = ''
+    try {
+      await refusing.fetch('http://seller.example/x')
+    } catch (error) {
+      refused = (error as Error).message
+    }
+    if (!refused.includes('already been used') || refusingBudget.getSpent('base-sepolia') !== '0.0') {
+      throw new Error(`Refused payment kept in budget: ${refused} (${refusingBudget.getSpent('base-sepolia')})`)
+    }
+    console.log(chalk.green(`✅ ${refused}; budget released`))
+
+    // Test 5: Hedera payments and recipient allow-list
+    console.log(chalk.blue('\n📝 Test 5: Hedera payment'))
+    const hederaKey = PrivateKey.generateED25519()
+    let sentPayment: any = null
+    const hederaFetch: typeof fetch = async (input, init) => {
+      const header = new Headers(init?.headers).get('X-PAYMENT')
+      if (!header) {
+        return new Response(JSON.stringify({
+          x402Version: 1,
+          error: 'X-PAYMENT header is required',
+          accepts: [
+            { scheme: 'exact', network: 'base-sepolia', maxAmountRequired: '10000', payTo: '0xabc', asset: 'USDC', resource: '/h' },
+            { scheme: 'exact', network: 'hedera-testnet', maxAmountRequired: '100000000', payTo: '0.0.5005', asset: 'HBAR', resource: '/h', maxTimeoutSeconds: 60, extra: { feePayer: '0.0.2002', memo: 'x402:test' } }
+          ]
+        }), { status: 402 })
+      }
+      sentPayment = JSON.parse(Buffer.from(header, 'base64').toString())
+      const settlement = Buffer.from(JSON.stringify({ success: true, transaction: '0.0.2002@1700000000.000000001', network: 'hedera-testnet', payer: '0.0.1001' })).toString('base64')
+      return new Response('{}', { status: 200, headers: { 'X-PAYMENT-RESPONSE': settlement } })
+    }
+    const hederaClient = new X402PaymentClient({
+      budget: { 'hedera-testnet': { maxPerPayment: '2', allowedPayTo: ['0.0.5005'] } },
+      hederaAccount: { accountId: '0.0.1001', privateKey: hederaKey.toStringDer() },
+      fetch: hederaFetch
+    })
+    const hederaPaid = await hederaClient.fetch('http://seller.example/h')
+    const transfer = decodeHederaPayment(sentPayment)
+    if (sentPayment.network !== 'hedera-testnet' || transfer.payer !== '0.0.1001' || transfer.feePayer !== '0.0.2002' || transfer.memo !== 'x402:test') {
+      throw new Error(`Wrong Hedera payment: ${JSON.stringify(transfer)}`)
+    }
+    if (!hederaKey.publicKey.verifyTransaction(transfer.transaction)) throw new Error('Hedera transfer not signed by the agent')
+    if (hederaPaid.payment?.transaction !== '0.0.2002@1700000000.000000001' || hederaPaid.payment.amount !== '100000000') {
+      throw new Error(`Wrong Hedera receipt: ${JSON.stringify(hederaPaid.payment)}`)
+    }
+
+    const strictBudget = new X402BudgetPolicy({ 'hedera-testnet': { allowedPayTo: ['0.0.6006'] } })
+    const recipientCheck = strictBudget.check({ network: 'hedera-testnet', maxAmountRequired: '1', payTo: '0.0.5005' })
+    if (recipientCheck.valid) throw new Error('Recipient allow-list not enforced')
+    console.log(chalk.green(`✅ Signed Hedera transfer of ${hederaPaid.payment.amount} tinybars; ${recipientCheck.error}`))
+
+    console.log(chalk.bold.green('\n✅ All x402 Paying Client Unit Tests Passed!\n'))
+    server.close()
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    server.close()
+    process.exit(1)
+  }
+}
+
+// Run tests
+testX402Client()
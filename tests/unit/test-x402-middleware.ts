@@ -0,0 +1,230 @@
+/**
+ * Unit Tests for x402 Express Middleware (No credentials required)
+ *
+ * Tests 402 responses, per-route pricing, payment verification,
+ * X-PAYMENT-RESPONSE, replay protection, that settlement moves the payer's
+ * USDC on a mock chain and that one facilitator settles Hedera and Base routes
+ * each on their own network
+ */
+
+import express from 'express'
+import { processPayment } from 'a2a-x402'
+import { ethers } from 'ethers'
+import { PrivateKey } from '@hashgraph/sdk'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore } from '../../src/facilitator/NonceStore'
+import { getEvmNetwork } from '../../src/config/NetworkRegistry'
+import { A2AKeyRing } from '../../src/protocols/A2AMessageSigner'
+import { MockUsdcChain } from './mock-usdc-chain'
+import chalk from 'chalk'
+
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'base-sepolia'
+process.env.MERCHANT_WALLET_ADDRESS = '0x1234567890123456789012345678901234567890'
+process.env.USDC_CONTRACT = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+
+async function testX402Middleware() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing x402 Express Middleware (No credentials required)\n'))
+
+  const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+  const { x402PaymentMiddleware } = await import('../../src/facilitator/X402PaymentMiddleware')
+  const { createHederaPaymentTransaction } = await import('../../src/facilitator/HederaExactScheme')
+
+  // Facilitator that records settlements instead of transferring on chain
+  const ledger = new InMemorySettlementLedger()
+  class RecordingFacilitator extends X402FacilitatorServer {
+    settlements = 0
+    async settle(paymentHeader: string, requirements: any, idempotencyKey?: string): Promise<any> {
+      const { paymentIdempotencyKey } = await import('../../src/facilitator/X402FacilitatorServer')
+      const key = idempotencyKey || paymentIdempotencyKey(JSON.parse(Buffer.from(paymentHeader, 'base64').toString()))
+      ledger.begin(key, { network: requirements.network })
+      ledger.markConfirmed(key, `0xsettled${++this.settlements}`)
+      return { success: true, error: null, txHash: `0xsettled${this.settlements}`, networkId: requirements.network }
+    }
+  }
+  const facilitator = new RecordingFacilitator(ledger, new InMemoryNonceStore())
+  const settlementCount = () => facilitator.settlements
+
+  const app = express()
+  app.use(x402PaymentMiddleware({
+    facilitator,
+    routes: {
+      'GET /weather': { amount: '0.01', description: 'Weather report' },
+      '/reports/*': '1.5'
+    }
+  }))
+  app.get('/weather', (req, res) => res.json({ forecast: 'sunny', paidWith: res.locals.x402.txHash }))
+  app.get('/reports/q3', (req, res) => res.json({ report: 'q3' }))
+  app.get('/free', (req, res) => res.json({ free: true }))
+
+  const servers: Array<ReturnType<typeof app.listen>> = []
+  const listen = async (application: ReturnType<typeof express>) => {
+    const server = application.listen(0)
+    servers.push(server)
+    await new Promise(resolve => server.once('listening', resolve))
+    const address = server.address()
+    return `http://localhost:${typeof address === 'object' && address ? address.port : 0}`
+  }
+  const url = await listen(app)
+
+  const payer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+  const payment = async (requirements: any, value: string) => Buffer.from(JSON.stringify(
+    await processPayment({ ...requirements, maxAmountRequired: value }, payer)
+  )).toString('base64')
+
+  try {
+    // Test 1: Unprotected and unpaid requests
+    console.log(chalk.blue('\n📝 Test 1: 402 Payment Required'))
+    if ((await fetch(`${url}/free`)).status !== 200) throw new Error('Free route was protected')
+    const unpaid = await fetch(`${url}/weather`)
+    const body = await unpaid.json() as any
+    const accepts = body.accepts[0]
+    if (unpaid.status !== 402 || body.x402Version !== 1 || accepts.maxAmountRequired !== '10000' || accepts.network !== 'base-sepolia') {
+      throw new Error(`Unexpected 402 body: ${JSON.stringify(body)}`)
+    }
+    if (accepts.payTo !== process.env.MERCHANT_WALLET_ADDRESS || accepts.maxTimeoutSeconds !== 120 || !accepts.resource.endsWith('/weather')) {
+      throw new Error('Requirements missing defaults')
+    }
+    const reportPrice = (await (await fetch(`${url}/reports/q3`)).json() as any).accepts[0].maxAmountRequired
+    if (reportPrice !== '1500000') throw new Error(`Wrong wildcard route price: ${reportPrice}`)
+    if ((await fetch(`${url}/weather`, { method: 'POST' })).status !== 404) throw new Error('Method filter ignored')
+    console.log(chalk.green(`✅ ${body.error}: ${accepts.maxAmountRequired} base units on ${accepts.network}`))
+
+    // Test 2: Invalid payments
+    console.log(chalk.blue('\n📝 Test 2: Invalid payments'))
+    const garbage = await fetch(`${url}/weather`, { headers: { 'X-PAYMENT': '%%%' } })
+    if (garbage.status !== 402) throw new Error('Garbage header accepted')
+    const underpaid = await fetch(`${url}/weather`, { headers: { 'X-PAYMENT': await payment(accepts, '1') } })
+    if (underpaid.status !== 402 || settlementCount() !== 0) throw new Error('Underpayment accepted')
+    console.log(chalk.green(`✅ ${(await underpaid.json() as any).error}`))
+
+    // Test 3: Paid request
+    console.log(chalk.blue('\n📝 Test 3: Paid request'))
+    const paidHeader = await payment(accepts, '10000')
+    const paid = await fetch(`${url}/weather`, { headers: { 'X-PAYMENT': paidHeader } })
+    const paidBody = await paid.json() as any
+    const paymentResponse = JSON.parse(Buffer.from(paid.headers.get('X-PAYMENT-RESPONSE') || '', 'base64').toString() || '{}')
+    if (paid.status !== 200 || paidBody.paidWith !== '0xsettled1') throw new Error(`Paid request failed: ${JSON.stringify(paidBody)}`)
+    if (!paymentResponse.success || paymentResponse.transaction !== '0xsettled1' || paymentResponse.payer !== payer.address) {
+      throw new Error(`Wrong X-PAYMENT-RESPONSE: ${JSON.stringify(paymentResponse)}`)
+    }
+    console.log(chalk.green(`✅ X-PAYMENT-RESPONSE ${JSON.stringify(paymentResponse)}`))
+
+    // Test 4: Replayed payment
+    console.log(chalk.blue('\n📝 Test 4: Replay protection'))
+    const replay = await fetch(`${url}/weather`, { headers: { 'X-PAYMENT': paidHeader } })
+    if (replay.status !== 402 || settlementCount() !== 1) throw new Error('Replayed payment accepted')
+    console.log(chalk.green(`✅ ${(await replay.json() as any).error}`))
+
+    // Test 5: Explicit requirements and unsupported networks
+    console.log(chalk.blue('\n📝 Test 5: Network handling'))
+    const usdcRequirements = facilitator.createPaymentRequirements({ amount: '2', resource: '/x', network: 'base-sepolia', payTo: '0xabc' })
+    if (usdcRequirements.maxAmountRequired !== '2000000') throw new Error('Wrong USDC base units')
+    let rejected = false
+    try {
+      x402PaymentMiddleware({ facilitator, routes: { '/hbar': { amount: '1', network: 'hedera-testnet' } } })
+    } catch (error) {
+      rejected = (error as Error).message.includes('not supported')
+    }
+    if (!rejected) throw new Error('Unsupported network accepted at setup')
+    console.log(chalk.green(`✅ Routes on networks the facilitator cannot settle are rejected at setup`))
+
+    // Test 6: Settlement debits the payer on chain
+    console.log(chalk.blue('\n📝 Test 6: On-chain settlement'))
+    const chain = new MockUsdcChain(process.env.USDC_CONTRACT!, getEvmNetwork('base-sepolia').usdcDomain)
+    const settling = new X402FacilitatorServer(new InMemorySettlementLedger(), new InMemoryNonceStore())
+    ;(settling as any).provider = chain
+    ;(settling as any).wallet = (settling as any).wallet.connect(chain)
+    const chainApp = express()
+    chainApp.use(x402PaymentMiddleware({ facilitator: settling, routes: { 'GET /weather': '0.01' } }))
+    chainApp.get('/weather', (req, res) => res.json({ forecast: 'sunny' }))
+    const chainUrl = await listen(chainApp)
+    chain.mint(payer.address, 1_000_000n)
+
+    const chainAccepts = (await (await fetch(`${chainUrl}/weather`)).json() as any).accepts[0]
+    const settledOnChain = await fetch(`${chainUrl}/weather`, { headers: { 'X-PAYMENT': await payment(chainAccepts, '10000') } })
+    const receipt = JSON.parse(Buffer.from(settledOnChain.headers.get('X-PAYMENT-RESPONSE') || '', 'base64').toString() || '{}')
+    if (settledOnChain.status !== 200 || receipt.transaction !== chain.transactions[0]?.hash) throw new Error(`Settlement not on chain: ${JSON.stringify(receipt)}`)
+    if (chain.balanceOf(payer.address) !== 990_000n) throw new Error(`Payer balance not debited: ${chain.balanceOf(payer.address)}`)
+    if (chain.balanceOf(process.env.MERCHANT_WALLET_ADDRESS!) !== 10_000n) throw new Error('Merchant not credited')
+
+    const unfundedPayer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+    const unfunded = await fetch(`${chainUrl}/weather`, {
+      headers: { 'X-PAYMENT': Buffer.from(JSON.stringify(await processPayment(chainAccepts, unfundedPayer))).toString('base64') }
+    })
+    if (unfunded.status !== 402 || chain.balanceOf(payer.address) !== 990_000n) throw new Error('Payer without funds served')
+    console.log(chalk.green(`✅ Payer balance 1.0 → ${ethers.formatUnits(chain.balanceOf(payer.address), 6)} USDC after paying 0.01 USDC`))
+
+    // Test 7: A Hedera facilitator settles each route on the payment's network
+    console.log(chalk.blue('\n📝 Test 7: Routes on both networks'))
+    const operatorKey = PrivateKey.generateED25519()
+    const hederaPayerKey = PrivateKey.generateED25519()
+    const keyRing = new A2AKeyRing()
+    keyRing.addKey('0.0.1001', hederaPayerKey.publicKey)
+    const dualLedger = new InMemorySettlementLedger()
+    const dual = new X402FacilitatorServer(dualLedger, new InMemoryNonceStore(), keyRing, {
+      payment: {
+        network: 'hedera-testnet',
+        rpcUrl: process.env.BASE_RPC_URL!,
+        walletPrivateKey: process.env.SETTLEMENT_WALLET_PRIVATE_KEY!,
+        operator: { accountId: '0.0.2002', privateKey: operatorKey.toStringDer() },
+        hederaMerchantAccountId: '0.0.5005',
+        merchantWalletAddress: process.env.MERCHANT_WALLET_ADDRESS!,
+        usdcContract: process.env.USDC_CONTRACT!
+      }
+    })
+    // Transfers are recorded instead of submitted
+    const executed: string[] = []
+    ;(dual as any).executeHederaTransfer = async (paymentPayload: any) => {
+      executed.push(`hedera:${paymentPayload.network}`)
+      return '0.0.2002@1700000000.000000001'
+    }
+    ;(dual as any).executeUSDCTransfer = async (paymentPayload: any) => {
+      executed.push(`usdc:${paymentPayload.network}`)
+      return `0x${'ab'.repeat(32)}`
+    }
+    const dualApp = express()
+    dualApp.use(x402PaymentMiddleware({
+      facilitator: dual,
+      routes: {
+        'GET /hbar': { amount: '1', network: 'hedera-testnet' },
+        'GET /usdc': { amount: '0.01', network: 'base-sepolia' }
+      }
+    }))
+    dualApp.get('/hbar', (req, res) => res.json({ paidWith: res.locals.x402.txHash }))
+    dualApp.get('/usdc', (req, res) => res.json({ paidWith: res.locals.x402.txHash }))
+    const dualUrl = await listen(dualApp)
+
+    const hbarAccepts = (await (await fetch(`${dualUrl}/hbar`)).json() as any).accepts[0]
+    const usdcAccepts = (await (await fetch(`${dualUrl}/usdc`)).json() as any).accepts[0]
+    if (hbarAccepts.network !== 'hedera-testnet' || hbarAccepts.maxAmountRequired !== '100000000' || usdcAccepts.network !== 'base-sepolia') {
+      throw new Error(`Unexpected route requirements: ${hbarAccepts.network}, ${usdcAccepts.network}`)
+    }
+    const hbarHeader = Buffer.from(JSON.stringify({
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'hedera-testnet',
+      payload: { transaction: await createHederaPaymentTransaction(hbarAccepts, '0.0.1001', hederaPayerKey) }
+    })).toString('base64')
+    const paidHbar = await fetch(`${dualUrl}/hbar`, { headers: { 'X-PAYMENT': hbarHeader } })
+    const paidUsdc = await fetch(`${dualUrl}/usdc`, { headers: { 'X-PAYMENT': await payment(usdcAccepts, '10000') } })
+    if (paidHbar.status !== 200 || paidUsdc.status !== 200) throw new Error(`Paid routes failed: ${paidHbar.status}, ${paidUsdc.status}`)
+    if (executed.join(',') !== 'hedera:hedera-testnet,usdc:base-sepolia') throw new Error(`Wrong transfer paths: ${executed.join(', ')}`)
+    const networks = dualLedger.list().map(entry => `${entry.network}:${entry.status}`).sort()
+    if (networks.join(',') !== 'base-sepolia:confirmed,hedera-testnet:confirmed') throw new Error(`Wrong ledger networks: ${networks.join(', ')}`)
+    console.log(chalk.green(`✅ ${executed.join(' and ')} settled and recorded on their own networks`))
+
+    console.log(chalk.bold.green('\n✅ All x402 Middleware Unit Tests Passed!\n'))
+    servers.forEach(server => server.close())
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    servers.forEach(server => server.close())
+    process.exit(1)
+  }
+}
+
+// Run tests
+testX402Middleware()
@@ -0,0 +1,157 @@
+/**
+ * Unit Tests for x402 Payment Verification (No credentials required)
+ *
+ * Tests EIP-712 TransferWithAuthorization signature recovery, validity
+ * windows, the used-nonce store and settling through transferWithAuthorization
+ * on a mock USDC chain
+ */
+
+import { processPayment } from 'a2a-x402'
+import { ethers } from 'ethers'
+import { InMemorySettlementLedger } from '../../src/facilitator/SettlementLedger'
+import { InMemoryNonceStore, FileNonceStore, authorizationNonceKey } from '../../src/facilitator/NonceStore'
+import { getEvmNetwork } from '../../src/config/NetworkRegistry'
+import { MockUsdcChain } from './mock-usdc-chain'
+import chalk from 'chalk'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+process.env.BASE_RPC_URL = process.env.BASE_RPC_URL || 'http://127.0.0.1:8545'
+process.env.SETTLEMENT_WALLET_PRIVATE_KEY = process.env.SETTLEMENT_WALLET_PRIVATE_KEY || `0x${'11'.repeat(32)}`
+process.env.PAYMENT_NETWORK = 'base-sepolia'
+
+const encode = (payload: any) => Buffer.from(JSON.stringify(payload)).toString('base64')
+
+async function testX402Verification() {
+  console.log(chalk.bold.cyan('\n🧪 Unit Testing x402 Payment Verification (No credentials required)\n'))
+
+  const { X402FacilitatorServer } = await import('../../src/facilitator/X402FacilitatorServer')
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'x402-nonces-'))
+
+  const nonces = new InMemoryNonceStore()
+  const facilitator = new X402FacilitatorServer(new InMemorySettlementLedger(), nonces)
+  const payer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+  const requirements = {
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: '1000000',
+    resource: '/premium',
+    payTo: '0x1234567890123456789012345678901234567890',
+    asset: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    maxTimeoutSeconds: 120
+  }
+
+  try {
+    // Test 1: EIP-712 signature recovery
+    console.log(chalk.blue('\n📝 Test 1: EIP-712 TransferWithAuthorization'))
+    const payment = await processPayment(requirements as any, payer) as any
+    const valid = await facilitator.verify(encode(payment), requirements)
+    if (!valid.isValid) throw new Error(`Valid payment rejected: ${valid.invalidReason}`)
+
+    const raised = structuredClone(payment)
+    raised.payload.authorization.value = '2000000'
+    const raisedResult = await facilitator.verify(encode(raised), { ...requirements, maxAmountRequired: '2000000' })
+    if (raisedResult.isValid || !raisedResult.invalidReason.includes('Signature is from')) throw new Error('Tampered amount accepted')
+
+    const forged = structuredClone(payment)
+    forged.payload.authorization.from = '0x9999999999999999999999999999999999999999'
+    if ((await facilitator.verify(encode(forged), requirements)).isValid) throw new Error('Forged payer accepted')
+
+    const otherAsset = await facilitator.verify(encode(payment), { ...requirements, asset: '0x0000000000000000000000000000000000000001' })
+    if (otherAsset.isValid) throw new Error('Signature for another token accepted')
+
+    const unsigned = structuredClone(payment)
+    delete unsigned.payload.signature
+    if ((await facilitator.verify(encode(unsigned), requirements)).invalidReason !== 'No signature found') throw new Error('Unsigned payment accepted')
+    console.log(chalk.green(`✅ Signer recovered; ${raisedResult.invalidReason}`))
+
+    // Test 2: Validity window
+    console.log(chalk.blue('\n📝 Test 2: validAfter / validBefore'))
+    const early = structuredClone(payment)
+    early.payload.authorization.validAfter = Math.floor(Date.now() / 1000) + 3600
+    const earlyResult = await facilitator.verify(encode(early), requirements)
+    if (earlyResult.invalidReason !== 'Payment not yet valid') throw new Error(`validAfter ignored: ${earlyResult.invalidReason}`)
+    const late = structuredClone(payment)
+    late.payload.authorization.validBefore = Math.floor(Date.now() / 1000) - 1
+    if ((await facilitator.verify(encode(late), requirements)).invalidReason !== 'Payment expired') throw new Error('validBefore ignored')
+    console.log(chalk.green(`✅ Not-yet-valid and expired authorizations rejected`))
+
+    // Test 3: Nonces are claimed by settlement
+    console.log(chalk.blue('\n📝 Test 3: Used-nonce store'))
+    const transfers: string[] = []
+    ;(facilitator as any).executeUSDCTransfer = async () => {
+      transfers.push('0xsettled')
+      return '0xsettled'
+    }
+    const settled = await facilitator.settle(encode(payment), requirements)
+    if (!settled.success || transfers.length !== 1) throw new Error(`Settlement failed: ${settled.error}`)
+    if (!nonces.isUsed(authorizationNonceKey(payment)!)) throw new Error('Nonce not recorded')
+
+    const reverify = await facilitator.verify(encode(payment), requirements)
+    if (reverify.isValid || reverify.invalidReason !== 'Authorization nonce already used') throw new Error('Used authorization verified again')
+    const resettle = await facilitator.settle(encode(payment), requirements, 'another-key')
+    if (resettle.success || transfers.length !== 1) throw new Error('Used authorization settled again')
+    console.log(chalk.green(`✅ ${resettle.error}`))
+
+    // A transfer that never happened releases its nonce
+    const retryable = await processPayment(requirements as any, payer) as any
+    ;(facilitator as any).executeUSDCTransfer = async () => null
+    const failed = await facilitator.settle(encode(retryable), requirements)
+    if (failed.success || nonces.isUsed(authorizationNonceKey(retryable)!)) throw new Error('Failed settlement kept its nonce')
+    if (!(await facilitator.verify(encode(retryable), requirements)).isValid) throw new Error('Released authorization not verifiable')
+    console.log(chalk.green(`✅ Failed settlement released its nonce`))
+
+    // Test 4: Persistence and pruning
+    console.log(chalk.blue('\n📝 Test 4: FileNonceStore'))
+    const filePath = path.join(stateDir, 'nonces.json')
+    const store = new FileNonceStore(filePath)
+    store.markUsed('base-sepolia:0xa:0x1', Date.now() + 60_000)
+    store.markUsed('base-sepolia:0xa:0x2', Date.now() - 1)
+    const reloaded = new FileNonceStore(filePath)
+    if (!reloaded.isUsed('base-sepolia:0xa:0x1') || reloaded.isUsed('base-sepolia:0xa:0x2')) throw new Error('Nonces not persisted')
+    if (reloaded.markUsed('base-sepolia:0xa:0x1', Date.now() + 60_000)) throw new Error('Nonce claimed twice')
+    reloaded.markUsed('base-sepolia:0xa:0x3', Date.now() + 60_000)
+    if ('base-sepolia:0xa:0x2' in JSON.parse(fs.readFileSync(filePath, 'utf8'))) throw new Error('Expired nonce not pruned')
+    console.log(chalk.green(`✅ Nonces persisted, expired nonces pruned`))
+
+    // Test 5: Settlement spends the payer's authorization
+    console.log(chalk.blue('\n📝 Test 5: transferWithAuthorization'))
+    const chain = new MockUsdcChain(requirements.asset, getEvmNetwork('base-sepolia').usdcDomain)
+    const onChain = new X402FacilitatorServer(new InMemorySettlementLedger(), new InMemoryNonceStore())
+    ;(onChain as any).provider = chain
+    ;(onChain as any).wallet = (onChain as any).wallet.connect(chain)
+    const facilitatorAddress = (onChain as any).wallet.address
+    chain.mint(payer.address, 5_000_000n)
+
+    const onChainPayment = await processPayment(requirements as any, payer) as any
+    const transferred = await onChain.settle(encode(onChainPayment), requirements)
+    if (!transferred.success) throw new Error(`Settlement failed: ${transferred.error}`)
+    const [transaction] = chain.transactions
+    if (chain.transactions.length !== 1 || transaction!.method !== 'transferWithAuthorization' || transaction!.status !== 1) {
+      throw new Error(`Unexpected transactions: ${JSON.stringify(chain.transactions)}`)
+    }
+    if (transaction!.from !== facilitatorAddress || transferred.txHash !== transaction!.hash) throw new Error('Not submitted by the facilitator')
+    if (chain.balanceOf(payer.address) !== 4_000_000n || chain.balanceOf(requirements.payTo) !== 1_000_000n) {
+      throw new Error(`Wrong balances: payer ${chain.balanceOf(payer.address)}, merchant ${chain.balanceOf(requirements.payTo)}`)
+    }
+    if (chain.balanceOf(facilitatorAddress) !== 0n) throw new Error('Facilitator wallet paid')
+
+    const brokePayer = new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+    const unfunded = await onChain.settle(encode(await processPayment(requirements as any, brokePayer)), requirements)
+    if (unfunded.success || chain.transactions.length !== 1) throw new Error('Payment without payer funds submitted')
+    console.log(chalk.green(`✅ 1 USDC moved from the payer to the merchant in ${transaction!.hash.slice(0, 10)}…; facilitator only paid gas`))
+
+    console.log(chalk.bold.green('\n✅ All x402 Verification Unit Tests Passed!\n'))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(0)
+
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Test failed: ${(error as Error).message}\n`))
+    fs.rmSync(stateDir, { recursive: true, force: true })
+    process.exit(1)
+  }
+}
+
+// Run tests
+testX402Verification()